@@ -39,6 +39,10 @@ contract DeployWithLightning is Script {
         bridge = address(bridgeContract);
         console.log("LightningBridge deployed at:", bridge);
         
+        // Register the resolver that confirms Lightning payments
+        bridgeContract.setResolver(resolver);
+        console.log("Resolver set in bridge:", resolver);
+        
         vm.stopBroadcast();
         
         // Save deployment addresses
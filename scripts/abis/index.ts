@@ -1,9 +1,9 @@
 // Auto-generated ABI exports
-import SimpleEscrowABI from "./SimpleEscrow.json" assert { type: "json" };
-import SimpleEscrowFactoryABI from "./SimpleEscrowFactory.json" assert { type: "json" };
-import MockERC20ABI from "./MockERC20.json" assert { type: "json" };
-import OneInchAdapterABI from "./OneInchAdapter.json" assert { type: "json" };
-import LightningBridgeABI from "./LightningBridge.json" assert { type: "json" };
+import SimpleEscrowABI from "./SimpleEscrow.json" with { type: "json" };
+import SimpleEscrowFactoryABI from "./SimpleEscrowFactory.json" with { type: "json" };
+import MockERC20ABI from "./MockERC20.json" with { type: "json" };
+import OneInchAdapterABI from "./OneInchAdapter.json" with { type: "json" };
+import LightningBridgeABI from "./LightningBridge.json" with { type: "json" };
 
 export {
   SimpleEscrowABI,
@@ -17,3 +17,10 @@ export {
 export const ERC20_ABI = MockERC20ABI;
 export const FACTORY_ABI = SimpleEscrowFactoryABI;
 export const ESCROW_ABI = SimpleEscrowABI;
+
+// Typed (`as const`) ABIs for viem type inference
+export { SimpleEscrowAbi } from "./SimpleEscrow.abi.ts";
+export { SimpleEscrowFactoryAbi } from "./SimpleEscrowFactory.abi.ts";
+export { MockERC20Abi } from "./MockERC20.abi.ts";
+export { OneInchAdapterAbi } from "./OneInchAdapter.abi.ts";
+export { LightningBridgeAbi } from "./LightningBridge.abi.ts";
@@ -0,0 +1,313 @@
+// Anvil fixtures
+// Throwaway Anvil chains for tests: each one is started on a free port and stopped afterwards.
+// deployContracts() puts MockERC20, SimpleEscrowFactory, OneInchAdapter (with
+// test/mocks/MockLimitOrderProtocol) and LightningBridge on a chain from the forge artifacts, and
+// SwapFixture does that on two chains with Alice, Bob and the resolver funded. Tests isolate
+// themselves with snapshot/revert and move time with evm_increaseTime + evm_mine, so refund and
+// expiry paths run for real. Needs `anvil` on the PATH and `forge build` output in ../out.
+
+import {
+  type Account,
+  type Address,
+  type Chain,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  type Hex,
+  http,
+  type LocalAccount,
+  type PublicClient,
+  type TestClient,
+} from "viem";
+import { mnemonicToAccount } from "viem/accounts";
+import { LightningBridgeAbi, MockERC20Abi, SimpleEscrowFactoryAbi } from "./abis/index.ts";
+import { confirm, deploy, loadArtifact } from "./lop-harness.ts";
+import {
+  ANVIL_MNEMONIC,
+  type ChainEntry,
+  ChainRegistry,
+  customChain,
+  TransactionManager,
+} from "./sdk/index.ts";
+
+export interface AnvilOptions {
+  chainId?: number; // default 31337
+  port?: number; // default a free port
+  anvilPath?: string; // default `anvil` from the PATH
+  startTimeout?: number; // ms to wait for the RPC to answer, default 10 seconds
+}
+
+export interface FixtureContracts {
+  token: Address; // MockERC20 "USDC" with 6 decimals
+  factory: Address;
+  adapter: Address;
+  limitOrderProtocol: Address;
+  bridge: Address;
+}
+
+export interface DeployOptions {
+  owner: Account; // deployer and owner of every contract
+  resolver?: Address; // registered on the LightningBridge
+  holders?: Address[]; // minted `balance` tokens each
+  balance?: bigint; // default 1,000,000 USDC
+  outDir?: string;
+}
+
+export interface FixtureChain {
+  anvil: AnvilChain;
+  contracts: FixtureContracts;
+}
+
+export interface SwapFixtureOptions {
+  chainIds?: [number, number]; // source and destination, default 31337 and 31338
+  balance?: bigint; // tokens minted to Alice, Bob and the resolver on both chains
+  outDir?: string;
+  anvilPath?: string;
+}
+
+const DEFAULT_CHAIN_ID = 31337;
+const DEFAULT_START_TIMEOUT = 10_000;
+const DEFAULT_BALANCE = 1_000_000n * 10n ** 6n;
+const POLLING_INTERVAL = 100; // Anvil mines on every transaction, so receipts are polled eagerly
+const CACHE_TIME = 0; // reverts move the head backwards, so a cached block number can be ahead of it
+
+function freePort(): number {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  listener.close();
+  return port;
+}
+
+export class AnvilChain {
+  readonly client: PublicClient;
+  readonly test: TestClient<"anvil">;
+
+  private constructor(readonly chain: Chain, readonly rpcUrl: string, private readonly child: Deno.ChildProcess) {
+    const transport = http(rpcUrl);
+    this.client = createPublicClient({ chain, transport, pollingInterval: POLLING_INTERVAL, cacheTime: CACHE_TIME });
+    this.test = createTestClient({ chain, mode: "anvil", transport, pollingInterval: POLLING_INTERVAL });
+  }
+
+  // Start Anvil and wait until its RPC answers
+  static async start(options: AnvilOptions = {}): Promise<AnvilChain> {
+    const chainId = options.chainId ?? DEFAULT_CHAIN_ID;
+    const port = options.port ?? freePort();
+    const rpcUrl = `http://127.0.0.1:${port}`;
+    let child: Deno.ChildProcess;
+    try {
+      child = new Deno.Command(options.anvilPath ?? "anvil", {
+        args: ["--port", String(port), "--chain-id", String(chainId), "--silent"],
+        stdout: "null",
+        stderr: "null",
+      }).spawn();
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        throw new Error(
+          "anvil is not on the PATH: install Foundry (https://getfoundry.sh) or set SKIP_INTEGRATION=true",
+        );
+      }
+      throw error;
+    }
+
+    const anvil = new AnvilChain(customChain(chainId, `anvil-${chainId}`, rpcUrl), rpcUrl, child);
+    let exit: Deno.CommandStatus | undefined;
+    child.status.then((status) => exit = status);
+    const deadline = Date.now() + (options.startTimeout ?? DEFAULT_START_TIMEOUT);
+    while (true) {
+      try {
+        await anvil.client.getChainId();
+        return anvil;
+      } catch (error) {
+        if (exit) throw new Error(`anvil exited with code ${exit.code} before listening on port ${port}`);
+        if (Date.now() > deadline) {
+          await anvil.stop();
+          throw new Error(`anvil did not answer on ${rpcUrl}: ${error instanceof Error ? error.message : error}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL));
+      }
+    }
+  }
+
+  get chainId(): number {
+    return this.chain.id;
+  }
+
+  walletClient(account: Account) {
+    return createWalletClient({ account, chain: this.chain, transport: http(this.rpcUrl) });
+  }
+
+  // Snapshot of the whole chain state. Reverting to it consumes it, so take a new one each time.
+  snapshot(): Promise<Hex> {
+    return this.test.snapshot();
+  }
+
+  revert(id: Hex): Promise<void> {
+    return this.test.revert({ id });
+  }
+
+  // Move the clock forward and mine a block, so the next call sees the new timestamp
+  async increaseTime(seconds: number | bigint): Promise<void> {
+    await this.test.increaseTime({ seconds: Number(seconds) });
+    await this.test.mine({ blocks: 1 });
+  }
+
+  mine(blocks = 1): Promise<void> {
+    return this.test.mine({ blocks });
+  }
+
+  // Timestamp of the latest block, which is what `block.timestamp` is compared against
+  async timestamp(): Promise<bigint> {
+    return (await this.client.getBlock()).timestamp;
+  }
+
+  async stop(): Promise<void> {
+    try {
+      this.child.kill("SIGTERM");
+    } catch {
+      // Already exited
+    }
+    await this.child.status;
+  }
+}
+
+// Fresh swap contracts on `anvil`
+export async function deployContracts(anvil: AnvilChain, options: DeployOptions): Promise<FixtureContracts> {
+  const { client } = anvil;
+  const owner = anvil.walletClient(options.owner);
+  const [erc20, factoryArtifact, adapterArtifact, lopArtifact, bridgeArtifact] = await Promise.all(
+    ["MockERC20", "SimpleEscrowFactory", "OneInchAdapter", "MockLimitOrderProtocol", "LightningBridge"].map((name) =>
+      loadArtifact(name, options.outDir)
+    ),
+  );
+
+  const token = await deploy(client, owner, erc20, "token", ["Mock USDC", "USDC", 6, 0n]);
+  const limitOrderProtocol = await deploy(client, owner, lopArtifact, "MockLimitOrderProtocol");
+  const factory = await deploy(client, owner, factoryArtifact, "SimpleEscrowFactory", [
+    "0x0000000000000000000000000000000000000000",
+  ]);
+  const adapter = await deploy(client, owner, adapterArtifact, "OneInchAdapter", [factory, limitOrderProtocol]);
+  const bridge = await deploy(client, owner, bridgeArtifact, "LightningBridge", [factory]);
+
+  await confirm(
+    client,
+    await owner.writeContract({
+      address: factory,
+      abi: SimpleEscrowFactoryAbi,
+      functionName: "setOneInchAdapter",
+      args: [adapter],
+    }),
+    "setOneInchAdapter",
+  );
+  if (options.resolver) {
+    await confirm(
+      client,
+      await owner.writeContract({
+        address: bridge,
+        abi: LightningBridgeAbi,
+        functionName: "setResolver",
+        args: [options.resolver],
+      }),
+      "setResolver",
+    );
+  }
+  for (const holder of options.holders ?? []) {
+    await confirm(
+      client,
+      await owner.writeContract({
+        address: token,
+        abi: MockERC20Abi,
+        functionName: "mint",
+        args: [holder, options.balance ?? DEFAULT_BALANCE],
+      }),
+      "mint",
+    );
+  }
+
+  return { token, factory, adapter, limitOrderProtocol, bridge };
+}
+
+// Two Anvil chains with the swap contracts deployed and Anvil accounts 0-2 (the default Alice, Bob
+// and resolver keys) holding tokens on both. The registry knows both chains, so SDK code written
+// against getRegistry() runs unchanged.
+export class SwapFixture {
+  readonly registry: ChainRegistry;
+
+  private constructor(
+    readonly source: FixtureChain,
+    readonly destination: FixtureChain,
+    readonly accounts: { alice: LocalAccount; bob: LocalAccount; resolver: LocalAccount },
+  ) {
+    const entry = ({ anvil, contracts }: FixtureChain): ChainEntry => ({
+      key: anvil.chain.name,
+      chain: anvil.chain,
+      rpcUrl: anvil.rpcUrl,
+      contracts: { factory: contracts.factory, adapter: contracts.adapter, bridge: contracts.bridge },
+      tokens: [{ symbol: "USDC", address: contracts.token, decimals: 6 }],
+      anvil: true,
+    });
+    this.registry = new ChainRegistry(
+      [entry(source), entry(destination)],
+      new TransactionManager({ pollingInterval: POLLING_INTERVAL }),
+    );
+  }
+
+  static async start(options: SwapFixtureOptions = {}): Promise<SwapFixture> {
+    const [alice, bob, resolver] = [0, 1, 2].map((addressIndex) => mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex }));
+    const holders = [alice.address, bob.address, resolver.address];
+    const chains: AnvilChain[] = [];
+    try {
+      for (const chainId of options.chainIds ?? [DEFAULT_CHAIN_ID, DEFAULT_CHAIN_ID + 1]) {
+        chains.push(await AnvilChain.start({ chainId, anvilPath: options.anvilPath }));
+      }
+      const [source, destination] = await Promise.all(chains.map(async (anvil) => ({
+        anvil,
+        contracts: await deployContracts(anvil, {
+          owner: alice,
+          resolver: resolver.address,
+          holders,
+          balance: options.balance,
+          outDir: options.outDir,
+        }),
+      })));
+      return new SwapFixture(source, destination, { alice, bob, resolver });
+    } catch (error) {
+      await Promise.all(chains.map((anvil) => anvil.stop()));
+      throw error;
+    }
+  }
+
+  get chains(): FixtureChain[] {
+    return [this.source, this.destination];
+  }
+
+  // Snapshot both chains; the returned function reverts them to it (once)
+  async snapshot(): Promise<() => Promise<void>> {
+    const ids = await Promise.all(this.chains.map(({ anvil }) => anvil.snapshot()));
+    return async () => {
+      await Promise.all(this.chains.map(({ anvil }, i) => anvil.revert(ids[i])));
+      // Nonces cached for transactions the revert dropped would leave gaps
+      this.registry.transactions.reset();
+    };
+  }
+
+  // `test` run against the current state and rolled back afterwards, for t.step()
+  isolated(test: () => Promise<void>): () => Promise<void> {
+    return async () => {
+      const restore = await this.snapshot();
+      try {
+        await test();
+      } finally {
+        await restore();
+      }
+    };
+  }
+
+  // Move both clocks forward, as real time would
+  async increaseTime(seconds: number | bigint): Promise<void> {
+    await Promise.all(this.chains.map(({ anvil }) => anvil.increaseTime(seconds)));
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.chains.map(({ anvil }) => anvil.stop()));
+  }
+}
@@ -0,0 +1,302 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { type Address, decodeFunctionData, erc20Abi, getAddress, type Hex, pad, type PublicClient, toHex } from "viem";
+import { SimpleEscrowAbi, SimpleEscrowFactoryAbi } from "./abis/index.ts";
+import { SwapFixture } from "./anvil-fixture.ts";
+import {
+  type ApiChain,
+  ApiError,
+  escrowHashlock,
+  generatePreimage,
+  planTimelocks,
+  SwapApi,
+  type SwapPlan,
+  type UnsignedTransaction,
+} from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const HASHLOCK = ("0x" + "ab".repeat(32)) as Hex;
+const SALT = ("0x" + "5a".repeat(32)) as Hex;
+const at = (n: number) => getAddress(pad(toHex(n), { size: 20 }));
+const FACTORY = at(0xfac);
+const USDC = at(0x05dc);
+const ESCROW = at(0xe5c);
+const NOW = 1_000_000n;
+
+// Answers the factory and escrow reads the API makes; every escrow is ESCROW, created at block 4100
+function fakeClient(ranges: [bigint, bigint][] = []): PublicClient {
+  const logs = [
+    { blockNumber: 4_100n, args: { escrow: ESCROW, hashlock: HASHLOCK } },
+    { blockNumber: 10n, args: { escrow: at(0xbad), hashlock: SALT } },
+  ];
+  return {
+    getBlock: () => Promise.resolve({ timestamp: NOW }),
+    getBlockNumber: () => Promise.resolve(4_500n),
+    getCode: ({ address }: { address: Address }) => Promise.resolve(address === ESCROW ? "0x60" : undefined),
+    getContractEvents: ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      ranges.push([fromBlock, toBlock]);
+      return Promise.resolve(logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock));
+    },
+    readContract: ({ functionName }: { functionName: string }) => {
+      const results: Record<string, unknown> = {
+        decimals: 6,
+        symbol: "USDC",
+        computeEscrowAddress: ESCROW,
+        isEscrowDeployed: false,
+        canWithdraw: true,
+        canRefund: false,
+        getDetails: {
+          token: USDC,
+          sender: ALICE,
+          recipient: BOB,
+          hashlock: HASHLOCK,
+          timelock: NOW + 600n,
+          amount: 5n,
+          funded: true,
+          withdrawn: false,
+          refunded: false,
+          preimage: pad("0x0", { size: 32 }),
+        },
+      };
+      return Promise.resolve(results[functionName]);
+    },
+  } as unknown as PublicClient;
+}
+
+function fakeApi(): SwapApi {
+  const chain = (chainId: number, name: string, blockTime: number): ApiChain => ({
+    chainId,
+    name,
+    client: fakeClient(),
+    factory: FACTORY,
+    tokens: [{ symbol: "USDC", address: USDC, decimals: 6 }],
+    timing: { blockTime, confirmations: 2 },
+  });
+  return new SwapApi([chain(1, "base", 2), chain(2, "etherlink", 5)]);
+}
+
+async function request(api: SwapApi, method: string, path: string, body?: unknown) {
+  const response = await api.handle(
+    new Request(`http://api.test${path}`, { method, body: body === undefined ? undefined : JSON.stringify(body) }),
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test("API - quotes and plans swaps from each chain's timing", async () => {
+  const api = fakeApi();
+  const swap = {
+    sourceChainId: 1,
+    destinationChainId: 2,
+    sourceToken: "usdc",
+    destinationToken: USDC,
+    sourceAmount: "2500000",
+    destinationAmount: "2400000",
+  };
+  const timelocks = planTimelocks(NOW, {
+    source: { blockTime: 2, confirmations: 2 },
+    destination: { blockTime: 5, confirmations: 2 },
+  });
+
+  const quote = await request(api, "POST", "/quote", swap);
+  assertEquals(quote.status, 200);
+  assertEquals(quote.body.source.formatted, "2.5");
+  assertEquals(quote.body.destination.token.symbol, "USDC");
+  assertEquals([quote.body.source.timelock, quote.body.destination.timelock], [
+    timelocks.source.toString(),
+    timelocks.destination.toString(),
+  ]);
+
+  const parties = { initiator: ALICE, responder: BOB, hashlock: HASHLOCK, sourceSalt: SALT };
+  const plan = await api.call("plan", { ...swap, ...parties });
+  const { source, destination } = (plan as SwapPlan).legs;
+  assertEquals([source.escrow.sender, source.escrow.recipient, source.escrow.salt], [ALICE, BOB, SALT]);
+  assertEquals([destination.escrow.sender, destination.escrow.recipient], [BOB, ALICE]);
+  assertEquals([source.address, source.amount.toString()], [ESCROW, "2.5 USDC"]);
+  assertEquals(destination.escrow.timelock, timelocks.destination);
+
+  const unknownToken = await request(api, "POST", "/quote", { ...swap, sourceToken: "DAI" });
+  assertEquals(unknownToken, {
+    status: 400,
+    body: { error: { code: "invalid_params", message: "Token DAI is not registered on chain 1" } },
+  });
+
+  const mixed = await request(api, "POST", "/quote", { ...swap, destinationContract: "LightningBridge" });
+  assertEquals(mixed.status, 400);
+  assertEquals(
+    mixed.body.error.message,
+    "Route mixes hashlock schemes: source SimpleEscrow on chain 1 (keccak256) vs " +
+      "destination LightningBridge on chain 2 (sha256)",
+  );
+  const unknownContract = await request(api, "POST", "/quote", { ...swap, sourceContract: "Escrow" });
+  assertEquals(unknownContract.body.error.message, "sourceContract must be SimpleEscrow or LightningBridge");
+  const bridged = { ...swap, ...parties, sourceContract: "LightningBridge", destinationContract: "LightningBridge" };
+  const lightning = await request(api, "POST", "/plan", bridged);
+  assertEquals(lightning.body.error.message, "Only SimpleEscrow legs can be planned, not LightningBridge");
+});
+
+Deno.test("API - builds unsigned transactions from validated parameters", async () => {
+  const api = fakeApi();
+  const escrow = {
+    chainId: 1,
+    token: USDC,
+    sender: ALICE,
+    recipient: BOB,
+    hashlock: HASHLOCK,
+    timelock: "99",
+    salt: SALT,
+  };
+
+  const create = await api.call("createTransaction", { ...escrow, amount: "7" }) as UnsignedTransaction & {
+    escrow: Address;
+  };
+  assertEquals([create.chainId, create.to, create.value, create.escrow], [1, FACTORY, 0n, ESCROW]);
+  assertEquals(decodeFunctionData({ abi: SimpleEscrowFactoryAbi, data: create.data }), {
+    functionName: "createEscrowWithFunding",
+    args: [USDC, ALICE, BOB, HASHLOCK, 99n, SALT, 7n],
+  });
+  const unfunded = await api.call("createTransaction", escrow) as UnsignedTransaction;
+  assertEquals(decodeFunctionData({ abi: SimpleEscrowFactoryAbi, data: unfunded.data }).functionName, "createEscrow");
+
+  const approve = await api.call("approveTransaction", { chainId: 2, token: USDC, spender: FACTORY, amount: "7" });
+  assertEquals(decodeFunctionData({ abi: erc20Abi, data: (approve as UnsignedTransaction).data }).args, [FACTORY, 7n]);
+  const withdraw = await request(api, "POST", "/tx/withdraw", { chainId: 1, escrow: ESCROW, preimage: SALT });
+  assertEquals(withdraw.body.to, ESCROW);
+  assertEquals(decodeFunctionData({ abi: SimpleEscrowAbi, data: withdraw.body.data }).args, [SALT]);
+
+  const refused = (params: Record<string, unknown>) =>
+    assertRejects(() => api.call("refundTransaction", params), ApiError);
+  assertEquals((await refused({ chainId: 1 })).message, "Missing parameter escrow");
+  assertEquals((await refused({ chainId: 1, escrow: "0x1234" })).message, "escrow must be an address");
+  assertEquals((await refused({ chainId: 9, escrow: ESCROW })).status, 404);
+  assertEquals(await api.call("escrowAddress", escrow), { chainId: 1, address: ESCROW, deployed: false });
+});
+
+Deno.test("API - reports escrow state over HTTP routes and JSON-RPC batches", async () => {
+  const api = fakeApi();
+  const escrow = await request(api, "GET", `/escrows/1/${ESCROW.toLowerCase()}`);
+  assertEquals(escrow.status, 200);
+  assertEquals([escrow.body.address, escrow.body.state, escrow.body.timeLeft], [ESCROW, "funded", "600"]);
+  assertEquals([escrow.body.canWithdraw, escrow.body.canRefund, escrow.body.details.amount], [true, false, "5"]);
+
+  const byHashlock = await request(api, "GET", `/escrows?hashlock=${HASHLOCK}&chainId=2`);
+  assertEquals(byHashlock.body.map((found: { chainId: number }) => found.chainId), [2]);
+  assertEquals((await request(api, "GET", `/escrows/1/${at(0xbad)}`)).status, 404);
+  assertEquals((await request(api, "GET", "/nowhere")).status, 404);
+
+  const rpc = await request(api, "POST", "/rpc", [
+    { jsonrpc: "2.0", id: 1, method: "escrow", params: { chainId: 1, escrow: ESCROW } },
+    { jsonrpc: "2.0", id: 2, method: "refundTransaction", params: { chainId: 1 } },
+    { jsonrpc: "2.0", id: 3, method: "mint" },
+    { jsonrpc: "2.0", id: 4, method: "chains", params: [1] },
+  ]);
+  assertEquals(rpc.body[0].result.state, "funded");
+  assertEquals(rpc.body.slice(1).map((answer: { error: { code: number } }) => answer.error.code), [
+    -32602,
+    -32601,
+    -32600,
+  ]);
+});
+
+Deno.test("API - scans factory logs for a hashlock in bounded block ranges", async () => {
+  const ranges: [bigint, bigint][] = [];
+  const api = new SwapApi([{ chainId: 1, name: "base", client: fakeClient(ranges), factory: FACTORY, fromBlock: 5n }]);
+  const found = await api.call("escrowsByHashlock", { hashlock: HASHLOCK }) as { address: Address }[];
+  assertEquals(found.map((escrow) => escrow.address), [ESCROW]);
+  assertEquals(ranges, [[5n, 2_004n], [2_005n, 4_004n], [4_005n, 4_500n]]);
+});
+
+Deno.test("API - OpenAPI document describes every operation", () => {
+  const api = fakeApi();
+  const document = api.openApi() as { paths: Record<string, Record<string, Record<string, unknown>>> };
+  const operationIds = Object.values(document.paths).flatMap((path) =>
+    Object.values(path).map((operation) => operation.operationId)
+  );
+  assertEquals(operationIds.sort(), [...api.operations.map((operation) => operation.name), "rpc"].sort());
+
+  const escrow = document.paths["/escrows/{chainId}/{escrow}"].get;
+  assertEquals((escrow.parameters as { name: string; in: string }[]).map((p) => [p.name, p.in]), [
+    ["chainId", "path"],
+    ["escrow", "path"],
+  ]);
+  const create = document.paths["/tx/create"].post.requestBody as {
+    content: { "application/json": { schema: { required: string[] } } };
+  };
+  assertEquals(create.content["application/json"].schema.required, [
+    "chainId",
+    "token",
+    "sender",
+    "recipient",
+    "hashlock",
+    "timelock",
+    "salt",
+  ]);
+});
+
+// Needs Anvil on the source chain's RPC and `forge build` output in ../out
+const ignore = Deno.env.get("SKIP_INTEGRATION") === "true";
+
+Deno.test("API - drives an escrow from plan to withdrawal on Anvil", { ignore }, async () => {
+  const fixture = await SwapFixture.start();
+  try {
+    const { anvil: { chainId, client }, contracts } = fixture.source;
+    const { alice, bob } = fixture.accounts;
+    const api = new SwapApi([{
+      chainId,
+      name: "anvil",
+      client,
+      factory: contracts.factory,
+      bridge: contracts.bridge,
+      tokens: [{ symbol: "USDC", address: contracts.token, decimals: 6 }],
+    }]);
+    const initiator = alice.address;
+    const responder = bob.address;
+    const preimage = generatePreimage();
+    const hashlock = escrowHashlock(preimage);
+    const send = async (tx: UnsignedTransaction, account = alice) => {
+      const signer = fixture.registry.walletClient(chainId, account);
+      const hash = await signer.sendTransaction({ chain: signer.chain, to: tx.to, data: tx.data, value: tx.value });
+      assertEquals((await client.waitForTransactionReceipt({ hash })).status, "success");
+    };
+
+    const plan = await api.call("plan", {
+      sourceChainId: chainId,
+      destinationChainId: chainId,
+      sourceToken: "USDC",
+      destinationToken: "USDC",
+      sourceAmount: "1000000",
+      destinationAmount: "1000000",
+      initiator,
+      responder,
+      hashlock,
+    }) as SwapPlan;
+    const { source } = plan.legs;
+    const escrowParams = { chainId, ...source.escrow, timelock: source.escrow.timelock.toString() };
+
+    await send(await api.call("approveTransaction", {
+      chainId,
+      token: contracts.token,
+      spender: contracts.factory,
+      amount: "1000000",
+    }) as UnsignedTransaction);
+    const funding = { ...escrowParams, amount: "1000000" };
+    const create = await api.call("createTransaction", funding) as UnsignedTransaction & { escrow: Address };
+    assertEquals(create.escrow, source.address);
+    await send(create);
+    assertEquals(await api.call("escrowAddress", escrowParams), { chainId, address: source.address, deployed: true });
+
+    const funded = await request(api, "GET", `/escrows?hashlock=${hashlock}`);
+    const found = funded.body.map((escrow: { address: Address; state: string }) => [escrow.address, escrow.state]);
+    assertEquals(found, [[source.address, "funded"]]);
+
+    await send(
+      await api.call("withdrawTransaction", { chainId, escrow: source.address, preimage }) as UnsignedTransaction,
+      bob,
+    );
+    const withdrawn = await request(api, "GET", `/escrows/${chainId}/${source.address}`);
+    assertEquals([withdrawn.body.state, withdrawn.body.details.preimage], ["withdrawn", preimage]);
+    const status = await request(api, "GET", `/status/${responder}`);
+    assertEquals(status.body.chains[0].escrows.length, 1);
+  } finally {
+    await fixture.stop();
+  }
+});
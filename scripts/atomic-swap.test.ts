@@ -1,168 +1,207 @@
-import { assertEquals, assertExists, assertRejects } from "@std/assert";
-import { 
-  createPublicClient, 
-  createWalletClient, 
-  http, 
-  parseUnits,
-  formatUnits,
-  encodeAbiParameters,
-  keccak256,
-  type Address,
-  type Hex,
-  type Abi
-} from "viem";
-import { privateKeyToAccount } from "viem/accounts";
-import { config } from "./config.ts";
-
-// Test utilities
-async function loadABI(contractName: string): Promise<Abi> {
-  const abiPath = `./abis/${contractName}.abi.json`;
-  const abiContent = await Deno.readTextFile(abiPath);
-  return JSON.parse(abiContent) as Abi;
-}
+import { assertEquals, assertRejects } from "@std/assert";
+import { type Abi, type Address, encodeAbiParameters, keccak256, type LocalAccount, parseUnits } from "viem";
+import { MockERC20Abi, SimpleEscrowAbi, SimpleEscrowFactoryAbi } from "./abis/index.ts";
+import { type FixtureChain, SwapFixture } from "./anvil-fixture.ts";
+import {
+  ContractRevertError,
+  createSecret,
+  EscrowFactoryClient,
+  escrowHashlock,
+  type EscrowParams,
+  generatePreimage,
+  generateSalt,
+  planTimelocks,
+  SwapOrchestrator,
+  TokenClient,
+} from "./sdk/index.ts";
 
-// Test setup
-const alice = privateKeyToAccount(config.alicePrivateKey);
-const bob = privateKeyToAccount(config.bobPrivateKey);
-
-// Create clients
-const basePublicClient = createPublicClient({
-  transport: http(config.baseRpc),
-  chain: {
-    id: config.baseChainId,
-    name: 'Base Local',
-    network: 'base-local',
-    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-    rpcUrls: {
-      default: { http: [config.baseRpc] },
-      public: { http: [config.baseRpc] }
-    }
-  }
-});
+const ignore = Deno.env.get("SKIP_INTEGRATION") === "true";
+const BALANCE = parseUnits("1000000", 6);
+const AMOUNT = parseUnits("100", 6);
+const HOUR = 3600n;
 
-const etherlinkPublicClient = createPublicClient({
-  transport: http(config.etherlinkRpc),
-  chain: {
-    id: config.etherlinkChainId,
-    name: 'Etherlink Local',
-    network: 'etherlink-local',
-    nativeCurrency: { name: 'Tez', symbol: 'XTZ', decimals: 18 },
-    rpcUrls: {
-      default: { http: [config.etherlinkRpc] },
-      public: { http: [config.etherlinkRpc] }
-    }
-  }
-});
+// Funded escrow from `sender` to `recipient` on `chain`, expiring `lifetime` seconds after the
+// chain's current block
+async function lockEscrow(
+  fixture: SwapFixture,
+  { anvil, contracts }: FixtureChain,
+  sender: LocalAccount,
+  recipient: LocalAccount,
+  lifetime: bigint,
+) {
+  const { registry } = fixture;
+  const wallet = registry.walletClient(anvil.chainId, sender);
+  const token = new TokenClient(contracts.token, anvil.client, wallet);
+  await registry.transactions.confirm(anvil.client, await token.approve(contracts.factory, AMOUNT), "approve");
 
-Deno.test("Atomic Swap - Load ABIs", async () => {
-  const factoryAbi = await loadABI("SimpleEscrowFactory");
-  const escrowAbi = await loadABI("SimpleEscrow");
-  const erc20Abi = await loadABI("MockERC20");
-  
-  assertExists(factoryAbi);
-  assertExists(escrowAbi);
-  assertExists(erc20Abi);
-  
-  // Check ABI has expected functions
-  const factoryFunctions = (factoryAbi as any[]).filter(item => item.type === "function");
-  const createEscrowFn = factoryFunctions.find(fn => fn.name === "createEscrowWithFunding");
-  assertExists(createEscrowFn, "Factory should have createEscrowWithFunding function");
+  const preimage = generatePreimage();
+  const params: EscrowParams = {
+    token: contracts.token,
+    sender: sender.address,
+    recipient: recipient.address,
+    hashlock: escrowHashlock(preimage),
+    timelock: (await anvil.timestamp()) + lifetime,
+    salt: generateSalt(),
+  };
+  const factory = new EscrowFactoryClient(contracts.factory, anvil.client, wallet);
+  const { hash, escrow } = await factory.createWithFunding(params, AMOUNT);
+  await registry.transactions.confirm(anvil.client, hash, "createWithFunding");
+  return { preimage, params, escrow, token };
+}
+
+Deno.test("Atomic Swap - Load ABIs", () => {
+  const functions = (abi: Abi) => abi.filter((item) => item.type === "function").map((item) => item.name);
+
+  assertEquals(functions(SimpleEscrowFactoryAbi).includes("createEscrowWithFunding"), true);
+  assertEquals(functions(SimpleEscrowAbi).includes("refund"), true);
+  assertEquals(functions(SimpleEscrowAbi).includes("canRefund"), true);
+  assertEquals(functions(MockERC20Abi).includes("mint"), true);
 });
 
 Deno.test("Atomic Swap - Generate Hashlock", () => {
-  const secret = "atomicswapsecret123";
-  const preimage = keccak256("0x" + secret.split("").map(c => c.charCodeAt(0).toString(16).padStart(2, "0")).join("")) as Hex;
-  const hashlock = keccak256(encodeAbiParameters([{ type: "bytes32" }], [preimage]));
-  
+  const preimage = generatePreimage();
+  const hashlock = escrowHashlock(preimage);
+
   assertEquals(preimage.length, 66); // 0x + 64 chars
   assertEquals(hashlock.length, 66);
-  
+
   // Verify hashlock is deterministic
   const hashlock2 = keccak256(encodeAbiParameters([{ type: "bytes32" }], [preimage]));
   assertEquals(hashlock, hashlock2);
 });
 
-Deno.test("Atomic Swap - Connect to Chains", async () => {
-  // Test Base connection
-  const baseChainId = await basePublicClient.getChainId();
-  assertEquals(baseChainId, config.baseChainId);
-  
-  // Test Etherlink connection
-  const etherlinkChainId = await etherlinkPublicClient.getChainId();
-  assertEquals(etherlinkChainId, config.etherlinkChainId);
-  
-  // Test account balances (should have ETH from Anvil)
-  const aliceBalance = await basePublicClient.getBalance({ address: alice.address });
-  const bobBalance = await etherlinkPublicClient.getBalance({ address: bob.address });
-  
-  // Anvil gives 10000 ETH to each account
-  assertEquals(aliceBalance > 0n, true, "Alice should have ETH balance");
-  assertEquals(bobBalance > 0n, true, "Bob should have ETH balance");
-});
+// Two fresh Anvil chains for every run; each step reverts to the deployed state when it ends
+Deno.test("Atomic Swap - escrows on two Anvil chains", { ignore }, async (t) => {
+  const fixture = await SwapFixture.start({ balance: BALANCE });
+  const { alice, bob } = fixture.accounts;
+  const { source, destination } = fixture;
+  const escrowClient = (chain: FixtureChain, account: LocalAccount, escrow: Address) =>
+    new EscrowFactoryClient(
+      chain.contracts.factory,
+      chain.anvil.client,
+      fixture.registry.walletClient(chain.anvil.chainId, account),
+    ).escrow(escrow);
 
-Deno.test("Atomic Swap - Escrow Creation", async () => {
-  const FACTORY_ABI = await loadABI("SimpleEscrowFactory");
-  const factoryAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
-  
-  // Generate test parameters
-  const token = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address; // Mock USDC
-  const preimage = keccak256("0x" + "test".split("").map(c => c.charCodeAt(0).toString(16).padStart(2, "0")).join("")) as Hex;
-  const hashlock = keccak256(encodeAbiParameters([{ type: "bytes32" }], [preimage]));
-  const timelock = BigInt(Math.floor(Date.now() / 1000) + 3600);
-  const salt = keccak256("0x" + Date.now().toString(16)) as Hex;
-  
-  // Compute escrow address
-  const computedAddress = await basePublicClient.readContract({
-    address: factoryAddress,
-    abi: FACTORY_ABI,
-    functionName: "computeEscrowAddress",
-    args: [token, alice.address, bob.address, hashlock, timelock, salt]
-  });
-  
-  assertExists(computedAddress);
-  assertEquals(computedAddress.length, 42); // Valid address format
-  assertEquals(computedAddress.startsWith("0x"), true);
-});
+  try {
+    await t.step("both chains answer with funded accounts", async () => {
+      assertEquals(source.anvil.chainId === destination.anvil.chainId, false);
+      for (const { anvil, contracts } of fixture.chains) {
+        assertEquals(await anvil.client.getChainId(), anvil.chainId);
+        const token = new TokenClient(contracts.token, anvil.client);
+        assertEquals(await token.decimals(), 6);
+        assertEquals(await token.balanceOf(alice.address), BALANCE);
+        assertEquals(await token.balanceOf(bob.address), BALANCE);
+      }
+    });
 
-Deno.test("Atomic Swap - Timeout Behavior", async () => {
-  // Test that escrow can be refunded after timeout
-  const ESCROW_ABI = await loadABI("SimpleEscrow");
-  
-  // This would be tested with a real escrow that has timed out
-  // For now, we just verify the ABI has the expected functions
-  const escrowFunctions = (ESCROW_ABI as any[]).filter(item => item.type === "function");
-  const refundFn = escrowFunctions.find(fn => fn.name === "refund");
-  const canRefundFn = escrowFunctions.find(fn => fn.name === "canRefund");
-  
-  assertExists(refundFn, "Escrow should have refund function");
-  assertExists(canRefundFn, "Escrow should have canRefund function");
-});
+    await t.step("recipient withdraws with the preimage before the timelock", fixture.isolated(async () => {
+      const { preimage, params, escrow, token } = await lockEscrow(fixture, source, alice, bob, HOUR);
+      const factory = new EscrowFactoryClient(source.contracts.factory, source.anvil.client);
+      assertEquals(await factory.computeAddress(params), escrow);
+      assertEquals(await token.balanceOf(escrow), AMOUNT);
+
+      const claim = escrowClient(source, bob, escrow);
+      assertEquals(await claim.canWithdraw(), true);
+      await fixture.registry.transactions.confirm(source.anvil.client, await claim.withdraw(preimage), "withdraw");
+      assertEquals((await claim.getDetails()).withdrawn, true);
+      assertEquals(await token.balanceOf(bob.address), BALANCE + AMOUNT);
+      assertEquals(await token.balanceOf(alice.address), BALANCE - AMOUNT);
+    }));
+
+    await t.step("refund is refused before the timelock and allowed after it", fixture.isolated(async () => {
+      const { escrow, token } = await lockEscrow(fixture, source, alice, bob, HOUR);
+      const refund = escrowClient(source, alice, escrow);
+      assertEquals(await refund.canRefund(), false);
+      const early = await assertRejects(() => refund.refund(), ContractRevertError);
+      assertEquals(early.reason, "SimpleEscrow: timelock not expired");
+
+      await fixture.increaseTime(HOUR);
+      assertEquals(await refund.canRefund(), true);
+      await fixture.registry.transactions.confirm(source.anvil.client, await refund.refund(), "refund");
+      const details = await refund.getDetails();
+      assertEquals([details.refunded, details.withdrawn], [true, false]);
+      assertEquals(await token.balanceOf(alice.address), BALANCE);
+    }));
+
+    await t.step("withdrawal is refused once the timelock has passed", fixture.isolated(async () => {
+      const { preimage, escrow } = await lockEscrow(fixture, destination, bob, alice, HOUR);
+      await fixture.increaseTime(HOUR + 1n);
+      const claim = escrowClient(destination, alice, escrow);
+      assertEquals(await claim.canWithdraw(), false);
+      const late = await assertRejects(() => claim.withdraw(preimage), ContractRevertError);
+      assertEquals(late.reason, "SimpleEscrow: timelock expired");
+    }));
+
+    await t.step("snapshots roll back every step", async () => {
+      for (const { anvil, contracts } of fixture.chains) {
+        const token = new TokenClient(contracts.token, anvil.client);
+        assertEquals(await token.balanceOf(alice.address), BALANCE);
+        assertEquals(await new EscrowFactoryClient(contracts.factory, anvil.client).escrowCount(), 0n);
+      }
+    });
+
+    await t.step("orchestrated swap claims both legs", fixture.isolated(async () => {
+      const { registry } = fixture;
+      const { preimage, hashlocks: { keccak256: hashlock } } = createSecret();
+      const timelocks = planTimelocks(await source.anvil.timestamp());
+      const sourceAmount = await registry.tokens(source.anvil.chainId).parse("USDC", "100");
+      const destinationAmount = await registry.tokens(destination.anvil.chainId).parse("USDC", "10");
+      const orchestrator = SwapOrchestrator.create(`fixture-${hashlock.slice(2, 10)}`, {
+        source: {
+          chainId: source.anvil.chainId,
+          factory: source.contracts.factory,
+          amount: sourceAmount,
+          escrow: {
+            token: source.contracts.token,
+            sender: alice.address,
+            recipient: bob.address,
+            hashlock,
+            timelock: timelocks.source,
+            salt: generateSalt(),
+          },
+        },
+        destination: {
+          chainId: destination.anvil.chainId,
+          factory: destination.contracts.factory,
+          amount: destinationAmount,
+          escrow: {
+            token: destination.contracts.token,
+            sender: bob.address,
+            recipient: alice.address,
+            hashlock,
+            timelock: timelocks.destination,
+            salt: generateSalt(),
+          },
+        },
+        preimage,
+      }, {
+        clients: { source: source.anvil.client, destination: destination.anvil.client },
+        signers: {
+          initiator: {
+            source: registry.walletClient(source.anvil.chainId, alice),
+            destination: registry.walletClient(destination.anvil.chainId, alice),
+          },
+          responder: {
+            source: registry.walletClient(source.anvil.chainId, bob),
+            destination: registry.walletClient(destination.anvil.chainId, bob),
+          },
+        },
+        pollInterval: 100,
+        transactions: registry.transactions,
+      });
 
-// Integration test - requires running chains
-Deno.test("Atomic Swap - Full Flow (Integration)", {
-  ignore: Deno.env.get("SKIP_INTEGRATION") === "true",
-  sanitizeResources: false,
-  sanitizeOps: false,
-}, async () => {
-  // This is a simplified version of the full flow
-  const ERC20_ABI = await loadABI("MockERC20");
-  const usdcAddress = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address;
-  
-  // Check if USDC is deployed
-  const usdcCode = await basePublicClient.getBytecode({ address: usdcAddress });
-  if (!usdcCode || usdcCode === '0x') {
-    console.log("Skipping integration test - contracts not deployed");
-    return;
+      const result = await orchestrator.run({ deadline: Date.now() + 60_000 });
+      assertEquals(result.state, "Claimed");
+      const balance = (chain: FixtureChain, account: LocalAccount) =>
+        new TokenClient(chain.contracts.token, chain.anvil.client).balanceOf(account.address);
+      assertEquals(await balance(source, bob), BALANCE + sourceAmount.raw);
+      assertEquals(await balance(source, alice), BALANCE - sourceAmount.raw);
+      assertEquals(await balance(destination, alice), BALANCE + destinationAmount.raw);
+      assertEquals(await balance(destination, bob), BALANCE - destinationAmount.raw);
+    }));
+  } finally {
+    await fixture.stop();
   }
-  
-  // Check USDC decimals
-  const decimals = await basePublicClient.readContract({
-    address: usdcAddress,
-    abi: ERC20_ABI,
-    functionName: "decimals"
-  });
-  
-  assertEquals(decimals, 6, "USDC should have 6 decimals");
 });
 
-// Run tests with: deno test atomic-swap.test.ts --allow-all
\ No newline at end of file
+// Run tests with: deno test atomic-swap.test.ts --allow-all
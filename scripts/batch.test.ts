@@ -0,0 +1,151 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type Address, type Hex, pad, type PublicClient, toHex } from "viem";
+import {
+  BatchError,
+  ChainRegistry,
+  customChain,
+  deriveEscrowAddress,
+  executeBatch,
+  formatBatchReport,
+  parseCsv,
+  planBatch,
+  type SignerClient,
+  validateBatch,
+} from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const FACTORY = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address;
+const USDC = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
+const XTZ = pad(toHex(7), { size: 20 });
+const CREATION_CODE: Hex = "0x6080604052";
+const NOW = 1_700_000_000n;
+
+function registry(): ChainRegistry {
+  return new ChainRegistry([{
+    key: "base",
+    chain: customChain(8453, "base", "http://localhost:8545"),
+    rpcUrl: "http://localhost:8545",
+    contracts: { factory: FACTORY },
+    tokens: [
+      { symbol: "USDC", address: USDC, decimals: 6 },
+      { symbol: "XTZ", address: XTZ, decimals: 18 },
+    ],
+  }]);
+}
+
+const CSV = `chain,token,recipient,amount,timeout,salt
+# market maker legs
+base,USDC,${BOB},100.5,600,${pad("0x01")}
+8453,usdc,${BOB},25,600,${pad("0x02")}
+base,XTZ,${BOB},1,600,${pad("0x03")}
+`;
+
+function plan(csv = CSV) {
+  const swaps = validateBatch(parseCsv(csv), registry(), { sender: ALICE, now: NOW });
+  return planBatch(swaps, registry(), ALICE, () => CREATION_CODE);
+}
+
+// Records what the pipeline sends on one chain
+class FakeChain {
+  balance = 10n ** 30n;
+  allowances = new Map<string, bigint>();
+  sent: string[] = [];
+
+  client(): PublicClient {
+    return {
+      readContract: ({ functionName, args }: { functionName: string; args: Address[] }) =>
+        Promise.resolve(functionName === "balanceOf" ? this.balance : this.allowances.get(args[1]) ?? 0n),
+      simulateContract: (request: { functionName: string; args: unknown[] }) => {
+        if (request.functionName !== "batchCreateEscrows") return Promise.resolve({ request });
+        const params = request.args[0] as Parameters<typeof deriveEscrowAddress>[2][];
+        return Promise.resolve({ request, result: params.map((p) => deriveEscrowAddress(FACTORY, CREATION_CODE, p)) });
+      },
+      waitForTransactionReceipt: () => Promise.resolve({ status: "success" }),
+    } as unknown as PublicClient;
+  }
+
+  signer(): SignerClient {
+    return {
+      account: { address: ALICE },
+      writeContract: ({ functionName, args }: { functionName: string; args: unknown[] }) => {
+        if (functionName === "approve") this.allowances.set(args[0] as Address, args[1] as bigint);
+        this.sent.push(functionName);
+        return Promise.resolve(pad(toHex(this.sent.length), { size: 32 }));
+      },
+    } as unknown as SignerClient;
+  }
+}
+
+Deno.test("Batch - validates every row and reports all problems", () => {
+  const csv = `chain,token,recipient,amount,hashlock,timelock
+base,USDC,${BOB},1.1234567,,
+optimism,USDC,${BOB},1,,
+base,DAI,${BOB},1,,
+base,USDC,${ALICE},0,0x1234,${NOW - 1n}
+`;
+  const error = assertThrows(() => validateBatch(parseCsv(csv), registry(), { sender: ALICE, now: NOW }), BatchError);
+  assertEquals(error.issues, [
+    "row 1: amount must be a positive number with at most 6 decimals: 1.1234567",
+    'row 2: chain "optimism" is not registered',
+    'row 3: token "DAI" is not registered on chain 8453',
+    "row 4: recipient must differ from the sender",
+    "row 4: amount must be a positive number with at most 6 decimals: 0",
+    "row 4: hashlock must be a non-zero bytes32: 0x1234",
+    `row 4: timelock ${NOW - 1n} is not in the future`,
+  ]);
+});
+
+Deno.test("Batch - groups per chain and token and derives addresses", () => {
+  const groups = plan();
+  assertEquals(groups.map((g) => [g.token.symbol, g.escrows.map((e) => e.swap.row), g.total.raw]), [
+    ["USDC", [1, 2], 125_500_000n],
+    ["XTZ", [3], 10n ** 18n],
+  ]);
+  const [first] = groups[0].escrows;
+  assertEquals(first.params.timelock, NOW + 600n);
+  assertEquals(first.escrow, deriveEscrowAddress(FACTORY, CREATION_CODE, first.params));
+  // Rows without a hashlock get a fresh secret, recorded for the report
+  assertEquals(typeof first.swap.preimage, "string");
+
+  // Identical parameters and salt would deploy to the same address
+  const row = `base,USDC,${BOB},1,${pad("0x42")},${NOW + 600n},${pad("0x01")}`;
+  const error = assertThrows(
+    () => plan(`chain,token,recipient,amount,hashlock,timelock,salt\n${row}\n${row}\n`),
+    BatchError,
+  );
+  assertEquals(error.issues.length, 1);
+  assertEquals(error.issues[0].startsWith("row 2: same escrow as row 1"), true);
+});
+
+Deno.test("Batch - approves, deploys per group and funds every escrow", async () => {
+  const chain = new FakeChain();
+  const results = await executeBatch(plan(), [{ chainId: 8453, client: chain.client(), signer: chain.signer() }]);
+
+  assertEquals(results.map((r) => [r.row, r.status, r.amount]), [
+    [1, "funded", "100.5"],
+    [2, "funded", "25"],
+    [3, "funded", "1"],
+  ]);
+  assertEquals(chain.sent, [
+    "approve",
+    "approve",
+    "batchCreateEscrows",
+    "fund",
+    "fund",
+    "approve",
+    "batchCreateEscrows",
+    "fund",
+  ]);
+  const [header, line] = formatBatchReport(results, "csv").split("\n");
+  assertEquals(header.split(",").slice(0, 5), ["row", "chainId", "token", "recipient", "amount"]);
+  assertEquals(line.split(",").slice(0, 5), ["1", "8453", "USDC", BOB, "100.5"]);
+
+  // A group the sender cannot cover fails as a whole without sending anything
+  const poor = new FakeChain();
+  poor.balance = 1n;
+  const failed = await executeBatch(plan(), [{ chainId: 8453, client: poor.client(), signer: poor.signer() }]);
+  assertEquals(failed.map((r) => r.status), ["failed", "failed", "failed"]);
+  assertEquals(failed[0].error, "insufficient USDC balance: have 0.000001, need 125.5");
+  assertEquals(poor.sent, []);
+});
@@ -0,0 +1,81 @@
+// Swap status CLI
+// Run with: deno run --allow-net --allow-read --allow-env bmn.ts <status|watch> <address|alice|bob|resolver> [--json] [--interval <seconds>] [--from-block <n>]
+//
+// Lists every escrow and LightningBridge swap the address is party to on each chain of the
+// deployment manifest: decoded details, time left before the timelock and whether it can be
+// withdrawn, refunded or expired right now. `status` prints once; `watch` redraws the table every
+// interval (default 5 seconds). --json prints the report instead, one JSON document per refresh.
+
+import { type Address, getAddress, isAddress } from "viem";
+import { type Config, getAccount, getConfig, getRegistry } from "./config.ts";
+import { collectStatus, formatStatus, type SignerRole, type StatusChain, statusToJson } from "./sdk/index.ts";
+
+const USAGE =
+  "Usage: bmn.ts <status|watch> <address|alice|bob|resolver> [--json] [--interval <seconds>] [--from-block <n>]";
+const CLEAR_SCREEN = "\x1b[2J\x1b[H";
+
+const ROLES: Record<string, SignerRole> = { alice: "initiator", bob: "responder", resolver: "resolver" };
+
+async function resolveAddress(config: Config, value: string): Promise<Address> {
+  if (ROLES[value]) return (await getAccount(config, ROLES[value])).address;
+  if (!isAddress(value)) throw new Error(`Not an address or known account: ${value}`);
+  return getAddress(value);
+}
+
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+}
+
+if (import.meta.main) {
+  const args = [...Deno.args];
+  const json = args.includes("--json");
+  const interval = Number(takeOption(args, "--interval") ?? "5");
+  const fromBlock = takeOption(args, "--from-block");
+  const [command, who] = args.filter((arg) => arg !== "--json");
+  if ((command !== "status" && command !== "watch") || !who || !(interval > 0)) {
+    console.error(USAGE);
+    Deno.exit(1);
+  }
+
+  const config = getConfig();
+  const registry = await getRegistry(config);
+  let address: Address;
+  try {
+    address = await resolveAddress(config, who);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  }
+  const chains: StatusChain[] = registry.list().map((entry) => ({
+    chainId: entry.chain.id,
+    name: entry.key,
+    client: registry.publicClient(entry.chain.id),
+    factory: entry.contracts.factory,
+    bridge: entry.contracts.bridge,
+    tokens: entry.tokens,
+    fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+  }));
+
+  const render = async () => {
+    const report = await collectStatus(chains, address);
+    if (json) {
+      console.log(statusToJson(report, command === "status" ? 2 : undefined));
+    } else {
+      const header = command === "watch"
+        ? `${CLEAR_SCREEN}Updated ${new Date().toISOString()}, refreshing every ${interval}s (Ctrl+C to stop)\n\n`
+        : "";
+      console.log(header + formatStatus(report, chains));
+    }
+  };
+
+  if (command === "status") {
+    await render();
+  } else {
+    Deno.addSignalListener("SIGINT", () => Deno.exit(0));
+    while (true) {
+      await render();
+      await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { type Address, type Hex, pad, type PublicClient, toHex } from "viem";
+import {
+  Bolt11Error,
+  type BridgeLimits,
+  BridgeClient,
+  decodeBolt11,
+  encodeBolt11,
+  invoiceIssues,
+  InvoiceValidationError,
+  invoiceSats,
+  nodeIdFromPrivateKey,
+  type SignerClient,
+  validateSwapInvoice,
+} from "./sdk/index.ts";
+
+// Node key, payment hash and invoices from the BOLT11 specification's examples
+const SPEC_KEY = "0xe126f68f7eafcc8b74f54d269fe206be715000f94dac067d1c04a8ca3b2db734" as Hex;
+const SPEC_NODE_ID = "0x03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad";
+const SPEC_PAYMENT_HASH = "0x0001020304050607080900010203040506070809000102030405060708090102" as Hex;
+const SPEC_TIMESTAMP = 1496314658;
+const DONATION =
+  "lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w";
+const COFFEE =
+  "lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp";
+
+const LIMITS: BridgeLimits = {
+  minSatoshiAmount: 1_000n,
+  maxSatoshiAmount: 10_000_000n,
+  defaultSwapTimeout: 3600n,
+};
+const PAYMENT_HASH = pad("0xabc", { size: 32 });
+const ZERO_ADDRESS = pad("0x0", { size: 20 }) as Address;
+
+function regtestInvoice(overrides: { amountMsat?: bigint; expiry?: number; paymentHash?: Hex } = {}) {
+  return encodeBolt11({
+    network: "regtest",
+    amountMsat: 25_000_000n,
+    timestamp: 1_000,
+    paymentHash: PAYMENT_HASH,
+    description: "swap",
+    expiry: 3600,
+    ...overrides,
+  }, SPEC_KEY);
+}
+
+Deno.test("BOLT11 - decodes the specification's examples and recovers the payee", async () => {
+  const donation = await decodeBolt11(DONATION);
+  assertEquals(donation.network, "bitcoin");
+  assertEquals(donation.amountMsat, undefined);
+  assertEquals(donation.timestamp, SPEC_TIMESTAMP);
+  assertEquals(donation.paymentHash, SPEC_PAYMENT_HASH);
+  assertEquals(donation.description, "Please consider supporting this project");
+  assertEquals([donation.expiry, donation.minFinalCltvExpiry], [3600, 18]);
+  assertEquals(donation.payee, SPEC_NODE_ID);
+
+  const coffee = await decodeBolt11(`LIGHTNING:${COFFEE.toUpperCase()}`);
+  assertEquals(coffee.paymentRequest, COFFEE.toUpperCase());
+  assertEquals(coffee.amountMsat, 250_000_000n);
+  assertEquals(invoiceSats(coffee), 250_000n);
+  assertEquals(coffee.description, "1 cup coffee");
+  assertEquals([coffee.expiry, coffee.expiresAt], [60, SPEC_TIMESTAMP + 60]);
+  assertEquals(coffee.payee, SPEC_NODE_ID);
+});
+
+Deno.test("BOLT11 - encoding reproduces the specification's signed example", async () => {
+  assertEquals(nodeIdFromPrivateKey(SPEC_KEY), SPEC_NODE_ID);
+  const encoded = await encodeBolt11({
+    network: "bitcoin",
+    timestamp: SPEC_TIMESTAMP,
+    paymentHash: SPEC_PAYMENT_HASH,
+    description: "Please consider supporting this project",
+  }, SPEC_KEY);
+  assertEquals(encoded, DONATION);
+});
+
+Deno.test("BOLT11 - round-trips every field and amount unit", async () => {
+  const fields = {
+    network: "signet" as const,
+    timestamp: 1_700_000_000,
+    paymentHash: PAYMENT_HASH,
+    paymentSecret: pad("0x5ec", { size: 32 }),
+    descriptionHash: pad("0xd5c", { size: 32 }),
+    payee: SPEC_NODE_ID as Hex,
+    expiry: 86_400,
+    minFinalCltvExpiry: 144,
+    features: (1n << 8n) | (1n << 14n),
+    metadata: "0x01fa" as Hex,
+    routeHints: [[
+      {
+        pubkey: SPEC_NODE_ID as Hex,
+        shortChannelId: 0x0102030405060708n,
+        feeBaseMsat: 1,
+        feeProportionalMillionths: 20,
+        cltvExpiryDelta: 3,
+      },
+    ]],
+    fallbacks: [{ version: 0, program: pad("0x1234", { size: 20 }) }],
+  };
+  for (const amountMsat of [100_000_000_000n, 300_000_000n, 25_000n, 1_500n, 1n]) {
+    const invoice = await decodeBolt11(await encodeBolt11({ ...fields, amountMsat }, SPEC_KEY));
+    const { paymentRequest: _, signature: __, recoveryId: ___, ...decoded } = invoice;
+    assertEquals(decoded, {
+      ...fields,
+      amountMsat,
+      expiresAt: fields.timestamp + fields.expiry,
+      unknownFields: [],
+    });
+  }
+});
+
+Deno.test("BOLT11 - rejects malformed and mis-signed invoices", async () => {
+  const reason = async (paymentRequest: string) =>
+    (await assertRejects(() => decodeBolt11(paymentRequest), Bolt11Error)).message;
+
+  assertEquals(await reason(DONATION.slice(0, -1) + "q"), "Invalid bech32 checksum");
+  const mixedCase = DONATION.slice(0, 10) + DONATION.slice(10).toUpperCase();
+  assertEquals(await reason(mixedCase), "Invoice mixes upper and lower case");
+  assertEquals(await reason("bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq"), "Not a Lightning invoice prefix: bc");
+  assertEquals(await reason("lnbcrt1garbage"), "Invoice contains a character outside the bech32 charset");
+  await assertRejects(
+    () => encodeBolt11({ network: "bitcoin", timestamp: 0, paymentHash: "0x01" }, SPEC_KEY),
+    Bolt11Error,
+  );
+
+  // Claims a payee other than the key that signed it
+  const otherNode = nodeIdFromPrivateKey(pad("0x7", { size: 32 }));
+  const forged = await encodeBolt11({
+    network: "bitcoin",
+    timestamp: SPEC_TIMESTAMP,
+    paymentHash: SPEC_PAYMENT_HASH,
+    payee: otherNode,
+  }, SPEC_KEY);
+  assertEquals(await reason(forged), `Invoice claims payee ${otherNode} but is signed by ${SPEC_NODE_ID}`);
+});
+
+Deno.test("BOLT11 - validator lists every way an invoice misses the swap", async () => {
+  const terms = { paymentHash: PAYMENT_HASH, satoshiAmount: 25_000n, deadline: 4_600n };
+  assertEquals(invoiceIssues(await decodeBolt11(await regtestInvoice()), terms, LIMITS, 1_000n), []);
+
+  const wrong = await decodeBolt11(await regtestInvoice({
+    paymentHash: pad("0xdef", { size: 32 }),
+    amountMsat: 25_000_500n,
+    expiry: 7200,
+  }));
+  assertEquals(invoiceIssues(wrong, { ...terms, satoshiAmount: 500n }, LIMITS, 1_000n), [
+    `payment hash ${wrong.paymentHash} is not the swap's ${PAYMENT_HASH}`,
+    "25000500 msat is not a whole number of satoshis",
+    "500 sats is outside the bridge's 1000-10000000",
+    "invoice stays payable until 8200, after the swap's timelock 4600",
+  ]);
+  const unpriced = await decodeBolt11(await regtestInvoice({ amountMsat: undefined }));
+  assertEquals(invoiceIssues(unpriced, terms, LIMITS, 4_600n), ["invoice has no amount", "invoice expired at 4600"]);
+
+  const error = await assertRejects(
+    () => validateSwapInvoice("lnbcrt1garbage", terms, LIMITS, 1_000n),
+    InvoiceValidationError,
+  );
+  assertEquals(error.issues, ["Invoice contains a character outside the bech32 charset"]);
+});
+
+Deno.test("BOLT11 - bridge client checks invoices before sending a transaction", async () => {
+  const sent: string[] = [];
+  const client = {
+    getBlock: () => Promise.resolve({ timestamp: 1_000n }),
+    readContract: ({ functionName }: { functionName: keyof BridgeLimits | "getSwapDetails" }) =>
+      Promise.resolve(
+        functionName === "getSwapDetails" ? { satoshiAmount: 25_000n, timelock: 4_600n } : LIMITS[functionName],
+      ),
+    simulateContract: (request: { functionName: string }) => Promise.resolve({ request, result: ZERO_ADDRESS }),
+  } as unknown as PublicClient;
+  const wallet = {
+    account: { address: ZERO_ADDRESS },
+    writeContract: (request: { functionName: string }) => {
+      sent.push(request.functionName);
+      return Promise.resolve(pad("0x1", { size: 32 }));
+    },
+  } as unknown as SignerClient;
+  const bridge = new BridgeClient(pad(toHex(0xb1d9e), { size: 20 }), client, wallet);
+  const invoice = await regtestInvoice();
+  const lateInvoice = await regtestInvoice({ expiry: 3601 });
+  const outgoing = {
+    token: ZERO_ADDRESS,
+    amount: 1n,
+    satoshiAmount: 25_000n,
+    paymentHash: PAYMENT_HASH,
+    timelock: 4_600n,
+    invoice,
+  };
+
+  const refused = (sending: () => Promise<unknown>) => assertRejects(sending, InvoiceValidationError);
+  await refused(() => bridge.initiateEVMToLightning({ ...outgoing, satoshiAmount: 20_000n }));
+  await refused(() => bridge.initiateEVMToLightning({ ...outgoing, timelock: 4_000n }));
+  await refused(() => bridge.setLightningInvoice(PAYMENT_HASH, lateInvoice));
+  // Lightning→EVM swaps get the bridge's default timeout, here until 4600
+  await refused(() => bridge.initiateLightningToEVM({ ...outgoing, invoice: lateInvoice, recipient: ZERO_ADDRESS }));
+  assertEquals(sent, []);
+
+  await bridge.initiateEVMToLightning(outgoing);
+  await bridge.setLightningInvoice(PAYMENT_HASH, invoice);
+  await bridge.initiateLightningToEVM({ ...outgoing, recipient: ZERO_ADDRESS });
+  assertEquals(sent, ["initiateEVMToLightning", "setLightningInvoice", "initiateLightningToEVM"]);
+});
@@ -1,7 +1,29 @@
 // Deno configuration for Viem atomic swap tests
 // Uses proper Deno environment variable handling
 
-import type { Hex, Address } from "viem";
+import { type Address, type Chain, type Hex, isAddress, type LocalAccount } from "viem";
+import { base, etherlink, polygonMumbai, sepolia } from "viem/chains";
+import {
+  type DeploymentManifest,
+  type Environment,
+  isEnvironment,
+  type ManifestChain,
+  ManifestError,
+  parseManifest,
+  verifyManifestCode,
+} from "./sdk/manifest.ts";
+import {
+  type ChainContracts,
+  type ChainEntry,
+  ChainRegistry,
+  customChain,
+  confirmAnvil,
+  isLocalChain,
+  withRpc,
+} from "./sdk/registry.ts";
+import { createSigner, isPrivateKey, type SignerRole, type SignerSource } from "./sdk/signers.ts";
+import { type DeclaredToken, TokenError, TokenRegistry } from "./sdk/tokens.ts";
+import { TransactionManager } from "./sdk/transactions.ts";
 
 // Load environment variables from .env file
 // This requires --allow-read and --allow-env permissions
@@ -24,148 +46,293 @@ try {
     }
   }
 } catch (error) {
-  console.warn("Could not load .env file:", error.message);
+  console.warn("Could not load .env file:", error instanceof Error ? error.message : String(error));
   console.warn("Using system environment variables only");
 }
 
-// Deployment data interface
-export interface DeploymentData {
-  timestamp: string;
-  chains: {
-    base?: {
-      chainId: number;
-      rpcUrl: string;
-      contracts: {
-        MockUSDC?: Address;
-        SimpleEscrowFactory?: Address;
-        OneInchAdapter?: Address;
-      };
-    };
-    etherlink?: {
-      chainId: number;
-      rpcUrl: string;
-      contracts: {
-        MockXTZ?: Address;
-        SimpleEscrowFactory?: Address;
-        LightningBridge?: Address;
-      };
-    };
-  };
-}
 
 // Configuration interface
 export interface Config {
-  // RPC URLs
-  baseRpc: string;
-  etherlinkRpc: string;
+  // Deployment manifest to load from ../deployments/<environment>.json
+  environment: Environment;
   
-  // Private keys
-  alicePrivateKey: Hex;
-  bobPrivateKey: Hex;
+  // Chains with an RPC URL configured (contract addresses are added by getRegistry)
+  chains: ChainEntry[];
   
-  // Chain IDs
-  baseChainId: number;
-  etherlinkChainId: number;
+  // Swap route used by the demo and tests
+  sourceChainId: number;
+  destinationChainId: number;
   
-  // Contract addresses (loaded from deployment.json)
-  factoryAddressBase?: Address;
-  factoryAddressEtherlink?: Address;
-  usdcAddress?: Address;
-  xtzAddress?: Address;
+  // Signer per role: Alice initiates swaps, Bob responds, the resolver serves the LightningBridge
+  signers: Record<SignerRole, SignerSource>;
   
   // Test configuration
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   retryAttempts: number;
   retryDelay: number;
+  
+  // Transactions
+  txConfirmations: number; // blocks a receipt must be buried under
+  txStuckTimeout: number; // ms a transaction may stay pending before it is re-sent with higher fees
 }
 
 // Default test accounts (Anvil)
 const DEFAULT_ALICE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
 const DEFAULT_BOB_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const DEFAULT_RESOLVER_KEY = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+
+// Environment variables per role. <PREFIX>_SIGNER_URL wins over <PREFIX>_KEYSTORE, which wins over
+// the raw key; without any of them the role gets its default Anvil key.
+const SIGNER_ENV: Record<SignerRole, { prefix: string; keyEnv: string; defaultKey: Hex }> = {
+  initiator: { prefix: "ALICE", keyEnv: "ALICE_KEY", defaultKey: DEFAULT_ALICE_KEY },
+  responder: { prefix: "BOB", keyEnv: "BOB_KEY", defaultKey: DEFAULT_BOB_KEY },
+  resolver: { prefix: "RESOLVER", keyEnv: "RESOLVER_PRIVATE_KEY", defaultKey: DEFAULT_RESOLVER_KEY },
+};
+
+// Chains the tooling knows about. Chains without a default RPC are only registered when their
+// RPC variable is set; the chain ID variable lets a local Anvil stand in for the real chain, and
+// <KEY>_ANVIL=true marks it as one so the default Anvil accounts may sign there. getRegistry()
+// refuses the mark unless the node reports itself as Anvil.
+const KNOWN_CHAINS: { key: string; chain: Chain; rpcEnv: string; defaultRpc?: string; chainIdEnv?: string }[] = [
+  { key: "base", chain: base, rpcEnv: "BASE_RPC", defaultRpc: "http://localhost:8545", chainIdEnv: "BASE_CHAIN_ID" },
+  { key: "etherlink", chain: etherlink, rpcEnv: "ETHERLINK_RPC", defaultRpc: "http://localhost:8546", chainIdEnv: "ETHERLINK_CHAIN_ID" },
+  { key: "sepolia", chain: sepolia, rpcEnv: "SEPOLIA_RPC_URL" },
+  { key: "mumbai", chain: polygonMumbai, rpcEnv: "MUMBAI_RPC_URL" },
+];
+
+// Deployed contract names mapped onto registry fields
+const CONTRACT_FIELDS: Record<string, keyof ChainContracts> = {
+  SimpleEscrowFactory: "factory",
+  OneInchAdapter: "adapter",
+  LightningBridge: "bridge",
+};
+
+// Symbols of the mock tokens older deploy.sh runs listed under `contracts`; their decimals are read
+// from chain like any other token's
+const KNOWN_TOKENS: Record<string, string> = {
+  MockUSDC: "USDC",
+  MockXTZ: "XTZ",
+};
+
+function configuredChains(): ChainEntry[] {
+  const chains: ChainEntry[] = [];
+  for (const known of KNOWN_CHAINS) {
+    const rpcUrl = Deno.env.get(known.rpcEnv) || known.defaultRpc;
+    if (!rpcUrl) continue;
+    const chainId = known.chainIdEnv ? parseInt(Deno.env.get(known.chainIdEnv) || String(known.chain.id)) : known.chain.id;
+    const chain = withRpc(known.chain, rpcUrl, chainId);
+    const anvil = Deno.env.get(`${known.key.toUpperCase()}_ANVIL`) === "true";
+    chains.push({ key: known.key, chain, rpcUrl, contracts: {}, tokens: [], anvil });
+  }
+  return chains;
+}
+
+function signerSource(role: SignerRole): SignerSource {
+  const { prefix, keyEnv, defaultKey } = SIGNER_ENV[role];
+  const url = Deno.env.get(`${prefix}_SIGNER_URL`);
+  if (url) return { kind: "remote", url, address: Deno.env.get(`${prefix}_SIGNER_ADDRESS`) as Address | undefined };
+  const path = Deno.env.get(`${prefix}_KEYSTORE`);
+  if (path) return { kind: "keystore", path, password: Deno.env.get(`${prefix}_KEYSTORE_PASSWORD`) };
+  return { kind: "env", privateKey: (Deno.env.get(keyEnv) || defaultKey) as Hex };
+}
 
 // Get configuration from environment
 export function getConfig(): Config {
+  const chains = configuredChains();
+  const chainIdOf = (key: string) => chains.find((c) => c.key === key)?.chain.id ?? 0;
+  
   return {
-    // RPC URLs
-    baseRpc: Deno.env.get("BASE_RPC") || "http://localhost:8545",
-    etherlinkRpc: Deno.env.get("ETHERLINK_RPC") || "http://localhost:8546",
+    environment: (Deno.env.get("DEPLOYMENT_ENV") || "local") as Environment,
+    chains,
     
-    // Private keys (use defaults for local testing)
-    alicePrivateKey: (Deno.env.get("ALICE_KEY") || DEFAULT_ALICE_KEY) as Hex,
-    bobPrivateKey: (Deno.env.get("BOB_KEY") || DEFAULT_BOB_KEY) as Hex,
+    // Route defaults to Base -> Etherlink
+    sourceChainId: parseInt(Deno.env.get("SOURCE_CHAIN_ID") || String(chainIdOf("base"))),
+    destinationChainId: parseInt(Deno.env.get("DESTINATION_CHAIN_ID") || String(chainIdOf("etherlink"))),
     
-    // Chain IDs
-    baseChainId: parseInt(Deno.env.get("BASE_CHAIN_ID") || "8453"),
-    etherlinkChainId: parseInt(Deno.env.get("ETHERLINK_CHAIN_ID") || "42793"),
+    signers: {
+      initiator: signerSource("initiator"),
+      responder: signerSource("responder"),
+      resolver: signerSource("resolver"),
+    },
     
     // Test configuration
     logLevel: (Deno.env.get("LOG_LEVEL") || "info") as any,
     retryAttempts: parseInt(Deno.env.get("RETRY_ATTEMPTS") || "3"),
     retryDelay: parseInt(Deno.env.get("RETRY_DELAY") || "1000"),
+    
+    txConfirmations: parseInt(Deno.env.get("TX_CONFIRMATIONS") || "1"),
+    txStuckTimeout: parseInt(Deno.env.get("TX_STUCK_TIMEOUT") || "60000"),
   };
 }
 
 // Validate configuration
 export function validateConfig(config: Config): void {
-  if (!config.baseRpc || !config.etherlinkRpc) {
-    throw new Error("RPC URLs must be configured");
+  if (!isEnvironment(config.environment)) {
+    throw new Error(`DEPLOYMENT_ENV must be local, testnet or mainnet (got "${config.environment}")`);
   }
   
-  if (!config.alicePrivateKey || !config.bobPrivateKey) {
-    throw new Error("Private keys must be configured");
+  if (config.chains.length === 0) {
+    throw new Error("RPC URLs must be configured");
   }
   
-  if (!config.alicePrivateKey.startsWith("0x") || config.alicePrivateKey.length !== 66) {
-    throw new Error("Invalid Alice private key format");
+  const chainIds = config.chains.map((c) => c.chain.id);
+  for (const chainId of [config.sourceChainId, config.destinationChainId]) {
+    if (!chainIds.includes(chainId)) {
+      throw new Error(`Swap chain ${chainId} has no RPC configured (known: ${chainIds.join(", ")})`);
+    }
   }
   
-  if (!config.bobPrivateKey.startsWith("0x") || config.bobPrivateKey.length !== 66) {
-    throw new Error("Invalid Bob private key format");
+  // Default Anvil keys are refused by ChainRegistry.walletClient() off local chains; other raw
+  // keys are refused here
+  const remoteChains = config.chains.filter((entry) => !isLocalChain(entry));
+  for (const [role, source] of Object.entries(config.signers) as [SignerRole, SignerSource][]) {
+    const { prefix, keyEnv, defaultKey } = SIGNER_ENV[role];
+    switch (source.kind) {
+      case "env":
+        if (!isPrivateKey(source.privateKey)) {
+          throw new Error(`${keyEnv} must be a 0x-prefixed 32-byte hex private key`);
+        }
+        if (source.privateKey !== defaultKey && remoteChains.length > 0) {
+          throw new Error(
+            `${keyEnv} is a raw private key in the environment but ${remoteChains.map((c) => c.key).join(", ")} ` +
+              `is not local; use ${prefix}_KEYSTORE or ${prefix}_SIGNER_URL`,
+          );
+        }
+        break;
+      case "keystore":
+        if (source.password === undefined) {
+          throw new Error(`${prefix}_KEYSTORE is set but ${prefix}_KEYSTORE_PASSWORD is not`);
+        }
+        break;
+      case "remote":
+        if (!URL.canParse(source.url)) throw new Error(`${prefix}_SIGNER_URL is not a URL: ${source.url}`);
+        if (source.address !== undefined && !isAddress(source.address)) {
+          throw new Error(`${prefix}_SIGNER_ADDRESS is not an address: ${source.address}`);
+        }
+        break;
+    }
   }
 }
 
-// Load deployment data
-export async function loadDeploymentData(): Promise<DeploymentData | null> {
+// Account for `role`, loaded from its configured signer (keystores are decrypted here)
+export function getAccount(config: Config, role: SignerRole): Promise<LocalAccount> {
+  return createSigner(config.signers[role]).account();
+}
+
+// Manifest path for an environment, independent of the working directory
+export function manifestPath(environment: Environment): string {
+  return new URL(`../deployments/${environment}.json`, import.meta.url).pathname;
+}
+
+// Load and validate the deployment manifest; a missing or invalid manifest is an error
+export async function loadDeploymentData(environment: Environment): Promise<DeploymentManifest> {
+  const path = manifestPath(environment);
+  let text: string;
   try {
-    const deploymentPath = "../deployment.json";
-    const data = await Deno.readTextFile(deploymentPath);
-    return JSON.parse(data) as DeploymentData;
+    text = await Deno.readTextFile(path);
   } catch (error) {
-    console.warn("Could not load deployment.json:", error.message);
-    return null;
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`No ${environment} deployment manifest at ${path}. Please run deployment script first.`);
+    }
+    throw error;
   }
+  
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Deployment manifest ${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseManifest(data, path, environment);
 }
 
-// Get configuration with deployment data
-export async function getConfigWithDeployment(): Promise<Config> {
-  const baseConfig = getConfig();
-  const deployment = await loadDeploymentData();
+// Transaction manager for every wallet the tooling builds from `config`
+export function transactionManager(config: Config): TransactionManager {
+  return new TransactionManager({
+    confirmations: config.txConfirmations,
+    stuckAfter: config.txStuckTimeout,
+    pollingInterval: config.retryDelay,
+  });
+}
+
+// Add a manifest entry's contracts to the registry, registering chains that have no RPC variable set.
+// Returns the tokens it declares, which are only registered once read from chain.
+function applyDeployment(registry: ChainRegistry, key: string, deployed: ManifestChain): DeclaredToken[] {
+  const entry = registry.find(deployed.chainId) ?? {
+    key,
+    chain: customChain(deployed.chainId, key, deployed.rpcUrl),
+    rpcUrl: deployed.rpcUrl,
+    contracts: {},
+    tokens: [],
+  };
   
-  if (deployment) {
-    // Load contract addresses from deployment
-    if (deployment.chains.base) {
-      baseConfig.factoryAddressBase = deployment.chains.base.contracts.SimpleEscrowFactory;
-      baseConfig.usdcAddress = deployment.chains.base.contracts.MockUSDC;
+  const tokens: DeclaredToken[] = [];
+  for (const [name, address] of Object.entries(deployed.contracts)) {
+    if (CONTRACT_FIELDS[name]) {
+      entry.contracts[CONTRACT_FIELDS[name]] = address;
+    } else if (KNOWN_TOKENS[name]) {
+      tokens.push({ symbol: KNOWN_TOKENS[name], address });
     }
-    
-    if (deployment.chains.etherlink) {
-      baseConfig.factoryAddressEtherlink = deployment.chains.etherlink.contracts.SimpleEscrowFactory;
-      baseConfig.xtzAddress = deployment.chains.etherlink.contracts.MockXTZ;
+  }
+  tokens.push(...(deployed.tokens ?? []));
+  registry.register(entry);
+  return tokens;
+}
+
+// Register each chain's declared tokens with the symbol and decimals their contracts report. A
+// manifest whose decimals disagree with decimals() is refused, so amounts are never scaled by a guess.
+async function registerTokens(
+  registry: ChainRegistry,
+  manifest: DeploymentManifest,
+  declared: Map<string, DeclaredToken[]>,
+  source: string,
+): Promise<void> {
+  const issues: string[] = [];
+  for (const [key, { chainId }] of Object.entries(manifest.chains)) {
+    const tokens = declared.get(key) ?? [];
+    if (tokens.length === 0) continue;
+    try {
+      const resolved = await new TokenRegistry(chainId, registry.publicClient(chainId), tokens).list();
+      const entry = registry.get(chainId);
+      registry.register({ ...entry, tokens: [...entry.tokens, ...resolved] });
+    } catch (error) {
+      if (!(error instanceof TokenError)) throw error;
+      issues.push(`chains.${key}.tokens: ${error.message}`);
     }
-    
-    console.log("Loaded contract addresses from deployment.json");
-  } else {
-    console.warn("No deployment data found, using default addresses");
-    // Fallback to default addresses for local testing
-    baseConfig.factoryAddressBase = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address;
-    baseConfig.factoryAddressEtherlink = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address;
-    baseConfig.usdcAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
-    baseConfig.xtzAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
   }
+  if (issues.length > 0) throw new ManifestError(source, issues);
+}
+
+// Registry of every configured chain with contract addresses from the environment's manifest.
+// Unless `verifyCode` is false, every manifest address is checked for contract code first. Token
+// decimals always come from the token contracts.
+export async function getRegistry(
+  config: Config = getConfig(),
+  options: { verifyCode?: boolean } = {},
+): Promise<ChainRegistry> {
+  // Copy the entries so deployment addresses never leak back into `config`
+  const registry = new ChainRegistry(
+    config.chains.map((entry) => ({ ...entry, contracts: { ...entry.contracts }, tokens: [...entry.tokens] })),
+    transactionManager(config),
+  );
+  for (const entry of registry.list()) {
+    await confirmAnvil(entry, registry.publicClient(entry.chain.id));
+  }
+  const manifest = await loadDeploymentData(config.environment);
+  
+  const declared = new Map<string, DeclaredToken[]>();
+  for (const [key, deployed] of Object.entries(manifest.chains)) {
+    declared.set(key, applyDeployment(registry, key, deployed));
+  }
+  if (options.verifyCode ?? true) {
+    await verifyManifestCode(manifest, manifestPath(config.environment), (chainId) => registry.publicClient(chainId));
+  }
+  await registerTokens(registry, manifest, declared, manifestPath(config.environment));
+  console.log(`Loaded ${config.environment} contract addresses from ${manifestPath(config.environment)}`);
   
-  return baseConfig;
+  return registry;
 }
 
 // Export default config
 export const config = getConfig();
-validateConfig(config);
\ No newline at end of file
+validateConfig(config);
@@ -26,6 +26,11 @@ for contract in "${contracts[@]}"; do
     if [ -f "$source_file" ]; then
         # Extract just the ABI from the compiled JSON
         jq '.abi' "$source_file" > "$ABI_DIR/${contract}.json"
+        # Emit an `as const` module so viem can infer argument and return types
+        {
+            echo "// Auto-generated from out/${contract}.sol/${contract}.json - do not edit"
+            echo "export const ${contract}Abi = $(jq '.abi' "$source_file") as const;"
+        } > "$ABI_DIR/${contract}.abi.ts"
         echo "✓ Copied ${contract} ABI"
     else
         echo "⚠️  ${contract} ABI not found at $source_file"
@@ -38,11 +43,11 @@ echo "ABIs copied to $ABI_DIR"
 # Create TypeScript index file for easy imports
 cat > "$ABI_DIR/index.ts" << 'EOF'
 // Auto-generated ABI exports
-import SimpleEscrowABI from "./SimpleEscrow.json" assert { type: "json" };
-import SimpleEscrowFactoryABI from "./SimpleEscrowFactory.json" assert { type: "json" };
-import MockERC20ABI from "./MockERC20.json" assert { type: "json" };
-import OneInchAdapterABI from "./OneInchAdapter.json" assert { type: "json" };
-import LightningBridgeABI from "./LightningBridge.json" assert { type: "json" };
+import SimpleEscrowABI from "./SimpleEscrow.json" with { type: "json" };
+import SimpleEscrowFactoryABI from "./SimpleEscrowFactory.json" with { type: "json" };
+import MockERC20ABI from "./MockERC20.json" with { type: "json" };
+import OneInchAdapterABI from "./OneInchAdapter.json" with { type: "json" };
+import LightningBridgeABI from "./LightningBridge.json" with { type: "json" };
 
 export {
   SimpleEscrowABI,
@@ -56,6 +61,13 @@ export {
 export const ERC20_ABI = MockERC20ABI;
 export const FACTORY_ABI = SimpleEscrowFactoryABI;
 export const ESCROW_ABI = SimpleEscrowABI;
+
+// Typed (`as const`) ABIs for viem type inference
+export { SimpleEscrowAbi } from "./SimpleEscrow.abi.ts";
+export { SimpleEscrowFactoryAbi } from "./SimpleEscrowFactory.abi.ts";
+export { MockERC20Abi } from "./MockERC20.abi.ts";
+export { OneInchAdapterAbi } from "./OneInchAdapter.abi.ts";
+export { LightningBridgeAbi } from "./LightningBridge.abi.ts";
 EOF
 
 echo "✓ Created TypeScript index file"
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import { type Address, concat, type Hex, pad, size } from "viem";
+import { SwapFixture } from "./anvil-fixture.ts";
+import {
+  create2Address,
+  deriveEscrowAddress,
+  EscrowAddressDeriver,
+  EscrowFactoryClient,
+  escrowHashlock,
+  escrowInitCode,
+  type EscrowParams,
+  generatePreimage,
+  generateSalt,
+  loadEscrowCreationCode,
+} from "./sdk/index.ts";
+
+const TOKEN = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+
+function params(overrides: Partial<EscrowParams> = {}): EscrowParams {
+  return {
+    token: TOKEN,
+    sender: ALICE,
+    recipient: BOB,
+    hashlock: escrowHashlock(generatePreimage()),
+    timelock: BigInt(Math.floor(Date.now() / 1000) + 3600),
+    salt: generateSalt(),
+    ...overrides,
+  };
+}
+
+Deno.test("CREATE2 - matches the EIP-1014 test vectors", () => {
+  const zero = pad("0x00");
+  assertEquals(
+    create2Address("0x0000000000000000000000000000000000000000", zero, "0x00"),
+    "0x4D1A2e2bB4F88F0250f26Ffff098B0b30B26BF38",
+  );
+  assertEquals(
+    create2Address("0xdeadbeef00000000000000000000000000000000", zero, "0x00"),
+    "0xB928f69Bb1D91Cd65274e3c79d8986362984fDA3",
+  );
+  assertEquals(
+    create2Address(
+      "0x00000000000000000000000000000000deadbeef",
+      pad("0xcafebabe"),
+      `0x${"deadbeef".repeat(11)}`,
+    ),
+    "0x1d8bfDC5D46DC4f61D6b6115972536eBE6A8854C",
+  );
+  assertEquals(
+    create2Address("0x0000000000000000000000000000000000000000", zero, "0x"),
+    "0xE33C0C7F7df4809055C3ebA6c09CFe4BaF1BD9e0",
+  );
+});
+
+Deno.test("CREATE2 - escrow init code appends the abi-encoded constructor arguments", () => {
+  const creationCode: Hex = "0x6080604052";
+  const escrow = params({ timelock: 1700000000n });
+  const initCode = escrowInitCode(creationCode, escrow);
+
+  assertEquals(size(initCode), size(creationCode) + 5 * 32);
+  assertEquals(
+    initCode,
+    concat([
+      creationCode,
+      pad(escrow.token),
+      pad(escrow.sender),
+      pad(escrow.recipient),
+      escrow.hashlock,
+      pad("0x6553f100"),
+    ]).toLowerCase(),
+  );
+
+  // Every constructor argument and the salt change the address
+  const factory = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address;
+  const deriver = new EscrowAddressDeriver(factory, creationCode);
+  assertEquals(deriver.address(escrow), deriveEscrowAddress(factory, creationCode, escrow));
+  const variants = [
+    { salt: generateSalt() },
+    { timelock: escrow.timelock + 1n },
+    { recipient: escrow.sender },
+  ].map((overrides) => deriver.address({ ...escrow, ...overrides }));
+  assertEquals(new Set([deriver.address(escrow), ...variants]).size, 4);
+});
+
+Deno.test("CREATE2 - parity with computeEscrowAddress on every fixture factory", {
+  ignore: Deno.env.get("SKIP_INTEGRATION") === "true",
+}, async () => {
+  const fixture = await SwapFixture.start();
+  try {
+    const artifactCode = await loadEscrowCreationCode();
+    for (const entry of fixture.registry.list()) {
+      const client = fixture.registry.publicClient(entry.chain.id);
+      const factory = new EscrowFactoryClient(entry.contracts.factory!, client);
+      const deriver = await EscrowAddressDeriver.fromFactory(client, factory.address);
+      assertEquals(deriver.creationCode, artifactCode, `artifact differs from factory on ${entry.key}`);
+
+      for (let i = 0; i < 5; i++) {
+        const escrow = params({ timelock: BigInt(i) * 1_000_003n });
+        assertEquals(deriver.address(escrow), await factory.computeAddress(escrow), `address mismatch on ${entry.key}`);
+      }
+    }
+  } finally {
+    await fixture.stop();
+  }
+});
@@ -17,7 +17,8 @@ SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 PROJECT_ROOT="$(cd "$SCRIPT_DIR/.." && pwd)"
 LOG_DIR="$PROJECT_ROOT/logs"
 LOG_FILE="$LOG_DIR/deploy.log"
-DEPLOYMENT_FILE="$PROJECT_ROOT/deployment.json"
+DEPLOYMENT_ENV="${DEPLOYMENT_ENV:-local}"
+DEPLOYMENT_FILE="$PROJECT_ROOT/deployments/$DEPLOYMENT_ENV.json"
 
 # Load environment variables
 if [ -f "$PROJECT_ROOT/.env" ]; then
@@ -224,8 +225,10 @@ main() {
     fi
     
     # Initialize deployment JSON with proper closing
+    mkdir -p "$(dirname "$DEPLOYMENT_FILE")"
     cat > "$DEPLOYMENT_FILE" << EOF
 {
+  "environment": "$DEPLOYMENT_ENV",
   "timestamp": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
   "chains": {}
 }
@@ -266,7 +269,7 @@ EOF
         fi
     fi
     
-    # Update deployment.json for Base
+    # Update the manifest for Base (contracts that failed to deploy are left out)
     jq --arg usdc "$USDC_ADDRESS" \
        --arg factory "$FACTORY_BASE_ADDRESS" \
        --arg oneinch "$ONEINCH_ADDRESS" \
@@ -274,10 +277,10 @@ EOF
           "chainId": 8453,
           "rpcUrl": "'$BASE_RPC'",
           "contracts": {
-            "MockUSDC": $usdc,
             "SimpleEscrowFactory": $factory,
             "OneInchAdapter": $oneinch
-          }
+          } | with_entries(select(.value != "")),
+          "tokens": [{ "symbol": "USDC", "address": $usdc }] | map(select(.address != ""))
         }' "$DEPLOYMENT_FILE" > "$DEPLOYMENT_FILE.tmp" && mv "$DEPLOYMENT_FILE.tmp" "$DEPLOYMENT_FILE"
     
     # Deploy to Etherlink
@@ -315,7 +318,7 @@ EOF
         fi
     fi
     
-    # Update deployment.json for Etherlink
+    # Update the manifest for Etherlink
     jq --arg xtz "$XTZ_ADDRESS" \
        --arg factory "$FACTORY_ETHERLINK_ADDRESS" \
        --arg lightning "$LIGHTNING_ADDRESS" \
@@ -323,18 +326,18 @@ EOF
           "chainId": 42793,
           "rpcUrl": "'$ETHERLINK_RPC'",
           "contracts": {
-            "MockXTZ": $xtz,
             "SimpleEscrowFactory": $factory,
             "LightningBridge": $lightning
-          }
+          } | with_entries(select(.value != "")),
+          "tokens": [{ "symbol": "XTZ", "address": $xtz }] | map(select(.address != ""))
         }' "$DEPLOYMENT_FILE" > "$DEPLOYMENT_FILE.tmp" && mv "$DEPLOYMENT_FILE.tmp" "$DEPLOYMENT_FILE"
     
-    # Validate final deployment.json
+    # Validate final manifest
     if jq . "$DEPLOYMENT_FILE" > /dev/null 2>&1; then
         log ""
         log "Deployment JSON validated successfully"
     else
-        log_error "WARNING: deployment.json is invalid JSON"
+        log_error "WARNING: $DEPLOYMENT_FILE is invalid JSON"
         log "Attempting to fix..."
         # Ensure proper closing
         echo "}" >> "$DEPLOYMENT_FILE"
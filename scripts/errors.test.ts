@@ -0,0 +1,138 @@
+import { assertEquals, assertInstanceOf, assertRejects, assertStringIncludes } from "@std/assert";
+import {
+  type Address,
+  createPublicClient,
+  createWalletClient,
+  custom,
+  encodeErrorResult,
+  getAddress,
+  type Hex,
+  http,
+  pad,
+  type PublicClient,
+  toHex,
+} from "viem";
+import { foundry } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import { LightningBridgeAbi, MockERC20Abi } from "./abis/index.ts";
+import {
+  BridgeClient,
+  ContractRevertError,
+  decodeRevert,
+  decodeRevertData,
+  describeError,
+  EscrowClient,
+  isConnectionError,
+  type SignerClient,
+} from "./sdk/index.ts";
+
+const address = (n: number) => pad(toHex(n), { size: 20 }) as Address;
+const hash = (n: number) => pad(toHex(n), { size: 32 }) as Hex;
+
+const ESCROW = address(0xe5c);
+const BRIDGE = address(0xb1d9e);
+const SPENDER = address(0x5be);
+const ACCOUNT = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+
+const ERROR_STRING_ABI = [{ type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }] as const;
+
+function requireData(message: string): Hex {
+  return encodeErrorResult({ abi: ERROR_STRING_ABI, errorName: "Error", args: [message] });
+}
+
+// Clients whose node reverts every eth_call with the given JSON-RPC error
+function revertingClients(error: { code: number; message: string; data?: Hex }) {
+  const transport = custom({
+    request: ({ method }) => {
+      if (method === "eth_chainId") return Promise.resolve(toHex(foundry.id));
+      if (method === "eth_call") return Promise.reject(error);
+      return Promise.reject(new Error(`unexpected ${method}`));
+    },
+  });
+  const publicClient = createPublicClient({ chain: foundry, transport }) as unknown as PublicClient;
+  const walletClient = createWalletClient({ account: ACCOUNT, chain: foundry, transport }) as SignerClient;
+  return { publicClient, walletClient };
+}
+
+Deno.test("Errors - decodes custom errors, require strings and bubbled token errors", () => {
+  const exists = decodeRevertData(encodeErrorResult({ abi: LightningBridgeAbi, errorName: "SwapAlreadyExists" }));
+  assertEquals(exists.errorName, "SwapAlreadyExists");
+  assertStringIncludes(exists.remedy, "new preimage");
+
+  const expired = decodeRevertData(requireData("SimpleEscrow: timelock expired"));
+  assertEquals(expired.errorName, "Error");
+  assertEquals(expired.reason, "SimpleEscrow: timelock expired");
+  assertStringIncludes(expired.explanation, "timelock has passed");
+
+  // Token errors are not in the factory ABI but still decode when they bubble up through it
+  const allowance = decodeRevertData(encodeErrorResult({
+    abi: MockERC20Abi,
+    errorName: "ERC20InsufficientAllowance",
+    args: [SPENDER, 10n ** 18n, 5n * 10n ** 18n],
+  }));
+  assertEquals(allowance.errorName, "ERC20InsufficientAllowance");
+  assertEquals(allowance.explanation, `${getAddress(SPENDER)} may spend 1 tokens but 5 are needed.`);
+
+  const unknown = decodeRevertData("0xdeadbeef");
+  assertEquals(unknown.errorName, "0xdeadbeef");
+  assertStringIncludes(unknown.explanation, "unrecognised");
+
+  const reworded = decodeRevertData(requireData("Something else"));
+  assertStringIncludes(reworded.explanation, "Something else");
+});
+
+Deno.test("Errors - client writes rethrow reverts as ContractRevertError", async () => {
+  const escrowClients = revertingClients({
+    code: 3,
+    message: "execution reverted: SimpleEscrow: timelock expired",
+    data: requireData("SimpleEscrow: timelock expired"),
+  });
+  const escrow = new EscrowClient(ESCROW, escrowClients.publicClient, escrowClients.walletClient);
+  const error = await assertRejects(() => escrow.withdraw(hash(1)), ContractRevertError);
+  assertEquals(error.functionName, "withdraw");
+  assertEquals(error.contractAddress, ESCROW);
+  assertEquals(error.reason, "SimpleEscrow: timelock expired");
+  assertStringIncludes(error.remedy, "refund");
+
+  const bridgeClients = revertingClients({
+    code: 3,
+    message: "execution reverted",
+    data: encodeErrorResult({ abi: LightningBridgeAbi, errorName: "UnauthorizedResolver" }),
+  });
+  const bridge = new BridgeClient(BRIDGE, bridgeClients.publicClient, bridgeClients.walletClient);
+  const unauthorized = await assertRejects(() => bridge.withdrawEVMFunds(hash(2)), ContractRevertError);
+  assertEquals(unauthorized.errorName, "UnauthorizedResolver");
+  assertStringIncludes(describeError(unauthorized), "Remedy: Send the transaction from the resolver account");
+});
+
+Deno.test("Errors - falls back to the node's message when it returns no revert data", async () => {
+  const { publicClient, walletClient } = revertingClients({
+    code: -32000,
+    message: "execution reverted: SimpleEscrow: not funded",
+  });
+  const escrow = new EscrowClient(ESCROW, publicClient, walletClient);
+  const error = await assertRejects(() => escrow.refund(), ContractRevertError);
+  assertEquals(error.reason, "SimpleEscrow: not funded");
+  assertStringIncludes(error.message, "refund reverted with \"SimpleEscrow: not funded\"");
+
+  const plain = describeError(new Error("connection refused"));
+  assertEquals(plain, "connection refused");
+  assertStringIncludes(describeError(error), "Remedy: Fund the escrow first");
+  assertInstanceOf(error.cause, Error);
+});
+
+Deno.test("Errors - tells an unreachable node apart from a revert", async () => {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  listener.close();
+  const transport = http(`http://127.0.0.1:${port}`, { retryCount: 0 });
+  const offline = createPublicClient({ chain: foundry, transport }) as unknown as PublicClient;
+  const error = await assertRejects(() => new EscrowClient(ESCROW, offline).getDetails());
+  assertEquals(isConnectionError(error), true);
+  assertEquals(decodeRevert(error), undefined);
+
+  const { publicClient, walletClient } = revertingClients({ code: 3, message: "execution reverted", data: "0x" });
+  const revert = await assertRejects(() => new EscrowClient(ESCROW, publicClient, walletClient).refund());
+  assertEquals(isConnectionError(revert), false);
+  assertEquals(isConnectionError(new Error("connection refused")), false);
+});
@@ -0,0 +1,263 @@
+import { assertEquals } from "@std/assert";
+import { type Address, getAddress, type Hash, type Hex, pad, type PublicClient, toHex } from "viem";
+import { EscrowIndex, EscrowIndexer, type IndexerReorg } from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const RESOLVER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC" as Address;
+const HASHLOCK = ("0x" + "ab".repeat(32)) as Hex;
+const PREIMAGE = ("0x" + "cd".repeat(32)) as Hex;
+const PAYMENT_HASH = ("0x" + "ef".repeat(32)) as Hex;
+
+const at = (n: number) => getAddress(pad(toHex(n), { size: 20 }));
+const FACTORY = at(0xfac);
+const BRIDGE = at(0xb1d9e);
+const TOKEN = at(0x70c);
+const ESCROW_A = at(0xa);
+const ESCROW_B = at(0xb);
+const BRIDGE_ESCROW = at(0xc);
+
+interface FakeLog {
+  blockNumber: bigint;
+  address: Address;
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+// Minimal stand-in for the PublicClient calls the indexer makes
+class FakeChain {
+  head = 0n;
+  fork = 0; // bump to change the hash of every block from `forkFrom`, simulating a reorg
+  forkFrom = 0n;
+  logs: FakeLog[] = [];
+
+  client(): PublicClient {
+    return {
+      getBlockNumber: () => Promise.resolve(this.head),
+      getBlock: ({ blockNumber }: { blockNumber: bigint }) => Promise.resolve({ hash: this.hash(blockNumber) }),
+      getContractEvents: (
+        { address, fromBlock, toBlock }: { address: Address | Address[]; fromBlock: bigint; toBlock: bigint },
+      ) => {
+        const addresses = [address].flat();
+        const logIndex = (log: FakeLog) => this.logs.filter((l) => l.blockNumber === log.blockNumber).indexOf(log);
+        return Promise.resolve(
+          this.logs
+            .map((log) => ({ ...log, logIndex: logIndex(log) }))
+            .filter((log) => addresses.includes(log.address))
+            .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+            .map((log) => ({
+              ...log,
+              blockHash: this.hash(log.blockNumber),
+              transactionHash: this.hash(log.blockNumber),
+            })),
+        );
+      },
+      readContract: () =>
+        Promise.resolve({
+          initiator: ALICE,
+          recipient: at(0),
+          evmEscrow: BRIDGE_ESCROW,
+          evmToken: TOKEN,
+          timelock: 5000n,
+        }),
+    } as unknown as PublicClient;
+  }
+
+  private hash(blockNumber: bigint): Hash {
+    const fork = blockNumber >= this.forkFrom ? BigInt(this.fork) : 0n;
+    return pad(toHex(blockNumber * 1000n + fork), { size: 32 });
+  }
+}
+
+function created(blockNumber: bigint, escrow: Address, sender: Address, recipient: Address): FakeLog {
+  return {
+    blockNumber,
+    address: FACTORY,
+    eventName: "EscrowCreated",
+    args: {
+      escrow,
+      sender,
+      recipient,
+      token: TOKEN,
+      hashlock: HASHLOCK,
+      timelock: 3600n,
+      chainId: 1n,
+      salt: HASHLOCK,
+    },
+  };
+}
+
+// Two escrows, one created from a 1inch order, and an EVM → Lightning bridge swap
+function swapLogs(): FakeLog[] {
+  return [
+    created(2n, ESCROW_A, ALICE, BOB),
+    {
+      blockNumber: 2n,
+      address: ESCROW_A,
+      eventName: "EscrowFunded",
+      args: { sender: ALICE, amount: 100n, token: TOKEN },
+    },
+    created(3n, ESCROW_B, BOB, ALICE),
+    {
+      blockNumber: 3n,
+      address: FACTORY,
+      eventName: "EscrowCreatedFrom1inch",
+      args: { escrow: ESCROW_B, orderHash: PAYMENT_HASH, maker: BOB, makingAmount: 50n },
+    },
+    {
+      blockNumber: 3n,
+      address: FACTORY,
+      eventName: "OwnershipTransferred",
+      args: { previousOwner: ALICE, newOwner: BOB },
+    },
+    {
+      blockNumber: 3n,
+      address: BRIDGE,
+      eventName: "EVMToLightningInitiated",
+      args: {
+        paymentHash: PAYMENT_HASH,
+        initiator: ALICE,
+        evmEscrow: BRIDGE_ESCROW,
+        evmAmount: 70n,
+        satoshiAmount: 25_000n,
+        timelock: 5000n,
+      },
+    },
+    {
+      blockNumber: 4n,
+      address: BRIDGE,
+      eventName: "LightningInvoiceSet",
+      args: { paymentHash: PAYMENT_HASH, invoice: "lnbcrt1" },
+    },
+    {
+      blockNumber: 5n,
+      address: ESCROW_A,
+      eventName: "EscrowWithdrawn",
+      args: { recipient: BOB, preimage: PREIMAGE, amount: 100n },
+    },
+    {
+      blockNumber: 6n,
+      address: BRIDGE,
+      eventName: "LightningPaymentConfirmed",
+      args: { paymentHash: PAYMENT_HASH, preimage: PREIMAGE, confirmedBy: RESOLVER },
+    },
+  ];
+}
+
+function setup(index = new EscrowIndex()) {
+  const chain = new FakeChain();
+  const indexer = new EscrowIndexer(index, [
+    { name: "base", chainId: 1, client: chain.client(), factory: FACTORY, bridge: BRIDGE },
+  ], { confirmations: 2, maxBlockRange: 3n });
+  const reorgs: IndexerReorg[] = [];
+  indexer.on("reorg", (event) => {
+    reorgs.push(event);
+  });
+  return { chain, index, indexer, reorgs };
+}
+
+Deno.test("Indexer - backfills escrows and bridge swaps into queryable tables", async () => {
+  const { chain, index, indexer } = setup();
+  chain.logs = swapLogs();
+  chain.head = 8n;
+  await indexer.poll();
+  assertEquals(index.cursor(1), 6n);
+
+  const [a, b] = index.escrows({ hashlock: HASHLOCK.toUpperCase().replace("0X", "0x") as Hex });
+  assertEquals([a.address, a.state, a.amount, a.preimage, a.createdBlock, a.updatedBlock], [
+    ESCROW_A,
+    "withdrawn",
+    100n,
+    PREIMAGE,
+    2n,
+    5n,
+  ]);
+  assertEquals([b.address, b.state, b.amount, b.orderHash, b.maker, b.makingAmount], [
+    ESCROW_B,
+    "unfunded",
+    undefined,
+    PAYMENT_HASH,
+    BOB,
+    50n,
+  ]);
+
+  assertEquals(index.escrows({ party: BOB.toLowerCase() as Address }).length, 2);
+  assertEquals(index.escrows({ sender: BOB }).map((e) => e.address), [ESCROW_B]);
+  assertEquals(index.escrows({ state: ["funded", "unfunded"], token: TOKEN }).map((e) => e.address), [ESCROW_B]);
+  assertEquals(index.escrows({ chainId: 2 }), []);
+  assertEquals(index.escrow(1, ESCROW_A)?.recipient, BOB);
+
+  const [swap] = index.bridgeSwaps({ party: ALICE });
+  assertEquals(swap, {
+    chainId: 1,
+    bridge: BRIDGE,
+    paymentHash: PAYMENT_HASH,
+    direction: "EVMToLightning",
+    state: "LightningPaid",
+    initiator: ALICE,
+    recipient: at(0),
+    evmEscrow: BRIDGE_ESCROW,
+    evmToken: TOKEN,
+    evmAmount: 70n,
+    satoshiAmount: 25_000n,
+    timelock: 5000n,
+    invoice: "lnbcrt1",
+    preimage: PREIMAGE,
+    createdBlock: 3n,
+    updatedBlock: 6n,
+  });
+  assertEquals(index.bridgeSwaps({ state: "Completed" }), []);
+  assertEquals(index.events({ contract: ESCROW_A }).map((e) => e.name), ["EscrowFunded", "EscrowWithdrawn"]);
+  assertEquals(index.events({ name: "OwnershipTransferred" }), [], "unrelated events are not stored");
+});
+
+Deno.test("Indexer - resumes from the stored cursor without duplicating events", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".sqlite" });
+  try {
+    const first = setup(new EscrowIndex(path));
+    first.chain.logs = swapLogs();
+    first.chain.head = 5n;
+    await first.indexer.poll();
+    assertEquals(first.index.escrow(1, ESCROW_A)?.state, "funded");
+    first.index.close();
+
+    const second = setup(new EscrowIndex(path));
+    second.chain.logs = swapLogs();
+    second.chain.head = 10n;
+    await second.indexer.poll();
+    await second.indexer.poll();
+    assertEquals(second.index.cursor(1), 8n);
+    assertEquals(second.index.escrow(1, ESCROW_A)?.state, "withdrawn");
+    assertEquals(second.index.events().length, 8);
+    second.index.close();
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("Indexer - rolls back and rescans after a reorg", async () => {
+  const { chain, index, indexer, reorgs } = setup();
+  chain.logs = swapLogs();
+  chain.head = 8n;
+  await indexer.poll();
+  assertEquals(index.escrow(1, ESCROW_A)?.state, "withdrawn");
+
+  // Blocks from 5 are replaced: the withdrawal moves to block 7, the payment confirmation is gone
+  chain.fork = 1;
+  chain.forkFrom = 5n;
+  chain.logs = swapLogs().filter((log) => log.blockNumber < 5n);
+  chain.logs.push({ ...swapLogs()[7], blockNumber: 7n });
+  await indexer.poll();
+
+  // The checkpoint at block 5 is stale, so the index falls back to the one at block 2
+  assertEquals(reorgs, [{ chainId: 1, rewoundTo: 2n, removed: 6 }]);
+  assertEquals(index.cursor(1), 6n);
+  assertEquals(index.escrow(1, ESCROW_A)?.state, "funded");
+  assertEquals(index.bridgeSwaps()[0].state, "Initiated");
+  assertEquals(index.bridgeSwaps()[0].invoice, "lnbcrt1");
+
+  chain.head = 10n;
+  await indexer.poll();
+  assertEquals(index.escrow(1, ESCROW_A)?.state, "withdrawn");
+  assertEquals(index.escrow(1, ESCROW_A)?.updatedBlock, 7n);
+});
@@ -0,0 +1,82 @@
+import { assertEquals } from "@std/assert";
+import type { Address, Hex } from "viem";
+import { SwapJournal, type SwapSnapshot, TokenAmount } from "./sdk/index.ts";
+
+const SENDER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const RECIPIENT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+
+function snapshot(state: SwapSnapshot["state"]): SwapSnapshot {
+  const escrow = {
+    token: "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address,
+    sender: SENDER,
+    recipient: RECIPIENT,
+    hashlock: ("0x" + "11".repeat(32)) as Hex,
+    timelock: 1_754_000_000n,
+    salt: ("0x" + "22".repeat(32)) as Hex,
+  };
+  return {
+    id: "swap-1",
+    state,
+    source: {
+      chainId: 8453,
+      factory: SENDER,
+      escrow,
+      amount: TokenAmount.fromRaw({ chainId: 8453, address: escrow.token, symbol: "USDC", decimals: 6 }, 100_000_000n),
+    },
+    destination: {
+      chainId: 42793,
+      factory: RECIPIENT,
+      escrow: { ...escrow, sender: RECIPIENT, recipient: SENDER },
+      amount: TokenAmount.fromRaw({ chainId: 42793, address: escrow.token, symbol: "XTZ", decimals: 18 }, 10n ** 19n),
+    },
+    preimage: ("0x" + "33".repeat(32)) as Hex,
+    txs: {},
+    updatedAt: 0,
+  };
+}
+
+Deno.test("Journal - round-trips snapshots including bigints and token amounts", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const journal = new SwapJournal(dir);
+    await journal.append(snapshot("Planned"));
+    await journal.append(snapshot("Created"));
+
+    assertEquals((await journal.history("swap-1")).length, 2);
+    const loaded = await journal.load("swap-1");
+    assertEquals(loaded, snapshot("Created"));
+    assertEquals(loaded!.destination.amount instanceof TokenAmount, true);
+    assertEquals(loaded!.destination.amount.toString(), "10 XTZ");
+    assertEquals(await journal.list(), ["swap-1"]);
+    assertEquals(await journal.load("unknown"), null);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Journal - creates its directory and files readable by the owner only", {
+  ignore: Deno.build.os === "windows",
+}, async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const journal = new SwapJournal(`${dir}/swaps`);
+    await journal.append(snapshot("Planned"));
+    assertEquals((await Deno.stat(journal.directory)).mode! & 0o777, 0o700);
+    assertEquals((await Deno.stat(journal.path("swap-1"))).mode! & 0o777, 0o600);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Journal - ignores a torn last line", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const journal = new SwapJournal(dir);
+    await journal.append(snapshot("CounterpartyLocked"));
+    await Deno.writeTextFile(journal.path("swap-1"), '{"at":"2025-', { append: true });
+
+    assertEquals((await journal.load("swap-1"))?.state, "CounterpartyLocked");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,125 @@
+// Mock limit order protocol harness
+// Forge artifact helpers shared by the Anvil fixtures, and 1inch order fills against
+// test/mocks/MockLimitOrderProtocol so the adapter's postInteraction creates and funds the escrow,
+// exactly as integrators do. Needs `forge build` output in ../out.
+
+import {
+  type Abi,
+  type Address,
+  getAddress,
+  type Hash,
+  type Hex,
+  parseEventLogs,
+  type PublicClient,
+  type TransactionReceipt,
+} from "viem";
+import { OneInchAdapterAbi } from "./abis/index.ts";
+import type { LimitOrder, SignerClient } from "./sdk/index.ts";
+
+export const OUT_DIR = new URL("../out", import.meta.url).pathname;
+
+export interface Artifact {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+export interface LimitOrderHarness {
+  client: PublicClient;
+  taker: SignerClient; // fills orders (the resolver)
+  limitOrderProtocol: Address;
+  lopAbi: Abi;
+}
+
+export interface FillRequest {
+  order: LimitOrder;
+  extension: Hex; // adapter address followed by the adapter extension
+  makingAmount: bigint;
+  takingAmount: bigint;
+}
+
+export interface FillResult {
+  hash: Hash;
+  receipt: TransactionReceipt;
+  events: ReturnType<typeof parseEventLogs<typeof OneInchAdapterAbi>>;
+}
+
+// Contract ABI and creation bytecode from out/<Contract>.sol/<Contract>.json
+export async function loadArtifact(contract: string, outDir = OUT_DIR): Promise<Artifact> {
+  const path = `${outDir}/${contract}.sol/${contract}.json`;
+  let artifact: { abi?: Abi; bytecode?: { object?: Hex } };
+  try {
+    artifact = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load ${contract} artifact ${path} (run \`forge build\`): ${reason}`);
+  }
+  if (!artifact.abi || !artifact.bytecode?.object || artifact.bytecode.object === "0x") {
+    throw new Error(`${contract} artifact ${path} has no ABI or bytecode`);
+  }
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+// Receipt of a mined transaction; throws when it reverted
+export async function confirm(client: PublicClient, hash: Hash, step: string): Promise<TransactionReceipt> {
+  const receipt = await client.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Transaction ${step} (${hash}) reverted`);
+  }
+  return receipt;
+}
+
+// Deploy a forge artifact and return its checksummed address
+export async function deploy(
+  client: PublicClient,
+  signer: SignerClient,
+  artifact: Artifact,
+  name: string,
+  args: unknown[] = [],
+): Promise<Address> {
+  const hash = await signer.deployContract({
+    abi: artifact.abi,
+    bytecode: artifact.bytecode,
+    args,
+    account: signer.account,
+    chain: signer.chain,
+  });
+  const { contractAddress } = await confirm(client, hash, `deploy ${name}`);
+  if (!contractAddress) throw new Error(`Deploying ${name} returned no contract address`);
+  return getAddress(contractAddress);
+}
+
+// The mock protocol deployed at `limitOrderProtocol` (see deployContracts in anvil-fixture.ts),
+// filled by `taker`
+export async function limitOrderHarness(
+  client: PublicClient,
+  taker: SignerClient,
+  limitOrderProtocol: Address,
+  outDir?: string,
+): Promise<LimitOrderHarness> {
+  const { abi } = await loadArtifact("MockLimitOrderProtocol", outDir);
+  return { client, taker, limitOrderProtocol, lopAbi: abi };
+}
+
+// Fill an order as the taker and decode the adapter's events from the receipt
+export async function fillOrder(harness: LimitOrderHarness, request: FillRequest): Promise<FillResult> {
+  const hash = await harness.taker.writeContract({
+    address: harness.limitOrderProtocol,
+    abi: harness.lopAbi,
+    functionName: "fillOrder",
+    args: [request.order, "0x", request.extension, request.makingAmount, request.takingAmount],
+    account: harness.taker.account,
+    chain: harness.taker.chain,
+  });
+  const receipt = await confirm(harness.client, hash, "fillOrder");
+  return { hash, receipt, events: parseEventLogs({ abi: OneInchAdapterAbi, logs: receipt.logs }) };
+}
+
+// MockLimitOrderProtocol.hashOrder, the orderHash passed to postInteraction
+export function lopOrderHash(harness: LimitOrderHarness, order: LimitOrder): Promise<Hash> {
+  return harness.client.readContract({
+    address: harness.limitOrderProtocol,
+    abi: harness.lopAbi,
+    functionName: "hashOrder",
+    args: [order],
+  }) as Promise<Hash>;
+}
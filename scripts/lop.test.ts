@@ -0,0 +1,139 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { type Address, concat, encodeAbiParameters, isAddressEqual, type LocalAccount, parseUnits } from "viem";
+import { type FixtureContracts, SwapFixture } from "./anvil-fixture.ts";
+import { confirm, fillOrder, limitOrderHarness, lopOrderHash } from "./lop-harness.ts";
+import {
+  buildOrder,
+  createSecret,
+  deriveEscrowAddress,
+  EscrowClient,
+  fetchEscrowCreationCode,
+  generateSalt,
+  postInteractionExtension,
+  type SwapExtension,
+  TokenClient,
+} from "./sdk/index.ts";
+
+// Fills on the fixture's source chain: Alice makes orders selling USDC for USDC, Bob fills them
+const ignore = Deno.env.get("SKIP_INTEGRATION") === "true";
+const BALANCE = parseUnits("1000000", 6);
+
+function swapOrder(
+  contracts: FixtureContracts,
+  maker: Address,
+  taker: Address,
+  makingAmount: bigint,
+  extension: Partial<SwapExtension> = {},
+) {
+  const { preimage, hashlocks } = createSecret();
+  const swap: SwapExtension = {
+    hashlock: hashlocks.keccak256,
+    recipient: taker,
+    timeoutDuration: 3600n,
+    destinationChainId: 42793n,
+    salt: generateSalt(),
+    ...extension,
+  };
+  const order = buildOrder({
+    maker,
+    makerAsset: contracts.token,
+    takerAsset: contracts.token,
+    makingAmount,
+    takingAmount: makingAmount / 2n,
+  });
+  return { preimage, swap, order, extension: postInteractionExtension(contracts.adapter, swap) };
+}
+
+Deno.test("1inch - adapter fills on Anvil", { ignore }, async (t) => {
+  const fixture = await SwapFixture.start({ balance: BALANCE });
+  const { anvil, contracts } = fixture.source;
+  const { alice, bob } = fixture.accounts;
+  const signer = (account: LocalAccount) => fixture.registry.walletClient(anvil.chainId, account);
+  const newOrder = (amount: bigint) => swapOrder(contracts, alice.address, bob.address, amount);
+
+  try {
+    const h = await limitOrderHarness(anvil.client, signer(bob), contracts.limitOrderProtocol);
+    // Both sides let the protocol pull their USDC
+    for (const account of [alice, bob]) {
+      const token = new TokenClient(contracts.token, anvil.client, signer(account));
+      await confirm(anvil.client, await token.approve(contracts.limitOrderProtocol, BALANCE), "approve");
+    }
+
+    await t.step("postInteraction fill creates and funds the escrow", fixture.isolated(async () => {
+      const amount = parseUnits("250", 6);
+      const { swap, order, extension } = newOrder(amount);
+
+      const fill = { order, extension, makingAmount: amount, takingAmount: amount / 2n };
+      const { receipt, events } = await fillOrder(h, fill);
+      const orderHash = await lopOrderHash(h, order);
+
+      const decoded = events.find((e) => e.eventName === "ExtensionDecoded");
+      const initiated = events.find((e) => e.eventName === "AtomicSwapInitiated");
+      const funded = events.find((e) => e.eventName === "AtomicSwapFunded");
+      assertEquals(decoded?.args, {
+        orderHash,
+        hashlock: swap.hashlock,
+        recipient: swap.recipient,
+        destinationChainId: swap.destinationChainId,
+      });
+      assertEquals(initiated?.args.orderHash, orderHash);
+      assertEquals(isAddressEqual(initiated!.args.maker, alice.address), true);
+      assertEquals(isAddressEqual(initiated!.args.taker, h.taker.account.address), true);
+      assertEquals(initiated?.args.hashlock, swap.hashlock);
+      assertEquals(initiated?.args.amount, amount);
+      const escrow = initiated!.args.escrow;
+      assertEquals(funded?.args, { escrow, amount, token: contracts.token });
+
+      // The escrow sits at the CREATE2 address for the fill block's timelock and holds the maker's tokens
+      const { timestamp } = await h.client.getBlock({ blockNumber: receipt.blockNumber });
+      const timelock = timestamp + swap.timeoutDuration;
+      const creationCode = await fetchEscrowCreationCode(h.client, contracts.factory);
+      assertEquals(
+        escrow,
+        deriveEscrowAddress(contracts.factory, creationCode, {
+          token: contracts.token,
+          sender: alice.address,
+          recipient: swap.recipient,
+          hashlock: swap.hashlock,
+          timelock,
+          salt: swap.salt,
+        }),
+      );
+      const details = await new EscrowClient(escrow, h.client).getDetails();
+      assertEquals(details.funded, true);
+      assertEquals(details.amount, amount);
+      assertEquals(details.timelock, timelock);
+      assertEquals(isAddressEqual(details.sender, alice.address), true);
+      assertEquals(await new TokenClient(contracts.token, h.client).balanceOf(escrow), amount);
+    }));
+
+    await t.step("taker claims the escrow with the preimage", fixture.isolated(async () => {
+      const amount = parseUnits("1", 6);
+      const { preimage, order, extension } = newOrder(amount);
+      const { events } = await fillOrder(h, { order, extension, makingAmount: amount, takingAmount: amount / 2n });
+      const escrow = events.find((e) => e.eventName === "AtomicSwapFunded")!.args.escrow;
+
+      const token = new TokenClient(contracts.token, h.client);
+      const before = await token.balanceOf(h.taker.account.address);
+      const hash = await new EscrowClient(escrow, h.client, h.taker).withdraw(preimage);
+      await h.client.waitForTransactionReceipt({ hash });
+      assertEquals(await token.balanceOf(h.taker.account.address), before + amount);
+    }));
+
+    await t.step("fill reverts when the extension timeout exceeds 30 days", fixture.isolated(async () => {
+      const amount = parseUnits("1", 6);
+      const { swap, order } = newOrder(amount);
+      // Bypass encodeExtension's validation to reach the adapter's own check
+      const extension = concat([
+        contracts.adapter,
+        encodeAbiParameters(
+          [{ type: "bytes32" }, { type: "address" }, { type: "uint256" }, { type: "uint256" }, { type: "bytes32" }],
+          [swap.hashlock, swap.recipient, 31n * 86400n, swap.destinationChainId, swap.salt],
+        ),
+      ]);
+      await assertRejects(() => fillOrder(h, { order, extension, makingAmount: amount, takingAmount: amount / 2n }));
+    }));
+  } finally {
+    await fixture.stop();
+  }
+});
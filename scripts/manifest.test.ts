@@ -0,0 +1,65 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { PublicClient } from "viem";
+import { ManifestError, parseManifest, verifyManifestCode } from "./sdk/index.ts";
+
+const FACTORY = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const USDC = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+function manifest(overrides: Record<string, unknown> = {}) {
+  return {
+    environment: "local",
+    timestamp: "2024-01-01T00:00:00Z",
+    chains: {
+      base: {
+        chainId: 8453,
+        rpcUrl: "http://localhost:8545",
+        contracts: { SimpleEscrowFactory: FACTORY, MockUSDC: USDC },
+      },
+    },
+    ...overrides,
+  };
+}
+
+function issues(data: unknown, environment?: "local" | "testnet"): string[] {
+  return assertThrows(() => parseManifest(data, "local.json", environment), ManifestError).issues;
+}
+
+Deno.test("Manifest - accepts a valid manifest", () => {
+  const parsed = parseManifest(manifest(), "local.json", "local");
+  assertEquals(parsed.chains.base.contracts.SimpleEscrowFactory, FACTORY);
+});
+
+Deno.test("Manifest - reports every schema problem with its path", () => {
+  const found = issues(manifest({
+    chains: {
+      base: {
+        chainId: "8453",
+        rpcUrl: "localhost:8545",
+        contracts: { SimpleEscrowFactory: FACTORY.toLowerCase().replace("0xe7", "0xE7"), MockUSDC: "" },
+        tokens: [{ symbol: "USDC", address: USDC, decimals: 300 }],
+      },
+    },
+  }));
+  assertEquals(found, [
+    "chains.base.chainId must be an integer between 1 and 9007199254740991",
+    "chains.base.rpcUrl must be an http(s) or ws(s) URL",
+    `chains.base.contracts.SimpleEscrowFactory is not checksummed: 0xE7f1725e7734ce288f8367e1bb143e90bb3f0512 (expected ${FACTORY})`,
+    "chains.base.contracts.MockUSDC must be a non-empty string",
+    "chains.base.tokens[0].decimals must be an integer between 0 and 255",
+  ]);
+});
+
+Deno.test("Manifest - rejects a manifest for another environment", () => {
+  assertEquals(issues(manifest(), "testnet"), ['environment is "local" but "testnet" was requested']);
+  assertEquals(issues({ timestamp: "now", chains: {} }), ["chains must list at least one chain"]);
+});
+
+Deno.test("Manifest - fails when an address has no code", async () => {
+  const parsed = parseManifest(manifest(), "local.json");
+  const client = {
+    getCode: ({ address }: { address: string }) => Promise.resolve(address === FACTORY ? "0x6080" : undefined),
+  } as unknown as PublicClient;
+
+  const error = await assertRejects(() => verifyManifestCode(parsed, "local.json", () => client), ManifestError);
+  assertEquals(error.issues, [`chains.base.contracts.MockUSDC: no contract code at ${USDC} on chain 8453`]);
+});
@@ -0,0 +1,40 @@
+import { assertEquals } from "@std/assert";
+import type { Address, Hex } from "viem";
+import { deriveState, type EscrowDetails } from "./sdk/index.ts";
+
+function escrow(overrides: Partial<EscrowDetails> = {}): EscrowDetails {
+  return {
+    token: "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address,
+    sender: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address,
+    recipient: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address,
+    hashlock: ("0x" + "11".repeat(32)) as Hex,
+    timelock: 1_000n,
+    amount: 100n,
+    funded: true,
+    withdrawn: false,
+    refunded: false,
+    preimage: ("0x" + "00".repeat(32)) as Hex,
+    ...overrides,
+  };
+}
+
+Deno.test("Orchestrator - derives happy path states", () => {
+  assertEquals(deriveState(null, null), "Planned");
+  assertEquals(deriveState(escrow(), null), "Created");
+  assertEquals(deriveState(escrow(), escrow()), "CounterpartyLocked");
+  assertEquals(deriveState(escrow(), escrow({ withdrawn: true })), "SecretRevealed");
+  assertEquals(
+    deriveState(escrow({ withdrawn: true }), escrow({ withdrawn: true })),
+    "Claimed",
+  );
+});
+
+Deno.test("Orchestrator - refunded only once no leg is left open", () => {
+  assertEquals(deriveState(escrow({ refunded: true }), null), "Refunded");
+  // Responder still has to reclaim the destination leg
+  assertEquals(deriveState(escrow({ refunded: true }), escrow()), "CounterpartyLocked");
+  assertEquals(
+    deriveState(escrow({ refunded: true }), escrow({ refunded: true })),
+    "Refunded",
+  );
+});
@@ -0,0 +1,135 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  type Address,
+  concat,
+  createWalletClient,
+  encodeAbiParameters,
+  getAddress,
+  http,
+  keccak256,
+  pad,
+  size,
+  slice,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import { mnemonicToAccount } from "viem/accounts";
+import { OneInchAdapterAbi } from "./abis/index.ts";
+import { SwapFixture } from "./anvil-fixture.ts";
+import {
+  ANVIL_MNEMONIC,
+  buildOrder,
+  decodeExtension,
+  encodeExtension,
+  encodeFactoryExtension,
+  orderDomain,
+  OrderError,
+  type OrderErrorCode,
+  orderHash,
+  postInteractionExtension,
+  recoverOrderSigner,
+  signOrder,
+  type SwapExtension,
+} from "./sdk/index.ts";
+
+const ALICE = mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: 0 });
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const USDC = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
+const ADAPTER = "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0" as Address;
+
+const EXTENSION: SwapExtension = {
+  hashlock: pad("0x42"),
+  recipient: BOB,
+  timeoutDuration: 3600n,
+  destinationChainId: 42793n,
+  salt: pad("0x01"),
+};
+
+const ORDER = { maker: ALICE.address, makerAsset: USDC, takerAsset: USDC, makingAmount: 100n, takingAmount: 99n };
+
+function rejects(code: OrderErrorCode, fn: () => unknown): void {
+  assertEquals(assertThrows(fn, OrderError).code, code);
+}
+
+Deno.test("Orders - extension round-trips through decodeExtension", () => {
+  const data = encodeExtension(EXTENSION);
+  assertEquals(size(data), 160);
+  assertEquals(decodeExtension(data), EXTENSION);
+
+  const withAdapter = postInteractionExtension(ADAPTER, EXTENSION);
+  assertEquals(getAddress(slice(withAdapter, 0, 20)), ADAPTER);
+  assertEquals(decodeExtension(slice(withAdapter, 20)), EXTENSION);
+
+  // The factory's createEscrowFrom1inchOrder reads four words without the destination chain ID
+  assertEquals(
+    encodeFactoryExtension(EXTENSION),
+    encodeAbiParameters(
+      [{ type: "bytes32" }, { type: "address" }, { type: "uint256" }, { type: "bytes32" }],
+      [EXTENSION.hashlock, BOB, 3600n, EXTENSION.salt],
+    ),
+  );
+});
+
+Deno.test("Orders - rejects extensions the adapter would revert on", () => {
+  rejects("InvalidExtensionData", () => encodeExtension({ ...EXTENSION, hashlock: zeroHash }));
+  rejects("InvalidExtensionData", () => encodeExtension({ ...EXTENSION, recipient: zeroAddress }));
+  rejects("InvalidExtensionData", () => encodeExtension({ ...EXTENSION, salt: zeroHash }));
+  rejects("InvalidTimeoutDuration", () => encodeExtension({ ...EXTENSION, timeoutDuration: 0n }));
+  rejects("InvalidTimeoutDuration", () => encodeExtension({ ...EXTENSION, timeoutDuration: 2_592_001n }));
+  encodeExtension({ ...EXTENSION, timeoutDuration: 2_592_000n }); // exactly 30 days is allowed
+
+  rejects("InvalidExtensionData", () => decodeExtension(slice(encodeExtension(EXTENSION), 0, 159)));
+  rejects("ZeroAmount", () => buildOrder({ ...ORDER, makingAmount: 0n }));
+  rejects("OrderValidationFailed", () => buildOrder({ ...ORDER, makerAsset: zeroAddress }));
+});
+
+Deno.test("Orders - hashes and signs orders", async () => {
+  const order = buildOrder({ ...ORDER, salt: 7n });
+  assertEquals(order.offsets, 1n);
+  assertEquals(order.receiver, zeroAddress);
+
+  // abi.encode of a struct with a dynamic member starts with the offset of the tuple
+  const fields = encodeAbiParameters(
+    [
+      { type: "uint256" },
+      { type: "address" },
+      { type: "address" },
+      { type: "address" },
+      { type: "address" },
+      { type: "address" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "bytes" },
+    ],
+    [7n, USDC, USDC, ALICE.address, zeroAddress, zeroAddress, 100n, 99n, 1n, "0x"],
+  );
+  assertEquals(orderHash(order), keccak256(concat([pad("0x20"), fields])));
+
+  const signer = createWalletClient({ account: ALICE, transport: http("http://localhost:8545") });
+  const domain = orderDomain(8453, "0x1111111254EEB25477B68fb85Ed929f73A960582");
+  const signature = await signOrder(signer, order, domain);
+  assertEquals(await recoverOrderSigner(order, domain, signature), ALICE.address);
+  const error = await assertRejects(() => signOrder(signer, { ...order, maker: BOB }, domain), OrderError);
+  assertEquals(error.code, "OrderValidationFailed");
+});
+
+Deno.test("Orders - parity with OneInchAdapter.decodeExtension", {
+  ignore: Deno.env.get("SKIP_INTEGRATION") === "true",
+}, async () => {
+  const fixture = await SwapFixture.start();
+  try {
+    for (const { anvil, contracts } of fixture.chains) {
+      const decoded = await anvil.client.readContract({
+        address: contracts.adapter,
+        abi: OneInchAdapterAbi,
+        functionName: "decodeExtension",
+        args: [encodeExtension(EXTENSION)],
+      });
+      const { hashlock, recipient, timeoutDuration, destinationChainId, salt } = EXTENSION;
+      assertEquals(decoded, [hashlock, recipient, timeoutDuration, destinationChainId, salt]);
+    }
+  } finally {
+    await fixture.stop();
+  }
+});
@@ -0,0 +1,99 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { Address, Hex } from "viem";
+import {
+  assertSafeTimelocks,
+  type EscrowDetails,
+  legAmount,
+  minimumTimelockGap,
+  planTimelocks,
+  type SwapLeg,
+  SwapPlanError,
+  type Token,
+  TokenAmount,
+  TokenError,
+  verifyLeg,
+} from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const TOKEN = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
+const HASHLOCK = ("0x" + "11".repeat(32)) as Hex;
+const USDC: Token = { chainId: 1, address: TOKEN, symbol: "USDC", decimals: 6 };
+
+const policy = { revealWindow: 600, claimWindow: 600, safetyMargin: 100, latency: 30 };
+const timing = {
+  source: { blockTime: 2, confirmations: 5 },
+  destination: { blockTime: 12, confirmations: 2 },
+};
+
+function leg(timelock: bigint, sender = ALICE, recipient = BOB): SwapLeg {
+  return {
+    chainId: 1,
+    factory: TOKEN,
+    amount: TokenAmount.fromRaw(USDC, 100n),
+    escrow: { token: TOKEN, sender, recipient, hashlock: HASHLOCK, timelock, salt: HASHLOCK },
+  };
+}
+
+function details(planned: SwapLeg, overrides: Partial<EscrowDetails> = {}): EscrowDetails {
+  return {
+    ...planned.escrow,
+    amount: legAmount(planned),
+    funded: true,
+    withdrawn: false,
+    refunded: false,
+    preimage: ("0x" + "00".repeat(32)) as Hex,
+    ...overrides,
+  };
+}
+
+Deno.test("Planner - responder lock expires before the initiator lock", () => {
+  // finality: source 10s, destination 24s
+  assertEquals(minimumTimelockGap(timing, policy), 24n + 30n + 10n + 600n + 100n);
+  const timelocks = planTimelocks(1_000n, timing, policy);
+  assertEquals(timelocks.destination, 1_000n + 10n + 30n + 24n + 600n + 100n);
+  assertEquals(timelocks.source - timelocks.destination, minimumTimelockGap(timing, policy));
+
+  assertSafeTimelocks(
+    { source: leg(timelocks.source), destination: leg(timelocks.destination, BOB, ALICE) },
+    timing,
+    policy,
+  );
+});
+
+Deno.test("Planner - rejects equal timelocks on both legs", () => {
+  const error = assertThrows(
+    () => assertSafeTimelocks({ source: leg(5_000n), destination: leg(5_000n, BOB, ALICE) }, timing, policy),
+    SwapPlanError,
+  );
+  assertEquals(error.violation, "timelock");
+});
+
+Deno.test("Planner - verifies counterparty escrow details against the plan", () => {
+  const planned = leg(5_000n);
+  verifyLeg("source", planned, details(planned));
+  verifyLeg("source", planned, details(planned, { amount: 150n }));
+
+  const cases: [Partial<EscrowDetails>, string][] = [
+    [{ funded: false }, "unfunded"],
+    [{ token: ALICE }, "token"],
+    [{ amount: 99n }, "amount"],
+    [{ recipient: ALICE }, "recipient"],
+    [{ timelock: 4_999n }, "timelock"],
+  ];
+  for (const [overrides, violation] of cases) {
+    const error = assertThrows(() => verifyLeg("source", planned, details(planned, overrides)), SwapPlanError);
+    assertEquals(error.violation, violation);
+    assertEquals(error.leg, "source");
+  }
+  const short = assertThrows(() => verifyLeg("source", planned, details(planned, { amount: 99n })), SwapPlanError);
+  assertEquals(short.message, "source escrow amount is 0.000099 USDC, expected 0.0001 USDC");
+});
+
+Deno.test("Planner - funds a leg only with an amount of its escrow token", () => {
+  assertEquals(legAmount(leg(5_000n)), 100n);
+  const other = { ...leg(5_000n), amount: TokenAmount.fromRaw({ ...USDC, address: ALICE }, 100n) };
+  assertEquals(assertThrows(() => legAmount(other), TokenError).violation, "mixed");
+  const elsewhere = { ...leg(5_000n), chainId: 2 };
+  assertEquals(assertThrows(() => verifyLeg("source", elsewhere, details(leg(5_000n))), TokenError).violation, "mixed");
+});
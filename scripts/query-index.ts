@@ -0,0 +1,60 @@
+// Escrow index queries
+// Run with: deno run --allow-read --allow-write --allow-env query-index.ts <escrows|swaps|events> [--db <path>] [--chain <id>] [--hashlock <hex>] [--party <address>] [--token <address>] [--state <state>] [--payment-hash <hex>] [--contract <address>] [--limit <n>]
+//
+// Prints matching rows of the database built by run-indexer.ts as JSON lines. --state may be given
+// as a comma-separated list.
+
+import { type Address, type Hex } from "viem";
+import { EscrowIndex, type EscrowState, type IndexedBridgeSwap } from "./sdk/index.ts";
+import { INDEX_DB } from "./run-indexer.ts";
+
+const USAGE = "Usage: query-index.ts <escrows|swaps|events> [--db <path>] [--chain <id>] [--hashlock <hex>] " +
+  "[--party <address>] [--token <address>] [--state <state>] [--payment-hash <hex>] [--contract <address>] " +
+  "[--limit <n>]";
+
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+}
+
+function toJson(row: unknown): string {
+  return JSON.stringify(row, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+if (import.meta.main) {
+  const args = [...Deno.args];
+  const path = takeOption(args, "--db") ?? INDEX_DB;
+  const chain = takeOption(args, "--chain");
+  const limit = takeOption(args, "--limit");
+  const state = takeOption(args, "--state")?.split(",");
+  const filters = {
+    chainId: chain !== undefined ? parseInt(chain) : undefined,
+    limit: limit !== undefined ? parseInt(limit) : undefined,
+    party: takeOption(args, "--party") as Address | undefined,
+  };
+  const hashlock = takeOption(args, "--hashlock") as Hex | undefined;
+  const token = takeOption(args, "--token") as Address | undefined;
+  const paymentHash = takeOption(args, "--payment-hash") as Hex | undefined;
+  const contract = takeOption(args, "--contract") as Address | undefined;
+  const [table] = args;
+
+  const index = new EscrowIndex(path);
+  try {
+    const rows = table === "escrows"
+      ? index.escrows({ ...filters, hashlock, token, state: state as EscrowState[] | undefined })
+      : table === "swaps"
+      ? index.bridgeSwaps({ ...filters, paymentHash, state: state as IndexedBridgeSwap["state"][] | undefined })
+      : table === "events"
+      ? index.events({ chainId: filters.chainId, contract, limit: filters.limit })
+      : undefined;
+    if (!rows) {
+      console.error(USAGE);
+      Deno.exit(1);
+    }
+    for (const row of rows) {
+      console.log(toJson(row));
+    }
+  } finally {
+    index.close();
+  }
+}
@@ -0,0 +1,94 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { Address, PublicClient } from "viem";
+import { base, sepolia } from "viem/chains";
+import { generatePrivateKey, mnemonicToAccount, privateKeyToAccount } from "viem/accounts";
+import {
+  ANVIL_MNEMONIC,
+  type ChainEntry,
+  ChainRegistry,
+  confirmAnvil,
+  customChain,
+  isLocalChain,
+  withRpc,
+} from "./sdk/index.ts";
+
+const FACTORY = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" as Address;
+const USDC = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
+
+function entry(key: string, overrides: Partial<ChainEntry> = {}): ChainEntry {
+  const rpcUrl = `http://${key}.local:8545`;
+  return { key, chain: customChain(1000 + key.length, key, rpcUrl), rpcUrl, contracts: {}, tokens: [], ...overrides };
+}
+
+Deno.test("Registry - looks up chains, factories and tokens by chain ID", () => {
+  const registry = new ChainRegistry([
+    entry("base", {
+      chain: withRpc(base, "http://localhost:8545"),
+      rpcUrl: "http://localhost:8545",
+      contracts: { factory: FACTORY },
+      tokens: [{ symbol: "USDC", address: USDC, decimals: 6 }],
+    }),
+    entry("sepolia", { chain: withRpc(sepolia, "http://localhost:8547"), rpcUrl: "http://localhost:8547" }),
+  ]);
+
+  assertEquals(registry.chainIds(), [base.id, sepolia.id]);
+  assertEquals(registry.byKey("sepolia")?.chain.id, sepolia.id);
+  assertEquals(registry.get(base.id).chain.rpcUrls.default.http, ["http://localhost:8545"]);
+  assertEquals(registry.factory(base.id), FACTORY);
+  assertEquals(registry.token(base.id, "usdc").decimals, 6);
+  assertEquals(registry.token(base.id, USDC.toLowerCase()).symbol, "USDC");
+
+  assertThrows(() => registry.get(1), Error, "not registered");
+  assertThrows(() => registry.factory(sepolia.id), Error, "No SimpleEscrowFactory");
+  assertThrows(() => registry.token(base.id, "XTZ"), Error, "not registered");
+});
+
+Deno.test("Registry - local chain IDs override the public definition", () => {
+  const local = withRpc(base, "http://localhost:8545", 31337);
+  assertEquals(local.id, 31337);
+  assertEquals(local.name, base.name);
+
+  const registry = new ChainRegistry([entry("base", { chain: local })]);
+  // Registering again under the same chain ID replaces the entry
+  registry.register(entry("base-fork", { chain: local }));
+  assertEquals(registry.list().map((e) => e.key), ["base-fork"]);
+});
+
+Deno.test("Registry - refuses the default Anvil accounts off local chains", () => {
+  const anvil = mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: 3 });
+  const registry = new ChainRegistry([
+    entry("base", { chain: withRpc(base, "https://mainnet.base.org"), rpcUrl: "https://mainnet.base.org" }),
+    entry("tunnel", { chain: withRpc(base, "http://127.0.0.1:8545", 8454), rpcUrl: "http://127.0.0.1:8545" }),
+    entry("anvil", {
+      chain: withRpc(base, "http://127.0.0.1:8546", 8455),
+      rpcUrl: "http://127.0.0.1:8546",
+      anvil: true,
+    }),
+    entry("devnet", { chain: customChain(31337, "devnet", "https://dev.example"), rpcUrl: "https://dev.example" }),
+  ]);
+
+  assertThrows(() => registry.walletClient(base.id, anvil), Error, "default Anvil account");
+  // A loopback RPC alone does not make a chain local: it may be a tunnel to a real chain
+  assertThrows(() => registry.walletClient(8454, anvil), Error, "default Anvil account");
+  assertEquals(registry.walletClient(8455, anvil).account.address, anvil.address);
+  assertEquals(registry.walletClient(31337, anvil).account.address, anvil.address);
+
+  const own = privateKeyToAccount(generatePrivateKey());
+  assertEquals(registry.walletClient(base.id, own).account.address, own.address);
+  assertEquals(isLocalChain(registry.get(base.id)), false);
+});
+
+Deno.test("Registry - accepts the Anvil mark only from a node that reports Anvil", async () => {
+  const node = (version?: string) =>
+    ({
+      request: () => version === undefined ? Promise.reject(new Error("method not found")) : Promise.resolve(version),
+    }) as unknown as PublicClient;
+  const marked = entry("base", { chain: withRpc(base, "https://base.example"), anvil: true });
+
+  await confirmAnvil(marked, node("anvil/v1.0.0"));
+  // The flag copied into a config pointing at a real Base node
+  await assertRejects(() => confirmAnvil(marked, node("Geth/v1.101411.4-stable")), Error, "marked as Anvil");
+  await assertRejects(() => confirmAnvil(marked, node()), Error, "no client version");
+  // Unmarked entries are not asked
+  await confirmAnvil({ ...marked, anvil: false }, node());
+});
@@ -0,0 +1,202 @@
+import { assertEquals } from "@std/assert";
+import { type Address, type Hex, pad, type PublicClient, toHex } from "viem";
+import {
+  type EscrowCreatedEvent,
+  escrowHashlock,
+  EscrowWatcher,
+  type MissedClaim,
+  SecretRelayer,
+  type SignerClient,
+  TransactionManager,
+  type TransactionResult,
+} from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const PREIMAGE = ("0x" + "42".repeat(32)) as Hex;
+const HASHLOCK = escrowHashlock(PREIMAGE);
+
+// Stand-in for the client calls the relayer makes on one chain
+class FakeChain {
+  timestamp = 100n;
+  head = 10n;
+  withdrawnLogs: { address: Address; preimage: Hex }[] = [];
+  withdrawals: { address: Address; args: readonly unknown[] }[] = [];
+  withdrawn = new Map<Address, Hex>(); // escrow storage: preimage of every withdrawn escrow
+  undeployed = new Set<Address>(); // reads of these revert
+  receipts: ("success" | "reverted")[] = []; // status of the next receipts, then success
+
+  client(): PublicClient {
+    return {
+      getBlockNumber: () => Promise.resolve(this.head++),
+      getBlock: () => Promise.resolve({ timestamp: this.timestamp }),
+      getContractEvents: () =>
+        Promise.resolve(this.withdrawnLogs.map((l) => ({ address: l.address, args: { preimage: l.preimage } }))),
+      readContract: ({ address, functionName }: { address: Address; functionName: string }) => {
+        if (this.undeployed.has(address)) return Promise.reject(new Error("execution reverted\nno contract code"));
+        return Promise.resolve(
+          functionName === "getDetails"
+            ? { withdrawn: this.withdrawn.has(address), preimage: this.withdrawn.get(address) ?? pad("0x0") }
+            : true,
+        );
+      },
+      simulateContract: (request: { address: Address; args: readonly unknown[] }) =>
+        Promise.resolve({ request }),
+      waitForTransactionReceipt: ({ hash }: { hash: Hex }) =>
+        Promise.resolve({ status: this.receipts.shift() ?? "success", transactionHash: hash, blockNumber: this.head }),
+      getTransaction: () => Promise.reject(new Error("not replayed")),
+    } as unknown as PublicClient;
+  }
+
+  signer(): SignerClient {
+    return {
+      account: { address: BOB },
+      writeContract: (request: { address: Address; args: readonly unknown[] }) => {
+        this.withdrawals.push(request);
+        return Promise.resolve(pad(toHex(this.withdrawals.length), { size: 32 }));
+      },
+    } as unknown as SignerClient;
+  }
+}
+
+function escrow(chainId: number, n: number, sender: Address, recipient: Address): EscrowCreatedEvent {
+  return {
+    chainId,
+    escrow: pad(toHex(n), { size: 20 }),
+    sender,
+    recipient,
+    token: pad(toHex(99), { size: 20 }),
+    hashlock: HASHLOCK,
+    timelock: 1000n,
+    salt: HASHLOCK,
+    blockNumber: 1n,
+    blockHash: HASHLOCK,
+    transactionHash: HASHLOCK,
+    logIndex: 0,
+  };
+}
+
+// Records the transactions the relayer confirms
+class RecordingManager extends TransactionManager {
+  confirmed: string[] = [];
+
+  override async confirm(client: PublicClient, hash: Hex, step?: string): Promise<TransactionResult> {
+    const result = await super.confirm(client, hash, step);
+    this.confirmed.push(`${step} ${hash}`);
+    return result;
+  }
+}
+
+function setup() {
+  const base = new FakeChain();
+  const etherlink = new FakeChain();
+  const transactions = new RecordingManager();
+  const relayer = new SecretRelayer(new EscrowWatcher([]), [
+    { chainId: 1, client: base.client(), signer: base.signer() },
+    { chainId: 2, client: etherlink.client(), signer: etherlink.signer() },
+  ], { party: BOB, transactions });
+  // Alice funds for Bob on chain 1, Bob funds for Alice on chain 2
+  const aliceEscrow = escrow(1, 1, ALICE, BOB);
+  const bobEscrow = escrow(2, 2, BOB, ALICE);
+  relayer.track(aliceEscrow);
+  relayer.track(bobEscrow);
+  return { base, etherlink, relayer, transactions, aliceEscrow, bobEscrow };
+}
+
+Deno.test("Relayer - claims the other leg once the preimage is revealed", async () => {
+  const { base, etherlink, relayer, transactions, aliceEscrow, bobEscrow } = setup();
+
+  await relayer.poll();
+  assertEquals(base.withdrawals.length, 0, "nothing revealed yet");
+
+  etherlink.withdrawnLogs.push({ address: bobEscrow.escrow, preimage: PREIMAGE });
+  await relayer.poll();
+  assertEquals(base.withdrawals.length, 1);
+  assertEquals(base.withdrawals[0].address, aliceEscrow.escrow);
+  assertEquals(base.withdrawals[0].args, [PREIMAGE]);
+  assertEquals(transactions.confirmed, [`withdraw ${pad(toHex(1), { size: 32 })}`]);
+
+  await relayer.poll();
+  assertEquals(base.withdrawals.length, 1, "claims only once");
+});
+
+Deno.test("Relayer - reports a missed claim after the timelock", async () => {
+  const { base, etherlink, relayer, bobEscrow } = setup();
+  const missed: MissedClaim[] = [];
+  relayer.on("missed", (event) => {
+    missed.push(event);
+  });
+
+  base.timestamp = 1000n;
+  etherlink.withdrawnLogs.push({ address: bobEscrow.escrow, preimage: PREIMAGE });
+  await relayer.poll();
+
+  assertEquals(base.withdrawals.length, 0);
+  assertEquals(missed.map((m) => m.reason), [
+    "Preimage was revealed but the timelock 1000 had passed (chain time 1000)",
+  ]);
+
+  // A missed claim is not retried, and not reported as claimed
+  base.timestamp = 100n;
+  await relayer.poll();
+  assertEquals([base.withdrawals.length, missed.length], [0, 1]);
+});
+
+Deno.test("Relayer - claims journaled escrows revealed before it started", async () => {
+  const base = new FakeChain();
+  const etherlink = new FakeChain();
+  const relayer = new SecretRelayer(new EscrowWatcher([]), [
+    { chainId: 1, client: base.client(), signer: base.signer() },
+    { chainId: 2, client: etherlink.client(), signer: etherlink.signer() },
+  ], { party: BOB });
+  // Journaled legs carry no creation block; Alice already withdrew Bob's leg while the relayer was down
+  const aliceEscrow = { ...escrow(1, 1, ALICE, BOB), blockNumber: undefined };
+  const bobEscrow = { ...escrow(2, 2, BOB, ALICE), blockNumber: undefined };
+  etherlink.withdrawn.set(bobEscrow.escrow, PREIMAGE);
+  relayer.track(aliceEscrow);
+  relayer.track(bobEscrow);
+
+  await relayer.poll();
+  assertEquals(base.withdrawals.map((w) => [w.address, w.args]), [[aliceEscrow.escrow, [PREIMAGE]]]);
+});
+
+Deno.test("Relayer - retries a claim whose transaction reverted", async () => {
+  const { base, etherlink, relayer, aliceEscrow, bobEscrow } = setup();
+  const claimed: Hex[] = [];
+  relayer.on("claimed", ({ hash }) => {
+    claimed.push(hash);
+  });
+
+  base.receipts.push("reverted");
+  etherlink.withdrawnLogs.push({ address: bobEscrow.escrow, preimage: PREIMAGE });
+  await relayer.poll();
+  assertEquals([base.withdrawals.length, claimed.length], [1, 0], "a reverted claim is not claimed");
+
+  await relayer.poll();
+  assertEquals(base.withdrawals.map((w) => w.address), [aliceEscrow.escrow, aliceEscrow.escrow]);
+  assertEquals(claimed, [pad(toHex(2), { size: 32 })]);
+
+  await relayer.poll();
+  assertEquals(base.withdrawals.length, 2, "claims only once it succeeded");
+});
+
+Deno.test("Relayer - an escrow that cannot be read does not block the chain", async () => {
+  const { base, etherlink, relayer, aliceEscrow, bobEscrow } = setup();
+  // A journaled leg whose escrow was never deployed, tracked alongside Bob's real one
+  const neverLocked = { ...escrow(2, 3, BOB, ALICE), blockNumber: undefined };
+  etherlink.undeployed.add(neverLocked.escrow);
+  relayer.track(neverLocked);
+  const errors: number[] = [];
+  relayer.on("error", ({ chainId }) => {
+    errors.push(chainId);
+  });
+
+  etherlink.withdrawnLogs.push({ address: bobEscrow.escrow, preimage: PREIMAGE });
+  await relayer.poll();
+  assertEquals(base.withdrawals.map((w) => w.address), [aliceEscrow.escrow]);
+  assertEquals(errors, [2]);
+
+  // The unreadable escrow is read again on the next poll
+  await relayer.poll();
+  assertEquals(errors, [2, 2]);
+});
@@ -0,0 +1,567 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { type Address, type Hex, pad, type PublicClient, toHex } from "viem";
+import { SwapFixture } from "./anvil-fixture.ts";
+import {
+  BRIDGE_SWAP_DIRECTION,
+  BRIDGE_SWAP_STATE,
+  BridgeClient,
+  EscrowClient,
+  escrowHashlock,
+  FakeLightningNetwork,
+  LightningError,
+  lightningPaymentHash,
+  LightningResolver,
+  type ResolverEvents,
+  type SignerClient,
+  TokenClient,
+  verifyPreimage,
+} from "./sdk/index.ts";
+
+const USER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const RESOLVER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC" as Address;
+const BRIDGE = pad(toHex(0xb1d9e), { size: 20 });
+const TOKEN = pad(toHex(0x70c), { size: 20 });
+const ZERO_ADDRESS = pad("0x0", { size: 20 });
+const ZERO_BYTES32 = pad("0x0", { size: 32 });
+
+interface FakeSwap {
+  evmEscrow: Address;
+  initiator: Address;
+  evmToken: Address;
+  evmAmount: bigint;
+  paymentHash: Hex;
+  satoshiAmount: bigint;
+  lightningInvoice: string;
+  state: number;
+  direction: number;
+  timelock: bigint;
+  preimage: Hex;
+  recipient: Address;
+}
+
+interface FakeEscrow {
+  token: Address;
+  sender: Address;
+  recipient: Address;
+  amount: bigint;
+  hashlock: Hex;
+  timelock: bigint;
+  funded: boolean;
+  withdrawn: boolean;
+  refunded: boolean;
+}
+
+// Stand-in for LightningBridge, its escrows and the token, as seen through the resolver's clients
+class FakeBridgeChain {
+  timestamp = 1_000n;
+  head = 1n;
+  swaps = new Map<string, FakeSwap>();
+  escrows = new Map<string, FakeEscrow>();
+  balances = new Map<string, bigint>([[RESOLVER.toLowerCase(), 10n ** 12n]]);
+  logs: { eventName: string; blockNumber: bigint; logIndex: number; args: { paymentHash: Hex } }[] = [];
+  writes: string[] = [];
+  failing = new Set<string>(); // writes that revert
+
+  client(): PublicClient {
+    return {
+      getBlockNumber: () => Promise.resolve(this.head),
+      getBlock: () => Promise.resolve({ timestamp: this.timestamp }),
+      getContractEvents: ({ eventName }: { eventName: string }) =>
+        Promise.resolve(this.logs.filter((log) => log.eventName === eventName)),
+      readContract: ({ address, functionName, args }: { address: Address; functionName: string; args: Hex[] }) =>
+        Promise.resolve(this.read(address, functionName, args ?? [])),
+      simulateContract: (request: unknown) => Promise.resolve({ request, result: undefined }),
+      waitForTransactionReceipt: () => Promise.resolve({ status: "success" }),
+    } as unknown as PublicClient;
+  }
+
+  signer(): SignerClient {
+    return {
+      account: { address: RESOLVER },
+      writeContract: (request: { address: Address; functionName: string; args: readonly unknown[] }) => {
+        this.write(request.address, request.functionName, request.args);
+        this.writes.push(request.functionName);
+        return Promise.resolve(pad(toHex(this.writes.length), { size: 32 }));
+      },
+    } as unknown as SignerClient;
+  }
+
+  initiateOutgoing(paymentHash: Hex, evmAmount: bigint, satoshiAmount: bigint): Address {
+    const escrow = pad(toHex(this.escrows.size + 1), { size: 20 });
+    this.escrows.set(escrow, {
+      token: TOKEN,
+      sender: USER,
+      recipient: BRIDGE,
+      amount: 0n,
+      hashlock: escrowHashlock(paymentHash),
+      timelock: this.timestamp + 3600n,
+      funded: false,
+      withdrawn: false,
+      refunded: false,
+    });
+    this.addSwap(BRIDGE_SWAP_DIRECTION.EVMToLightning, "EVMToLightningInitiated", {
+      evmEscrow: escrow,
+      paymentHash,
+      evmAmount,
+      satoshiAmount,
+      lightningInvoice: "",
+      recipient: ZERO_ADDRESS,
+    });
+    return escrow;
+  }
+
+  initiateIncoming(invoice: string, paymentHash: Hex, evmAmount: bigint, satoshiAmount: bigint): void {
+    this.addSwap(BRIDGE_SWAP_DIRECTION.LightningToEVM, "LightningToEVMInitiated", {
+      evmEscrow: ZERO_ADDRESS,
+      paymentHash,
+      evmAmount,
+      satoshiAmount,
+      lightningInvoice: invoice,
+      recipient: USER,
+    });
+  }
+
+  fund(escrow: Address, amount: bigint): void {
+    Object.assign(this.escrows.get(escrow)!, { funded: true, amount });
+  }
+
+  private addSwap(
+    direction: number,
+    eventName: string,
+    swap: Omit<FakeSwap, "initiator" | "evmToken" | "state" | "direction" | "timelock" | "preimage">,
+  ): void {
+    this.swaps.set(swap.paymentHash, {
+      ...swap,
+      initiator: USER,
+      evmToken: TOKEN,
+      state: BRIDGE_SWAP_STATE.Initiated,
+      direction,
+      timelock: this.timestamp + 3600n,
+      preimage: ZERO_BYTES32,
+    });
+    this.head++;
+    this.logs.push({ eventName, blockNumber: this.head, logIndex: 0, args: { paymentHash: swap.paymentHash } });
+  }
+
+  private read(address: Address, functionName: string, args: Hex[]): unknown {
+    switch (functionName) {
+      case "getSwapDetails":
+        return this.swaps.get(args[0]);
+      case "getDetails":
+        return this.escrows.get(address);
+      case "balanceOf":
+        return this.balances.get(args[0].toLowerCase()) ?? 0n;
+      case "allowance":
+        return 0n;
+      case "minSatoshiAmount":
+        return 1_000n;
+      case "maxSatoshiAmount":
+        return 10_000_000n;
+      case "defaultSwapTimeout":
+        return 3600n;
+    }
+    throw new Error(`Unexpected read ${functionName}`);
+  }
+
+  private write(address: Address, functionName: string, args: readonly unknown[]): void {
+    const swap = this.swaps.get(args[0] as Hex)!;
+    switch (functionName) {
+      case "setLightningInvoice":
+        swap.lightningInvoice = args[1] as string;
+        return;
+      case "confirmLightningPayment": {
+        const preimage = args[1] as Hex;
+        if (!verifyPreimage("sha256", preimage, swap.paymentHash)) throw new Error("InvalidPreimage");
+        Object.assign(swap, { preimage, state: BRIDGE_SWAP_STATE.LightningPaid });
+        if (swap.direction === BRIDGE_SWAP_DIRECTION.LightningToEVM) {
+          swap.evmEscrow = pad(toHex(0xe5c0), { size: 20 });
+          this.escrows.set(swap.evmEscrow, {
+            token: TOKEN,
+            sender: RESOLVER,
+            recipient: swap.recipient,
+            amount: 0n,
+            hashlock: escrowHashlock(preimage),
+            timelock: swap.timelock,
+            funded: false,
+            withdrawn: false,
+            refunded: false,
+          });
+        }
+        return;
+      }
+      case "withdraw": {
+        // Only the EVM→Lightning escrows are released in these tests, always into the bridge
+        const escrow = this.escrows.get(address)!;
+        if (this.failing.has(functionName)) throw new Error("execution reverted");
+        if (escrow.withdrawn || escrow.hashlock !== escrowHashlock(args[0] as Hex)) throw new Error("invalid preimage");
+        escrow.withdrawn = true;
+        return;
+      }
+      case "initiateLightningToEVM":
+        if (this.failing.has(functionName)) throw new Error("execution reverted");
+        this.initiateIncoming(args[0] as string, args[1] as Hex, args[4] as bigint, args[2] as bigint);
+        return;
+      case "withdrawEVMFunds": {
+        const escrow = this.escrows.get(swap.evmEscrow)!;
+        escrow.withdrawn = true;
+        this.balances.set(RESOLVER.toLowerCase(), this.balances.get(RESOLVER.toLowerCase())! + escrow.amount);
+        swap.state = BRIDGE_SWAP_STATE.Completed;
+        return;
+      }
+      case "approve":
+        return;
+      case "fund":
+        this.fund(address, args[0] as bigint);
+        return;
+    }
+    throw new Error(`Unexpected write ${functionName}`);
+  }
+}
+
+function setup(options: { accept?: () => boolean } = {}) {
+  const chain = new FakeBridgeChain();
+  const network = new FakeLightningNetwork({ now: () => Number(chain.timestamp) });
+  const resolverNode = network.createNode("resolver", 100_000n);
+  const userNode = network.createNode("user", 100_000n);
+  const resolver = new LightningResolver(resolverNode, [
+    { chainId: 1, client: chain.client(), signer: chain.signer(), bridge: BRIDGE },
+  ], { fromBlock: 0n, ...options });
+  return { chain, network, resolverNode, userNode, resolver, events: record(resolver) };
+}
+
+function record(resolver: LightningResolver) {
+  const events: { completed: ResolverEvents["completed"][]; rejected: ResolverEvents["rejected"][] } = {
+    completed: [],
+    rejected: [],
+  };
+  resolver.on("completed", (event) => void events.completed.push(event));
+  resolver.on("rejected", (event) => void events.rejected.push(event));
+  resolver.on("error", ({ error }) => {
+    throw error;
+  });
+  return events;
+}
+
+Deno.test("Lightning - fake network settles payments and reveals the preimage", async () => {
+  const network = new FakeLightningNetwork({ feeSats: 3n });
+  const alice = network.createNode("alice", 50_000n);
+  const bob = network.createNode("bob");
+
+  const invoice = await bob.createInvoice({ amountSats: 20_000n, description: "coffee" });
+  assertEquals(await alice.decodeInvoice(invoice.paymentRequest), invoice);
+  const payment = await alice.payInvoice(invoice.paymentRequest);
+
+  assertEquals(verifyPreimage("sha256", payment.preimage, invoice.paymentHash), true);
+  assertEquals([alice.balanceSats, bob.balanceSats], [29_997n, 20_000n]);
+  assertEquals((await bob.lookupInvoice(invoice.paymentHash))?.state, "settled");
+  assertEquals(await alice.lookupPayment(invoice.paymentHash), payment);
+  assertEquals(await alice.lookupInvoice(invoice.paymentHash), undefined);
+  const paidTwice = await assertRejects(() => alice.payInvoice(invoice.paymentRequest), LightningError);
+  assertEquals(paidTwice.code, "already_paid");
+});
+
+Deno.test("Lightning - fake network refuses payments that cannot settle", async () => {
+  let now = 1_000;
+  const network = new FakeLightningNetwork({ now: () => now });
+  const alice = network.createNode("alice", 1_000n);
+  const bob = network.createNode("bob");
+  const codeOf = async (paying: Promise<unknown>) => (await assertRejects(() => paying, LightningError)).code;
+
+  const expiring = await bob.createInvoice({ amountSats: 100n, expirySeconds: 60 });
+  const canceled = await bob.createInvoice({ amountSats: 100n });
+  const large = await bob.createInvoice({ amountSats: 5_000n });
+  const own = await alice.createInvoice({ amountSats: 100n });
+  await bob.cancelInvoice(canceled.paymentHash);
+  now += 60;
+
+  assertEquals(await codeOf(alice.payInvoice(expiring.paymentRequest)), "invoice_expired");
+  assertEquals(await codeOf(alice.payInvoice(canceled.paymentRequest)), "invoice_canceled");
+  assertEquals(await codeOf(alice.payInvoice(large.paymentRequest)), "insufficient_balance");
+  assertEquals(await codeOf(alice.payInvoice(own.paymentRequest)), "self_payment");
+  assertEquals(await codeOf(alice.payInvoice("lnbc1garbage")), "invalid_invoice");
+  bob.unreachable = true;
+  const unreachable = await bob.createInvoice({ amountSats: 1n });
+  assertEquals(await codeOf(alice.payInvoice(unreachable.paymentRequest)), "no_route");
+  assertEquals(alice.balanceSats, 1_000n);
+});
+
+Deno.test("Resolver - pays an EVM→Lightning invoice once the escrow is funded and withdraws", async () => {
+  const { chain, userNode, resolver, events } = setup();
+  const invoice = await userNode.createInvoice({ amountSats: 25_000n });
+  const escrow = chain.initiateOutgoing(invoice.paymentHash, 500n, 25_000n);
+  await resolver.submitInvoice(invoice.paymentRequest);
+
+  await resolver.poll();
+  assertEquals(chain.writes, []); // escrow still unfunded
+  assertEquals(resolver.pending().length, 1);
+
+  chain.fund(escrow, 500n);
+  await resolver.poll();
+  assertEquals(chain.writes, ["setLightningInvoice", "withdraw", "confirmLightningPayment", "withdrawEVMFunds"]);
+  assertEquals(userNode.balanceSats, 125_000n);
+  assertEquals(chain.swaps.get(invoice.paymentHash)?.lightningInvoice, invoice.paymentRequest);
+  assertEquals(chain.escrows.get(escrow)?.withdrawn, true);
+  assertEquals(chain.balances.get(RESOLVER.toLowerCase()), 10n ** 12n + 500n);
+  assertEquals(events.completed.map((e) => e.swap.paymentHash), [invoice.paymentHash]);
+  assertEquals(resolver.pending(), []);
+});
+
+Deno.test("Resolver - pays no invoice before the escrow is released into the bridge", async () => {
+  const { chain, userNode, resolver, events } = setup();
+  const invoice = await userNode.createInvoice({ amountSats: 25_000n });
+  chain.fund(chain.initiateOutgoing(invoice.paymentHash, 500n, 25_000n), 500n);
+  await resolver.submitInvoice(invoice.paymentRequest);
+
+  chain.failing.add("withdraw");
+  await assertRejects(() => resolver.poll(), Error, "execution reverted");
+  assertEquals(chain.writes, ["setLightningInvoice"]);
+  assertEquals(userNode.balanceSats, 100_000n);
+
+  chain.failing.clear();
+  await resolver.poll();
+  assertEquals(chain.writes, ["setLightningInvoice", "withdraw", "confirmLightningPayment", "withdrawEVMFunds"]);
+  assertEquals(userNode.balanceSats, 125_000n);
+  assertEquals(events.completed.length, 1);
+});
+
+Deno.test("Resolver - funds the Lightning→EVM escrow once its invoice is paid", async () => {
+  const { chain, userNode, resolverNode, resolver, events } = setup();
+  const invoice = await resolver.issueInvoice(40_000n);
+  chain.initiateIncoming(invoice.paymentRequest, invoice.paymentHash, 700n, 40_000n);
+
+  await resolver.poll();
+  assertEquals(chain.writes, []); // invoice still open
+
+  const payment = await userNode.payInvoice(invoice.paymentRequest);
+  await resolver.poll();
+  assertEquals(chain.writes, ["confirmLightningPayment", "approve", "fund"]);
+  assertEquals(resolverNode.balanceSats, 140_000n);
+  const swap = chain.swaps.get(invoice.paymentHash)!;
+  const escrow = chain.escrows.get(swap.evmEscrow)!;
+  assertEquals([escrow.funded, escrow.amount, escrow.recipient], [true, 700n, USER]);
+  assertEquals(escrow.hashlock, escrowHashlock(payment.preimage));
+  assertEquals(events.completed[0].swap.satoshiAmount, 40_000n);
+});
+
+Deno.test("Resolver - registers the Lightning→EVM swap for the invoice it issues", async () => {
+  const { chain, resolverNode, resolver } = setup();
+  const issued: Hex[] = [];
+  const createInvoice = resolverNode.createInvoice.bind(resolverNode);
+  resolverNode.createInvoice = async (request) => {
+    const invoice = await createInvoice(request);
+    issued.push(invoice.paymentHash);
+    return invoice;
+  };
+  const offer = { chainId: 1, satoshiAmount: 40_000n, token: TOKEN, amount: 700n, recipient: USER };
+  const invoice = await resolver.openIncoming(offer);
+  assertEquals(chain.writes, ["initiateLightningToEVM"]);
+  const swap = chain.swaps.get(invoice.paymentHash)!;
+  assertEquals([swap.lightningInvoice, swap.evmAmount, swap.satoshiAmount], [invoice.paymentRequest, 700n, 40_000n]);
+  assertEquals(swap.direction, BRIDGE_SWAP_DIRECTION.LightningToEVM);
+
+  // An invoice whose swap could not be registered is never left payable
+  chain.failing.add("initiateLightningToEVM");
+  await assertRejects(() => resolver.openIncoming(offer), Error, "execution reverted");
+  assertEquals(issued.length, 2);
+  assertEquals((await resolverNode.lookupInvoice(issued[1]))?.state, "canceled");
+  assertEquals(chain.swaps.has(issued[1]), false);
+});
+
+Deno.test("Resolver - rejects mismatched invoices and cancels declined ones", async () => {
+  const { chain, userNode, resolver, events } = setup({ accept: () => false });
+  // The initiator asks for more sats than the swap locks tokens for
+  const greedy = await userNode.createInvoice({ amountSats: 90_000n });
+  chain.fund(chain.initiateOutgoing(greedy.paymentHash, 500n, 25_000n), 500n);
+  await resolver.submitInvoice(greedy.paymentRequest);
+  // Declined by the policy, so the resolver's invoice must become unpayable
+  const declined = await resolver.issueInvoice(1_000n);
+  chain.initiateIncoming(declined.paymentRequest, declined.paymentHash, 10n ** 9n, 1_000n);
+  // Not the resolver's invoice at all
+  const foreign = await userNode.createInvoice({ amountSats: 1_000n });
+  chain.initiateIncoming(foreign.paymentRequest, foreign.paymentHash, 1n, 1_000n);
+  // Recorded for fewer sats than the resolver's invoice asks
+  const underpriced = await resolver.issueInvoice(5_000n);
+  chain.initiateIncoming(underpriced.paymentRequest, underpriced.paymentHash, 1n, 2_000n);
+
+  await resolver.poll();
+  assertEquals(chain.writes, []);
+  assertEquals(userNode.balanceSats, 100_000n);
+  assertEquals(events.rejected.map((e) => e.reason), [
+    "Invoice is for 90000 sats, the swap for 25000",
+    "Declined by the pricing policy",
+    "Invoice was not issued by this resolver",
+    "Invoice is for 5000 sats, the swap for 2000",
+  ]);
+  for (const canceled of [declined, underpriced]) {
+    const code = (await assertRejects(() => userNode.payInvoice(canceled.paymentRequest), LightningError)).code;
+    assertEquals(code, "invoice_canceled");
+  }
+});
+
+Deno.test("Resolver - rejects invoices that stay payable after the swap's timelock", async () => {
+  const { chain, userNode, resolver, events } = setup();
+  const invoice = await userNode.createInvoice({ amountSats: 25_000n, expirySeconds: 7200 });
+  chain.fund(chain.initiateOutgoing(invoice.paymentHash, 500n, 25_000n), 500n);
+  await resolver.submitInvoice(invoice.paymentRequest);
+
+  await resolver.poll();
+  assertEquals(chain.writes, []);
+  assertEquals(userNode.balanceSats, 100_000n);
+  assertEquals(events.rejected.map((e) => e.reason), [
+    "Invoice does not match the swap: invoice stays payable until 8200, after the swap's timelock 4600",
+  ]);
+});
+
+Deno.test("Resolver - confirms a payment made before a restart without paying twice", async () => {
+  const { chain, userNode, resolverNode, resolver, events } = setup();
+  const invoice = await userNode.createInvoice({ amountSats: 5_000n });
+  chain.fund(chain.initiateOutgoing(invoice.paymentHash, 80n, 5_000n), 80n);
+  // A previous run paid but stopped before confirming on-chain
+  await resolverNode.payInvoice(invoice.paymentRequest);
+
+  await resolver.poll();
+  assertEquals(chain.writes, ["confirmLightningPayment", "withdrawEVMFunds"]);
+  assertEquals(resolverNode.balanceSats, 95_000n);
+  assertEquals(events.completed.length, 1);
+});
+
+const ignore = Deno.env.get("SKIP_INTEGRATION") === "true";
+
+// The fixture's source chain as the resolver and the user see it: Bob is the user and Alice, who
+// deployed the contracts, stands in for anyone else
+interface AnvilBridge {
+  client: PublicClient;
+  owner: SignerClient;
+  user: SignerClient;
+  resolver: SignerClient;
+  token: Address;
+  bridge: Address;
+}
+
+function anvilBridge(fixture: SwapFixture): AnvilBridge {
+  const { anvil, contracts } = fixture.source;
+  const { alice, bob, resolver } = fixture.accounts;
+  return {
+    client: anvil.client,
+    owner: fixture.registry.walletClient(anvil.chainId, alice),
+    user: fixture.registry.walletClient(anvil.chainId, bob),
+    resolver: fixture.registry.walletClient(anvil.chainId, resolver),
+    token: contracts.token,
+    bridge: contracts.bridge,
+  };
+}
+
+async function anvilResolver(h: AnvilBridge) {
+  const network = new FakeLightningNetwork();
+  const resolverNode = network.createNode("resolver", 1_000_000n);
+  const userNode = network.createNode("user", 1_000_000n);
+  const resolver = new LightningResolver(resolverNode, [{
+    chainId: await h.client.getChainId(),
+    client: h.client,
+    signer: h.resolver,
+    bridge: h.bridge,
+  }], { fromBlock: await h.client.getBlockNumber() });
+  return { resolverNode, userNode, resolver, events: record(resolver) };
+}
+
+async function mined(h: AnvilBridge, hash: Hex): Promise<void> {
+  const receipt = await h.client.waitForTransactionReceipt({ hash });
+  assertEquals(receipt.status, "success");
+}
+
+Deno.test("Resolver - settles bridge swaps on Anvil", { ignore }, async (t) => {
+  const fixture = await SwapFixture.start();
+  const h = anvilBridge(fixture);
+
+  try {
+    await t.step("EVM→Lightning swap settles", fixture.isolated(async () => {
+      const { userNode, resolver, events } = await anvilResolver(h);
+      const amount = 50n * 10n ** 6n;
+      const invoice = await userNode.createInvoice({ amountSats: 200_000n, expirySeconds: 1800 });
+      const { timestamp } = await h.client.getBlock();
+
+      const bridge = new BridgeClient(h.bridge, h.client, h.user);
+      const { hash } = await bridge.initiateEVMToLightning({
+        token: h.token,
+        amount,
+        satoshiAmount: 200_000n,
+        paymentHash: invoice.paymentHash,
+        timelock: timestamp + 3600n,
+        invoice: invoice.paymentRequest,
+      });
+      await mined(h, hash);
+      // The escrow's salt includes the block timestamp, which the simulated address may have missed
+      const { evmEscrow: escrow } = await bridge.getSwap(invoice.paymentHash);
+      await mined(h, await new TokenClient(h.token, h.client, h.user).approve(escrow, amount));
+      await mined(h, await new EscrowClient(escrow, h.client, h.user).fund(amount));
+      await resolver.submitInvoice(invoice.paymentRequest);
+
+      const token = new TokenClient(h.token, h.client);
+      const before = await token.balanceOf(h.resolver.account.address);
+      await resolver.poll();
+      assertEquals(events.completed.length, 1);
+      assertEquals(userNode.balanceSats, 1_200_000n);
+      assertEquals(await token.balanceOf(h.resolver.account.address), before + amount);
+      assertEquals((await bridge.getSwap(invoice.paymentHash)).state, BRIDGE_SWAP_STATE.Completed);
+    }));
+
+    await t.step("Lightning→EVM swap settles and the recipient withdraws", fixture.isolated(async () => {
+      const { userNode, resolver, events } = await anvilResolver(h);
+      const amount = 20n * 10n ** 6n;
+      const invoice = await resolver.openIncoming({
+        chainId: fixture.source.anvil.chainId,
+        satoshiAmount: 80_000n,
+        token: h.token,
+        amount,
+        recipient: h.user.account.address,
+      });
+
+      const bridge = new BridgeClient(h.bridge, h.client, h.user);
+      await resolver.poll();
+      assertEquals(events.completed.length, 0);
+
+      const { preimage } = await userNode.payInvoice(invoice.paymentRequest);
+      await resolver.poll();
+      assertEquals(events.completed.length, 1);
+
+      const swap = await bridge.getSwap(invoice.paymentHash);
+      assertEquals(swap.state, BRIDGE_SWAP_STATE.LightningPaid);
+      assertEquals(lightningPaymentHash(swap.preimage), invoice.paymentHash);
+      const token = new TokenClient(h.token, h.client);
+      const before = await token.balanceOf(h.user.account.address);
+      await mined(h, await new EscrowClient(swap.evmEscrow, h.client, h.user).withdraw(preimage));
+      assertEquals(await token.balanceOf(h.user.account.address), before + amount);
+    }));
+
+    await t.step("escrows released early still reach the resolver", fixture.isolated(async () => {
+      const { userNode, resolver, events } = await anvilResolver(h);
+      const amount = 10n ** 6n;
+      const invoice = await userNode.createInvoice({ amountSats: 10_000n, expirySeconds: 1800 });
+      const { timestamp } = await h.client.getBlock();
+      const bridge = new BridgeClient(h.bridge, h.client, h.user);
+      const { hash } = await bridge.initiateEVMToLightning({
+        token: h.token,
+        amount,
+        satoshiAmount: 10_000n,
+        paymentHash: invoice.paymentHash,
+        timelock: timestamp + 3600n,
+        invoice: invoice.paymentRequest,
+      });
+      await mined(h, hash);
+      const { evmEscrow: escrow } = await bridge.getSwap(invoice.paymentHash);
+      await mined(h, await new TokenClient(h.token, h.client, h.user).approve(escrow, amount));
+      const escrowClient = new EscrowClient(escrow, h.client, h.user);
+      await mined(h, await escrowClient.fund(amount));
+      // Anyone can release the escrow into the bridge with the public payment hash
+      await mined(h, await new EscrowClient(escrow, h.client, h.owner).withdraw(invoice.paymentHash));
+      assertEquals((await escrowClient.getDetails()).withdrawn, true);
+
+      await resolver.submitInvoice(invoice.paymentRequest);
+      await resolver.poll();
+      assertEquals(events.completed.length, 1);
+      assertEquals((await bridge.getSwap(invoice.paymentHash)).state, BRIDGE_SWAP_STATE.Completed);
+    }));
+  } finally {
+    await fixture.stop();
+  }
+});
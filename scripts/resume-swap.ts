@@ -0,0 +1,89 @@
+// Resume a journaled swap after a crash
+// Run with: deno run --allow-read --allow-env --allow-write --allow-net resume-swap.ts <swapId>
+//
+// Reloads the latest snapshot from ../logs/swaps/<swapId>.jsonl, re-reads both escrows and
+// finishes the swap, or refunds our legs once their timelocks pass.
+
+import { isAddressEqual, type LocalAccount, type PublicClient } from "viem";
+import { getAccount, getConfig, transactionManager } from "./config.ts";
+import {
+  ChainRegistry,
+  describeError,
+  type LegName,
+  type PartySigners,
+  SwapJournal,
+  SwapOrchestrator,
+} from "./sdk/index.ts";
+
+// Journal directory, independent of the working directory
+export const JOURNAL_DIR = new URL("../logs/swaps", import.meta.url).pathname;
+
+// A party acts on both chains: it locks on one and claims on the other
+function walletsFor(
+  registry: ChainRegistry,
+  account: LocalAccount,
+  chainIds: Record<LegName, number>,
+): PartySigners {
+  return {
+    source: registry.walletClient(chainIds.source, account),
+    destination: registry.walletClient(chainIds.destination, account),
+  };
+}
+
+export async function resumeSwap(swapId: string, journal = new SwapJournal(JOURNAL_DIR)) {
+  const snapshot = await journal.load(swapId);
+  if (!snapshot) {
+    throw new Error(`No journal found for swap ${swapId} in ${journal.directory}`);
+  }
+  console.log(`Resuming swap ${swapId} (last journaled state: ${snapshot.state})`);
+
+  // Only RPCs are needed: the snapshot already records each leg's factory and token
+  const config = getConfig();
+  const registry = new ChainRegistry(config.chains, transactionManager(config));
+  const chainIds: Record<LegName, number> = {
+    source: snapshot.source.chainId,
+    destination: snapshot.destination.chainId,
+  };
+  const clients: Record<LegName, PublicClient> = {
+    source: registry.publicClient(chainIds.source),
+    destination: registry.publicClient(chainIds.destination),
+  };
+
+  // Initiator is the source sender, responder the destination sender
+  const accounts = [await getAccount(config, "initiator"), await getAccount(config, "responder")];
+  const initiator = accounts.find((a) => isAddressEqual(a.address, snapshot.source.escrow.sender));
+  const responder = accounts.find((a) => isAddressEqual(a.address, snapshot.destination.escrow.sender));
+  if (!initiator && !responder) {
+    throw new Error(`None of the configured accounts is a party to swap ${swapId}`);
+  }
+
+  const orchestrator = SwapOrchestrator.resume(snapshot, {
+    clients,
+    signers: {
+      initiator: initiator && walletsFor(registry, initiator, chainIds),
+      responder: responder && walletsFor(registry, responder, chainIds),
+    },
+    pollInterval: config.retryDelay,
+    transactions: registry.transactions,
+    onUpdate: journal.recorder(),
+  });
+
+  const result = await orchestrator.run();
+  console.log(`Swap ${swapId} finished in state ${result.state}${result.error ? `: ${result.error}` : ""}`);
+  return result;
+}
+
+if (import.meta.main) {
+  const [swapId] = Deno.args;
+  if (!swapId) {
+    const ids = await new SwapJournal(JOURNAL_DIR).list();
+    console.error("Usage: resume-swap.ts <swapId>");
+    console.error(ids.length ? `Journaled swaps: ${ids.join(", ")}` : "No journaled swaps found");
+    Deno.exit(1);
+  }
+
+  resumeSwap(swapId).catch((error) => {
+    console.error("Resume failed:", describeError(error));
+    Deno.exit(1);
+  });
+}
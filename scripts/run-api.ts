@@ -0,0 +1,47 @@
+// Swap API server
+// Run with: deno run --allow-net --allow-read --allow-write --allow-env run-api.ts [--port <n>] [--hostname <host>] [--index <path>] [--openapi]
+//
+// Serves SwapApi for every registered chain: HTTP routes, JSON-RPC 2.0 on POST /rpc and the OpenAPI
+// document on GET /openapi.json. --index answers hashlock lookups from a run-indexer.ts database
+// instead of scanning factory logs. --openapi prints the document and exits.
+
+import { getConfig, getRegistry } from "./config.ts";
+import { type ApiChain, EscrowIndex, SwapApi } from "./sdk/index.ts";
+
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+}
+
+if (import.meta.main) {
+  const args = [...Deno.args];
+  const port = parseInt(takeOption(args, "--port") ?? "8080");
+  const hostname = takeOption(args, "--hostname") ?? "127.0.0.1";
+  const indexPath = takeOption(args, "--index");
+
+  const config = getConfig();
+  const registry = await getRegistry(config);
+  const chains: ApiChain[] = registry.list().map((entry) => ({
+    chainId: entry.chain.id,
+    name: entry.key,
+    client: registry.publicClient(entry.chain.id),
+    factory: entry.contracts.factory,
+    bridge: entry.contracts.bridge,
+    tokens: entry.tokens,
+  }));
+  const api = new SwapApi(chains, { index: indexPath ? new EscrowIndex(indexPath) : undefined });
+
+  if (args.includes("--openapi")) {
+    console.log(JSON.stringify(api.openApi(), null, 2));
+    Deno.exit(0);
+  }
+
+  Deno.serve({
+    port,
+    hostname,
+    onListen: ({ hostname, port }) => {
+      console.log(`Swap API for ${chains.map((chain) => chain.name).join(", ")} on http://${hostname}:${port}`);
+      console.log(`  OpenAPI: http://${hostname}:${port}/openapi.json`);
+    },
+  }, api.handle);
+}
@@ -0,0 +1,93 @@
+// Batch escrow creation
+// Run with: deno run --allow-net --allow-read --allow-write --allow-env run-batch.ts <swaps.csv|swaps.json> [alice|bob] [--report <path>] [--dry-run]
+//
+// Validates a list of swaps, groups them per chain and token, deploys each group with
+// batchCreateEscrows and funds every escrow. Writes a per-row report (CSV or JSON, by extension)
+// next to the input unless --report is given. --dry-run stops after printing the plan.
+
+import type { Hex } from "viem";
+import { getAccount, getConfig, getRegistry } from "./config.ts";
+import {
+  type BatchGroup,
+  executeBatch,
+  fetchEscrowCreationCode,
+  formatBatchReport,
+  parseBatch,
+  planBatch,
+  validateBatch,
+} from "./sdk/index.ts";
+
+function formatOf(path: string): "csv" | "json" {
+  return path.toLowerCase().endsWith(".json") ? "json" : "csv";
+}
+
+function printPlan(groups: BatchGroup[]): void {
+  for (const group of groups) {
+    console.log(
+      `[chain ${group.chainId}] ${group.escrows.length} escrow(s), ` +
+        `${group.total} via factory ${group.factory}`,
+    );
+    for (const { swap, escrow } of group.escrows) {
+      console.log(`  row ${swap.row}: ${swap.amount} to ${swap.recipient} -> ${escrow}`);
+    }
+  }
+}
+
+if (import.meta.main) {
+  const args = [...Deno.args];
+  const dryRun = args.includes("--dry-run");
+  const reportFlag = args.indexOf("--report");
+  const reportArg = reportFlag >= 0 ? args.splice(reportFlag, 2)[1] : undefined;
+  const [input, role = "alice"] = args.filter((arg) => arg !== "--dry-run");
+  if (!input || (role !== "alice" && role !== "bob")) {
+    console.error("Usage: run-batch.ts <swaps.csv|swaps.json> [alice|bob] [--report <path>] [--dry-run]");
+    Deno.exit(1);
+  }
+
+  const config = getConfig();
+  const account = await getAccount(config, role === "alice" ? "initiator" : "responder");
+  const registry = await getRegistry(config);
+
+  let groups: BatchGroup[];
+  try {
+    const records = parseBatch(await Deno.readTextFile(input), formatOf(input));
+    const swaps = validateBatch(records, registry, {
+      sender: account.address,
+      now: BigInt(Math.floor(Date.now() / 1000)),
+    });
+
+    // Read the creation code from each factory so derived addresses match what it deploys
+    const creationCodes = new Map<number, Hex>();
+    for (const chainId of new Set(swaps.map((swap) => swap.chainId))) {
+      creationCodes.set(chainId, await fetchEscrowCreationCode(registry.publicClient(chainId), registry.factory(chainId)));
+    }
+    groups = planBatch(swaps, registry, account.address, (chainId) => creationCodes.get(chainId)!);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  }
+
+  printPlan(groups);
+  if (dryRun) Deno.exit(0);
+
+  const chainIds = [...new Set(groups.map((group) => group.chainId))];
+  const results = await executeBatch(groups, chainIds.map((chainId) => ({
+    chainId,
+    client: registry.publicClient(chainId),
+    signer: registry.walletClient(chainId, account),
+  })), { transactions: registry.transactions });
+
+  const reportPath = reportArg ?? input.replace(/(\.[^./]+)?$/, ".report$1");
+  await Deno.writeTextFile(reportPath, formatBatchReport(results, formatOf(reportPath)));
+
+  const count = (status: string) => results.filter((r) => r.status === status).length;
+  console.log(`\nFunded: ${count("funded")}, created but not funded: ${count("created")}, failed: ${count("failed")}`);
+  for (const failed of results.filter((r) => r.error)) {
+    console.error(`  row ${failed.row}: ${failed.error}`);
+  }
+  console.log(`Report written to ${reportPath}`);
+  if (results.some((r) => r.preimage)) {
+    console.log("The report contains generated preimages; keep it private.");
+  }
+  Deno.exit(results.every((r) => r.status === "funded") ? 0 : 1);
+}
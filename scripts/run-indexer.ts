@@ -0,0 +1,72 @@
+// Escrow indexer daemon
+// Run with: deno run --allow-net --allow-read --allow-write --allow-env run-indexer.ts [--db <path>] [--from-block <n>] [--confirmations <n>] [--once]
+//
+// Backfills every registered factory, its escrows and the LightningBridge into a SQLite database,
+// then keeps tailing new blocks until Ctrl+C. --once stops after the backfill. A restarted indexer
+// resumes from the last block it committed. Query the database with query-index.ts.
+
+import { getConfig, getRegistry } from "./config.ts";
+import { EscrowIndex, EscrowIndexer, type IndexedChain } from "./sdk/index.ts";
+
+export const INDEX_DB = "../logs/escrow-index.sqlite";
+
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+}
+
+if (import.meta.main) {
+  const args = [...Deno.args];
+  const path = takeOption(args, "--db") ?? INDEX_DB;
+  const fromBlock = takeOption(args, "--from-block");
+  const confirmations = takeOption(args, "--confirmations");
+  const once = args.includes("--once");
+
+  const config = getConfig();
+  const registry = await getRegistry(config);
+  const chains: IndexedChain[] = registry.list()
+    .filter((entry) => entry.contracts.factory || entry.contracts.bridge)
+    .map((entry) => ({
+      name: entry.key,
+      chainId: entry.chain.id,
+      client: registry.publicClient(entry.chain.id),
+      factory: entry.contracts.factory,
+      bridge: entry.contracts.bridge,
+      fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+    }));
+  if (chains.length === 0) {
+    console.error("No factory or bridge addresses. Please run deployment script first.");
+    Deno.exit(1);
+  }
+
+  const index = new EscrowIndex(path);
+  const indexer = new EscrowIndexer(index, chains, {
+    confirmations: confirmations !== undefined ? parseInt(confirmations) : undefined,
+    pollInterval: config.retryDelay,
+  });
+  indexer.on("indexed", ({ chainId, fromBlock, toBlock, events }) => {
+    if (events > 0) console.log(`[chain ${chainId}] Indexed ${events} event(s) in blocks ${fromBlock}-${toBlock}`);
+  });
+  indexer.on("reorg", ({ chainId, rewoundTo, removed }) => {
+    console.warn(`[chain ${chainId}] Reorg detected, rewound to block ${rewoundTo}, dropped ${removed} event(s)`);
+  });
+  indexer.on("error", ({ chainId, error }) => {
+    console.error(`[chain ${chainId}] Indexer error:`, error);
+  });
+
+  console.log(`Indexing ${chains.map((chain) => chain.name).join(", ")} into ${path}`);
+  if (once) {
+    await indexer.poll();
+    for (const chain of chains) {
+      console.log(`  ${chain.name}: indexed to block ${index.cursor(chain.chainId) ?? "-"}`);
+    }
+    index.close();
+  } else {
+    Deno.addSignalListener("SIGINT", () => {
+      indexer.stop();
+      index.close();
+      Deno.exit(0);
+    });
+    indexer.start();
+  }
+}
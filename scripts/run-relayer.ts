@@ -0,0 +1,80 @@
+// Secret-reveal relayer daemon
+// Run with: deno run --allow-read --allow-env --allow-net run-relayer.ts [alice|bob] [fromBlock]
+//
+// Claims our escrows as soon as the counterparty reveals the preimage on the other chain.
+// Defaults to Bob, the responder in the demo swap. Escrows come from the factory watcher (from
+// `fromBlock` when given) and from journaled swaps, so swaps created before a restart are claimed too.
+
+import { type Address, isAddressEqual } from "viem";
+import { getAccount, getConfig, getRegistry } from "./config.ts";
+import { describeError, SecretRelayer, SwapJournal } from "./sdk/index.ts";
+import { JOURNAL_DIR } from "./resume-swap.ts";
+import { createConfiguredWatcher } from "./watch-escrows.ts";
+
+// Track both legs of every journaled swap we are party to that is not finished
+async function trackJournaledSwaps(relayer: SecretRelayer, party: Address, journal: SwapJournal): Promise<number> {
+  let tracked = 0;
+  for (const swapId of await journal.list()) {
+    const snapshot = await journal.load(swapId);
+    if (!snapshot || snapshot.state === "Claimed" || snapshot.state === "Refunded") continue;
+    const legs = [
+      { leg: snapshot.source, lock: snapshot.results?.lockSource },
+      { leg: snapshot.destination, lock: snapshot.results?.lockDestination },
+    ];
+    for (const { leg, lock } of legs) {
+      const { sender, recipient } = leg.escrow;
+      if (!leg.address || !(isAddressEqual(sender, party) || isAddressEqual(recipient, party))) continue;
+      relayer.track({ ...leg.escrow, chainId: leg.chainId, escrow: leg.address, blockNumber: lock?.blockNumber });
+      tracked++;
+    }
+  }
+  return tracked;
+}
+
+if (import.meta.main) {
+  const [role = "bob", fromBlock] = Deno.args;
+  if (role !== "alice" && role !== "bob") {
+    console.error("Usage: run-relayer.ts [alice|bob] [fromBlock]");
+    Deno.exit(1);
+  }
+
+  const config = getConfig();
+  const account = await getAccount(config, role === "alice" ? "initiator" : "responder");
+  const registry = await getRegistry(config);
+  const watcher = await createConfiguredWatcher({
+    confirmations: 1,
+    fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+  });
+
+  const relayer = new SecretRelayer(watcher, registry.list().map((entry) => ({
+    chainId: entry.chain.id,
+    client: registry.publicClient(entry.chain.id),
+    signer: registry.walletClient(entry.chain.id, account),
+  })), { party: account.address, pollInterval: config.retryDelay, transactions: registry.transactions });
+
+  const journaled = await trackJournaledSwaps(relayer, account.address, new SwapJournal(JOURNAL_DIR));
+  if (journaled > 0) {
+    console.log(`Tracking ${journaled} escrow(s) from journaled swaps`);
+  }
+
+  relayer.on("revealed", ({ hashlock, preimage, chainId }) => {
+    console.log(`[chain ${chainId}] Preimage revealed for ${hashlock}: ${preimage}`);
+  });
+  relayer.on("claimed", ({ hashlock, chainId, escrow, hash }) => {
+    console.log(`[chain ${chainId}] Claimed ${escrow} for ${hashlock} (tx ${hash})`);
+  });
+  relayer.on("missed", ({ hashlock, chainId, escrow, reason }) => {
+    console.warn(`[chain ${chainId}] Could not claim ${escrow} for ${hashlock}: ${reason}`);
+  });
+  relayer.on("error", ({ chainId, error }) => {
+    console.error(`[chain ${chainId}] Relayer error:`, describeError(error));
+  });
+
+  Deno.addSignalListener("SIGINT", () => {
+    relayer.stop();
+    Deno.exit(0);
+  });
+
+  console.log(`Relaying reveals for ${role} (${account.address})... (Ctrl+C to stop)`);
+  relayer.start();
+}
@@ -0,0 +1,154 @@
+// Lightning bridge resolver daemon
+// Run with: deno run --allow-net --allow-read --allow-env run-resolver.ts [fromBlock]
+//
+// Settles LightningBridge swaps on every chain whose deployment manifest lists a bridge, as the
+// RESOLVER_PRIVATE_KEY account. LIGHTNING_BACKEND picks the Lightning node; only the in-memory
+// "fake" backend ships. It also runs a local wallet node (FAKE_WALLET_SATS, default 1000000) so
+// the user side of a swap can be played from the console:
+//   issue <chain> <sats> <amount> <token> <recipient>
+//                       resolver invoice for a Lightning→EVM swap, registered on <chain>'s bridge
+//   submit <invoice>    invoice an EVM→Lightning initiator wants the resolver to pay
+//   invoice <sats>      wallet invoice to pass to submit
+//   pay <invoice>       pay a resolver invoice from the wallet
+
+import type { Address } from "viem";
+import { getAccount, getConfig, getRegistry } from "./config.ts";
+import {
+  type ChainRegistry,
+  describeError,
+  FakeLightningNetwork,
+  type FakeLightningNode,
+  type LightningBackend,
+  LightningResolver,
+} from "./sdk/index.ts";
+
+function createBackend(): { backend: LightningBackend; wallet: FakeLightningNode } {
+  const kind = Deno.env.get("LIGHTNING_BACKEND") ?? "fake";
+  if (kind !== "fake") {
+    throw new Error(`Unsupported LIGHTNING_BACKEND "${kind}": only the in-memory "fake" backend is available`);
+  }
+  const network = new FakeLightningNetwork();
+  const walletSats = BigInt(Deno.env.get("FAKE_WALLET_SATS") ?? "1000000");
+  return { backend: network.createNode("resolver", walletSats), wallet: network.createNode("wallet", walletSats) };
+}
+
+const USAGE = "Commands: issue <chain> <sats> <amount> <token> <recipient> | submit <invoice> | invoice <sats> | " +
+  "pay <invoice>";
+
+async function runCommand(
+  resolver: LightningResolver,
+  registry: ChainRegistry,
+  wallet: FakeLightningNode,
+  line: string,
+): Promise<void> {
+  const [command, argument, ...rest] = line.trim().split(/\s+/);
+  switch (command) {
+    case "issue": {
+      const [sats, value, symbol, recipient] = rest;
+      const entry = registry.byKey(argument);
+      if (!entry || !recipient) {
+        console.error(USAGE);
+        break;
+      }
+      const amount = await registry.tokens(entry.chain.id).parse(symbol, value);
+      const invoice = await resolver.openIncoming({
+        chainId: entry.chain.id,
+        satoshiAmount: BigInt(sats),
+        token: amount.token.address,
+        amount: amount.raw,
+        recipient: recipient as Address,
+      });
+      console.log(`Invoice ${invoice.paymentRequest}\n  payment hash ${invoice.paymentHash}`);
+      break;
+    }
+    case "submit": {
+      const invoice = await resolver.submitInvoice(argument);
+      console.log(`Will pay ${invoice.amountSats} sats for ${invoice.paymentHash} once its escrow is funded`);
+      break;
+    }
+    case "invoice": {
+      const invoice = await wallet.createInvoice({ amountSats: BigInt(argument) });
+      console.log(`Wallet invoice ${invoice.paymentRequest}\n  payment hash ${invoice.paymentHash}`);
+      break;
+    }
+    case "pay": {
+      const payment = await wallet.payInvoice(argument);
+      console.log(`Wallet paid ${payment.amountSats} sats for ${payment.paymentHash}`);
+      break;
+    }
+    case undefined:
+    case "":
+      break;
+    default:
+      console.error(USAGE);
+  }
+}
+
+async function readCommands(handle: (line: string) => Promise<void>): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of Deno.stdin.readable) {
+    buffered += decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      try {
+        await handle(line);
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+if (import.meta.main) {
+  const config = getConfig();
+  const account = await getAccount(config, "resolver");
+  const registry = await getRegistry(config);
+  const chains = registry.list().filter((entry) => entry.contracts.bridge);
+  if (chains.length === 0) {
+    console.error(`No LightningBridge in the ${config.environment} deployment manifest`);
+    Deno.exit(1);
+  }
+  const { backend, wallet } = createBackend();
+  const fromBlock = Deno.args[0] ? BigInt(Deno.args[0]) : undefined;
+
+  const resolver = new LightningResolver(backend, chains.map((entry) => ({
+    chainId: entry.chain.id,
+    client: registry.publicClient(entry.chain.id),
+    signer: registry.walletClient(entry.chain.id, account),
+    bridge: entry.contracts.bridge!,
+  })), { fromBlock, pollInterval: config.retryDelay, transactions: registry.transactions });
+
+  resolver.on("detected", ({ chainId, direction, paymentHash, evmAmount, satoshiAmount }) => {
+    console.log(`[chain ${chainId}] ${direction} swap ${paymentHash}: ${evmAmount} tokens for ${satoshiAmount} sats`);
+  });
+  resolver.on("released", ({ swap, hash }) => {
+    console.log(`[chain ${swap.chainId}] Released the escrow of ${swap.paymentHash} into the bridge (tx ${hash})`);
+  });
+  resolver.on("paid", ({ swap, payment }) => {
+    console.log(`[chain ${swap.chainId}] Paid ${payment.amountSats} sats for ${swap.paymentHash}`);
+  });
+  resolver.on("confirmed", ({ swap, hash }) => {
+    console.log(`[chain ${swap.chainId}] Confirmed payment for ${swap.paymentHash} (tx ${hash})`);
+  });
+  resolver.on("completed", ({ swap, hash }) => {
+    const tx = hash ? ` (tx ${hash})` : "";
+    console.log(`[chain ${swap.chainId}] Completed ${swap.direction} swap ${swap.paymentHash}${tx}`);
+  });
+  resolver.on("rejected", ({ swap, reason }) => {
+    console.warn(`[chain ${swap.chainId}] Rejected ${swap.paymentHash}: ${reason}`);
+  });
+  resolver.on("error", ({ chainId, paymentHash, error }) => {
+    console.error(`[chain ${chainId}] Resolver error${paymentHash ? ` for ${paymentHash}` : ""}:`, describeError(error));
+  });
+
+  Deno.addSignalListener("SIGINT", () => {
+    resolver.stop();
+    Deno.exit(0);
+  });
+
+  console.log(`Resolving Lightning swaps as ${account.address} on ${chains.map((c) => c.key).join(", ")}...`);
+  resolver.start();
+  await readCommands((line) => runCommand(resolver, registry, wallet, line));
+}
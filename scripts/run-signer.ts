@@ -0,0 +1,41 @@
+// Remote signer stand-in
+// Run with: deno run --allow-net --allow-read --allow-env run-signer.ts [alice|bob|resolver ...] [--port <n>] [--hostname <host>]
+//
+// Serves the accounts of the given roles (default all) over the JSON-RPC methods RemoteSigner uses,
+// so a signing service can be exercised locally: point <ROLE>_SIGNER_URL at it in the other
+// processes' environment. Roles whose own signer is remote are skipped.
+
+import { getAccount, getConfig } from "./config.ts";
+import { type SignerRole, SignerServer } from "./sdk/index.ts";
+
+const ROLES: Record<string, SignerRole> = { alice: "initiator", bob: "responder", resolver: "resolver" };
+
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+}
+
+if (import.meta.main) {
+  const args = [...Deno.args];
+  const port = parseInt(takeOption(args, "--port") ?? "8550");
+  const hostname = takeOption(args, "--hostname") ?? "127.0.0.1";
+  const names = args.length > 0 ? args : Object.keys(ROLES);
+  if (names.some((name) => !ROLES[name])) {
+    console.error("Usage: run-signer.ts [alice|bob|resolver ...] [--port <n>] [--hostname <host>]");
+    Deno.exit(1);
+  }
+
+  const config = getConfig();
+  const served = names.filter((name) => config.signers[ROLES[name]].kind !== "remote");
+  const accounts = await Promise.all(served.map((name) => getAccount(config, ROLES[name])));
+  const server = new SignerServer(accounts);
+
+  Deno.serve({
+    port,
+    hostname,
+    onListen: ({ hostname, port }) => {
+      console.log(`Signer on http://${hostname}:${port}`);
+      served.forEach((name, i) => console.log(`  ${name}: ${accounts[i].address}`));
+    },
+  }, server.handle);
+}
@@ -0,0 +1,99 @@
+// Refund watchdog daemon
+// Run with: deno run --allow-read --allow-env --allow-net run-watchdog.ts [alice|bob]
+//
+// Refunds every escrow the chosen party funded once its timelock passes. Escrows come from the
+// factory watcher and from journaled swaps, so legs created before the watcher started are covered.
+// Prints a report of what was reclaimed on Ctrl+C.
+
+import { type Address, isAddressEqual } from "viem";
+import { getAccount, getConfig, getRegistry } from "./config.ts";
+import { type ChainRegistry, describeError, RefundWatchdog, type RefundReport, SwapJournal } from "./sdk/index.ts";
+import { JOURNAL_DIR } from "./resume-swap.ts";
+import { createConfiguredWatcher } from "./watch-escrows.ts";
+
+// Track our legs of every journaled swap that is not finished
+async function trackJournaledSwaps(watchdog: RefundWatchdog, party: Address, journal: SwapJournal): Promise<number> {
+  let tracked = 0;
+  for (const swapId of await journal.list()) {
+    const snapshot = await journal.load(swapId);
+    if (!snapshot || snapshot.state === "Claimed" || snapshot.state === "Refunded") continue;
+    for (const leg of [snapshot.source, snapshot.destination]) {
+      if (!leg.address || !isAddressEqual(leg.escrow.sender, party)) continue;
+      watchdog.track({
+        chainId: leg.chainId,
+        escrow: leg.address,
+        token: leg.escrow.token,
+        timelock: leg.escrow.timelock,
+      });
+      tracked++;
+    }
+  }
+  return tracked;
+}
+
+// "100.5 USDC", or base units and the address when the token cannot be read
+async function formatAmount(registry: ChainRegistry, chainId: number, token: Address, amount: bigint): Promise<string> {
+  try {
+    return (await registry.tokens(chainId).fromRaw(token, amount)).toString();
+  } catch {
+    return `${amount} of ${token}`;
+  }
+}
+
+async function printReport(registry: ChainRegistry, report: RefundReport): Promise<void> {
+  console.log("\nRefund report");
+  console.log(`  Refunded: ${report.refunded.length}`);
+  for (const record of report.refunded) {
+    const amount = await formatAmount(registry, record.chainId, record.token, record.amount);
+    console.log(`    [chain ${record.chainId}] ${record.escrow}: ${amount} (tx ${record.hash})`);
+  }
+  for (const total of report.totals) {
+    const amount = await formatAmount(registry, total.chainId, total.token, total.amount);
+    console.log(`  Total reclaimed on chain ${total.chainId}: ${amount}`);
+  }
+  for (const closed of report.closed) {
+    console.log(`  [chain ${closed.chainId}] ${closed.escrow} closed without refund (${closed.reason})`);
+  }
+  console.log(`  Still watching: ${report.watching.length}`);
+}
+
+if (import.meta.main) {
+  const role = Deno.args[0] ?? "alice";
+  if (role !== "alice" && role !== "bob") {
+    console.error("Usage: run-watchdog.ts [alice|bob]");
+    Deno.exit(1);
+  }
+
+  const config = getConfig();
+  const account = await getAccount(config, role === "alice" ? "initiator" : "responder");
+  const registry = await getRegistry(config);
+  const watcher = await createConfiguredWatcher({ confirmations: 1 });
+
+  const watchdog = new RefundWatchdog(registry.list().map((entry) => ({
+    chainId: entry.chain.id,
+    client: registry.publicClient(entry.chain.id),
+    signer: registry.walletClient(entry.chain.id, account),
+  })), { party: account.address, pollInterval: config.retryDelay, transactions: registry.transactions }, watcher);
+
+  const journaled = await trackJournaledSwaps(watchdog, account.address, new SwapJournal(JOURNAL_DIR));
+  if (journaled > 0) {
+    console.log(`Tracking ${journaled} escrow(s) from journaled swaps`);
+  }
+
+  watchdog.on("refunded", async ({ chainId, escrow, token, amount, hash }) => {
+    const refunded = await formatAmount(registry, chainId, token, amount);
+    console.log(`[chain ${chainId}] Refunded ${refunded} from ${escrow} (tx ${hash})`);
+  });
+  watchdog.on("error", ({ chainId, escrow, error }) => {
+    console.error(`[chain ${chainId}] Watchdog error${escrow ? ` for ${escrow}` : ""}:`, describeError(error));
+  });
+
+  Deno.addSignalListener("SIGINT", async () => {
+    watchdog.stop();
+    await printReport(registry, watchdog.report());
+    Deno.exit(0);
+  });
+
+  console.log(`Watching escrows funded by ${role} (${account.address}) for refunds... (Ctrl+C to stop)`);
+  watchdog.start();
+}
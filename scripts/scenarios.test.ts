@@ -0,0 +1,326 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  type Address,
+  type Chain,
+  createPublicClient,
+  type Hex,
+  http,
+  type LocalAccount,
+  parseUnits,
+  type PublicClient,
+} from "viem";
+import { MockERC20Abi } from "./abis/index.ts";
+import { type FixtureChain, SwapFixture } from "./anvil-fixture.ts";
+import { confirm, deploy, loadArtifact } from "./lop-harness.ts";
+import {
+  createSecret,
+  EscrowClient,
+  EscrowFactoryClient,
+  type EscrowParams,
+  generateSalt,
+  type LegName,
+  type Party,
+  planTimelocks,
+  type SwapLeg,
+  SwapOrchestrator,
+  type SwapSnapshot,
+  TokenClient,
+} from "./sdk/index.ts";
+
+// Adversarial HTLC scenarios: one party runs the SwapOrchestrator, the other is scripted straight
+// against the contracts and misbehaves. Whatever the counterparty does, the honest party must end
+// with its own funds back or the counterparty's, never neither.
+
+const ignore = Deno.env.get("SKIP_INTEGRATION") === "true";
+const BALANCE = parseUnits("1000000", 6);
+const SOURCE_AMOUNT = parseUnits("100", 6);
+const DESTINATION_AMOUNT = parseUnits("90", 6);
+const HOUR = 3600n;
+const WAIT = 1000; // ms an orchestrator is given to act before the scenario moves on
+const RUN_TIMEOUT = 60_000;
+
+interface Plan {
+  legs: Record<LegName, SwapLeg>;
+  preimage: Hex;
+}
+
+// Alice locks SOURCE_AMOUNT for Bob on source, Bob locks DESTINATION_AMOUNT for Alice on destination
+async function plan(fixture: SwapFixture, timelocks?: Record<LegName, bigint>): Promise<Plan> {
+  const { source, destination, accounts: { alice, bob } } = fixture;
+  const { preimage, hashlocks: { keccak256: hashlock } } = createSecret();
+  const { source: sourceTimelock, destination: destinationTimelock } = timelocks ??
+    planTimelocks(await source.anvil.timestamp());
+  const leg = async (chain: FixtureChain, sender: Address, recipient: Address, timelock: bigint, amount: bigint) => ({
+    chainId: chain.anvil.chainId,
+    factory: chain.contracts.factory,
+    amount: await fixture.registry.tokens(chain.anvil.chainId).fromRaw(chain.contracts.token, amount),
+    escrow: { token: chain.contracts.token, sender, recipient, hashlock, timelock, salt: generateSalt() },
+  });
+  return {
+    legs: {
+      source: await leg(source, alice.address, bob.address, sourceTimelock, SOURCE_AMOUNT),
+      destination: await leg(destination, bob.address, alice.address, destinationTimelock, DESTINATION_AMOUNT),
+    },
+    preimage,
+  };
+}
+
+// The honest side of a swap: an orchestrator holding only `party`'s keys
+function orchestrate(
+  fixture: SwapFixture,
+  party: Party,
+  swap: Plan,
+  options: { clients?: Partial<Record<LegName, PublicClient>>; onUpdate?: (snapshot: SwapSnapshot) => void } = {},
+): SwapOrchestrator {
+  const { registry, source, destination } = fixture;
+  const account = party === "initiator" ? fixture.accounts.alice : fixture.accounts.bob;
+  return SwapOrchestrator.create(`${party}-${swap.legs.source.escrow.hashlock.slice(2, 10)}`, {
+    ...swap.legs,
+    preimage: party === "initiator" ? swap.preimage : undefined,
+  }, {
+    clients: { source: source.anvil.client, destination: destination.anvil.client, ...options.clients },
+    signers: {
+      [party]: {
+        source: registry.walletClient(source.anvil.chainId, account),
+        destination: registry.walletClient(destination.anvil.chainId, account),
+      },
+    },
+    pollInterval: 100,
+    transactions: registry.transactions,
+    onUpdate: options.onUpdate,
+  });
+}
+
+// Lock funds the way a scripted counterparty would, with none of the orchestrator's checks
+async function lock(
+  fixture: SwapFixture,
+  { anvil, contracts }: FixtureChain,
+  sender: LocalAccount,
+  params: EscrowParams,
+  amount: bigint,
+): Promise<Address> {
+  const { registry } = fixture;
+  const wallet = registry.walletClient(anvil.chainId, sender);
+  const token = new TokenClient(params.token, anvil.client, wallet);
+  await registry.transactions.confirm(anvil.client, await token.approve(contracts.factory, amount), "approve");
+  const { hash, escrow } = await new EscrowFactoryClient(contracts.factory, anvil.client, wallet)
+    .createWithFunding(params, amount);
+  await registry.transactions.confirm(anvil.client, hash, "createWithFunding");
+  return escrow;
+}
+
+// Move both chains' clocks to `offset` seconds after `leg`'s timelock
+async function advanceTo(fixture: SwapFixture, swap: Plan, leg: LegName, offset: bigint): Promise<void> {
+  const now = await fixture[leg].anvil.timestamp();
+  await fixture.increaseTime(swap.legs[leg].escrow.timelock + offset - now);
+}
+
+// Either the honest party still holds what it started with, or it swapped at the agreed amounts
+async function assertOutcome(fixture: SwapFixture, party: Party, outcome: "refunded" | "swapped"): Promise<void> {
+  const account = party === "initiator" ? fixture.accounts.alice : fixture.accounts.bob;
+  const balances = await Promise.all(
+    fixture.chains.map(({ anvil, contracts }) =>
+      new TokenClient(contracts.token, anvil.client).balanceOf(account.address)
+    ),
+  );
+  const expected = outcome === "refunded"
+    ? [BALANCE, BALANCE]
+    : party === "initiator"
+    ? [BALANCE - SOURCE_AMOUNT, BALANCE + DESTINATION_AMOUNT]
+    : [BALANCE + SOURCE_AMOUNT, BALANCE - DESTINATION_AMOUNT];
+  assertEquals(balances, expected, `${party} should have ${outcome}`);
+}
+
+// JSON-RPC proxy in front of a chain that can be taken down and brought back, like a flaky provider
+class FlakyRpc {
+  down = false;
+  private readonly server: Deno.HttpServer<Deno.NetAddr>;
+
+  constructor(target: string) {
+    this.server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (request) => {
+      if (this.down) return new Response("upstream unavailable", { status: 503 });
+      return fetch(target, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: await request.text(),
+      });
+    });
+  }
+
+  client(chain: Chain): PublicClient {
+    const transport = http(`http://127.0.0.1:${this.server.addr.port}`, { retryCount: 0 });
+    return createPublicClient({ chain, transport, pollingInterval: 100 });
+  }
+
+  close(): Promise<void> {
+    return this.server.shutdown();
+  }
+}
+
+Deno.test("Scenarios - honest party against a misbehaving counterparty", { ignore }, async (t) => {
+  const fixture = await SwapFixture.start({ balance: BALANCE });
+  const { alice, bob } = fixture.accounts;
+  const { source, destination } = fixture;
+  const until = (ms: number) => ({ deadline: Date.now() + ms });
+
+  try {
+    await t.step("counterparty never locks: the initiator refunds after its timelock", fixture.isolated(async () => {
+      const swap = await plan(fixture);
+      const initiator = orchestrate(fixture, "initiator", swap);
+      assertEquals((await initiator.run(until(WAIT))).state, "Created");
+
+      // Bob walks away; the source leg only opens up to Alice once it expires
+      await advanceTo(fixture, swap, "destination", 1n);
+      assertEquals((await initiator.run(until(WAIT))).state, "Created");
+      await advanceTo(fixture, swap, "source", 1n);
+      const result = await initiator.run(until(RUN_TIMEOUT));
+      assertEquals(result.state, "Refunded");
+      assertEquals(result.txs.reveal, undefined);
+      await assertOutcome(fixture, "initiator", "refunded");
+    }));
+
+    await t.step("counterparty locks less than agreed: the initiator never reveals", fixture.isolated(async () => {
+      const swap = await plan(fixture);
+      const initiator = orchestrate(fixture, "initiator", swap);
+      await initiator.run(until(WAIT));
+      const short = await lock(fixture, destination, bob, swap.legs.destination.escrow, DESTINATION_AMOUNT - 1n);
+
+      const failed = await initiator.run(until(WAIT));
+      assertEquals(failed.state, "Failed");
+      assertStringIncludes(failed.error!, "destination escrow amount");
+      assertEquals(failed.txs.reveal, undefined);
+      assertEquals((await new EscrowClient(short, destination.anvil.client).getDetails()).withdrawn, false);
+
+      // The failed swap keeps running until the initiator's own leg is refunded
+      await advanceTo(fixture, swap, "source", 1n);
+      const result = await initiator.run(until(RUN_TIMEOUT));
+      assertEquals([result.state, result.error], ["Failed", failed.error]);
+      assertEquals(result.results?.refundSource?.status, "success");
+      assertEquals(result.txs.reveal, undefined);
+      await assertOutcome(fixture, "initiator", "refunded");
+    }));
+
+    await t.step("counterparty locks another token or recipient: it is ignored", fixture.isolated(async () => {
+      const swap = await plan(fixture);
+      const initiator = orchestrate(fixture, "initiator", swap);
+      await initiator.run(until(WAIT));
+
+      const owner = destination.anvil.walletClient(bob);
+      const fake = await deploy(destination.anvil.client, owner, await loadArtifact("MockERC20"), "fake token", [
+        "Fake USDC",
+        "USDC",
+        6,
+        0n,
+      ]);
+      await confirm(
+        destination.anvil.client,
+        await owner.writeContract({
+          address: fake,
+          abi: MockERC20Abi,
+          functionName: "mint",
+          args: [bob.address, DESTINATION_AMOUNT],
+        }),
+        "mint",
+      );
+      const planned = swap.legs.destination.escrow;
+      await lock(fixture, destination, bob, { ...planned, token: fake }, DESTINATION_AMOUNT);
+      await lock(fixture, destination, bob, { ...planned, recipient: bob.address }, DESTINATION_AMOUNT);
+
+      assertEquals((await initiator.run(until(WAIT))).state, "Created");
+      await advanceTo(fixture, swap, "source", 1n);
+      const result = await initiator.run(until(RUN_TIMEOUT));
+      assertEquals(result.state, "Refunded");
+      assertEquals(result.txs.reveal, undefined);
+      await assertOutcome(fixture, "initiator", "refunded");
+    }));
+
+    await t.step("counterparty's timelock outlasts the initiator's: nothing is revealed", fixture.isolated(async () => {
+      // Proposed up front, the plan is refused before anything is locked
+      const planned = planTimelocks(await source.anvil.timestamp());
+      const proposed = await plan(fixture, { source: planned.source, destination: planned.source + HOUR });
+      const refused = await orchestrate(fixture, "initiator", proposed).run(until(RUN_TIMEOUT));
+      assertEquals(refused.state, "Failed");
+      assertStringIncludes(refused.error!, "Source timelock must exceed destination timelock");
+      assertEquals(refused.txs.lockSource, undefined);
+      await assertOutcome(fixture, "initiator", "refunded");
+
+      // Locked off-plan, the escrow is at another address and the initiator waits it out
+      const swap = await plan(fixture);
+      const initiator = orchestrate(fixture, "initiator", swap);
+      await initiator.run(until(WAIT));
+      const longer = { ...swap.legs.destination.escrow, timelock: swap.legs.source.escrow.timelock + HOUR };
+      await lock(fixture, destination, bob, longer, DESTINATION_AMOUNT);
+      assertEquals((await initiator.run(until(WAIT))).state, "Created");
+      await advanceTo(fixture, swap, "source", 1n);
+      const result = await initiator.run(until(RUN_TIMEOUT));
+      assertEquals(result.state, "Refunded");
+      assertEquals(result.txs.reveal, undefined);
+      await assertOutcome(fixture, "initiator", "refunded");
+    }));
+
+    await t.step("initiator reveals seconds before expiry: the responder still claims", fixture.isolated(async () => {
+      const swap = await plan(fixture);
+      await lock(fixture, source, alice, swap.legs.source.escrow, SOURCE_AMOUNT);
+      const responder = orchestrate(fixture, "responder", swap);
+      const locked = await responder.run(until(WAIT));
+      assertEquals(locked.state, "CounterpartyLocked");
+
+      await advanceTo(fixture, swap, "destination", -10n);
+      const reveal = new EscrowClient(
+        locked.destination.address!,
+        destination.anvil.client,
+        fixture.registry.walletClient(destination.anvil.chainId, alice),
+      );
+      const hash = await reveal.withdraw(swap.preimage);
+      await fixture.registry.transactions.confirm(destination.anvil.client, hash, "reveal");
+
+      const result = await responder.run(until(RUN_TIMEOUT));
+      assertEquals(result.state, "Claimed");
+      assertEquals(result.preimage, swap.preimage);
+      await assertOutcome(fixture, "responder", "swapped");
+    }));
+
+    await t.step("destination RPC is down during the reveal: the responder claims once it is back", fixture.isolated(
+      async () => {
+        const swap = await plan(fixture);
+        await lock(fixture, source, alice, swap.legs.source.escrow, SOURCE_AMOUNT);
+        const rpc = new FlakyRpc(destination.anvil.rpcUrl);
+        const updates: SwapSnapshot[] = [];
+        try {
+          const responder = orchestrate(fixture, "responder", swap, {
+            clients: { destination: rpc.client(destination.anvil.chain) },
+            onUpdate: (snapshot) => void updates.push(snapshot),
+          });
+          const locked = await responder.run(until(WAIT));
+          assertEquals(locked.state, "CounterpartyLocked");
+
+          rpc.down = true;
+          const running = responder.run(until(RUN_TIMEOUT));
+          const reveal = new EscrowClient(
+            locked.destination.address!,
+            destination.anvil.client,
+            fixture.registry.walletClient(destination.anvil.chainId, alice),
+          );
+          await fixture.registry.transactions.confirm(
+            destination.anvil.client,
+            await reveal.withdraw(swap.preimage),
+            "reveal",
+          );
+          await new Promise((resolve) => setTimeout(resolve, WAIT));
+          assertEquals(responder.state, "CounterpartyLocked");
+          rpc.down = false;
+
+          const result = await running;
+          assertEquals(result.state, "Claimed");
+          assertEquals(result.error, undefined);
+          assertEquals(updates.some((update) => update.state === "CounterpartyLocked" && !!update.error), true);
+          await assertOutcome(fixture, "responder", "swapped");
+        } finally {
+          await rpc.close();
+        }
+      },
+    ));
+  } finally {
+    await fixture.stop();
+  }
+});
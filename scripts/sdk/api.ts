@@ -0,0 +1,780 @@
+// Swap API
+// Quotes and plans swaps, computes escrow addresses, reports escrow and bridge swap state and builds
+// unsigned transactions, over plain HTTP routes and JSON-RPC 2.0 on POST /rpc. Both are generated
+// from one operation table, as is the OpenAPI document on GET /openapi.json. The server never holds
+// keys or preimages: clients sign the returned calldata themselves.
+
+import {
+  type Address,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  type Hex,
+  isAddress,
+} from "viem";
+import { SimpleEscrowAbi, SimpleEscrowFactoryAbi } from "../abis/index.ts";
+import { BRIDGE_SWAP_DIRECTION, BRIDGE_SWAP_STATE, BridgeClient } from "./bridge.ts";
+import { EscrowClient, EscrowFactoryClient, type EscrowParams } from "./escrow.ts";
+import type { EscrowIndex } from "./indexer.ts";
+import type { LegName, SwapLeg } from "./orchestrator.ts";
+import {
+  assertRouteSchemes,
+  type ChainTiming,
+  DEFAULT_CHAIN_TIMING,
+  DEFAULT_TIMELOCK_POLICY,
+  finality,
+  minimumTimelockGap,
+  planTimelocks,
+  type TimelockPolicy,
+} from "./planner.ts";
+import { CONTRACT_HASHLOCK_SCHEMES, generateSalt, type HashlockContract, HashlockSchemeError } from "./secrets.ts";
+import { collectStatus, escrowState, type EscrowState, type StatusChain } from "./status.ts";
+import { type Token, TokenAmount, TokenError, TokenRegistry } from "./tokens.ts";
+
+export interface ApiChain extends StatusChain {
+  timing?: ChainTiming; // used for timelock planning, default DEFAULT_CHAIN_TIMING
+}
+
+export interface ApiOptions {
+  index?: EscrowIndex; // answers hashlock lookups; without it factory logs are scanned range by range
+  policy?: TimelockPolicy;
+  version?: string; // reported in the OpenAPI document
+}
+
+export type ApiErrorCode = "invalid_params" | "not_found" | "method_not_found" | "internal";
+
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Calldata for the client to sign and send as is
+export interface UnsignedTransaction {
+  chainId: number;
+  to: Address;
+  data: Hex;
+  value: bigint;
+  description: string;
+}
+
+export interface QuoteLeg {
+  chainId: number;
+  contract: HashlockContract; // contract holding the leg
+  token: Token; // symbol and decimals as read from the contract
+  amount: bigint;
+  formatted: string; // amount in token units
+  timelock: bigint;
+  finality: number; // seconds until a transaction on the chain is final
+}
+
+export interface SwapQuote {
+  now: bigint; // latest source block timestamp the timelocks start from
+  timelockGap: bigint;
+  source: QuoteLeg;
+  destination: QuoteLeg;
+}
+
+export interface SwapPlan extends SwapQuote {
+  legs: Record<LegName, Required<SwapLeg>>;
+}
+
+export interface EscrowReport {
+  chainId: number;
+  address: Address;
+  state: EscrowState;
+  details: Awaited<ReturnType<EscrowClient["getDetails"]>>;
+  timeLeft: bigint;
+  canWithdraw: boolean;
+  canRefund: boolean;
+}
+
+type ParamType = "address" | "bytes32" | "uint" | "integer" | "string";
+
+interface ParamSpec {
+  type: ParamType;
+  description: string;
+  optional?: boolean;
+}
+
+type ParamValue<T extends ParamType> = T extends "address" ? Address
+  : T extends "bytes32" ? Hex
+  : T extends "uint" ? bigint
+  : T extends "integer" ? number
+  : string;
+
+type Params<S extends Record<string, ParamSpec>> = {
+  [K in keyof S]: S[K]["optional"] extends true ? ParamValue<S[K]["type"]> | undefined : ParamValue<S[K]["type"]>;
+};
+
+export interface ApiOperation {
+  name: string; // JSON-RPC method
+  method: "GET" | "POST";
+  path: string; // "{name}" segments are path parameters
+  summary: string;
+  params: Record<string, ParamSpec>;
+  run(params: Record<string, unknown>): Promise<unknown>;
+}
+
+const JSON_RPC_ERRORS: Record<ApiErrorCode, number> = {
+  invalid_params: -32602,
+  method_not_found: -32601,
+  not_found: -32004,
+  internal: -32603,
+};
+
+const DEFAULT_MAX_BLOCK_RANGE = 2000n;
+
+const CORS_HEADERS = {
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET, POST, OPTIONS",
+  "access-control-allow-headers": "content-type",
+};
+
+const SCHEMAS: Record<ParamType, Record<string, unknown>> = {
+  address: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+  bytes32: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" },
+  uint: { type: "string", pattern: "^[0-9]+$", description: "decimal integer" },
+  integer: { type: "integer" },
+  string: { type: "string" },
+};
+
+function operation<const S extends Record<string, ParamSpec>>(
+  spec: Omit<ApiOperation, "params" | "run"> & { params: S; run(params: Params<S>): Promise<unknown> },
+): ApiOperation {
+  return spec as unknown as ApiOperation;
+}
+
+function parseParam(name: string, spec: ParamSpec, raw: unknown): unknown {
+  if (raw === undefined || raw === null || raw === "") {
+    if (spec.optional) return undefined;
+    throw new ApiError(400, "invalid_params", `Missing parameter ${name}`);
+  }
+  const text = String(raw);
+  const invalid = (expected: string) => new ApiError(400, "invalid_params", `${name} must be ${expected}`);
+  switch (spec.type) {
+    case "address":
+      if (!isAddress(text, { strict: false })) throw invalid("an address");
+      return getAddress(text);
+    case "bytes32":
+      if (!/^0x[0-9a-fA-F]{64}$/.test(text)) throw invalid("32 bytes of hex");
+      return text.toLowerCase();
+    case "uint":
+      if (!/^[0-9]+$/.test(text)) throw invalid("a non-negative decimal integer");
+      return BigInt(text);
+    case "integer":
+      if (!/^[0-9]+$/.test(text)) throw invalid("a non-negative integer");
+      return Number(text);
+    case "string":
+      return text;
+  }
+}
+
+// bigints as decimal strings
+export function apiJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(apiJson(body), { status, headers: { "content-type": "application/json", ...CORS_HEADERS } });
+}
+
+function errorResponse(error: unknown): Response {
+  const api = toApiError(error);
+  return jsonResponse({ error: { code: api.code, message: api.message } }, api.status);
+}
+
+// Contract named by an optional quote parameter, SimpleEscrow when left out
+function hashlockContract(name: string, value: string | undefined): HashlockContract {
+  if (value === undefined) return "SimpleEscrow";
+  if (Object.hasOwn(CONTRACT_HASHLOCK_SCHEMES, value)) return value as HashlockContract;
+  const known = Object.keys(CONTRACT_HASHLOCK_SCHEMES).join(" or ");
+  throw new ApiError(400, "invalid_params", `${name} must be ${known}`);
+}
+
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  return new ApiError(500, "internal", error instanceof Error ? error.message : String(error));
+}
+
+export class SwapApi {
+  readonly operations: ApiOperation[];
+  private readonly policy: TimelockPolicy;
+  private readonly tokenRegistries = new Map<number, TokenRegistry>();
+
+  constructor(readonly chains: ApiChain[], private readonly options: ApiOptions = {}) {
+    this.policy = options.policy ?? DEFAULT_TIMELOCK_POLICY;
+    this.operations = this.buildOperations();
+  }
+
+  // Run an operation by name with unparsed parameters, as JSON-RPC does
+  call(name: string, raw: Record<string, unknown> = {}): Promise<unknown> {
+    const op = this.operations.find((candidate) => candidate.name === name);
+    if (!op) return Promise.reject(new ApiError(404, "method_not_found", `Unknown method ${name}`));
+    return this.run(op, raw);
+  }
+
+  // Fetch handler for Deno.serve
+  handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    if (request.method === "OPTIONS") return new Response(null, { status: 204, headers: CORS_HEADERS });
+    if (request.method === "GET" && url.pathname === "/openapi.json") return jsonResponse(this.openApi());
+    if (request.method === "POST" && url.pathname === "/rpc") return this.handleRpc(request);
+
+    for (const op of this.operations) {
+      const pathParams = matchPath(op.path, url.pathname);
+      if (!pathParams || op.method !== request.method) continue;
+      try {
+        const body = op.method === "POST" ? await readJsonObject(request) : Object.fromEntries(url.searchParams);
+        return jsonResponse(await this.run(op, { ...body, ...pathParams }));
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+    return errorResponse(new ApiError(404, "not_found", `No route for ${request.method} ${url.pathname}`));
+  };
+
+  openApi(): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const op of this.operations) {
+      const pathNames = [...op.path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+      const entries = Object.entries(op.params);
+      const schema = (spec: ParamSpec) => ({ ...SCHEMAS[spec.type], description: spec.description });
+      const parameters = entries
+        .filter(([name]) => pathNames.includes(name) || op.method === "GET")
+        .map(([name, spec]) => ({
+          name,
+          in: pathNames.includes(name) ? "path" : "query",
+          required: pathNames.includes(name) || !spec.optional,
+          schema: schema(spec),
+        }));
+      const bodyParams = op.method === "POST" ? entries.filter(([name]) => !pathNames.includes(name)) : [];
+      paths[op.path] = {
+        ...paths[op.path],
+        [op.method.toLowerCase()]: {
+          operationId: op.name,
+          summary: op.summary,
+          ...(parameters.length > 0 ? { parameters } : {}),
+          ...(bodyParams.length > 0
+            ? {
+              requestBody: {
+                required: true,
+                content: {
+                  "application/json": {
+                    schema: {
+                      type: "object",
+                      required: bodyParams.filter(([, spec]) => !spec.optional).map(([name]) => name),
+                      properties: Object.fromEntries(bodyParams.map(([name, spec]) => [name, schema(spec)])),
+                    },
+                  },
+                },
+              },
+            }
+            : {}),
+          responses: {
+            "200": { description: "Result; uint256 values are decimal strings", content: { "application/json": {} } },
+            "400": { $ref: "#/components/responses/Error" },
+            "404": { $ref: "#/components/responses/Error" },
+          },
+        },
+      };
+    }
+    paths["/rpc"] = {
+      post: {
+        operationId: "rpc",
+        summary: "JSON-RPC 2.0: every operation above by its operationId, with its parameters as a named object",
+        requestBody: { required: true, content: { "application/json": {} } },
+        responses: { "200": { description: "JSON-RPC response or batch of responses" } },
+      },
+    };
+    return {
+      openapi: "3.0.3",
+      info: { title: "Bridge Me Not swap API", version: this.options.version ?? "0.1.0" },
+      paths,
+      components: {
+        responses: {
+          Error: {
+            description: "Error",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    error: {
+                      type: "object",
+                      properties: { code: { type: "string" }, message: { type: "string" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  private run(op: ApiOperation, raw: Record<string, unknown>): Promise<unknown> {
+    const params: Record<string, unknown> = {};
+    try {
+      for (const [name, spec] of Object.entries(op.params)) {
+        params[name] = parseParam(name, spec, raw[name]);
+      }
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return op.run(params);
+  }
+
+  private async handleRpc(request: Request): Promise<Response> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+    }
+    const answer = async (message: unknown) => {
+      const { id = null, method, params } = (message ?? {}) as { id?: unknown; method?: unknown; params?: unknown };
+      const namedParams = params === undefined || (typeof params === "object" && !Array.isArray(params));
+      if (typeof method !== "string" || !namedParams) {
+        return { jsonrpc: "2.0", id, error: { code: -32600, message: "Invalid request: params must be an object" } };
+      }
+      try {
+        return { jsonrpc: "2.0", id, result: await this.call(method, params as Record<string, unknown>) };
+      } catch (error) {
+        const api = toApiError(error);
+        return { jsonrpc: "2.0", id, error: { code: JSON_RPC_ERRORS[api.code], message: api.message, data: api.code } };
+      }
+    };
+    return jsonResponse(Array.isArray(body) ? await Promise.all(body.map(answer)) : await answer(body));
+  }
+
+  private chain(chainId: number): ApiChain {
+    const chain = this.chains.find((candidate) => candidate.chainId === chainId);
+    if (!chain) throw new ApiError(404, "not_found", `Chain ${chainId} is not served`);
+    return chain;
+  }
+
+  private factory(chainId: number): EscrowFactoryClient {
+    const chain = this.chain(chainId);
+    if (!chain.factory) throw new ApiError(404, "not_found", `No SimpleEscrowFactory on chain ${chainId}`);
+    return new EscrowFactoryClient(chain.factory, chain.client);
+  }
+
+  private bridge(chainId: number): BridgeClient {
+    const chain = this.chain(chainId);
+    if (!chain.bridge) throw new ApiError(404, "not_found", `No LightningBridge on chain ${chainId}`);
+    return new BridgeClient(chain.bridge, chain.client);
+  }
+
+  // Registered token by symbol, or any ERC20 by address; decimals come from the contract
+  private async token(chainId: number, symbolOrAddress: string): Promise<Token> {
+    let tokens = this.tokenRegistries.get(chainId);
+    if (!tokens) {
+      const chain = this.chain(chainId);
+      tokens = new TokenRegistry(chainId, chain.client, chain.tokens);
+      this.tokenRegistries.set(chainId, tokens);
+    }
+    try {
+      return await tokens.resolve(symbolOrAddress);
+    } catch (error) {
+      if (error instanceof TokenError && error.violation === "unknown") {
+        throw new ApiError(400, "invalid_params", error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async escrowReport(chainId: number, address: Address): Promise<EscrowReport> {
+    const { client } = this.chain(chainId);
+    const [code, block] = await Promise.all([client.getCode({ address }), client.getBlock()]);
+    if (!code || code === "0x") throw new ApiError(404, "not_found", `No escrow at ${address} on chain ${chainId}`);
+    const escrow = new EscrowClient(address, client);
+    const [details, canWithdraw, canRefund] = await Promise.all([
+      escrow.getDetails(),
+      escrow.canWithdraw(),
+      escrow.canRefund(),
+    ]);
+    return {
+      chainId,
+      address,
+      state: escrowState(details),
+      details,
+      timeLeft: details.timelock - block.timestamp,
+      canWithdraw,
+      canRefund,
+    };
+  }
+
+  // Escrows with `hashlock` on every served chain, from the index when there is one
+  private async escrowsByHashlock(hashlock: Hex, chainId?: number): Promise<{ chainId: number; address: Address }[]> {
+    const chains = chainId !== undefined ? [this.chain(chainId)] : this.chains;
+    if (this.options.index) {
+      return this.options.index.escrows({ hashlock, chainId })
+        .filter((escrow) => chains.some((chain) => chain.chainId === escrow.chainId));
+    }
+    // The hashlock is not an indexed topic, so every EscrowCreated log is read, in ranges hosted RPCs accept
+    const found = await Promise.all(chains.filter((chain) => chain.factory).map(async (chain) => {
+      const head = await chain.client.getBlockNumber();
+      const maxBlockRange = chain.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+      const escrows: { chainId: number; address: Address }[] = [];
+      for (let fromBlock = chain.fromBlock ?? 0n; fromBlock <= head; fromBlock += maxBlockRange) {
+        const rangeEnd = fromBlock + maxBlockRange - 1n;
+        const logs = await chain.client.getContractEvents({
+          address: chain.factory!,
+          abi: SimpleEscrowFactoryAbi,
+          eventName: "EscrowCreated",
+          fromBlock,
+          toBlock: rangeEnd < head ? rangeEnd : head,
+        });
+        for (const log of logs) {
+          if (log.args.hashlock?.toLowerCase() !== hashlock) continue;
+          escrows.push({ chainId: chain.chainId, address: log.args.escrow! });
+        }
+      }
+      return escrows;
+    }));
+    return found.flat();
+  }
+
+  private async quote(p: {
+    sourceChainId: number;
+    destinationChainId: number;
+    sourceToken: string;
+    destinationToken: string;
+    sourceAmount: bigint;
+    destinationAmount: bigint;
+    sourceContract?: string;
+    destinationContract?: string;
+  }): Promise<SwapQuote> {
+    const source = this.chain(p.sourceChainId);
+    const destination = this.chain(p.destinationChainId);
+    const contracts = {
+      source: hashlockContract("sourceContract", p.sourceContract),
+      destination: hashlockContract("destinationContract", p.destinationContract),
+    };
+    try {
+      assertRouteSchemes({
+        source: { chainId: source.chainId, contract: contracts.source },
+        destination: { chainId: destination.chainId, contract: contracts.destination },
+      });
+    } catch (error) {
+      if (error instanceof HashlockSchemeError) throw new ApiError(400, "invalid_params", error.message);
+      throw error;
+    }
+    const timing = { source: source.timing, destination: destination.timing };
+    const { timestamp: now } = await source.client.getBlock();
+    const timelocks = planTimelocks(now, timing, this.policy);
+    const leg = async (
+      chain: ApiChain,
+      contract: HashlockContract,
+      name: string,
+      amount: bigint,
+      timelock: bigint,
+    ): Promise<QuoteLeg> => {
+      const token = await this.token(chain.chainId, name);
+      return {
+        chainId: chain.chainId,
+        contract,
+        token,
+        amount,
+        formatted: TokenAmount.fromRaw(token, amount).toDecimal(),
+        timelock,
+        finality: finality(chain.timing ?? DEFAULT_CHAIN_TIMING),
+      };
+    };
+    const [sourceLeg, destinationLeg] = await Promise.all([
+      leg(source, contracts.source, p.sourceToken, p.sourceAmount, timelocks.source),
+      leg(destination, contracts.destination, p.destinationToken, p.destinationAmount, timelocks.destination),
+    ]);
+    return {
+      now,
+      timelockGap: minimumTimelockGap(timing, this.policy),
+      source: sourceLeg,
+      destination: destinationLeg,
+    };
+  }
+
+  private buildOperations(): ApiOperation[] {
+    const chainId = { type: "integer", description: "Chain ID" } as const;
+    const quoteParams = {
+      sourceChainId: { type: "integer", description: "Chain the initiator locks on" },
+      destinationChainId: { type: "integer", description: "Chain the responder locks on" },
+      sourceToken: { type: "string", description: "Token symbol or address on the source chain" },
+      destinationToken: { type: "string", description: "Token symbol or address on the destination chain" },
+      sourceAmount: { type: "uint", description: "Amount the initiator locks, in base units" },
+      destinationAmount: { type: "uint", description: "Amount the responder locks, in base units" },
+      sourceContract: { type: "string", description: "SimpleEscrow (default) or LightningBridge", optional: true },
+      destinationContract: { type: "string", description: "SimpleEscrow (default) or LightningBridge", optional: true },
+    } as const;
+    const escrowParams = {
+      chainId,
+      token: { type: "address", description: "ERC20 token" },
+      sender: { type: "address", description: "Party that funds and can refund" },
+      recipient: { type: "address", description: "Party that withdraws with the preimage" },
+      hashlock: { type: "bytes32", description: "keccak256(abi.encode(preimage))" },
+      timelock: { type: "uint", description: "Unix time after which the sender can refund" },
+      salt: { type: "bytes32", description: "CREATE2 salt" },
+    } as const;
+    const escrowAt = { chainId, escrow: { type: "address", description: "Escrow address" } } as const;
+    const tx = (chainId: number, to: Address, data: Hex, description: string): UnsignedTransaction => ({
+      chainId,
+      to,
+      data,
+      value: 0n,
+      description,
+    });
+
+    return [
+      operation({
+        name: "chains",
+        method: "GET",
+        path: "/chains",
+        summary: "Served chains with their contracts and registered tokens",
+        params: {},
+        run: () =>
+          Promise.resolve(this.chains.map((chain) => ({
+            chainId: chain.chainId,
+            name: chain.name,
+            factory: chain.factory,
+            bridge: chain.bridge,
+            tokens: chain.tokens ?? [],
+            timing: chain.timing ?? DEFAULT_CHAIN_TIMING,
+          }))),
+      }),
+      operation({
+        name: "quote",
+        method: "POST",
+        path: "/quote",
+        summary: "Timelocks and amounts for a swap starting at the latest source block",
+        params: quoteParams,
+        run: (p) => this.quote(p),
+      }),
+      operation({
+        name: "plan",
+        method: "POST",
+        path: "/plan",
+        summary: "Both escrow legs of a swap with salts and CREATE2 addresses, ready for tx/create",
+        params: {
+          ...quoteParams,
+          initiator: { type: "address", description: "Locks on source, claims on destination" },
+          responder: { type: "address", description: "Locks on destination, claims on source" },
+          hashlock: { type: "bytes32", description: "keccak256(abi.encode(preimage)), kept secret by the initiator" },
+          sourceSalt: { type: "bytes32", description: "CREATE2 salt of the source escrow", optional: true },
+          destinationSalt: { type: "bytes32", description: "CREATE2 salt of the destination escrow", optional: true },
+        },
+        run: async (p) => {
+          const quote = await this.quote(p);
+          const leg = async (
+            q: QuoteLeg,
+            sender: Address,
+            recipient: Address,
+            salt: Hex | undefined,
+          ): Promise<Required<SwapLeg>> => {
+            if (q.contract !== "SimpleEscrow") {
+              throw new ApiError(400, "invalid_params", `Only SimpleEscrow legs can be planned, not ${q.contract}`);
+            }
+            const factory = this.factory(q.chainId);
+            const escrow: EscrowParams = {
+              token: q.token.address,
+              sender,
+              recipient,
+              hashlock: p.hashlock,
+              timelock: q.timelock,
+              salt: salt ?? generateSalt(),
+            };
+            return {
+              chainId: q.chainId,
+              contract: q.contract,
+              factory: factory.address,
+              escrow,
+              amount: TokenAmount.fromRaw(q.token, q.amount),
+              address: await factory.computeAddress(escrow),
+            };
+          };
+          const [source, destination] = await Promise.all([
+            leg(quote.source, p.initiator, p.responder, p.sourceSalt),
+            leg(quote.destination, p.responder, p.initiator, p.destinationSalt),
+          ]);
+          return { ...quote, legs: { source, destination } } satisfies SwapPlan;
+        },
+      }),
+      operation({
+        name: "escrowAddress",
+        method: "POST",
+        path: "/escrow-address",
+        summary: "CREATE2 address of an escrow and whether the factory has deployed it",
+        params: escrowParams,
+        run: async ({ chainId, ...escrow }) => {
+          const factory = this.factory(chainId);
+          const address = await factory.computeAddress(escrow);
+          return { chainId, address, deployed: await factory.isDeployed(address) };
+        },
+      }),
+      operation({
+        name: "escrow",
+        method: "GET",
+        path: "/escrows/{chainId}/{escrow}",
+        summary: "Decoded state of one escrow, its time left and the actions open now",
+        params: escrowAt,
+        run: ({ chainId, escrow }) => this.escrowReport(chainId, escrow),
+      }),
+      operation({
+        name: "escrowsByHashlock",
+        method: "GET",
+        path: "/escrows",
+        summary: "Every escrow locked with a hashlock, on one chain or all",
+        params: {
+          hashlock: { type: "bytes32", description: "Escrow hashlock" },
+          chainId: { ...chainId, optional: true },
+        },
+        run: async ({ hashlock, chainId }) => {
+          const found = await this.escrowsByHashlock(hashlock, chainId);
+          return Promise.all(found.map((escrow) => this.escrowReport(escrow.chainId, escrow.address)));
+        },
+      }),
+      operation({
+        name: "status",
+        method: "GET",
+        path: "/status/{address}",
+        summary: "Escrows and bridge swaps an address is party to on every chain",
+        params: { address: { type: "address", description: "Party" } },
+        run: ({ address }) => collectStatus(this.chains, address),
+      }),
+      operation({
+        name: "bridgeSwap",
+        method: "GET",
+        path: "/bridge-swaps/{chainId}/{paymentHash}",
+        summary: "Decoded LightningBridge swap and the actions open now",
+        params: { chainId, paymentHash: { type: "bytes32", description: "Lightning payment hash" } },
+        run: async ({ chainId, paymentHash }) => {
+          const bridge = this.bridge(chainId);
+          const [details, canWithdraw, canExpire, block] = await Promise.all([
+            bridge.getSwap(paymentHash),
+            bridge.canWithdraw(paymentHash),
+            bridge.canExpire(paymentHash),
+            this.chain(chainId).client.getBlock(),
+          ]);
+          if (details.state === BRIDGE_SWAP_STATE.None) {
+            throw new ApiError(404, "not_found", `No bridge swap ${paymentHash} on chain ${chainId}`);
+          }
+          const key = <T extends Record<string, number>>(values: T, value: number) =>
+            Object.keys(values).find((name) => values[name] === value);
+          return {
+            chainId,
+            paymentHash,
+            direction: key(BRIDGE_SWAP_DIRECTION, details.direction),
+            state: key(BRIDGE_SWAP_STATE, details.state),
+            details,
+            timeLeft: details.timelock - block.timestamp,
+            canWithdraw,
+            canExpire,
+          };
+        },
+      }),
+      operation({
+        name: "approveTransaction",
+        method: "POST",
+        path: "/tx/approve",
+        summary: "ERC20 approval: the factory before tx/create with an amount, the escrow before tx/fund",
+        params: {
+          chainId,
+          token: { type: "address", description: "ERC20 token" },
+          spender: { type: "address", description: "Factory or escrow" },
+          amount: { type: "uint", description: "Allowance in base units" },
+        },
+        run: ({ chainId, token, spender, amount }) => {
+          this.chain(chainId);
+          const data = encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [spender, amount] });
+          return Promise.resolve(tx(chainId, token, data, `Approve ${spender} to spend ${amount}`));
+        },
+      }),
+      operation({
+        name: "createTransaction",
+        method: "POST",
+        path: "/tx/create",
+        summary: "Deploy an escrow; with an amount it is funded in the same transaction (send it from the sender)",
+        params: { ...escrowParams, amount: { type: "uint", description: "Funding in base units", optional: true } },
+        run: async ({ chainId, amount, ...escrow }) => {
+          const factory = this.factory(chainId);
+          const { token, sender, recipient, hashlock, timelock, salt } = escrow;
+          const args = [token, sender, recipient, hashlock, timelock, salt] as const;
+          const data = amount === undefined
+            ? encodeFunctionData({ abi: SimpleEscrowFactoryAbi, functionName: "createEscrow", args })
+            : encodeFunctionData({
+              abi: SimpleEscrowFactoryAbi,
+              functionName: "createEscrowWithFunding",
+              args: [...args, amount],
+            });
+          const address = await factory.computeAddress(escrow);
+          const description = amount === undefined ? `Create escrow ${address}` : `Create and fund escrow ${address}`;
+          return { ...tx(chainId, factory.address, data, description), escrow: address };
+        },
+      }),
+      operation({
+        name: "fundTransaction",
+        method: "POST",
+        path: "/tx/fund",
+        summary: "Fund a deployed escrow (send it from the sender after approving the escrow)",
+        params: { ...escrowAt, amount: { type: "uint", description: "Amount in base units" } },
+        run: ({ chainId, escrow, amount }) => {
+          this.chain(chainId);
+          const data = encodeFunctionData({ abi: SimpleEscrowAbi, functionName: "fund", args: [amount] });
+          return Promise.resolve(tx(chainId, escrow, data, `Fund ${escrow} with ${amount}`));
+        },
+      }),
+      operation({
+        name: "withdrawTransaction",
+        method: "POST",
+        path: "/tx/withdraw",
+        summary: "Withdraw to the recipient by revealing the preimage",
+        params: { ...escrowAt, preimage: { type: "bytes32", description: "Swap secret" } },
+        run: ({ chainId, escrow, preimage }) => {
+          this.chain(chainId);
+          const data = encodeFunctionData({ abi: SimpleEscrowAbi, functionName: "withdraw", args: [preimage] });
+          return Promise.resolve(tx(chainId, escrow, data, `Withdraw from ${escrow}`));
+        },
+      }),
+      operation({
+        name: "refundTransaction",
+        method: "POST",
+        path: "/tx/refund",
+        summary: "Refund the sender once the timelock has passed",
+        params: escrowAt,
+        run: ({ chainId, escrow }) => {
+          this.chain(chainId);
+          const data = encodeFunctionData({ abi: SimpleEscrowAbi, functionName: "refund" });
+          return Promise.resolve(tx(chainId, escrow, data, `Refund ${escrow}`));
+        },
+      }),
+    ];
+  }
+}
+
+// Path parameters when `pathname` matches `pattern`, e.g. "/escrows/{chainId}/{escrow}"
+function matchPath(pattern: string, pathname: string): Record<string, string> | undefined {
+  const expected = pattern.split("/");
+  const actual = pathname.replace(/\/+$/, "").split("/");
+  if (expected.length !== actual.length) return undefined;
+  const params: Record<string, string> = {};
+  for (const [i, segment] of expected.entries()) {
+    const name = /^\{(\w+)\}$/.exec(segment)?.[1];
+    if (name) params[name] = decodeURIComponent(actual[i]);
+    else if (segment !== actual[i]) return undefined;
+  }
+  return params;
+}
+
+async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, "invalid_params", "Request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiError(400, "invalid_params", "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,364 @@
+// Batch escrow pipeline
+// Opens many escrow legs at once: a CSV or JSON list of swaps is validated, grouped per chain and
+// token, deployed with batchCreateEscrows and then funded escrow by escrow. SimpleEscrow.fund pulls
+// the tokens from the sender itself, so each escrow address needs its own allowance; addresses are
+// derived offline so the approvals can go out before anything is deployed.
+
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  type PublicClient,
+  size,
+  zeroHash,
+} from "viem";
+import { EscrowAddressDeriver } from "./create2.ts";
+import { EscrowFactoryClient, type EscrowParams, type SignerClient } from "./escrow.ts";
+import { TokenClient } from "./erc20.ts";
+import type { ChainRegistry } from "./registry.ts";
+import { createSecret, generateSalt } from "./secrets.ts";
+import { type Token, TokenAmount } from "./tokens.ts";
+import { TransactionManager } from "./transactions.ts";
+
+// One input row; columns are chain, token, recipient, amount and optionally hashlock,
+// timelock (unix seconds) or timeout (seconds from now), and salt
+export type BatchRecord = Record<string, string>;
+
+// A validated row
+export interface BatchSwap {
+  row: number; // 1-based position in the input
+  chainId: number;
+  token: Token;
+  recipient: Address;
+  amount: TokenAmount;
+  hashlock: Hex;
+  preimage?: Hex; // generated when the row has no hashlock
+  timelock: bigint;
+  salt: Hex;
+}
+
+export interface PlannedEscrow {
+  swap: BatchSwap;
+  params: EscrowParams;
+  escrow: Address; // derived CREATE2 address
+}
+
+// All escrows of one token on one chain
+export interface BatchGroup {
+  chainId: number;
+  factory: Address;
+  token: Token;
+  escrows: PlannedEscrow[];
+  total: TokenAmount;
+}
+
+export interface BatchChain {
+  chainId: number;
+  client: PublicClient;
+  signer: SignerClient; // must be the escrows' sender
+}
+
+export type BatchStatus = "funded" | "created" | "failed";
+
+// One line of the result report, in input order
+export interface BatchResult {
+  row: number;
+  chainId: number;
+  token: string;
+  recipient: Address;
+  amount: string; // in token units
+  hashlock: Hex;
+  preimage?: Hex;
+  timelock: string;
+  salt: Hex;
+  escrow: Address;
+  status: BatchStatus;
+  createTx?: Hash;
+  fundTx?: Hash;
+  error?: string;
+}
+
+export interface BatchOptions {
+  sender: Address;
+  now: bigint; // unix seconds, for relative timeouts
+  defaultTimeout?: bigint; // seconds from `now` when a row has neither timelock nor timeout
+}
+
+export class BatchError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid batch:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "BatchError";
+  }
+}
+
+const DEFAULT_TIMEOUT = 3600n;
+const DEFAULT_MAX_BATCH_SIZE = 25;
+const REPORT_COLUMNS: (keyof BatchResult)[] = [
+  "row",
+  "chainId",
+  "token",
+  "recipient",
+  "amount",
+  "hashlock",
+  "preimage",
+  "timelock",
+  "salt",
+  "escrow",
+  "status",
+  "createTx",
+  "fundTx",
+  "error",
+];
+
+// Header-based CSV without quoting; blank lines and lines starting with # are skipped
+export function parseCsv(text: string): BatchRecord[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+  const header = lines[0].split(",").map((column) => column.trim());
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    return Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ""]));
+  });
+}
+
+// JSON array of objects; values are kept as strings so both formats validate the same way
+export function parseJsonBatch(text: string): BatchRecord[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) throw new BatchError(["JSON batch must be an array of swaps"]);
+  return data.map((item) =>
+    Object.fromEntries(
+      Object.entries(item ?? {}).map(([key, value]) => [key, value === null ? "" : String(value)]),
+    )
+  );
+}
+
+export function parseBatch(text: string, format: "csv" | "json"): BatchRecord[] {
+  return format === "csv" ? parseCsv(text) : parseJsonBatch(text);
+}
+
+// Validate every row against the registry; all problems are reported together
+export function validateBatch(records: BatchRecord[], registry: ChainRegistry, options: BatchOptions): BatchSwap[] {
+  const issues: string[] = [];
+  const swaps: BatchSwap[] = [];
+  if (records.length === 0) issues.push("batch has no rows");
+
+  records.forEach((record, i) => {
+    const row = i + 1;
+    const fail = (message: string) => issues.push(`row ${row}: ${message}`);
+    const chainValue = record.chain ?? record.chainId ?? "";
+    const entry = /^\d+$/.test(chainValue) ? registry.find(Number(chainValue)) : registry.byKey(chainValue);
+    if (!entry) return fail(`chain "${chainValue}" is not registered`);
+    if (!entry.contracts.factory) return fail(`no SimpleEscrowFactory registered on chain ${entry.chain.id}`);
+
+    let token: Token;
+    try {
+      token = registry.token(entry.chain.id, record.token ?? "");
+    } catch {
+      return fail(`token "${record.token ?? ""}" is not registered on chain ${entry.chain.id}`);
+    }
+
+    const before = issues.length;
+    const recipient = record.recipient ?? "";
+    if (!isAddress(recipient, { strict: false })) {
+      fail(`recipient is not an address: ${recipient}`);
+    } else if (isAddressEqual(recipient, options.sender)) {
+      fail("recipient must differ from the sender");
+    }
+
+    let amount: TokenAmount | undefined;
+    try {
+      amount = TokenAmount.parse(token, record.amount ?? "");
+    } catch {
+      // reported below
+    }
+    if (!amount || amount.isZero()) {
+      fail(`amount must be a positive number with at most ${token.decimals} decimals: ${record.amount ?? ""}`);
+    }
+
+    let hashlock = record.hashlock as Hex | undefined;
+    let preimage: Hex | undefined;
+    if (hashlock) {
+      if (!isHex(hashlock) || size(hashlock) !== 32 || hashlock === zeroHash) {
+        fail(`hashlock must be a non-zero bytes32: ${hashlock}`);
+      }
+    } else {
+      const secret = createSecret();
+      preimage = secret.preimage;
+      hashlock = secret.hashlocks.keccak256;
+    }
+
+    let timelock = options.now + (options.defaultTimeout ?? DEFAULT_TIMEOUT);
+    if (record.timelock) {
+      if (/^\d+$/.test(record.timelock)) timelock = BigInt(record.timelock);
+      else fail(`timelock must be unix seconds: ${record.timelock}`);
+    } else if (record.timeout) {
+      if (/^\d+$/.test(record.timeout)) timelock = options.now + BigInt(record.timeout);
+      else fail(`timeout must be a number of seconds: ${record.timeout}`);
+    }
+    if (timelock <= options.now) fail(`timelock ${timelock} is not in the future`);
+
+    const salt = (record.salt || generateSalt()) as Hex;
+    if (!isHex(salt) || size(salt) !== 32) fail(`salt must be a bytes32: ${salt}`);
+
+    if (issues.length > before) return;
+    swaps.push({
+      row,
+      chainId: entry.chain.id,
+      token,
+      recipient: recipient as Address,
+      amount: amount!,
+      hashlock,
+      preimage,
+      timelock,
+      salt,
+    });
+  });
+
+  if (issues.length > 0) throw new BatchError(issues);
+  return swaps;
+}
+
+// Group swaps per chain and token and derive every escrow address
+export function planBatch(
+  swaps: BatchSwap[],
+  registry: ChainRegistry,
+  sender: Address,
+  creationCode: (chainId: number) => Hex,
+): BatchGroup[] {
+  const groups = new Map<string, BatchGroup>();
+  const seen = new Map<string, number>();
+  const issues: string[] = [];
+
+  for (const swap of swaps) {
+    const factory = registry.factory(swap.chainId);
+    const deriver = new EscrowAddressDeriver(factory, creationCode(swap.chainId));
+    const params: EscrowParams = {
+      token: swap.token.address,
+      sender,
+      recipient: swap.recipient,
+      hashlock: swap.hashlock,
+      timelock: swap.timelock,
+      salt: swap.salt,
+    };
+    const escrow = deriver.address(params);
+
+    const escrowKey = `${swap.chainId}:${escrow.toLowerCase()}`;
+    const duplicate = seen.get(escrowKey);
+    if (duplicate !== undefined) {
+      issues.push(`row ${swap.row}: same escrow as row ${duplicate} (${escrow}); use a different salt`);
+      continue;
+    }
+    seen.set(escrowKey, swap.row);
+
+    const groupKey = `${swap.chainId}:${swap.token.address.toLowerCase()}`;
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { chainId: swap.chainId, factory, token: swap.token, escrows: [], total: TokenAmount.zero(swap.token) };
+      groups.set(groupKey, group);
+    }
+    group.escrows.push({ swap, params, escrow });
+    group.total = group.total.add(swap.amount);
+  }
+
+  if (issues.length > 0) throw new BatchError(issues);
+  return [...groups.values()];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message.split("\n")[0] : String(error);
+}
+
+function result(planned: PlannedEscrow, status: BatchStatus, extra: Partial<BatchResult> = {}): BatchResult {
+  const { swap, escrow } = planned;
+  return {
+    row: swap.row,
+    chainId: swap.chainId,
+    token: swap.token.symbol,
+    recipient: swap.recipient,
+    amount: swap.amount.toDecimal(),
+    hashlock: swap.hashlock,
+    preimage: swap.preimage,
+    timelock: swap.timelock.toString(),
+    salt: swap.salt,
+    escrow,
+    status,
+    ...extra,
+  };
+}
+
+// Approve, deploy and fund every group. A failing group or chunk only fails its own rows.
+export async function executeBatch(
+  groups: BatchGroup[],
+  chains: BatchChain[],
+  options: { maxBatchSize?: number; transactions?: TransactionManager } = {},
+): Promise<BatchResult[]> {
+  const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  const transactions = options.transactions ?? new TransactionManager();
+  const results: BatchResult[] = [];
+
+  for (const group of groups) {
+    const chain = chains.find((c) => c.chainId === group.chainId);
+    if (!chain) {
+      results.push(...group.escrows.map((e) => result(e, "failed", { error: `no signer for chain ${group.chainId}` })));
+      continue;
+    }
+    const factory = new EscrowFactoryClient(group.factory, chain.client, chain.signer);
+    const token = new TokenClient(group.token.address, chain.client, chain.signer);
+
+    // Check the whole group's balance once before sending anything
+    const balance = TokenAmount.fromRaw(group.token, await token.balanceOf(chain.signer.account.address));
+    if (balance.compare(group.total) < 0) {
+      const error = `insufficient ${group.token.symbol} balance: have ${balance.toDecimal()}, ` +
+        `need ${group.total.toDecimal()}`;
+      results.push(...group.escrows.map((e) => result(e, "failed", { error })));
+      continue;
+    }
+
+    for (let start = 0; start < group.escrows.length; start += maxBatchSize) {
+      const chunk = group.escrows.slice(start, start + maxBatchSize);
+      let createTx: Hash;
+      try {
+        // Allowances go to the derived addresses, so they are in place once the escrows exist
+        for (const planned of chunk) {
+          const approval = await token.ensureAllowance(planned.escrow, planned.swap.amount.toRaw(group.token));
+          if (approval) await transactions.confirm(chain.client, approval, `approve ${planned.escrow}`);
+        }
+        const created = await factory.batchCreate(chunk.map((planned) => planned.params));
+        // A sped-up transaction is mined under a different hash than the one first sent
+        createTx = (await transactions.confirm(chain.client, created.hash, "batchCreateEscrows")).hash;
+        created.escrows.forEach((escrow, i) => {
+          if (!isAddressEqual(escrow, chunk[i].escrow)) {
+            throw new Error(`factory deployed ${escrow} for row ${chunk[i].swap.row}, expected ${chunk[i].escrow}`);
+          }
+        });
+      } catch (error) {
+        results.push(...chunk.map((e) => result(e, "failed", { error: errorMessage(error) })));
+        continue;
+      }
+
+      for (const planned of chunk) {
+        try {
+          const sent = await factory.escrow(planned.escrow).fund(planned.swap.amount.toRaw(group.token));
+          const fundTx = (await transactions.confirm(chain.client, sent, `fund ${planned.escrow}`)).hash;
+          results.push(result(planned, "funded", { createTx, fundTx }));
+        } catch (error) {
+          results.push(result(planned, "created", { createTx, error: errorMessage(error) }));
+        }
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.row - b.row);
+}
+
+export function formatBatchReport(results: BatchResult[], format: "csv" | "json"): string {
+  if (format === "json") return JSON.stringify(results, null, 2) + "\n";
+  const cell = (value: unknown) => (value === undefined ? "" : String(value).replaceAll(",", ";"));
+  return [
+    REPORT_COLUMNS.join(","),
+    ...results.map((r) => REPORT_COLUMNS.map((column) => cell(r[column])).join(",")),
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,427 @@
+// BOLT11 Lightning invoices
+// Encodes and decodes payment requests: bech32 without the 90 character limit, the amount in the
+// human-readable part, a 35-bit timestamp, tagged fields and a recoverable secp256k1 signature over
+// sha256(hrp || data). Decoding verifies the signature and recovers the payee's node ID from it, so
+// a decoded invoice is always signed by `payee`.
+
+import { bytesToHex, concat, type Hex, hexToBytes, recoverPublicKey, sha256, stringToBytes } from "viem";
+import { privateKeyToAccount, sign } from "viem/accounts";
+
+export type Bolt11Network = "bitcoin" | "testnet" | "signet" | "regtest";
+
+// Private channel the payer may route the last hops through
+export interface Bolt11RouteHop {
+  pubkey: Hex;
+  shortChannelId: bigint;
+  feeBaseMsat: number;
+  feeProportionalMillionths: number;
+  cltvExpiryDelta: number;
+}
+
+// On-chain address to pay if Lightning fails: witness version (or 17/18 for P2PKH/P2SH) and program
+export interface Bolt11Fallback {
+  version: number;
+  program: Hex;
+}
+
+export interface Bolt11Fields {
+  network: Bolt11Network;
+  amountMsat?: bigint; // absent for invoices that let the payer choose
+  timestamp: number; // unix seconds
+  paymentHash: Hex;
+  paymentSecret?: Hex;
+  description?: string;
+  descriptionHash?: Hex; // sha256 of a description too long for the invoice
+  payee?: Hex; // written as the n field when given; decoders otherwise recover it from the signature
+  expiry?: number; // seconds after timestamp, default 3600
+  minFinalCltvExpiry?: number; // default 18
+  features?: bigint; // feature bits
+  metadata?: Hex;
+  routeHints?: Bolt11RouteHop[][];
+  fallbacks?: Bolt11Fallback[];
+}
+
+// Tagged field the decoder does not interpret, kept as 5-bit words
+export interface Bolt11UnknownField {
+  tag: string;
+  words: number[];
+}
+
+export interface Bolt11Invoice extends Bolt11Fields {
+  paymentRequest: string;
+  expiry: number;
+  expiresAt: number; // timestamp + expiry
+  minFinalCltvExpiry: number;
+  routeHints: Bolt11RouteHop[][];
+  fallbacks: Bolt11Fallback[];
+  unknownFields: Bolt11UnknownField[];
+  payee: Hex; // compressed public key of the signing node
+  signature: Hex; // 64-byte compact signature
+  recoveryId: number;
+}
+
+export class Bolt11Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Bolt11Error";
+  }
+}
+
+export const DEFAULT_INVOICE_EXPIRY = 3600;
+export const DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18;
+
+const NETWORK_PREFIXES: Record<Bolt11Network, string> = {
+  bitcoin: "bc",
+  testnet: "tb",
+  signet: "tbs",
+  regtest: "bcrt",
+};
+
+// Amount multipliers as the divisor of one bitcoin, and millisatoshis per bitcoin
+const MULTIPLIERS = { m: 1_000n, u: 1_000_000n, n: 1_000_000_000n, p: 1_000_000_000_000n } as const;
+const MSAT_PER_BTC = 100_000_000_000n;
+
+const TAGS = {
+  paymentHash: 1,
+  routeHint: 3,
+  features: 5,
+  expiry: 6,
+  fallback: 9,
+  description: 13,
+  paymentSecret: 16,
+  payee: 19,
+  descriptionHash: 23,
+  minFinalCltvExpiry: 24,
+  metadata: 27,
+} as const;
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const TIMESTAMP_WORDS = 7;
+const SIGNATURE_WORDS = 104;
+const ROUTE_HOP_BYTES = 51;
+
+// Sign `fields` with the payee's node key
+export async function encodeBolt11(fields: Bolt11Fields, privateKey: Hex): Promise<string> {
+  const hrp = `ln${NETWORK_PREFIXES[fields.network]}${encodeAmount(fields.amountMsat)}`;
+  const data = [...uintToWords(BigInt(fields.timestamp), TIMESTAMP_WORDS), ...encodeTaggedFields(fields)];
+
+  const signature = await sign({ hash: signingHash(hrp, data), privateKey });
+  const signatureBytes = concat([signature.r, signature.s, bytesToHex(new Uint8Array([signature.yParity!]))]);
+  return bech32Encode(hrp, [...data, ...bytesToWords(hexToBytes(signatureBytes))]);
+}
+
+// Compressed secp256k1 public key of a node key, the node ID invoices are signed under
+export function nodeIdFromPrivateKey(privateKey: Hex): Hex {
+  return compressPublicKey(privateKeyToAccount(privateKey).publicKey);
+}
+
+// Parse and verify a payment request; throws Bolt11Error for anything malformed or badly signed
+export async function decodeBolt11(paymentRequest: string): Promise<Bolt11Invoice> {
+  const request = paymentRequest.replace(/^lightning:/i, "");
+  const { hrp, words } = bech32Decode(request);
+  const { network, amountMsat } = decodeHrp(hrp);
+  if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) {
+    throw new Bolt11Error("Invoice is too short");
+  }
+
+  const data = words.slice(0, -SIGNATURE_WORDS);
+  const signatureBytes = wordsToBytes(words.slice(-SIGNATURE_WORDS), false);
+  const signature = bytesToHex(signatureBytes.slice(0, 64));
+  const recoveryId = signatureBytes[64];
+  if (recoveryId > 3) throw new Bolt11Error(`Invalid signature recovery ID ${recoveryId}`);
+
+  const timestamp = Number(wordsToUint(data.slice(0, TIMESTAMP_WORDS)));
+  const invoice: Bolt11Invoice = {
+    paymentRequest: request,
+    network,
+    amountMsat,
+    timestamp,
+    paymentHash: "0x",
+    expiry: DEFAULT_INVOICE_EXPIRY,
+    expiresAt: 0,
+    minFinalCltvExpiry: DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+    routeHints: [],
+    fallbacks: [],
+    unknownFields: [],
+    payee: "0x",
+    signature,
+    recoveryId,
+  };
+  let hasPaymentHash = false;
+  let statedPayee: Hex | undefined;
+
+  let offset = TIMESTAMP_WORDS;
+  while (offset < data.length) {
+    if (offset + 3 > data.length) throw new Bolt11Error("Truncated tagged field");
+    const tag = data[offset];
+    const length = data[offset + 1] * 32 + data[offset + 2];
+    const value = data.slice(offset + 3, offset + 3 + length);
+    if (value.length !== length) throw new Bolt11Error("Truncated tagged field");
+    offset += 3 + length;
+
+    // Fixed-size fields with the wrong length are skipped, as BOLT11 requires of readers
+    switch (tag) {
+      case TAGS.paymentHash:
+        if (length === 52 && !hasPaymentHash) {
+          invoice.paymentHash = bytesToHex(wordsToBytes(value, false));
+          hasPaymentHash = true;
+        }
+        break;
+      case TAGS.paymentSecret:
+        if (length === 52) invoice.paymentSecret = bytesToHex(wordsToBytes(value, false));
+        break;
+      case TAGS.descriptionHash:
+        if (length === 52) invoice.descriptionHash = bytesToHex(wordsToBytes(value, false));
+        break;
+      case TAGS.payee:
+        if (length === 53) statedPayee = bytesToHex(wordsToBytes(value, false));
+        break;
+      case TAGS.description:
+        try {
+          invoice.description = new TextDecoder("utf-8", { fatal: true }).decode(wordsToBytes(value, false));
+        } catch {
+          throw new Bolt11Error("Description is not valid UTF-8");
+        }
+        break;
+      case TAGS.expiry:
+        invoice.expiry = Number(wordsToUint(value));
+        break;
+      case TAGS.minFinalCltvExpiry:
+        invoice.minFinalCltvExpiry = Number(wordsToUint(value));
+        break;
+      case TAGS.features:
+        invoice.features = wordsToUint(value);
+        break;
+      case TAGS.metadata:
+        invoice.metadata = bytesToHex(wordsToBytes(value, false));
+        break;
+      case TAGS.routeHint:
+        invoice.routeHints.push(decodeRouteHint(wordsToBytes(value, false)));
+        break;
+      case TAGS.fallback:
+        if (length > 0) {
+          invoice.fallbacks.push({ version: value[0], program: bytesToHex(wordsToBytes(value.slice(1), false)) });
+        }
+        break;
+      default:
+        invoice.unknownFields.push({ tag: BECH32_CHARSET[tag], words: value });
+    }
+  }
+  if (!hasPaymentHash) throw new Bolt11Error("Invoice has no payment hash");
+  invoice.expiresAt = timestamp + invoice.expiry;
+
+  let recovered: Hex;
+  try {
+    recovered = compressPublicKey(
+      await recoverPublicKey({
+        hash: signingHash(hrp, data),
+        signature: { r: `0x${signature.slice(2, 66)}`, s: `0x${signature.slice(66)}`, yParity: recoveryId },
+      }),
+    );
+  } catch (error) {
+    throw new Bolt11Error(`Invalid invoice signature: ${error instanceof Error ? error.message : error}`);
+  }
+  if (statedPayee && statedPayee.toLowerCase() !== recovered) {
+    throw new Bolt11Error(`Invoice claims payee ${statedPayee} but is signed by ${recovered}`);
+  }
+  invoice.payee = recovered;
+  return invoice;
+}
+
+// Satoshis an invoice asks for; undefined when it has no amount or one that is not whole satoshis
+export function invoiceSats(invoice: Pick<Bolt11Invoice, "amountMsat">): bigint | undefined {
+  const { amountMsat } = invoice;
+  return amountMsat !== undefined && amountMsat % 1000n === 0n ? amountMsat / 1000n : undefined;
+}
+
+function encodeTaggedFields(fields: Bolt11Fields): number[] {
+  const words: number[] = [];
+  const push = (tag: number, value: number[]) => {
+    if (value.length >= 1024) throw new Bolt11Error(`Tagged field ${BECH32_CHARSET[tag]} is too long`);
+    words.push(tag, value.length >> 5, value.length & 31, ...value);
+  };
+  const push32 = (tag: number, value: Hex, name: string) => {
+    const bytes = hexToBytes(value);
+    if (bytes.length !== 32) throw new Bolt11Error(`${name} must be 32 bytes`);
+    push(tag, bytesToWords(bytes));
+  };
+
+  push32(TAGS.paymentHash, fields.paymentHash, "Payment hash");
+  if (fields.paymentSecret) push32(TAGS.paymentSecret, fields.paymentSecret, "Payment secret");
+  if (fields.description !== undefined) push(TAGS.description, bytesToWords(stringToBytes(fields.description)));
+  if (fields.descriptionHash) push32(TAGS.descriptionHash, fields.descriptionHash, "Description hash");
+  if (fields.payee) {
+    const payee = hexToBytes(fields.payee);
+    if (payee.length !== 33) throw new Bolt11Error("Payee must be a 33-byte compressed public key");
+    push(TAGS.payee, bytesToWords(payee));
+  }
+  if (fields.expiry !== undefined) push(TAGS.expiry, uintToWords(BigInt(fields.expiry)));
+  if (fields.minFinalCltvExpiry !== undefined) {
+    push(TAGS.minFinalCltvExpiry, uintToWords(BigInt(fields.minFinalCltvExpiry)));
+  }
+  for (const fallback of fields.fallbacks ?? []) {
+    push(TAGS.fallback, [fallback.version, ...bytesToWords(hexToBytes(fallback.program))]);
+  }
+  for (const hint of fields.routeHints ?? []) {
+    push(TAGS.routeHint, bytesToWords(encodeRouteHint(hint)));
+  }
+  if (fields.features !== undefined) push(TAGS.features, uintToWords(fields.features));
+  if (fields.metadata) push(TAGS.metadata, bytesToWords(hexToBytes(fields.metadata)));
+  return words;
+}
+
+function encodeAmount(amountMsat: bigint | undefined): string {
+  if (amountMsat === undefined) return "";
+  if (amountMsat <= 0n) throw new Bolt11Error("Invoice amount must be positive");
+  if (amountMsat % MSAT_PER_BTC === 0n) return `${amountMsat / MSAT_PER_BTC}`;
+  // Shortest representation: the largest unit the amount is a whole multiple of
+  for (const unit of ["m", "u", "n"] as const) {
+    const msatPerUnit = MSAT_PER_BTC / MULTIPLIERS[unit];
+    if (amountMsat % msatPerUnit === 0n) return `${amountMsat / msatPerUnit}${unit}`;
+  }
+  return `${amountMsat * 10n}p`;
+}
+
+function decodeHrp(hrp: string): { network: Bolt11Network; amountMsat?: bigint } {
+  if (!hrp.startsWith("ln")) throw new Bolt11Error(`Not a Lightning invoice prefix: ${hrp}`);
+  const match = /^ln(bcrt|bc|tbs|tb)(?:(\d+)([munp])?)?$/.exec(hrp);
+  if (!match) throw new Bolt11Error(`Unknown network or malformed amount in prefix ${hrp}`);
+  const network = (Object.keys(NETWORK_PREFIXES) as Bolt11Network[])
+    .find((key) => NETWORK_PREFIXES[key] === match[1])!;
+  if (match[2] === undefined) return { network };
+
+  const amount = BigInt(match[2]);
+  const unit = match[3] as keyof typeof MULTIPLIERS | undefined;
+  if (!unit) return { network, amountMsat: amount * MSAT_PER_BTC };
+  if (unit === "p" && amount % 10n !== 0n) {
+    throw new Bolt11Error(`Amount ${match[2]}p is not a whole millisatoshi`);
+  }
+  const amountMsat = (amount * MSAT_PER_BTC) / MULTIPLIERS[unit];
+  if (amountMsat === 0n) throw new Bolt11Error("Invoice amount must be positive");
+  return { network, amountMsat };
+}
+
+function encodeRouteHint(hops: Bolt11RouteHop[]): Uint8Array {
+  const bytes = new Uint8Array(hops.length * ROUTE_HOP_BYTES);
+  const view = new DataView(bytes.buffer);
+  hops.forEach((hop, index) => {
+    const at = index * ROUTE_HOP_BYTES;
+    const pubkey = hexToBytes(hop.pubkey);
+    if (pubkey.length !== 33) throw new Bolt11Error("Route hint public keys must be 33 bytes");
+    bytes.set(pubkey, at);
+    view.setBigUint64(at + 33, hop.shortChannelId);
+    view.setUint32(at + 41, hop.feeBaseMsat);
+    view.setUint32(at + 45, hop.feeProportionalMillionths);
+    view.setUint16(at + 49, hop.cltvExpiryDelta);
+  });
+  return bytes;
+}
+
+function decodeRouteHint(bytes: Uint8Array): Bolt11RouteHop[] {
+  if (bytes.length % ROUTE_HOP_BYTES !== 0) throw new Bolt11Error("Malformed route hint");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const hops: Bolt11RouteHop[] = [];
+  for (let at = 0; at < bytes.length; at += ROUTE_HOP_BYTES) {
+    hops.push({
+      pubkey: bytesToHex(bytes.slice(at, at + 33)),
+      shortChannelId: view.getBigUint64(at + 33),
+      feeBaseMsat: view.getUint32(at + 41),
+      feeProportionalMillionths: view.getUint32(at + 45),
+      cltvExpiryDelta: view.getUint16(at + 49),
+    });
+  }
+  return hops;
+}
+
+function signingHash(hrp: string, data: number[]): Hex {
+  return sha256(concat([stringToBytes(hrp), wordsToBytes(data, true)]));
+}
+
+function compressPublicKey(publicKey: Hex): Hex {
+  const bytes = hexToBytes(publicKey);
+  if (bytes.length !== 65 || bytes[0] !== 4) throw new Bolt11Error("Expected an uncompressed public key");
+  const prefix = bytes[64] % 2 === 0 ? 2 : 3;
+  return bytesToHex(new Uint8Array([prefix, ...bytes.slice(1, 33)]));
+}
+
+// Big-endian unsigned integer in 5-bit words: at least `minWords`, no leading zero words beyond that
+function uintToWords(value: bigint, minWords = 1): number[] {
+  const words: number[] = [];
+  for (let rest = value; rest > 0n || words.length < minWords; rest >>= 5n) {
+    words.unshift(Number(rest & 31n));
+  }
+  return words;
+}
+
+function wordsToUint(words: number[]): bigint {
+  return words.reduce((value, word) => (value << 5n) | BigInt(word), 0n);
+}
+
+function bytesToWords(bytes: Uint8Array): number[] {
+  return convertBits([...bytes], 8, 5, true);
+}
+
+// With `pad`, trailing bits are zero-filled into a last byte; without, leftover bits are dropped
+function wordsToBytes(words: number[], pad: boolean): Uint8Array {
+  return new Uint8Array(convertBits(words, 5, 8, pad));
+}
+
+function convertBits(data: number[], from: number, to: number, pad: boolean): number[] {
+  const out: number[] = [];
+  const max = (1 << to) - 1;
+  let accumulator = 0;
+  let bits = 0;
+  for (const value of data) {
+    accumulator = ((accumulator << from) | value) & 0xffffff;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((accumulator >> bits) & max);
+    }
+  }
+  if (pad && bits > 0) out.push((accumulator << (to - bits)) & max);
+  return out;
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, bit) => {
+      if ((top >>> bit) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const codes = [...hrp].map((char) => char.charCodeAt(0));
+  return [...codes.map((code) => code >> 5), 0, ...codes.map((code) => code & 31)];
+}
+
+function bech32Encode(hrp: string, words: number[]): string {
+  const polymod = bech32Polymod([...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = [0, 1, 2, 3, 4, 5].map((index) => (polymod >>> (5 * (5 - index))) & 31);
+  return `${hrp}1${[...words, ...checksum].map((word) => BECH32_CHARSET[word]).join("")}`;
+}
+
+// BOLT11 drops bech32's 90 character limit; everything else follows BIP-173
+function bech32Decode(value: string): { hrp: string; words: number[] } {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    throw new Bolt11Error("Invoice mixes upper and lower case");
+  }
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf("1");
+  if (separator < 1 || lower.length - separator - 1 < 6) {
+    throw new Bolt11Error("Invoice is not bech32 encoded");
+  }
+  const hrp = lower.slice(0, separator);
+  const words = [...lower.slice(separator + 1)].map((char) => BECH32_CHARSET.indexOf(char));
+  if (words.includes(-1)) throw new Bolt11Error("Invoice contains a character outside the bech32 charset");
+  if (bech32Polymod([...hrpExpand(hrp), ...words]) !== 1) {
+    throw new Bolt11Error("Invalid bech32 checksum");
+  }
+  return { hrp, words: words.slice(0, -6) };
+}
@@ -0,0 +1,309 @@
+// Typed client for LightningBridge
+// Like the escrow clients, every call is simulated before it is sent so reverts surface before a
+// transaction is broadcast. Calls that put an invoice on the bridge first decode it and check it
+// against the swap and the bridge's limits, so an invoice that cannot settle the swap never reaches
+// the chain.
+
+import type { Address, ContractFunctionReturnType, Hash, Hex, PublicClient } from "viem";
+import { LightningBridgeAbi } from "../abis/index.ts";
+import { type Bolt11Invoice, decodeBolt11, invoiceSats } from "./bolt11.ts";
+import { withDecodedReverts } from "./errors.ts";
+import type { SignerClient } from "./escrow.ts";
+
+// Decoded LightningBridge.getSwapDetails() result
+export type BridgeSwap = ContractFunctionReturnType<
+  typeof LightningBridgeAbi,
+  "view",
+  "getSwapDetails"
+>;
+
+// LightningBridge.SwapState
+export const BRIDGE_SWAP_STATE = {
+  None: 0,
+  Initiated: 1,
+  LightningPaid: 2,
+  Completed: 3,
+  Expired: 4,
+} as const;
+
+// LightningBridge.SwapDirection
+export const BRIDGE_SWAP_DIRECTION = {
+  EVMToLightning: 0,
+  LightningToEVM: 1,
+} as const;
+
+export interface EVMToLightningParams {
+  token: Address;
+  amount: bigint;
+  satoshiAmount: bigint;
+  paymentHash: Hex; // sha256 of the preimage, as in the initiator's invoice
+  timelock: bigint;
+  invoice: string; // the initiator's invoice, checked against the other fields
+}
+
+export interface LightningToEVMParams {
+  invoice: string; // issued by the resolver
+  paymentHash: Hex; // payment hash of `invoice`
+  satoshiAmount: bigint; // amount of `invoice`
+  token: Address;
+  amount: bigint;
+  recipient: Address;
+}
+
+// LightningBridge configuration an invoice must fit
+export interface BridgeLimits {
+  minSatoshiAmount: bigint;
+  maxSatoshiAmount: bigint;
+  defaultSwapTimeout: bigint; // seconds a Lightning→EVM swap stays open
+}
+
+// What a swap expects of its invoice
+export interface SwapInvoiceTerms {
+  paymentHash: Hex;
+  satoshiAmount: bigint;
+  deadline: bigint; // the swap's timelock; the invoice must expire by then
+}
+
+export class InvoiceValidationError extends Error {
+  constructor(readonly paymentRequest: string, readonly issues: string[]) {
+    super(`Invoice does not match the swap: ${issues.join("; ")}`);
+    this.name = "InvoiceValidationError";
+  }
+}
+
+// Every way `invoice` fails the swap's terms or the bridge's limits at time `now` (unix seconds)
+export function invoiceIssues(
+  invoice: Bolt11Invoice,
+  terms: SwapInvoiceTerms,
+  limits: BridgeLimits,
+  now: bigint,
+): string[] {
+  const issues: string[] = [];
+  if (invoice.paymentHash.toLowerCase() !== terms.paymentHash.toLowerCase()) {
+    issues.push(`payment hash ${invoice.paymentHash} is not the swap's ${terms.paymentHash}`);
+  }
+
+  const sats = invoiceSats(invoice);
+  if (invoice.amountMsat === undefined) {
+    issues.push("invoice has no amount");
+  } else if (sats === undefined) {
+    issues.push(`${invoice.amountMsat} msat is not a whole number of satoshis`);
+  } else if (sats !== terms.satoshiAmount) {
+    issues.push(`invoice is for ${sats} sats, the swap for ${terms.satoshiAmount}`);
+  }
+  if (terms.satoshiAmount < limits.minSatoshiAmount || terms.satoshiAmount > limits.maxSatoshiAmount) {
+    issues.push(
+      `${terms.satoshiAmount} sats is outside the bridge's ${limits.minSatoshiAmount}-${limits.maxSatoshiAmount}`,
+    );
+  }
+
+  const expiresAt = BigInt(invoice.expiresAt);
+  if (expiresAt <= now) {
+    issues.push(`invoice expired at ${expiresAt}`);
+  } else if (expiresAt > terms.deadline) {
+    issues.push(`invoice stays payable until ${expiresAt}, after the swap's timelock ${terms.deadline}`);
+  }
+  return issues;
+}
+
+// Decode `paymentRequest` and throw InvoiceValidationError unless it fits the swap
+export async function validateSwapInvoice(
+  paymentRequest: string,
+  terms: SwapInvoiceTerms,
+  limits: BridgeLimits,
+  now: bigint,
+): Promise<Bolt11Invoice> {
+  let invoice: Bolt11Invoice;
+  try {
+    invoice = await decodeBolt11(paymentRequest);
+  } catch (error) {
+    throw new InvoiceValidationError(paymentRequest, [error instanceof Error ? error.message : String(error)]);
+  }
+  const issues = invoiceIssues(invoice, terms, limits, now);
+  if (issues.length > 0) throw new InvoiceValidationError(paymentRequest, issues);
+  return invoice;
+}
+
+// Client for a deployed LightningBridge
+export class BridgeClient {
+  constructor(
+    readonly address: Address,
+    readonly publicClient: PublicClient,
+    readonly walletClient?: SignerClient,
+  ) {}
+
+  getSwap(paymentHash: Hex): Promise<BridgeSwap> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: LightningBridgeAbi,
+      functionName: "getSwapDetails",
+      args: [paymentHash],
+    });
+  }
+
+  // Payment hashes of every swap `user` initiated or receives from
+  userSwaps(user: Address): Promise<readonly Hex[]> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: LightningBridgeAbi,
+      functionName: "getUserSwaps",
+      args: [user],
+    });
+  }
+
+  canWithdraw(paymentHash: Hex): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: LightningBridgeAbi,
+      functionName: "canWithdraw",
+      args: [paymentHash],
+    });
+  }
+
+  canExpire(paymentHash: Hex): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: LightningBridgeAbi,
+      functionName: "canExpire",
+      args: [paymentHash],
+    });
+  }
+
+  resolver(): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: LightningBridgeAbi,
+      functionName: "resolver",
+    });
+  }
+
+  async limits(): Promise<BridgeLimits> {
+    const read = (functionName: "minSatoshiAmount" | "maxSatoshiAmount" | "defaultSwapTimeout") =>
+      this.publicClient.readContract({ address: this.address, abi: LightningBridgeAbi, functionName });
+    const [minSatoshiAmount, maxSatoshiAmount, defaultSwapTimeout] = await Promise.all([
+      read("minSatoshiAmount"),
+      read("maxSatoshiAmount"),
+      read("defaultSwapTimeout"),
+    ]);
+    return { minSatoshiAmount, maxSatoshiAmount, defaultSwapTimeout };
+  }
+
+  // Check `paymentRequest` against the swap terms, the bridge's limits and the latest block's time.
+  // `deadline` defaults to the timelock a Lightning→EVM swap initiated now would get.
+  async validateInvoice(
+    paymentRequest: string,
+    terms: Omit<SwapInvoiceTerms, "deadline"> & { deadline?: bigint },
+  ): Promise<Bolt11Invoice> {
+    const [limits, block] = await Promise.all([this.limits(), this.publicClient.getBlock()]);
+    const deadline = terms.deadline ?? block.timestamp + limits.defaultSwapTimeout;
+    return validateSwapInvoice(paymentRequest, { ...terms, deadline }, limits, block.timestamp);
+  }
+
+  // Lock tokens for a Lightning payment; the caller funds the returned escrow afterwards
+  async initiateEVMToLightning(params: EVMToLightningParams): Promise<{ hash: Hash; escrow: Address }> {
+    const wallet = this.requireWallet("initiate a swap");
+    await this.validateInvoice(params.invoice, { ...params, deadline: params.timelock });
+    return withDecodedReverts(async () => {
+      const { request, result } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: LightningBridgeAbi,
+        functionName: "initiateEVMToLightning",
+        args: [params.token, params.amount, params.satoshiAmount, params.paymentHash, params.timelock],
+      });
+      const hash = await wallet.writeContract(request);
+      return { hash, escrow: result };
+    });
+  }
+
+  // Resolver only; register a Lightning→EVM swap for an invoice it issued
+  async initiateLightningToEVM(params: LightningToEVMParams): Promise<Hash> {
+    const wallet = this.requireWallet("initiate a swap");
+    await this.validateInvoice(params.invoice, params);
+    return withDecodedReverts(async () => {
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: LightningBridgeAbi,
+        functionName: "initiateLightningToEVM",
+        args: [
+          params.invoice,
+          params.paymentHash,
+          params.satoshiAmount,
+          params.token,
+          params.amount,
+          params.recipient,
+        ],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  // Resolver only; the invoice must fit the recorded swap
+  async setLightningInvoice(paymentHash: Hex, invoice: string): Promise<Hash> {
+    const wallet = this.requireWallet("set an invoice");
+    const swap = await this.getSwap(paymentHash);
+    await this.validateInvoice(invoice, { paymentHash, satoshiAmount: swap.satoshiAmount, deadline: swap.timelock });
+    return withDecodedReverts(async () => {
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: LightningBridgeAbi,
+        functionName: "setLightningInvoice",
+        args: [paymentHash, invoice],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  // Resolver only; for Lightning→EVM swaps this also creates the recipient's escrow
+  confirmLightningPayment(paymentHash: Hex, preimage: Hex): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = this.requireWallet("confirm a payment");
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: LightningBridgeAbi,
+        functionName: "confirmLightningPayment",
+        args: [paymentHash, preimage],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  // Pay the escrowed tokens of a confirmed EVM→Lightning swap to the resolver
+  withdrawEVMFunds(paymentHash: Hex): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = this.requireWallet("withdraw swap funds");
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: LightningBridgeAbi,
+        functionName: "withdrawEVMFunds",
+        args: [paymentHash],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  expireSwap(paymentHash: Hex): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = this.requireWallet("expire a swap");
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: LightningBridgeAbi,
+        functionName: "expireSwap",
+        args: [paymentHash],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  private requireWallet(action: string): SignerClient {
+    if (!this.walletClient) {
+      throw new Error(`A wallet client is required to ${action}`);
+    }
+    return this.walletClient;
+  }
+}
@@ -0,0 +1,109 @@
+// Offline escrow address derivation
+// Reproduces SimpleEscrowFactory.computeEscrowAddress in TypeScript: the escrow's init code is
+// `SimpleEscrow.creationCode ++ abi.encode(token, sender, recipient, hashlock, timelock)` and the
+// address is the CREATE2 address of that init code under the factory and salt. With the creation
+// code loaded once (from the forge artifact or the factory's `getEscrowBytecode`), escrow
+// addresses can be quoted without an RPC call or before anything is deployed.
+
+import {
+  type Address,
+  concat,
+  encodeAbiParameters,
+  getContractAddress,
+  type Hex,
+  isHex,
+  keccak256,
+  type PublicClient,
+  size,
+  slice,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import { SimpleEscrowFactoryAbi } from "../abis/index.ts";
+import type { EscrowParams } from "./escrow.ts";
+
+// Constructor arguments of SimpleEscrow, in order
+const ESCROW_CONSTRUCTOR = [
+  { type: "address" }, // token
+  { type: "address" }, // sender
+  { type: "address" }, // recipient
+  { type: "bytes32" }, // hashlock
+  { type: "uint256" }, // timelock
+] as const;
+
+// abi.encode of the constructor arguments is always five 32-byte words
+const CONSTRUCTOR_ARGS_SIZE = 5 * 32;
+
+export const ESCROW_ARTIFACT_PATH = new URL("../../out/SimpleEscrow.sol/SimpleEscrow.json", import.meta.url)
+  .pathname;
+
+type EscrowConstructorArgs = Omit<EscrowParams, "salt">;
+
+// Same bytes as SimpleEscrowFactory.getEscrowBytecode(token, sender, recipient, hashlock, timelock)
+export function escrowInitCode(creationCode: Hex, params: EscrowConstructorArgs): Hex {
+  return concat([
+    creationCode,
+    encodeAbiParameters(ESCROW_CONSTRUCTOR, [
+      params.token,
+      params.sender,
+      params.recipient,
+      params.hashlock,
+      params.timelock,
+    ]),
+  ]);
+}
+
+// CREATE2 address: keccak256(0xff ++ deployer ++ salt ++ keccak256(initCode))[12:]
+export function create2Address(deployer: Address, salt: Hex, initCode: Hex): Address {
+  return getContractAddress({ opcode: "CREATE2", from: deployer, salt, bytecodeHash: keccak256(initCode) });
+}
+
+// Offline equivalent of SimpleEscrowFactory.computeEscrowAddress
+export function deriveEscrowAddress(factory: Address, creationCode: Hex, params: EscrowParams): Address {
+  return create2Address(factory, params.salt, escrowInitCode(creationCode, params));
+}
+
+// SimpleEscrow creation code from a forge artifact (`forge build` output)
+export async function loadEscrowCreationCode(path = ESCROW_ARTIFACT_PATH): Promise<Hex> {
+  let artifact: { bytecode?: { object?: unknown } };
+  try {
+    artifact = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load SimpleEscrow artifact ${path} (run \`deno task build\`): ${reason}`);
+  }
+  const code = artifact.bytecode?.object;
+  if (typeof code !== "string" || !isHex(code) || code === "0x") {
+    throw new Error(`SimpleEscrow artifact ${path} has no creation bytecode`);
+  }
+  return code;
+}
+
+// SimpleEscrow creation code exactly as deployed by a factory, read through getEscrowBytecode
+export async function fetchEscrowCreationCode(client: PublicClient, factory: Address): Promise<Hex> {
+  const initCode = await client.readContract({
+    address: factory,
+    abi: SimpleEscrowFactoryAbi,
+    functionName: "getEscrowBytecode",
+    args: [zeroAddress, zeroAddress, zeroAddress, zeroHash, 0n],
+  });
+  // Strip the abi-encoded constructor arguments appended by the factory
+  return slice(initCode, 0, size(initCode) - CONSTRUCTOR_ARGS_SIZE);
+}
+
+// Escrow addresses for one factory, computed without touching the chain
+export class EscrowAddressDeriver {
+  constructor(readonly factory: Address, readonly creationCode: Hex) {}
+
+  static async fromArtifact(factory: Address, path?: string): Promise<EscrowAddressDeriver> {
+    return new EscrowAddressDeriver(factory, await loadEscrowCreationCode(path));
+  }
+
+  static async fromFactory(client: PublicClient, factory: Address): Promise<EscrowAddressDeriver> {
+    return new EscrowAddressDeriver(factory, await fetchEscrowCreationCode(client, factory));
+  }
+
+  address(params: EscrowParams): Address {
+    return deriveEscrowAddress(this.factory, this.creationCode, params);
+  }
+}
@@ -0,0 +1,76 @@
+// Typed client for the ERC20 tokens locked in escrows
+
+import { type Address, erc20Abi, type Hash, type PublicClient } from "viem";
+import { withDecodedReverts } from "./errors.ts";
+import type { SignerClient } from "./escrow.ts";
+
+export class TokenClient {
+  constructor(
+    readonly address: Address,
+    readonly publicClient: PublicClient,
+    readonly walletClient?: SignerClient,
+  ) {}
+
+  balanceOf(owner: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+  }
+
+  allowance(owner: Address, spender: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [owner, spender],
+    });
+  }
+
+  decimals(): Promise<number> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "decimals",
+    });
+  }
+
+  symbol(): Promise<string> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "symbol",
+    });
+  }
+
+  approve(spender: Address, amount: bigint): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = this.walletClient;
+      if (!wallet) {
+        throw new Error("A wallet client is required to approve a token");
+      }
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [spender, amount],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  // Approve only when the current allowance is too low; returns the approval hash if one was sent
+  async ensureAllowance(spender: Address, amount: bigint): Promise<Hash | undefined> {
+    if (!this.walletClient) {
+      throw new Error("A wallet client is required to approve a token");
+    }
+    const current = await this.allowance(this.walletClient.account.address, spender);
+    if (current >= amount) {
+      return undefined;
+    }
+    return this.approve(spender, amount);
+  }
+}
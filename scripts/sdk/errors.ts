@@ -0,0 +1,422 @@
+// Decoding of contract reverts into typed errors
+// Revert data is matched against the errors of every contract the tooling talks to, not only the
+// one that was called: a token error bubbling up through the factory or the bridge decodes the same
+// as a direct one. Custom errors, require strings and panics each map to an explanation and a remedy.
+
+import {
+  type Abi,
+  type Address,
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  ExecutionRevertedError,
+  formatUnits,
+  type Hex,
+  HttpRequestError,
+  isHex,
+  SocketClosedError,
+  TimeoutError,
+  WebSocketRequestError,
+} from "viem";
+import {
+  LightningBridgeAbi,
+  MockERC20Abi,
+  OneInchAdapterAbi,
+  SimpleEscrowAbi,
+  SimpleEscrowFactoryAbi,
+} from "../abis/index.ts";
+
+export interface RevertExplanation {
+  explanation: string;
+  remedy: string;
+}
+
+export interface RevertDetails extends RevertExplanation {
+  errorName: string; // custom error name, "Error" for require strings, "Panic" for assertion failures
+  args: readonly unknown[];
+  reason?: string; // require message or panic description
+  data?: Hex; // raw revert data, when the node returned it
+  functionName?: string;
+  contractAddress?: Address;
+}
+
+export class ContractRevertError extends Error {
+  readonly errorName: string;
+  readonly args: readonly unknown[];
+  readonly reason?: string;
+  readonly data?: Hex;
+  readonly functionName?: string;
+  readonly contractAddress?: Address;
+  readonly explanation: string;
+  readonly remedy: string;
+
+  constructor(details: RevertDetails, options?: ErrorOptions) {
+    const label = details.errorName === "Error" || details.errorName === "Panic"
+      ? `"${details.reason}"`
+      : details.errorName;
+    super(`${details.functionName ?? "Call"} reverted with ${label}: ${details.explanation}`, options);
+    this.name = "ContractRevertError";
+    this.errorName = details.errorName;
+    this.args = details.args;
+    this.reason = details.reason;
+    this.data = details.data;
+    this.functionName = details.functionName;
+    this.contractAddress = details.contractAddress;
+    this.explanation = details.explanation;
+    this.remedy = details.remedy;
+  }
+}
+
+type Explainer = RevertExplanation | ((args: readonly unknown[]) => RevertExplanation);
+
+// Every custom error declared by the contracts, keyed by name
+const CUSTOM_ERRORS: Record<string, Explainer> = {
+  // LightningBridge
+  InvalidAmount: {
+    explanation: "The token amount is zero or the satoshi amount is outside the bridge's limits.",
+    remedy: "Send a non-zero amount and a satoshi amount within the bridge's limits (BridgeClient.limits).",
+  },
+  InvalidTimelock: {
+    explanation: "The timelock is not after the current block, or the swap timeout is under five minutes.",
+    remedy: "Pick a timelock in the future, measured against the chain's block timestamp rather than the local clock.",
+  },
+  InvalidPaymentHash: {
+    explanation: "The payment hash is zero.",
+    remedy: "Pass the sha256 payment hash from the swap's invoice.",
+  },
+  InvalidPreimage: {
+    explanation: "The preimage does not sha256 to the payment hash, or the swap has no confirmed preimage yet.",
+    remedy: "Use the preimage revealed by the Lightning payment and confirm the payment before withdrawing.",
+  },
+  SwapNotFound: {
+    explanation: "The bridge has no swap under this payment hash.",
+    remedy: "Check the payment hash and that the bridge address belongs to the swap's chain.",
+  },
+  SwapAlreadyExists: {
+    explanation: "A swap with this payment hash already exists on the bridge.",
+    remedy: "Payment hashes cannot be reused; generate a new preimage and invoice.",
+  },
+  InvalidSwapState: {
+    explanation: "The swap is not in the state this call requires.",
+    remedy: "Read the swap with BridgeClient.getSwap; calls must follow Initiated → LightningPaid → Completed.",
+  },
+  UnauthorizedResolver: {
+    explanation: "Only the bridge's resolver may make this call.",
+    remedy: "Send the transaction from the resolver account configured on the bridge.",
+  },
+  SwapNotExpired: {
+    explanation: "The swap's timelock has not passed yet.",
+    remedy: "Wait until a block after the timelock before expiring the swap.",
+  },
+  InvalidDirection: {
+    explanation: "The call does not apply to this swap's direction.",
+    remedy: "Only EVM→Lightning swaps take a resolver invoice or release escrowed funds to the resolver.",
+  },
+  InvalidRecipient: {
+    explanation: "A recipient, resolver or factory address is zero.",
+    remedy: "Pass a non-zero address.",
+  },
+  InvalidInvoice: {
+    explanation: "The Lightning invoice is empty.",
+    remedy: "Pass the BOLT11 payment request for the swap.",
+  },
+  EscrowCreationFailed: {
+    explanation: "The escrow factory did not deploy the escrow.",
+    remedy: "Check the factory address and that no escrow already exists for the same parameters and salt.",
+  },
+  TransferFailed: {
+    explanation: "A token transfer out of the bridge failed.",
+    remedy: "Check the bridge's token balance.",
+  },
+  // OneInchAdapter
+  InvalidExtensionData: {
+    explanation: "The order extension is shorter than 160 bytes or has a zero hashlock, recipient or salt.",
+    remedy: "Build the extension with encodeExtension and validate it with validateExtension.",
+  },
+  TokenTransferFailed: {
+    explanation: "The adapter holds fewer maker tokens than the making amount.",
+    remedy: "Make sure the limit order protocol transfers the maker asset to the adapter before the post-interaction.",
+  },
+  OrderValidationFailed: {
+    explanation: "The order has a zero maker or maker asset.",
+    remedy: "Build the order with buildOrder and check it with validateOrder.",
+  },
+  AdapterPaused: {
+    explanation: "The adapter is paused.",
+    remedy: "Wait for the owner to unpause the adapter.",
+  },
+  UnauthorizedCaller: {
+    explanation: "Only the limit order protocol may call the adapter's post-interaction.",
+    remedy: "Fill the order through the limit order protocol instead of calling the adapter directly.",
+  },
+  InvalidTimeoutDuration: {
+    explanation: "The extension's timeout duration is zero or longer than 30 days.",
+    remedy: "Use a timeout between one second and MAX_TIMEOUT_DURATION.",
+  },
+  InvalidParameters: {
+    explanation: "A required address parameter is zero.",
+    remedy: "Pass non-zero addresses.",
+  },
+  ZeroAmount: {
+    explanation: "The amount is zero.",
+    remedy: "Use a non-zero amount.",
+  },
+  // OpenZeppelin
+  EnforcedPause: {
+    explanation: "The contract is paused.",
+    remedy: "Wait for the owner to unpause the contract.",
+  },
+  ExpectedPause: {
+    explanation: "The contract is not paused.",
+    remedy: "This call is only available while the contract is paused.",
+  },
+  OwnableUnauthorizedAccount: (args) => ({
+    explanation: `${args[0]} is not the contract owner.`,
+    remedy: "Send the transaction from the owner account.",
+  }),
+  OwnableInvalidOwner: (args) => ({
+    explanation: `${args[0]} cannot become the owner.`,
+    remedy: "Pass a non-zero owner address.",
+  }),
+  ReentrancyGuardReentrantCall: {
+    explanation: "The call re-entered a contract that was still executing.",
+    remedy: "Check the token for transfer hooks that call back into the escrow or bridge.",
+  },
+  SafeERC20FailedOperation: (args) => ({
+    explanation: `A transfer of token ${args[0]} failed or returned false.`,
+    remedy: "Check that the token is a standard ERC20 and that the balances and allowances cover the transfer.",
+  }),
+  ERC20InsufficientBalance: (args) => ({
+    explanation: `${args[0]} holds ${formatAmount(args[1])} tokens but ${formatAmount(args[2])} are needed.`,
+    remedy: "Top up the sender's token balance or lower the amount.",
+  }),
+  ERC20InsufficientAllowance: (args) => ({
+    explanation: `${args[0]} may spend ${formatAmount(args[1])} tokens but ${formatAmount(args[2])} are needed.`,
+    remedy: "Approve the spender for at least the amount first (TokenClient.ensureAllowance).",
+  }),
+  ERC20InvalidSender: { explanation: "The token sender is the zero address.", remedy: "Pass a non-zero sender." },
+  ERC20InvalidReceiver: {
+    explanation: "The token receiver is the zero address.",
+    remedy: "Pass a non-zero receiver.",
+  },
+  ERC20InvalidApprover: {
+    explanation: "The token approver is the zero address.",
+    remedy: "Approve from a real account.",
+  },
+  ERC20InvalidSpender: { explanation: "The token spender is the zero address.", remedy: "Pass a non-zero spender." },
+};
+
+const NOT_FUNDED: RevertExplanation = {
+  explanation: "The escrow has not been funded.",
+  remedy: "Fund the escrow first, or wait for the funding transaction to be mined.",
+};
+const NON_ZERO_AMOUNT: RevertExplanation = {
+  explanation: "The amount is zero.",
+  remedy: "Use a non-zero amount.",
+};
+
+// Every require message of SimpleEscrow and SimpleEscrowFactory
+const REQUIRE_REASONS: Record<string, RevertExplanation> = {
+  "SimpleEscrow: token cannot be zero address": {
+    explanation: "The escrow token is the zero address.",
+    remedy: "Pass the ERC20 token address.",
+  },
+  "SimpleEscrow: sender cannot be zero address": {
+    explanation: "The escrow sender is the zero address.",
+    remedy: "Pass the sender's account address.",
+  },
+  "SimpleEscrow: recipient cannot be zero address": {
+    explanation: "The escrow recipient is the zero address.",
+    remedy: "Pass the recipient's account address.",
+  },
+  "SimpleEscrow: hashlock cannot be zero": {
+    explanation: "The hashlock is zero.",
+    remedy: "Derive the hashlock from a fresh preimage (createSecret).",
+  },
+  "SimpleEscrow: timelock must be in future": {
+    explanation: "The timelock is not after the current block.",
+    remedy: "Pick a timelock in the future, measured against the chain's block timestamp rather than the local clock.",
+  },
+  "SimpleEscrow: only sender can fund": {
+    explanation: "Only the escrow's sender may fund it.",
+    remedy: "Send the funding transaction from the sender account.",
+  },
+  "SimpleEscrow: already funded": {
+    explanation: "The escrow has already been funded.",
+    remedy: "Nothing to do; each escrow is funded exactly once.",
+  },
+  "SimpleEscrow: amount must be greater than 0": NON_ZERO_AMOUNT,
+  "SimpleEscrow: only factory can initialize": {
+    explanation: "Only the factory that deployed the escrow may initialize its funding.",
+    remedy: "Fund the escrow with fund() from the sender instead.",
+  },
+  "SimpleEscrow: insufficient balance": {
+    explanation: "The tokens transferred to the escrow address do not cover the amount.",
+    remedy: "Transfer the full amount to the escrow's CREATE2 address before initializing it.",
+  },
+  "SimpleEscrow: not funded": NOT_FUNDED,
+  "SimpleEscrow: already withdrawn": {
+    explanation: "The recipient has already withdrawn the funds.",
+    remedy: "Nothing to do; the escrow is settled.",
+  },
+  "SimpleEscrow: already refunded": {
+    explanation: "The sender has already been refunded.",
+    remedy: "Nothing to do; the escrow is settled.",
+  },
+  "SimpleEscrow: timelock expired": {
+    explanation: "The escrow's timelock has passed, so it can no longer be withdrawn.",
+    remedy: "The sender can refund the escrow; retry the swap with a longer timelock.",
+  },
+  "SimpleEscrow: invalid preimage": {
+    explanation: "keccak256(abi.encode(preimage)) does not match the escrow's hashlock.",
+    remedy: "Use the preimage whose hashlock created this escrow; check it with verifyPreimage.",
+  },
+  "SimpleEscrow: only sender can refund": {
+    explanation: "Only the escrow's sender may refund it.",
+    remedy: "Send the refund from the sender account.",
+  },
+  "SimpleEscrow: timelock not expired": {
+    explanation: "The escrow's timelock has not passed yet.",
+    remedy: "Wait until a block after the timelock before refunding.",
+  },
+  "SimpleEscrowFactory: only sender can create and fund": {
+    explanation: "createEscrowWithFunding must be sent by the escrow's sender.",
+    remedy: "Send the transaction from the sender account, or create the escrow and fund it separately.",
+  },
+  "SimpleEscrowFactory: amount must be greater than 0": NON_ZERO_AMOUNT,
+  "SimpleEscrowFactory: only 1inch adapter": {
+    explanation: "Only the factory's 1inch adapter may make this call.",
+    remedy: "Create adapter escrows by filling a limit order through the adapter.",
+  },
+};
+
+// Error definitions of every contract, deduplicated by name
+const CONTRACT_ABIS: Abi[] = [
+  LightningBridgeAbi,
+  OneInchAdapterAbi,
+  SimpleEscrowAbi,
+  SimpleEscrowFactoryAbi,
+  MockERC20Abi,
+];
+export const REVERT_ABI: Abi = Object.values(
+  Object.fromEntries(CONTRACT_ABIS.flat().flatMap((item) => (item.type === "error" ? [[item.name, item]] : []))),
+);
+
+function formatAmount(value: unknown): string {
+  return typeof value === "bigint" ? formatUnits(value, 18) : String(value);
+}
+
+function stripRevertPrefix(message: string): string {
+  return message.replace(/^(execution reverted|reverted)(:\s*|$)/i, "").trim();
+}
+
+// Explanation and remedy for a decoded revert
+export function explainRevert(errorName: string, args: readonly unknown[], reason?: string): RevertExplanation {
+  if (errorName === "Error" && reason !== undefined) {
+    return REQUIRE_REASONS[reason] ?? {
+      explanation: `The contract rejected the call: ${reason}.`,
+      remedy: "Check the call's parameters against the contract's requirements.",
+    };
+  }
+  if (errorName === "Panic") {
+    return {
+      explanation: `The contract hit an assertion failure (${reason ?? "panic"}).`,
+      remedy: "This points at a contract bug or an unexpected state; report it with the transaction parameters.",
+    };
+  }
+  const explainer = CUSTOM_ERRORS[errorName];
+  if (explainer) {
+    return typeof explainer === "function" ? explainer(args) : explainer;
+  }
+  return {
+    explanation: `The contract reverted with an unrecognised error (${errorName}).`,
+    remedy: "Check that the ABIs in scripts/abis match the deployed contracts (deno task build).",
+  };
+}
+
+// Decode revert data against every contract's errors
+export function decodeRevertData(data: Hex): Omit<RevertDetails, "functionName" | "contractAddress"> {
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi: REVERT_ABI, data });
+    const reason = errorName === "Error" ? String(args[0]) : errorName === "Panic" ? `code ${args[0]}` : undefined;
+    return { errorName, args, reason, data, ...explainRevert(errorName, args, reason) };
+  } catch {
+    const errorName = data.slice(0, 10);
+    return { errorName, args: [], data, ...explainRevert(errorName, []) };
+  }
+}
+
+// The revert behind a failed call, if the failure was a revert; other failures return undefined
+export function decodeRevert(error: unknown): ContractRevertError | undefined {
+  if (error instanceof ContractRevertError) return error;
+  if (!(error instanceof BaseError)) return undefined;
+
+  const execution = error.walk((e) => e instanceof ContractFunctionExecutionError) as
+    | ContractFunctionExecutionError
+    | null;
+  const location = { functionName: execution?.functionName, contractAddress: execution?.contractAddress };
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError) as
+    | ContractFunctionRevertedError
+    | null;
+  const data = reverted?.raw ??
+    (error.walk((e) => isHex((e as { data?: unknown }).data)) as { data?: Hex } | null)?.data;
+
+  if (data && data !== "0x") {
+    const decoded = decodeRevertData(data);
+    const reason = decoded.errorName === "Panic" ? reverted?.reason ?? decoded.reason : decoded.reason;
+    return new ContractRevertError(
+      { ...decoded, ...location, reason, ...explainRevert(decoded.errorName, decoded.args, reason) },
+      { cause: error },
+    );
+  }
+  // Some nodes only return the require message as text
+  const nodeRevert = error.walk((e) => e instanceof ExecutionRevertedError) as ExecutionRevertedError | null;
+  if (reverted || nodeRevert) {
+    const reason = stripRevertPrefix(reverted?.reason ?? nodeRevert?.details ?? "");
+    return new ContractRevertError(
+      {
+        errorName: reason ? "Error" : "unknown",
+        args: reason ? [reason] : [],
+        reason: reason || undefined,
+        ...location,
+        ...(reason ? explainRevert("Error", [reason], reason) : {
+          explanation: "The contract reverted without a reason.",
+          remedy: "Check the call's parameters, the caller and the contract's state.",
+        }),
+      },
+      { cause: error },
+    );
+  }
+  return undefined;
+}
+
+// Run a contract call, rethrowing reverts as ContractRevertError
+export async function withDecodedReverts<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw decodeRevert(error) ?? error;
+  }
+}
+
+// True when the node never answered (down, unreachable or timed out), so the same call may succeed later
+export function isConnectionError(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false;
+  return !!error.walk((e) =>
+    e instanceof HttpRequestError || e instanceof TimeoutError || e instanceof WebSocketRequestError ||
+    e instanceof SocketClosedError
+  );
+}
+
+// Readable description of any error for logs: decoded reverts with their remedy, viem errors
+// without their stack and docs links
+export function describeError(error: unknown): string {
+  const revert = decodeRevert(error);
+  if (revert) {
+    const target = revert.contractAddress ? ` on ${revert.contractAddress}` : "";
+    return `${revert.message}${target}\n  Remedy: ${revert.remedy}`;
+  }
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
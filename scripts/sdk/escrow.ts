@@ -0,0 +1,254 @@
+// Typed clients for SimpleEscrowFactory and SimpleEscrow
+// Every call is simulated before it is sent so reverts surface before a transaction is broadcast, and
+// reverts are rethrown as ContractRevertError (errors.ts)
+
+import type {
+  Account,
+  Address,
+  Chain,
+  ContractFunctionReturnType,
+  Hash,
+  Hex,
+  PublicClient,
+  Transport,
+  WalletClient,
+} from "viem";
+import { SimpleEscrowAbi, SimpleEscrowFactoryAbi } from "../abis/index.ts";
+import { withDecodedReverts } from "./errors.ts";
+
+// Wallet client with a bound account (required for every write)
+export type SignerClient = WalletClient<Transport, Chain | undefined, Account>;
+
+// Parameters identifying an escrow (mirrors SimpleEscrowFactory.EscrowParams)
+export interface EscrowParams {
+  token: Address;
+  sender: Address;
+  recipient: Address;
+  hashlock: Hex;
+  timelock: bigint;
+  salt: Hex;
+}
+
+// Decoded SimpleEscrow.getDetails() result
+export type EscrowDetails = ContractFunctionReturnType<
+  typeof SimpleEscrowAbi,
+  "view",
+  "getDetails"
+>;
+
+// Result of a write that deploys a single escrow
+export interface CreateEscrowResult {
+  hash: Hash;
+  escrow: Address;
+}
+
+// Result of a batch deployment
+export interface BatchCreateResult {
+  hash: Hash;
+  escrows: readonly Address[];
+}
+
+function requireWallet(wallet: SignerClient | undefined, action: string): SignerClient {
+  if (!wallet) {
+    throw new Error(`A wallet client is required to ${action}`);
+  }
+  return wallet;
+}
+
+// Client for a deployed SimpleEscrowFactory
+export class EscrowFactoryClient {
+  constructor(
+    readonly address: Address,
+    readonly publicClient: PublicClient,
+    readonly walletClient?: SignerClient,
+  ) {}
+
+  // Deterministic CREATE2 address for the given parameters
+  computeAddress(params: EscrowParams): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowFactoryAbi,
+      functionName: "computeEscrowAddress",
+      args: [
+        params.token,
+        params.sender,
+        params.recipient,
+        params.hashlock,
+        params.timelock,
+        params.salt,
+      ],
+    });
+  }
+
+  isDeployed(escrow: Address): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowFactoryAbi,
+      functionName: "isEscrowDeployed",
+      args: [escrow],
+    });
+  }
+
+  escrowCount(): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowFactoryAbi,
+      functionName: "escrowCount",
+    });
+  }
+
+  // Deploy an unfunded escrow
+  create(params: EscrowParams): Promise<CreateEscrowResult> {
+    return withDecodedReverts(async () => {
+      const wallet = requireWallet(this.walletClient, "create an escrow");
+      const { request, result } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: SimpleEscrowFactoryAbi,
+        functionName: "createEscrow",
+        args: [
+          params.token,
+          params.sender,
+          params.recipient,
+          params.hashlock,
+          params.timelock,
+          params.salt,
+        ],
+      });
+      const hash = await wallet.writeContract(request);
+      return { hash, escrow: result };
+    });
+  }
+
+  // Deploy and fund an escrow in one transaction (caller must be the sender and have approved the factory)
+  createWithFunding(params: EscrowParams, amount: bigint): Promise<CreateEscrowResult> {
+    return withDecodedReverts(async () => {
+      const wallet = requireWallet(this.walletClient, "create an escrow");
+      const { request, result } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: SimpleEscrowFactoryAbi,
+        functionName: "createEscrowWithFunding",
+        args: [
+          params.token,
+          params.sender,
+          params.recipient,
+          params.hashlock,
+          params.timelock,
+          params.salt,
+          amount,
+        ],
+      });
+      const hash = await wallet.writeContract(request);
+      return { hash, escrow: result };
+    });
+  }
+
+  // Deploy several unfunded escrows in one transaction
+  batchCreate(params: readonly EscrowParams[]): Promise<BatchCreateResult> {
+    return withDecodedReverts(async () => {
+      const wallet = requireWallet(this.walletClient, "create escrows");
+      const { request, result } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: SimpleEscrowFactoryAbi,
+        functionName: "batchCreateEscrows",
+        args: [params.map((p) => ({ ...p }))],
+      });
+      const hash = await wallet.writeContract(request);
+      return { hash, escrows: result };
+    });
+  }
+
+  // Details of an escrow deployed by this factory (reverts for unknown escrows)
+  getDetails(escrow: Address): Promise<EscrowDetails> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowFactoryAbi,
+      functionName: "getEscrowDetails",
+      args: [escrow],
+    });
+  }
+
+  // Client for an escrow at the given address sharing this factory's clients
+  escrow(address: Address): EscrowClient {
+    return new EscrowClient(address, this.publicClient, this.walletClient);
+  }
+}
+
+// Client for a single deployed SimpleEscrow
+export class EscrowClient {
+  constructor(
+    readonly address: Address,
+    readonly publicClient: PublicClient,
+    readonly walletClient?: SignerClient,
+  ) {}
+
+  getDetails(): Promise<EscrowDetails> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowAbi,
+      functionName: "getDetails",
+    });
+  }
+
+  canWithdraw(): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowAbi,
+      functionName: "canWithdraw",
+    });
+  }
+
+  canRefund(): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: SimpleEscrowAbi,
+      functionName: "canRefund",
+    });
+  }
+
+  // Fund the escrow directly (caller must be the sender and have approved the escrow)
+  fund(amount: bigint): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = requireWallet(this.walletClient, "fund an escrow");
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: SimpleEscrowAbi,
+        functionName: "fund",
+        args: [amount],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  // Claim the funds by revealing the preimage
+  withdraw(preimage: Hex): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = requireWallet(this.walletClient, "withdraw from an escrow");
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: SimpleEscrowAbi,
+        functionName: "withdraw",
+        args: [preimage],
+      });
+      return wallet.writeContract(request);
+    });
+  }
+
+  // Reclaim the funds after the timelock (sender only)
+  refund(): Promise<Hash> {
+    return withDecodedReverts(async () => {
+      const wallet = requireWallet(this.walletClient, "refund an escrow");
+      const { request } = await this.publicClient.simulateContract({
+        account: wallet.account,
+        address: this.address,
+        abi: SimpleEscrowAbi,
+        functionName: "refund",
+      });
+      return wallet.writeContract(request);
+    });
+  }
+}
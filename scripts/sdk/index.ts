@@ -0,0 +1,312 @@
+// Public entry point of the atomic swap SDK
+
+export {
+  type BatchCreateResult,
+  type CreateEscrowResult,
+  EscrowClient,
+  type EscrowDetails,
+  EscrowFactoryClient,
+  type EscrowParams,
+  type SignerClient,
+} from "./escrow.ts";
+export { TokenClient } from "./erc20.ts";
+export {
+  deriveState,
+  type LegName,
+  type Party,
+  type PartySigners,
+  type SwapContext,
+  type SwapLeg,
+  SwapOrchestrator,
+  type SwapRunOptions,
+  type SwapSnapshot,
+  type SwapState,
+  type SwapStep,
+  TERMINAL_STATES,
+} from "./orchestrator.ts";
+export { type JournalEntry, parseEntry, serializeEntry, SwapJournal } from "./journal.ts";
+export {
+  type CounterpartyLocked,
+  counterpartyOf,
+  type EscrowCreatedEvent,
+  EscrowWatcher,
+  isCounterpartyPair,
+  type ReorgNotice,
+  type WatchedChain,
+  type WatcherEvents,
+  type WatcherOptions,
+} from "./watcher.ts";
+export {
+  type ClaimResult,
+  type MissedClaim,
+  type RelayedEscrow,
+  type RelayerChain,
+  type RelayerEvents,
+  type RelayerOptions,
+  SecretRelayer,
+} from "./relayer.ts";
+export {
+  type ClosedReason,
+  type RefundCandidate,
+  type RefundRecord,
+  type RefundReport,
+  RefundWatchdog,
+  type WatchdogChain,
+  type WatchdogEvents,
+  type WatchdogOptions,
+} from "./watchdog.ts";
+export {
+  assertHashlocks,
+  assertRouteSchemes,
+  assertSafeTimelocks,
+  type ChainTiming,
+  DEFAULT_CHAIN_TIMING,
+  DEFAULT_TIMELOCK_POLICY,
+  finality,
+  legAmount,
+  legScheme,
+  minimumTimelockGap,
+  planTimelocks,
+  type PlanViolation,
+  SwapPlanError,
+  type SwapTiming,
+  type TimelockPolicy,
+  verifyLeg,
+} from "./planner.ts";
+export {
+  assertCompatibleSchemes,
+  CONTRACT_HASHLOCK_SCHEMES,
+  createSecret,
+  escrowHashlock,
+  findSchemeConflicts,
+  generatePreimage,
+  generateSalt,
+  type HashlockContract,
+  hashlockFor,
+  HashlockSchemeError,
+  type HashlockScheme,
+  lightningPaymentHash,
+  type RouteHop,
+  SaltGenerator,
+  type SchemeConflict,
+  type SwapSecret,
+  verifyPreimage,
+} from "./secrets.ts";
+export {
+  type ChainContracts,
+  type ChainEntry,
+  ChainRegistry,
+  customChain,
+  confirmAnvil,
+  isLocalChain,
+  type TokenInfo,
+  withRpc,
+} from "./registry.ts";
+export {
+  type DeploymentManifest,
+  type Environment,
+  ENVIRONMENTS,
+  isEnvironment,
+  type ManifestChain,
+  ManifestError,
+  type ManifestToken,
+  parseManifest,
+  verifyManifestCode,
+} from "./manifest.ts";
+export {
+  create2Address,
+  deriveEscrowAddress,
+  ESCROW_ARTIFACT_PATH,
+  EscrowAddressDeriver,
+  escrowInitCode,
+  fetchEscrowCreationCode,
+  loadEscrowCreationCode,
+} from "./create2.ts";
+export {
+  type BatchChain,
+  BatchError,
+  type BatchGroup,
+  type BatchOptions,
+  type BatchRecord,
+  type BatchResult,
+  type BatchStatus,
+  type BatchSwap,
+  executeBatch,
+  formatBatchReport,
+  parseBatch,
+  parseCsv,
+  parseJsonBatch,
+  planBatch,
+  type PlannedEscrow,
+  validateBatch,
+} from "./batch.ts";
+export {
+  buildOrder,
+  decodeExtension,
+  encodeExtension,
+  encodeFactoryExtension,
+  LIMIT_ORDER_DOMAIN,
+  type LimitOrder,
+  MAX_TIMEOUT_DURATION,
+  MIN_EXTENSION_LENGTH,
+  type OrderDomain,
+  orderDomain,
+  OrderError,
+  type OrderErrorCode,
+  orderHash,
+  type OrderInput,
+  orderTypedData,
+  POST_INTERACTION_FLAG,
+  postInteractionExtension,
+  recoverOrderSigner,
+  signOrder,
+  type SwapExtension,
+  validateExtension,
+  validateOrder,
+} from "./orders.ts";
+export {
+  BRIDGE_SWAP_DIRECTION,
+  BRIDGE_SWAP_STATE,
+  BridgeClient,
+  type BridgeLimits,
+  type BridgeSwap,
+  type EVMToLightningParams,
+  invoiceIssues,
+  InvoiceValidationError,
+  type LightningToEVMParams,
+  type SwapInvoiceTerms,
+  validateSwapInvoice,
+} from "./bridge.ts";
+export {
+  type CreateInvoiceRequest,
+  decodeLightningInvoice,
+  FakeLightningNetwork,
+  FakeLightningNode,
+  type FakeNetworkOptions,
+  type InvoiceState,
+  type InvoiceStatus,
+  type LightningBackend,
+  LightningError,
+  type LightningErrorCode,
+  type LightningInvoice,
+  type LightningPayment,
+  type PayInvoiceOptions,
+  PERMANENT_PAYMENT_ERRORS,
+  toLightningInvoice,
+} from "./lightning.ts";
+export {
+  type IncomingOffer,
+  LightningResolver,
+  type ResolverChain,
+  type ResolverDirection,
+  type ResolverEvents,
+  type ResolverOptions,
+  type ResolverSwap,
+} from "./resolver.ts";
+export {
+  Bolt11Error,
+  type Bolt11Fallback,
+  type Bolt11Fields,
+  type Bolt11Invoice,
+  type Bolt11Network,
+  type Bolt11RouteHop,
+  type Bolt11UnknownField,
+  decodeBolt11,
+  DEFAULT_INVOICE_EXPIRY,
+  DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+  encodeBolt11,
+  invoiceSats,
+  nodeIdFromPrivateKey,
+} from "./bolt11.ts";
+export {
+  type BridgeSwapStatus,
+  type ChainStatus,
+  collectChainStatus,
+  collectStatus,
+  type EscrowRole,
+  type EscrowState,
+  escrowState,
+  type EscrowStatus,
+  formatDuration,
+  formatStatus,
+  type StatusChain,
+  type StatusReport,
+  statusToJson,
+} from "./status.ts";
+export {
+  type BridgeSwapQuery,
+  type Checkpoint,
+  EscrowIndex,
+  EscrowIndexer,
+  type EscrowQuery,
+  type EventQuery,
+  type IndexedBridgeSwap,
+  type IndexedChain,
+  type IndexedEscrow,
+  type IndexedEvent,
+  type IndexedRange,
+  type IndexerEvents,
+  type IndexerOptions,
+  type IndexerReorg,
+} from "./indexer.ts";
+export {
+  type ApiChain,
+  ApiError,
+  type ApiErrorCode,
+  apiJson,
+  type ApiOperation,
+  type ApiOptions,
+  type EscrowReport,
+  type QuoteLeg,
+  SwapApi,
+  type SwapPlan,
+  type SwapQuote,
+  type UnsignedTransaction,
+} from "./api.ts";
+export {
+  ContractRevertError,
+  decodeRevert,
+  decodeRevertData,
+  describeError,
+  explainRevert,
+  isConnectionError,
+  REVERT_ABI,
+  type RevertDetails,
+  type RevertExplanation,
+  withDecodedReverts,
+} from "./errors.ts";
+export {
+  StuckTransactionError,
+  TransactionFailedError,
+  TransactionManager,
+  type TransactionManagerOptions,
+  type TransactionRequest,
+  type TransactionResult,
+  type TransactionStatus,
+} from "./transactions.ts";
+export {
+  ANVIL_MNEMONIC,
+  createSigner,
+  decryptKeystore,
+  encryptKeystore,
+  type EncryptKeystoreOptions,
+  EnvSigner,
+  isAnvilAccount,
+  isPrivateKey,
+  type KeystoreKdf,
+  KeystoreSigner,
+  RemoteSigner,
+  type Signer,
+  type SignerRole,
+  SignerServer,
+  type SignerSource,
+} from "./signers.ts";
+export {
+  type DeclaredToken,
+  sameToken,
+  type Token,
+  TokenAmount,
+  TokenError,
+  TokenRegistry,
+  type TokenViolation,
+} from "./tokens.ts";
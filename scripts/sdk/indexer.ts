@@ -0,0 +1,721 @@
+// Escrow indexer
+// Backfills and tails factory, escrow and LightningBridge events into a local SQLite database so
+// escrows and bridge swaps can be looked up without knowing their addresses. Every decoded event is
+// stored; the escrows and bridge_swaps tables are folded from them in block order. Only blocks
+// `confirmations` deep are read, each scanned range is committed in one transaction together with
+// the chain's cursor, and checkpointed block hashes let a reorg roll the chain back and rescan.
+
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+import { type Address, getAddress, type Hash, type Hex, type PublicClient } from "viem";
+import { LightningBridgeAbi, SimpleEscrowAbi, SimpleEscrowFactoryAbi } from "../abis/index.ts";
+import { BRIDGE_SWAP_DIRECTION, BRIDGE_SWAP_STATE, BridgeClient } from "./bridge.ts";
+import type { EscrowState } from "./status.ts";
+
+export interface IndexedChain {
+  name: string;
+  chainId: number;
+  client: PublicClient;
+  factory?: Address;
+  bridge?: Address;
+  fromBlock?: bigint; // first block to backfill, default 0
+}
+
+export interface IndexerOptions {
+  confirmations?: number; // blocks a log must be buried under before it is indexed
+  pollInterval?: number; // ms between polls in start()
+  maxBlockRange?: bigint; // largest getLogs range per request
+  checkpointDepth?: number; // scanned block hashes kept per chain for reorg detection
+}
+
+// A stored event; uint256 values are decimal strings so the row can be replayed without the ABI
+export interface IndexedEvent {
+  chainId: number;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+  contract: Address;
+  name: string;
+  args: Record<string, string>;
+}
+
+export interface IndexedEscrow {
+  chainId: number;
+  address: Address;
+  sender: Address;
+  recipient: Address;
+  token: Address;
+  hashlock: Hex;
+  timelock: bigint;
+  salt: Hex;
+  amount?: bigint; // known once funded
+  state: EscrowState;
+  preimage?: Hex; // revealed by the withdrawal
+  orderHash?: Hex; // set for escrows created from a 1inch order
+  maker?: Address;
+  makingAmount?: bigint;
+  createdBlock: bigint;
+  createdTransaction: Hash;
+  updatedBlock: bigint;
+}
+
+export interface IndexedBridgeSwap {
+  chainId: number;
+  bridge: Address;
+  paymentHash: Hex;
+  direction: keyof typeof BRIDGE_SWAP_DIRECTION;
+  state: keyof typeof BRIDGE_SWAP_STATE;
+  initiator: Address;
+  recipient: Address;
+  evmEscrow: Address;
+  evmToken: Address;
+  evmAmount: bigint;
+  satoshiAmount: bigint;
+  timelock: bigint;
+  invoice?: string;
+  preimage?: Hex;
+  createdBlock: bigint;
+  updatedBlock: bigint;
+}
+
+export interface EscrowQuery {
+  chainId?: number;
+  hashlock?: Hex;
+  party?: Address; // sender or recipient
+  sender?: Address;
+  recipient?: Address;
+  token?: Address;
+  state?: EscrowState | EscrowState[];
+  limit?: number;
+}
+
+export interface BridgeSwapQuery {
+  chainId?: number;
+  paymentHash?: Hex;
+  party?: Address; // initiator or recipient
+  direction?: keyof typeof BRIDGE_SWAP_DIRECTION;
+  state?: keyof typeof BRIDGE_SWAP_STATE | (keyof typeof BRIDGE_SWAP_STATE)[];
+  limit?: number;
+}
+
+export interface EventQuery {
+  chainId?: number;
+  contract?: Address;
+  name?: string;
+  limit?: number;
+}
+
+export interface Checkpoint {
+  blockNumber: bigint;
+  blockHash: Hash;
+  rangeStart: bigint;
+}
+
+export interface IndexedRange {
+  chainId: number;
+  fromBlock: bigint;
+  toBlock: bigint;
+  events: number;
+}
+
+export interface IndexerReorg {
+  chainId: number;
+  rewoundTo: bigint; // last block still considered canonical
+  removed: number; // events dropped
+}
+
+export interface IndexerEvents {
+  indexed: IndexedRange;
+  reorg: IndexerReorg;
+  error: { chainId: number; error: unknown };
+}
+
+type Listener<T> = (event: T) => void | Promise<void>;
+type Row = Record<string, SQLInputValue>;
+
+const DEFAULT_CONFIRMATIONS = 2;
+const DEFAULT_POLL_INTERVAL = 4000;
+const DEFAULT_MAX_BLOCK_RANGE = 2000n;
+const DEFAULT_CHECKPOINT_DEPTH = 64;
+const ESCROW_ADDRESS_BATCH = 200; // escrows per getLogs request
+
+const FACTORY_EVENTS = new Set(["EscrowCreated", "EscrowCreatedFrom1inch"]);
+const ESCROW_EVENTS = new Set(["EscrowFunded", "EscrowWithdrawn", "EscrowRefunded"]);
+const BRIDGE_EVENTS = new Set([
+  "EVMToLightningInitiated",
+  "LightningToEVMInitiated",
+  "LightningInvoiceSet",
+  "LightningPaymentConfirmed",
+  "SwapCompleted",
+  "SwapExpired",
+]);
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (chain_id, block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS escrows (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    token TEXT NOT NULL,
+    hashlock TEXT NOT NULL,
+    timelock TEXT NOT NULL,
+    salt TEXT NOT NULL,
+    amount TEXT,
+    state TEXT NOT NULL,
+    preimage TEXT,
+    order_hash TEXT,
+    maker TEXT,
+    making_amount TEXT,
+    created_block INTEGER NOT NULL,
+    created_transaction TEXT NOT NULL,
+    updated_block INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  );
+  CREATE INDEX IF NOT EXISTS escrows_hashlock ON escrows (hashlock);
+  CREATE INDEX IF NOT EXISTS escrows_sender ON escrows (sender);
+  CREATE INDEX IF NOT EXISTS escrows_recipient ON escrows (recipient);
+  CREATE INDEX IF NOT EXISTS escrows_token ON escrows (token);
+  CREATE INDEX IF NOT EXISTS escrows_state ON escrows (state);
+  CREATE TABLE IF NOT EXISTS bridge_swaps (
+    chain_id INTEGER NOT NULL,
+    bridge TEXT NOT NULL,
+    payment_hash TEXT NOT NULL,
+    direction TEXT NOT NULL,
+    state TEXT NOT NULL,
+    initiator TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    evm_escrow TEXT NOT NULL,
+    evm_token TEXT NOT NULL,
+    evm_amount TEXT NOT NULL,
+    satoshi_amount TEXT NOT NULL,
+    timelock TEXT NOT NULL,
+    invoice TEXT,
+    preimage TEXT,
+    created_block INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, payment_hash)
+  );
+  CREATE INDEX IF NOT EXISTS bridge_swaps_initiator ON bridge_swaps (initiator);
+  CREATE INDEX IF NOT EXISTS bridge_swaps_recipient ON bridge_swaps (recipient);
+  CREATE TABLE IF NOT EXISTS cursors (
+    chain_id INTEGER PRIMARY KEY,
+    scanned INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    range_start INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, block_number)
+  );
+`;
+
+// Builds "WHERE a = ? AND (b = ? OR c = ?)" from optional filters
+class Filter {
+  readonly clauses: string[] = [];
+  readonly params: SQLInputValue[] = [];
+
+  eq(column: string, value: SQLInputValue | undefined): this {
+    if (value !== undefined) {
+      this.clauses.push(`${column} = ?`);
+      this.params.push(value);
+    }
+    return this;
+  }
+
+  oneOf(column: string, values: string | string[] | undefined): this {
+    if (values !== undefined) {
+      const list = Array.isArray(values) ? values : [values];
+      this.clauses.push(`${column} IN (${list.map(() => "?").join(", ")})`);
+      this.params.push(...list);
+    }
+    return this;
+  }
+
+  either(columns: [string, string], value: string | undefined): this {
+    if (value !== undefined) {
+      this.clauses.push(`(${columns[0]} = ? OR ${columns[1]} = ?)`);
+      this.params.push(value, value);
+    }
+    return this;
+  }
+
+  where(): string {
+    return this.clauses.length > 0 ? `WHERE ${this.clauses.join(" AND ")}` : "";
+  }
+}
+
+const checksum = (value: string | undefined) => (value !== undefined ? getAddress(value) : undefined);
+const lower = (value: string | undefined) => value?.toLowerCase();
+const limit = (value: number | undefined) => (value !== undefined ? ` LIMIT ${Math.floor(value)}` : "");
+const optional = <T>(value: SQLInputValue, parse: (value: string) => T) =>
+  value === null ? undefined : parse(String(value));
+
+// SQLite store and typed queries; the indexer writes, anything else may read
+export class EscrowIndex {
+  private readonly db: DatabaseSync;
+
+  // `path` is a file, or ":memory:" for a throwaway index
+  constructor(path = ":memory:") {
+    this.db = new DatabaseSync(path);
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  escrows(query: EscrowQuery = {}): IndexedEscrow[] {
+    const filter = new Filter()
+      .eq("chain_id", query.chainId)
+      .eq("hashlock", lower(query.hashlock))
+      .either(["sender", "recipient"], checksum(query.party))
+      .eq("sender", checksum(query.sender))
+      .eq("recipient", checksum(query.recipient))
+      .eq("token", checksum(query.token))
+      .oneOf("state", query.state);
+    const rows = this.db
+      .prepare(`SELECT * FROM escrows ${filter.where()} ORDER BY created_block, chain_id${limit(query.limit)}`)
+      .all(...filter.params) as Row[];
+    return rows.map(toEscrow);
+  }
+
+  escrow(chainId: number, escrow: Address): IndexedEscrow | undefined {
+    const row = this.db.prepare("SELECT * FROM escrows WHERE chain_id = ? AND address = ?")
+      .get(chainId, getAddress(escrow)) as Row | undefined;
+    return row && toEscrow(row);
+  }
+
+  bridgeSwaps(query: BridgeSwapQuery = {}): IndexedBridgeSwap[] {
+    const filter = new Filter()
+      .eq("chain_id", query.chainId)
+      .eq("payment_hash", lower(query.paymentHash))
+      .either(["initiator", "recipient"], checksum(query.party))
+      .eq("direction", query.direction)
+      .oneOf("state", query.state);
+    const rows = this.db
+      .prepare(`SELECT * FROM bridge_swaps ${filter.where()} ORDER BY created_block, chain_id${limit(query.limit)}`)
+      .all(...filter.params) as Row[];
+    return rows.map(toBridgeSwap);
+  }
+
+  // Stored events in chain order, e.g. the history of one escrow
+  events(query: EventQuery = {}): IndexedEvent[] {
+    const filter = new Filter()
+      .eq("chain_id", query.chainId)
+      .eq("contract", checksum(query.contract))
+      .eq("name", query.name);
+    const rows = this.db
+      .prepare(`SELECT * FROM events ${filter.where()} ORDER BY chain_id, block_number, log_index${limit(query.limit)}`)
+      .all(...filter.params) as Row[];
+    return rows.map(toEvent);
+  }
+
+  // Last block indexed on a chain, or undefined before the first range
+  cursor(chainId: number): bigint | undefined {
+    const row = this.db.prepare("SELECT scanned FROM cursors WHERE chain_id = ?").get(chainId) as Row | undefined;
+    return row && BigInt(row.scanned as number);
+  }
+
+  // Newest first
+  checkpoints(chainId: number): Checkpoint[] {
+    const rows = this.db
+      .prepare("SELECT * FROM checkpoints WHERE chain_id = ? ORDER BY block_number DESC")
+      .all(chainId) as Row[];
+    return rows.map((row) => ({
+      blockNumber: BigInt(row.block_number as number),
+      blockHash: row.block_hash as Hash,
+      rangeStart: BigInt(row.range_start as number),
+    }));
+  }
+
+  // Store a scanned range: its events, the new cursor and a checkpoint, all or nothing
+  commitRange(chainId: number, events: IndexedEvent[], checkpoint: Checkpoint, checkpointDepth: number): void {
+    this.transaction(() => {
+      const insert = this.db.prepare("INSERT OR IGNORE INTO events VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+      for (const event of events) {
+        const { changes } = insert.run(
+          event.chainId,
+          event.blockNumber,
+          event.blockHash,
+          event.transactionHash,
+          event.logIndex,
+          event.contract,
+          event.name,
+          JSON.stringify(event.args),
+        );
+        if (changes > 0) this.apply(event);
+      }
+      this.db.prepare("INSERT OR REPLACE INTO cursors VALUES (?, ?)").run(chainId, checkpoint.blockNumber);
+      this.db.prepare("INSERT OR REPLACE INTO checkpoints VALUES (?, ?, ?, ?)")
+        .run(chainId, checkpoint.blockNumber, checkpoint.blockHash, checkpoint.rangeStart);
+      this.db.prepare(
+        `DELETE FROM checkpoints WHERE chain_id = ? AND block_number NOT IN
+          (SELECT block_number FROM checkpoints WHERE chain_id = ? ORDER BY block_number DESC LIMIT ?)`,
+      ).run(chainId, chainId, checkpointDepth);
+    });
+  }
+
+  // Drop everything above `block` on a chain and fold its remaining events again; returns the events removed
+  rewind(chainId: number, block: bigint): number {
+    let removed = 0;
+    this.transaction(() => {
+      removed = Number(
+        this.db.prepare("DELETE FROM events WHERE chain_id = ? AND block_number > ?").run(chainId, block).changes,
+      );
+      this.db.prepare("DELETE FROM checkpoints WHERE chain_id = ? AND block_number > ?").run(chainId, block);
+      this.db.prepare("INSERT OR REPLACE INTO cursors VALUES (?, ?)").run(chainId, block);
+      this.db.prepare("DELETE FROM escrows WHERE chain_id = ?").run(chainId);
+      this.db.prepare("DELETE FROM bridge_swaps WHERE chain_id = ?").run(chainId);
+      for (const event of this.events({ chainId })) {
+        this.apply(event);
+      }
+    });
+    return removed;
+  }
+
+  private transaction(body: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      body();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  // Fold one event into the escrows and bridge_swaps tables
+  private apply(event: IndexedEvent): void {
+    const { chainId, blockNumber, args } = event;
+    const update = (table: string, key: string, keyValue: string, values: Record<string, SQLInputValue>) => {
+      const columns = Object.keys(values);
+      this.db.prepare(
+        `UPDATE ${table} SET ${columns.map((column) => `${column} = ?`).join(", ")}, updated_block = ?
+          WHERE chain_id = ? AND ${key} = ?`,
+      ).run(...Object.values(values), blockNumber, chainId, keyValue);
+    };
+    const escrow = (values: Record<string, SQLInputValue>) => update("escrows", "address", event.contract, values);
+    const swap = (values: Record<string, SQLInputValue>) =>
+      update("bridge_swaps", "payment_hash", args.paymentHash.toLowerCase(), values);
+
+    switch (event.name) {
+      case "EscrowCreated":
+        this.db.prepare(
+          `INSERT OR REPLACE INTO escrows (chain_id, address, sender, recipient, token, hashlock, timelock, salt,
+            state, created_block, created_transaction, updated_block) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ).run(
+          chainId,
+          args.escrow,
+          args.sender,
+          args.recipient,
+          args.token,
+          args.hashlock.toLowerCase(),
+          args.timelock,
+          args.salt,
+          "unfunded",
+          blockNumber,
+          event.transactionHash,
+          blockNumber,
+        );
+        break;
+      case "EscrowCreatedFrom1inch":
+        update("escrows", "address", args.escrow, {
+          order_hash: args.orderHash,
+          maker: args.maker,
+          making_amount: args.makingAmount,
+        });
+        break;
+      case "EscrowFunded":
+        escrow({ state: "funded", amount: args.amount });
+        break;
+      case "EscrowWithdrawn":
+        escrow({ state: "withdrawn", preimage: args.preimage, amount: args.amount });
+        break;
+      case "EscrowRefunded":
+        escrow({ state: "refunded", amount: args.amount });
+        break;
+      case "EVMToLightningInitiated":
+      case "LightningToEVMInitiated":
+        this.db.prepare(
+          `INSERT OR REPLACE INTO bridge_swaps (chain_id, bridge, payment_hash, direction, state, initiator, recipient,
+            evm_escrow, evm_token, evm_amount, satoshi_amount, timelock, invoice, created_block, updated_block)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ).run(
+          chainId,
+          event.contract,
+          args.paymentHash.toLowerCase(),
+          event.name === "EVMToLightningInitiated" ? "EVMToLightning" : "LightningToEVM",
+          "Initiated",
+          args.initiator,
+          args.recipient,
+          args.evmEscrow,
+          args.evmToken,
+          args.evmAmount,
+          args.satoshiAmount,
+          args.timelock,
+          args.lightningInvoice || null,
+          blockNumber,
+          blockNumber,
+        );
+        break;
+      case "LightningInvoiceSet":
+        swap({ invoice: args.invoice });
+        break;
+      case "LightningPaymentConfirmed":
+        swap({ state: "LightningPaid", preimage: args.preimage });
+        break;
+      case "SwapCompleted":
+        swap({ state: "Completed" });
+        break;
+      case "SwapExpired":
+        swap({ state: "Expired" });
+        break;
+    }
+  }
+}
+
+function toEscrow(row: Row): IndexedEscrow {
+  return {
+    chainId: row.chain_id as number,
+    address: row.address as Address,
+    sender: row.sender as Address,
+    recipient: row.recipient as Address,
+    token: row.token as Address,
+    hashlock: row.hashlock as Hex,
+    timelock: BigInt(row.timelock as string),
+    salt: row.salt as Hex,
+    amount: optional(row.amount, BigInt),
+    state: row.state as EscrowState,
+    preimage: optional(row.preimage, (value) => value as Hex),
+    orderHash: optional(row.order_hash, (value) => value as Hex),
+    maker: optional(row.maker, (value) => value as Address),
+    makingAmount: optional(row.making_amount, BigInt),
+    createdBlock: BigInt(row.created_block as number),
+    createdTransaction: row.created_transaction as Hash,
+    updatedBlock: BigInt(row.updated_block as number),
+  };
+}
+
+function toBridgeSwap(row: Row): IndexedBridgeSwap {
+  return {
+    chainId: row.chain_id as number,
+    bridge: row.bridge as Address,
+    paymentHash: row.payment_hash as Hex,
+    direction: row.direction as keyof typeof BRIDGE_SWAP_DIRECTION,
+    state: row.state as keyof typeof BRIDGE_SWAP_STATE,
+    initiator: row.initiator as Address,
+    recipient: row.recipient as Address,
+    evmEscrow: row.evm_escrow as Address,
+    evmToken: row.evm_token as Address,
+    evmAmount: BigInt(row.evm_amount as string),
+    satoshiAmount: BigInt(row.satoshi_amount as string),
+    timelock: BigInt(row.timelock as string),
+    invoice: optional(row.invoice, String),
+    preimage: optional(row.preimage, (value) => value as Hex),
+    createdBlock: BigInt(row.created_block as number),
+    updatedBlock: BigInt(row.updated_block as number),
+  };
+}
+
+function toEvent(row: Row): IndexedEvent {
+  return {
+    chainId: row.chain_id as number,
+    blockNumber: BigInt(row.block_number as number),
+    blockHash: row.block_hash as Hash,
+    transactionHash: row.transaction_hash as Hash,
+    logIndex: row.log_index as number,
+    contract: row.contract as Address,
+    name: row.name as string,
+    args: JSON.parse(row.args as string),
+  };
+}
+
+interface DecodedLog {
+  eventName: string;
+  args?: unknown;
+  address: Address;
+  blockNumber: bigint | null;
+  blockHash: Hash | null;
+  transactionHash: Hash | null;
+  logIndex: number | null;
+}
+
+// The logs named in `names`, with every argument stringified
+function toIndexedEvents(chainId: number, logs: DecodedLog[], names: Set<string>): IndexedEvent[] {
+  return logs.filter((log) => names.has(log.eventName)).map((log) => ({
+    chainId,
+    // Confirmed logs are never pending, so their position is always set
+    blockNumber: log.blockNumber!,
+    blockHash: log.blockHash!,
+    transactionHash: log.transactionHash!,
+    logIndex: log.logIndex!,
+    contract: getAddress(log.address),
+    name: log.eventName,
+    args: Object.fromEntries(Object.entries(log.args as Record<string, unknown>).map(([k, v]) => [k, String(v)])),
+  }));
+}
+
+export class EscrowIndexer {
+  private readonly confirmations: bigint;
+  private readonly pollInterval: number;
+  private readonly maxBlockRange: bigint;
+  private readonly checkpointDepth: number;
+  private readonly listeners: { [K in keyof IndexerEvents]: Set<Listener<IndexerEvents[K]>> } = {
+    indexed: new Set(),
+    reorg: new Set(),
+    error: new Set(),
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(readonly index: EscrowIndex, private readonly chains: IndexedChain[], options: IndexerOptions = {}) {
+    this.confirmations = BigInt(options.confirmations ?? DEFAULT_CONFIRMATIONS);
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.checkpointDepth = options.checkpointDepth ?? DEFAULT_CHECKPOINT_DEPTH;
+  }
+
+  // Subscribe to a notification; returns an unsubscribe function
+  on<K extends keyof IndexerEvents>(type: K, listener: Listener<IndexerEvents[K]>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.listeners[type].delete(listener);
+  }
+
+  // Index every chain up to its confirmed head
+  async poll(): Promise<void> {
+    for (const chain of this.chains) {
+      try {
+        await this.pollChain(chain);
+      } catch (error) {
+        await this.emit("error", { chainId: chain.chainId, error });
+      }
+    }
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.poll();
+      if (this.running) {
+        this.timer = setTimeout(loop, this.pollInterval);
+      }
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async pollChain(chain: IndexedChain): Promise<void> {
+    const head = await chain.client.getBlockNumber();
+    const confirmed = head - this.confirmations;
+    if (confirmed < 0n) return;
+    await this.detectReorg(chain);
+
+    let scanned = this.index.cursor(chain.chainId) ?? (chain.fromBlock ?? 0n) - 1n;
+    while (scanned < confirmed) {
+      const fromBlock = scanned + 1n;
+      const rangeEnd = fromBlock + this.maxBlockRange - 1n;
+      const toBlock = rangeEnd < confirmed ? rangeEnd : confirmed;
+      const events = await this.fetchRange(chain, fromBlock, toBlock);
+      const block = await chain.client.getBlock({ blockNumber: toBlock });
+      this.index.commitRange(
+        chain.chainId,
+        events,
+        { blockNumber: toBlock, blockHash: block.hash, rangeStart: fromBlock },
+        this.checkpointDepth,
+      );
+      scanned = toBlock;
+      await this.emit("indexed", { chainId: chain.chainId, fromBlock, toBlock, events: events.length });
+    }
+  }
+
+  // Events of one range in chain order; escrows created in the range are searched too
+  private async fetchRange(chain: IndexedChain, fromBlock: bigint, toBlock: bigint): Promise<IndexedEvent[]> {
+    const { client, chainId } = chain;
+    const range = { fromBlock, toBlock } as const;
+    const events: IndexedEvent[] = [];
+
+    if (chain.factory) {
+      const logs = await client.getContractEvents({ ...range, address: chain.factory, abi: SimpleEscrowFactoryAbi });
+      events.push(...toIndexedEvents(chainId, logs, FACTORY_EVENTS));
+    }
+
+    // Withdrawn and refunded escrows emit nothing more
+    const escrows = new Set(this.index.escrows({ chainId, state: ["unfunded", "funded"] }).map((e) => e.address));
+    for (const event of events) {
+      if (event.name === "EscrowCreated") escrows.add(getAddress(event.args.escrow));
+    }
+    const addresses = [...escrows];
+    for (let i = 0; i < addresses.length; i += ESCROW_ADDRESS_BATCH) {
+      const address = addresses.slice(i, i + ESCROW_ADDRESS_BATCH);
+      const logs = await client.getContractEvents({ ...range, address, abi: SimpleEscrowAbi });
+      events.push(...toIndexedEvents(chainId, logs, ESCROW_EVENTS));
+    }
+
+    if (chain.bridge) {
+      const bridge = new BridgeClient(chain.bridge, client);
+      const logs = await client.getContractEvents({ ...range, address: chain.bridge, abi: LightningBridgeAbi });
+      for (const event of toIndexedEvents(chainId, logs, BRIDGE_EVENTS)) {
+        // Initiation events leave out some swap fields; they never change afterwards, so read them once
+        if (event.name.endsWith("Initiated")) {
+          const swap = await bridge.getSwap(event.args.paymentHash as Hex);
+          Object.assign(event.args, {
+            initiator: swap.initiator,
+            recipient: swap.recipient,
+            evmEscrow: swap.evmEscrow,
+            evmToken: swap.evmToken,
+            timelock: swap.timelock.toString(),
+          });
+        }
+        events.push(event);
+      }
+    }
+
+    return events.sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+  }
+
+  // Walk checkpoints back to the newest block still on the canonical chain and drop everything after it
+  private async detectReorg(chain: IndexedChain): Promise<void> {
+    const checkpoints = this.index.checkpoints(chain.chainId);
+    if (checkpoints.length === 0) return;
+    let canonical: bigint | undefined;
+    for (const { blockNumber, blockHash } of checkpoints) {
+      const block = await chain.client.getBlock({ blockNumber });
+      if (block.hash === blockHash) {
+        canonical = blockNumber;
+        break;
+      }
+    }
+    if (canonical === checkpoints[0].blockNumber) return;
+
+    // Deeper than every checkpoint: rescan every range still covered by checkpoints
+    const rewoundTo = canonical ?? checkpoints[checkpoints.length - 1].rangeStart - 1n;
+    const removed = this.index.rewind(chain.chainId, rewoundTo);
+    await this.emit("reorg", { chainId: chain.chainId, rewoundTo, removed });
+  }
+
+  private async emit<K extends keyof IndexerEvents>(type: K, event: IndexerEvents[K]): Promise<void> {
+    for (const listener of this.listeners[type]) {
+      await listener(event);
+    }
+  }
+}
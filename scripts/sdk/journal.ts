@@ -0,0 +1,113 @@
+// Append-only swap journal
+// One JSON-lines file per swap; every orchestrator update is appended and flushed to disk
+// so the preimage, salts, escrow addresses and tx hashes survive a crash.
+// The journal holds secrets in plain text, so its directory and files are created readable by
+// their owner only.
+
+import type { SwapSnapshot } from "./orchestrator.ts";
+import { type Token, TokenAmount } from "./tokens.ts";
+
+export interface JournalEntry {
+  at: string; // ISO timestamp of the write
+  snapshot: SwapSnapshot;
+}
+
+// JSON has no bigint or TokenAmount, so amounts and timelocks are tagged on the way out and
+// restored on load
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof TokenAmount) return { $tokenAmount: { token: value.token, raw: value.raw } };
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === "object" && "$bigint" in value) {
+    return BigInt((value as { $bigint: string }).$bigint);
+  }
+  if (value && typeof value === "object" && "$tokenAmount" in value) {
+    const { token, raw } = (value as { $tokenAmount: { token: Token; raw: bigint } }).$tokenAmount;
+    return TokenAmount.fromRaw(token, raw);
+  }
+  return value;
+}
+
+export function serializeEntry(entry: JournalEntry): string {
+  return JSON.stringify(entry, replacer);
+}
+
+export function parseEntry(line: string): JournalEntry {
+  return JSON.parse(line, reviver) as JournalEntry;
+}
+
+export class SwapJournal {
+  constructor(readonly directory: string) {}
+
+  path(swapId: string): string {
+    if (!/^[\w.-]+$/.test(swapId)) {
+      throw new Error(`Invalid swap id: ${swapId}`);
+    }
+    return `${this.directory}/${swapId}.jsonl`;
+  }
+
+  async append(snapshot: SwapSnapshot): Promise<void> {
+    await Deno.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const line = serializeEntry({ at: new Date().toISOString(), snapshot }) + "\n";
+    const file = await Deno.open(this.path(snapshot.id), { append: true, create: true, mode: 0o600 });
+    try {
+      const data = new TextEncoder().encode(line);
+      let written = 0;
+      while (written < data.length) {
+        written += await file.write(data.subarray(written));
+      }
+      await file.syncData();
+    } finally {
+      file.close();
+    }
+  }
+
+  // Callback suitable for SwapContext.onUpdate
+  recorder(): (snapshot: SwapSnapshot) => Promise<void> {
+    return (snapshot) => this.append(snapshot);
+  }
+
+  // All entries for a swap, oldest first. A torn last line from a crash mid-write is ignored.
+  async history(swapId: string): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(this.path(swapId));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+    const lines = content.split("\n").filter((line) => line.trim() !== "");
+    const entries: JournalEntry[] = [];
+    for (const [index, line] of lines.entries()) {
+      try {
+        entries.push(parseEntry(line));
+      } catch (error) {
+        if (index === lines.length - 1) break;
+        throw new Error(`Corrupt journal entry ${index + 1} for swap ${swapId}: ${error}`);
+      }
+    }
+    return entries;
+  }
+
+  // Latest snapshot of a swap, or null if it was never journaled
+  async load(swapId: string): Promise<SwapSnapshot | null> {
+    const entries = await this.history(swapId);
+    return entries.at(-1)?.snapshot ?? null;
+  }
+
+  async list(): Promise<string[]> {
+    const ids: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(this.directory)) {
+        if (entry.isFile && entry.name.endsWith(".jsonl")) {
+          ids.push(entry.name.slice(0, -".jsonl".length));
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    return ids.sort();
+  }
+}
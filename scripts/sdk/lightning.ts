@@ -0,0 +1,307 @@
+// Lightning node access for the bridge resolver
+// LightningBackend is the slice of a Lightning node the resolver needs: issue, decode, pay, cancel
+// and look up invoices. FakeLightningNetwork is an in-memory network of such nodes so the bridge
+// flow runs locally without LND or CLN. Its invoices are signed regtest BOLT11 payment requests and
+// payment hashes are sha256(preimage) as on Lightning, which is the scheme LightningBridge checks.
+
+import type { Hex } from "viem";
+import { generatePrivateKey } from "viem/accounts";
+import {
+  Bolt11Error,
+  type Bolt11Invoice,
+  decodeBolt11,
+  DEFAULT_INVOICE_EXPIRY,
+  encodeBolt11,
+  invoiceSats,
+  nodeIdFromPrivateKey,
+} from "./bolt11.ts";
+import { generatePreimage, lightningPaymentHash } from "./secrets.ts";
+
+export interface LightningInvoice {
+  paymentRequest: string;
+  paymentHash: Hex;
+  amountSats: bigint;
+  description: string;
+  payee: string; // node ID of the issuer: its compressed public key
+  createdAt: number; // unix seconds
+  expiresAt: number; // unix seconds
+}
+
+export type InvoiceState = "open" | "settled" | "canceled";
+
+// An invoice as seen by the node that issued it
+export interface InvoiceStatus {
+  invoice: LightningInvoice;
+  state: InvoiceState;
+  preimage: Hex;
+  settledAt?: number;
+}
+
+// A payment made by this node
+export interface LightningPayment {
+  paymentHash: Hex;
+  preimage: Hex;
+  amountSats: bigint;
+  feeSats: bigint;
+}
+
+export interface CreateInvoiceRequest {
+  amountSats: bigint;
+  description?: string;
+  expirySeconds?: number; // default 3600
+  preimage?: Hex; // random when omitted
+}
+
+export interface PayInvoiceOptions {
+  maxFeeSats?: bigint;
+}
+
+export interface LightningBackend {
+  readonly nodeId: string;
+  createInvoice(request: CreateInvoiceRequest): Promise<LightningInvoice>;
+  decodeInvoice(paymentRequest: string): Promise<LightningInvoice>;
+  // Resolves once the payment settled, with the preimage the payee revealed
+  payInvoice(paymentRequest: string, options?: PayInvoiceOptions): Promise<LightningPayment>;
+  // Cancel an open invoice this node issued so it can no longer be paid
+  cancelInvoice(paymentHash: Hex): Promise<void>;
+  // Invoice this node issued, or undefined
+  lookupInvoice(paymentHash: Hex): Promise<InvoiceStatus | undefined>;
+  // Settled payment this node made, or undefined
+  lookupPayment(paymentHash: Hex): Promise<LightningPayment | undefined>;
+}
+
+export type LightningErrorCode =
+  | "invalid_invoice"
+  | "unknown_invoice"
+  | "invoice_expired"
+  | "invoice_canceled"
+  | "already_paid"
+  | "self_payment"
+  | "insufficient_balance"
+  | "fee_too_high"
+  | "no_route";
+
+// Retrying a payment that failed with one of these cannot succeed
+export const PERMANENT_PAYMENT_ERRORS: readonly LightningErrorCode[] = [
+  "invalid_invoice",
+  "unknown_invoice",
+  "invoice_expired",
+  "invoice_canceled",
+  "already_paid",
+  "self_payment",
+];
+
+export class LightningError extends Error {
+  constructor(readonly code: LightningErrorCode, message: string) {
+    super(message);
+    this.name = "LightningError";
+  }
+}
+
+// The parts of a decoded BOLT11 invoice the bridge works with; it must ask for whole satoshis
+export function toLightningInvoice(invoice: Bolt11Invoice): LightningInvoice {
+  const amountSats = invoiceSats(invoice);
+  if (amountSats === undefined) {
+    throw new LightningError("invalid_invoice", `Invoice ${invoice.paymentHash} has no whole-satoshi amount`);
+  }
+  return {
+    paymentRequest: invoice.paymentRequest,
+    paymentHash: invoice.paymentHash,
+    amountSats,
+    description: invoice.description ?? "",
+    payee: invoice.payee,
+    createdAt: invoice.timestamp,
+    expiresAt: invoice.expiresAt,
+  };
+}
+
+// Decode and verify a BOLT11 payment request, failing with invalid_invoice
+export async function decodeLightningInvoice(paymentRequest: string): Promise<LightningInvoice> {
+  try {
+    return toLightningInvoice(await decodeBolt11(paymentRequest));
+  } catch (error) {
+    if (error instanceof Bolt11Error) throw new LightningError("invalid_invoice", error.message);
+    throw error;
+  }
+}
+
+interface FakeInvoice extends InvoiceStatus {
+  node: FakeLightningNode;
+}
+
+export interface FakeNetworkOptions {
+  now?: () => number; // unix seconds, defaults to the system clock
+  feeSats?: bigint; // routing fee charged on every payment, default 0
+}
+
+// In-memory Lightning network: every node can pay every reachable node directly
+export class FakeLightningNetwork {
+  private readonly nodes = new Map<string, FakeLightningNode>(); // keyed by alias
+  private readonly invoices = new Map<string, FakeInvoice>(); // keyed by lowercase payment hash
+  private readonly clock: () => number;
+  readonly feeSats: bigint;
+
+  constructor(options: FakeNetworkOptions = {}) {
+    this.clock = options.now ?? (() => Math.floor(Date.now() / 1000));
+    this.feeSats = options.feeSats ?? 0n;
+  }
+
+  now(): number {
+    return this.clock();
+  }
+
+  // A node with a fresh node key, found again by `alias`
+  createNode(alias: string, balanceSats = 0n): FakeLightningNode {
+    if (this.nodes.has(alias)) {
+      throw new Error(`Lightning node ${alias} already exists`);
+    }
+    const node = new FakeLightningNode(this, alias, generatePrivateKey(), balanceSats);
+    this.nodes.set(alias, node);
+    return node;
+  }
+
+  node(alias: string): FakeLightningNode | undefined {
+    return this.nodes.get(alias);
+  }
+
+  // Used by FakeLightningNode
+  register(node: FakeLightningNode, invoice: LightningInvoice, preimage: Hex): void {
+    if (this.invoices.has(invoice.paymentHash.toLowerCase())) {
+      throw new LightningError("invalid_invoice", `An invoice for ${invoice.paymentHash} already exists`);
+    }
+    this.invoices.set(invoice.paymentHash.toLowerCase(), { invoice, state: "open", preimage, node });
+  }
+
+  // Used by FakeLightningNode: move the funds and reveal the preimage to the payer
+  async pay(payer: FakeLightningNode, paymentRequest: string, options: PayInvoiceOptions): Promise<LightningPayment> {
+    const { paymentHash } = await decodeLightningInvoice(paymentRequest);
+    const entry = this.invoices.get(paymentHash.toLowerCase());
+    if (!entry || entry.invoice.paymentRequest !== paymentRequest) {
+      throw new LightningError("unknown_invoice", `No invoice ${paymentHash} on the network`);
+    }
+    const { invoice } = entry;
+    if (entry.node === payer) {
+      throw new LightningError("self_payment", "A node cannot pay its own invoice");
+    }
+    if (entry.state === "settled") {
+      throw new LightningError("already_paid", `Invoice ${invoice.paymentHash} is already paid`);
+    }
+    if (entry.state === "canceled") {
+      throw new LightningError("invoice_canceled", `Invoice ${invoice.paymentHash} was canceled`);
+    }
+    if (this.now() >= invoice.expiresAt) {
+      throw new LightningError("invoice_expired", `Invoice ${invoice.paymentHash} expired`);
+    }
+    if (entry.node.unreachable) {
+      throw new LightningError("no_route", `No route to ${invoice.payee}`);
+    }
+    if (options.maxFeeSats !== undefined && this.feeSats > options.maxFeeSats) {
+      throw new LightningError("fee_too_high", `Routing fee ${this.feeSats} exceeds ${options.maxFeeSats} sats`);
+    }
+    const total = invoice.amountSats + this.feeSats;
+    if (payer.balanceSats < total) {
+      throw new LightningError("insufficient_balance", `${payer.nodeId} has ${payer.balanceSats} of ${total} sats`);
+    }
+
+    payer.balanceSats -= total;
+    entry.node.balanceSats += invoice.amountSats;
+    entry.state = "settled";
+    entry.settledAt = this.now();
+    return {
+      paymentHash: invoice.paymentHash,
+      preimage: entry.preimage,
+      amountSats: invoice.amountSats,
+      feeSats: this.feeSats,
+    };
+  }
+
+  // Used by FakeLightningNode
+  lookup(paymentHash: Hex): FakeInvoice | undefined {
+    return this.invoices.get(paymentHash.toLowerCase());
+  }
+}
+
+// A node on a FakeLightningNetwork
+export class FakeLightningNode implements LightningBackend {
+  unreachable = false; // payments to this node fail with no_route while set
+  readonly nodeId: string;
+  private readonly payments = new Map<string, LightningPayment>();
+
+  constructor(
+    private readonly network: FakeLightningNetwork,
+    readonly alias: string,
+    private readonly nodeKey: Hex,
+    public balanceSats: bigint,
+  ) {
+    this.nodeId = nodeIdFromPrivateKey(nodeKey);
+  }
+
+  async createInvoice(request: CreateInvoiceRequest): Promise<LightningInvoice> {
+    if (request.amountSats <= 0n) {
+      throw new LightningError("invalid_invoice", "Invoice amount must be positive");
+    }
+    const preimage = request.preimage ?? generatePreimage();
+    const paymentHash = lightningPaymentHash(preimage);
+    const createdAt = this.network.now();
+    const expiry = request.expirySeconds ?? DEFAULT_INVOICE_EXPIRY;
+    const paymentRequest = await encodeBolt11({
+      network: "regtest",
+      amountMsat: request.amountSats * 1000n,
+      timestamp: createdAt,
+      paymentHash,
+      description: request.description ?? "",
+      expiry,
+    }, this.nodeKey);
+    const invoice: LightningInvoice = {
+      paymentRequest,
+      paymentHash,
+      amountSats: request.amountSats,
+      description: request.description ?? "",
+      payee: this.nodeId,
+      createdAt,
+      expiresAt: createdAt + expiry,
+    };
+    this.network.register(this, invoice, preimage);
+    return { ...invoice };
+  }
+
+  decodeInvoice(paymentRequest: string): Promise<LightningInvoice> {
+    return decodeLightningInvoice(paymentRequest);
+  }
+
+  async payInvoice(paymentRequest: string, options: PayInvoiceOptions = {}): Promise<LightningPayment> {
+    const payment = await this.network.pay(this, paymentRequest, options);
+    this.payments.set(payment.paymentHash.toLowerCase(), payment);
+    return { ...payment };
+  }
+
+  cancelInvoice(paymentHash: Hex): Promise<void> {
+    return Promise.resolve().then(() => {
+      const entry = this.ownInvoice(paymentHash);
+      if (!entry) {
+        throw new LightningError("unknown_invoice", `${this.nodeId} issued no invoice ${paymentHash}`);
+      }
+      if (entry.state === "settled") {
+        throw new LightningError("already_paid", `Invoice ${paymentHash} is already paid`);
+      }
+      entry.state = "canceled";
+    });
+  }
+
+  lookupInvoice(paymentHash: Hex): Promise<InvoiceStatus | undefined> {
+    const entry = this.ownInvoice(paymentHash);
+    if (!entry) return Promise.resolve(undefined);
+    const { invoice, state, preimage, settledAt } = entry;
+    return Promise.resolve({ invoice: { ...invoice }, state, preimage, settledAt });
+  }
+
+  lookupPayment(paymentHash: Hex): Promise<LightningPayment | undefined> {
+    const payment = this.payments.get(paymentHash.toLowerCase());
+    return Promise.resolve(payment && { ...payment });
+  }
+
+  private ownInvoice(paymentHash: Hex): FakeInvoice | undefined {
+    const entry = this.network.lookup(paymentHash);
+    return entry?.node === this ? entry : undefined;
+  }
+}
@@ -0,0 +1,173 @@
+// Deployment manifests
+// One JSON file per environment (deployments/local.json, testnet.json, mainnet.json) listing the
+// contracts deployed on each chain. Manifests are validated at runtime, addresses must be
+// EIP-55 checksummed, and `verifyManifestCode` checks that code exists at every address, so a
+// stale or hand-edited manifest fails loudly instead of pointing the tooling at the wrong contracts.
+
+import { type Address, getAddress, isAddress, type PublicClient } from "viem";
+
+export const ENVIRONMENTS = ["local", "testnet", "mainnet"] as const;
+export type Environment = (typeof ENVIRONMENTS)[number];
+
+export interface ManifestToken {
+  symbol: string;
+  address: Address;
+  decimals?: number; // read from the contract; when given, decimals() must return the same
+}
+
+export interface ManifestChain {
+  chainId: number;
+  rpcUrl: string;
+  contracts: Record<string, Address>; // contract name (e.g. "SimpleEscrowFactory") to address
+  tokens?: ManifestToken[];
+}
+
+// Chains are keyed by registry key ("base", "etherlink", ...)
+export interface DeploymentManifest {
+  environment?: Environment;
+  timestamp: string;
+  chains: Record<string, ManifestChain>;
+}
+
+export class ManifestError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super(`Invalid deployment manifest ${source}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ManifestError";
+  }
+}
+
+export function isEnvironment(value: string): value is Environment {
+  return (ENVIRONMENTS as readonly string[]).includes(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Collects every problem instead of stopping at the first, so one run shows all fixes needed
+class Checker {
+  readonly issues: string[] = [];
+
+  string(value: unknown, path: string): value is string {
+    if (typeof value === "string" && value.length > 0) return true;
+    this.issues.push(`${path} must be a non-empty string`);
+    return false;
+  }
+
+  integer(value: unknown, path: string, min: number, max = Number.MAX_SAFE_INTEGER): value is number {
+    if (typeof value === "number" && Number.isInteger(value) && value >= min && value <= max) return true;
+    this.issues.push(`${path} must be an integer between ${min} and ${max}`);
+    return false;
+  }
+
+  url(value: unknown, path: string): value is string {
+    if (!this.string(value, path)) return false;
+    try {
+      const { protocol } = new URL(value);
+      if (["http:", "https:", "ws:", "wss:"].includes(protocol)) return true;
+    } catch {
+      // reported below
+    }
+    this.issues.push(`${path} must be an http(s) or ws(s) URL`);
+    return false;
+  }
+
+  address(value: unknown, path: string): value is Address {
+    if (!this.string(value, path)) return false;
+    if (!isAddress(value, { strict: false })) {
+      this.issues.push(`${path} is not an address: ${value}`);
+      return false;
+    }
+    const checksummed = getAddress(value);
+    if (value !== checksummed) {
+      this.issues.push(`${path} is not checksummed: ${value} (expected ${checksummed})`);
+      return false;
+    }
+    return true;
+  }
+
+  record(value: unknown, path: string): value is Record<string, unknown> {
+    if (isRecord(value)) return true;
+    this.issues.push(`${path} must be an object`);
+    return false;
+  }
+}
+
+// Validate parsed JSON against the manifest schema
+export function parseManifest(data: unknown, source: string, environment?: Environment): DeploymentManifest {
+  const check = new Checker();
+  if (!check.record(data, "manifest")) throw new ManifestError(source, check.issues);
+
+  if (data.environment !== undefined) {
+    if (typeof data.environment !== "string" || !isEnvironment(data.environment)) {
+      check.issues.push(`environment must be one of ${ENVIRONMENTS.join(", ")}`);
+    } else if (environment && data.environment !== environment) {
+      check.issues.push(`environment is "${data.environment}" but "${environment}" was requested`);
+    }
+  }
+  check.string(data.timestamp, "timestamp");
+
+  const seen = new Map<number, string>();
+  if (check.record(data.chains, "chains")) {
+    if (Object.keys(data.chains).length === 0) check.issues.push("chains must list at least one chain");
+    for (const [key, chain] of Object.entries(data.chains)) {
+      const path = `chains.${key}`;
+      if (!check.record(chain, path)) continue;
+      if (check.integer(chain.chainId, `${path}.chainId`, 1)) {
+        const other = seen.get(chain.chainId);
+        if (other) check.issues.push(`${path}.chainId ${chain.chainId} is also used by chains.${other}`);
+        seen.set(chain.chainId, key);
+      }
+      check.url(chain.rpcUrl, `${path}.rpcUrl`);
+      if (check.record(chain.contracts, `${path}.contracts`)) {
+        for (const [name, address] of Object.entries(chain.contracts)) {
+          check.address(address, `${path}.contracts.${name}`);
+        }
+      }
+      if (chain.tokens !== undefined) {
+        if (!Array.isArray(chain.tokens)) {
+          check.issues.push(`${path}.tokens must be an array`);
+          continue;
+        }
+        chain.tokens.forEach((token: unknown, i: number) => {
+          const tokenPath = `${path}.tokens[${i}]`;
+          if (!check.record(token, tokenPath)) return;
+          check.string(token.symbol, `${tokenPath}.symbol`);
+          check.address(token.address, `${tokenPath}.address`);
+          if (token.decimals !== undefined) check.integer(token.decimals, `${tokenPath}.decimals`, 0, 255);
+        });
+      }
+    }
+  }
+
+  if (check.issues.length > 0) throw new ManifestError(source, check.issues);
+  return data as unknown as DeploymentManifest;
+}
+
+// Every address in a manifest must hold contract code on its chain
+export async function verifyManifestCode(
+  manifest: DeploymentManifest,
+  source: string,
+  clientFor: (chainId: number) => PublicClient,
+): Promise<void> {
+  const issues: string[] = [];
+  for (const [key, chain] of Object.entries(manifest.chains)) {
+    const client = clientFor(chain.chainId);
+    const addresses: [string, Address][] = [
+      ...Object.entries(chain.contracts).map(([name, address]): [string, Address] => [`contracts.${name}`, address]),
+      ...(chain.tokens ?? []).map((token, i): [string, Address] => [`tokens[${i}]`, token.address]),
+    ];
+    for (const [name, address] of addresses) {
+      try {
+        const code = await client.getCode({ address });
+        if (!code || code === "0x") {
+          issues.push(`chains.${key}.${name}: no contract code at ${address} on chain ${chain.chainId}`);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message.split("\n")[0] : String(error);
+        issues.push(`chains.${key}.${name}: could not read code on chain ${chain.chainId} (${reason})`);
+      }
+    }
+  }
+  if (issues.length > 0) throw new ManifestError(source, issues);
+}
@@ -0,0 +1,367 @@
+// Atomic swap orchestrator
+// Models the HTLC lifecycle as explicit states and advances by reading escrow state on both chains,
+// so a swap can be driven from either side and resumed from a snapshot after a crash
+
+import type { Address, Hash, Hex, PublicClient } from "viem";
+import { EscrowClient, type EscrowDetails, EscrowFactoryClient, type EscrowParams, type SignerClient } from "./escrow.ts";
+import { TokenClient } from "./erc20.ts";
+import { describeError, isConnectionError } from "./errors.ts";
+import {
+  assertHashlocks,
+  assertRouteSchemes,
+  assertSafeTimelocks,
+  type SwapTiming,
+  legAmount,
+  type TimelockPolicy,
+  verifyLeg,
+} from "./planner.ts";
+import type { HashlockContract } from "./secrets.ts";
+import type { TokenAmount } from "./tokens.ts";
+import { TransactionManager, type TransactionResult } from "./transactions.ts";
+
+// Lifecycle of a swap. `Planned` means nothing is on-chain yet.
+export type SwapState =
+  | "Planned"
+  | "Created" // initiator's source escrow is funded
+  | "CounterpartyLocked" // responder's destination escrow is funded
+  | "SecretRevealed" // initiator withdrew on destination, preimage is public
+  | "Claimed" // responder withdrew on source with the revealed preimage
+  | "Refunded" // every funded leg was closed and at least one was refunded
+  | "Failed";
+
+export const TERMINAL_STATES: readonly SwapState[] = ["Claimed", "Refunded", "Failed"];
+
+// Source: initiator locks, responder claims. Destination: responder locks, initiator claims.
+export type LegName = "source" | "destination";
+export type Party = "initiator" | "responder";
+
+// Transactions the orchestrator can send, used as keys for recorded hashes
+export type SwapStep =
+  | "approveSource"
+  | "lockSource"
+  | "approveDestination"
+  | "lockDestination"
+  | "reveal"
+  | "claim"
+  | "refundSource"
+  | "refundDestination";
+
+export interface SwapLeg {
+  chainId: number;
+  factory: Address;
+  escrow: EscrowParams;
+  amount: TokenAmount; // of escrow.token on chainId
+  address?: Address; // computed CREATE2 address, filled in on first sync
+  contract?: HashlockContract; // contract holding the leg, default SimpleEscrow
+}
+
+// Serializable state of one swap
+export interface SwapSnapshot {
+  id: string;
+  state: SwapState;
+  source: SwapLeg;
+  destination: SwapLeg;
+  preimage?: Hex; // known to the initiator from the start, to the responder once revealed
+  txs: Partial<Record<SwapStep, Hash>>;
+  results?: Partial<Record<SwapStep, TransactionResult>>; // mined outcome of each recorded tx
+  error?: string; // why the swap failed, or the node error run() is waiting out
+  updatedAt: number;
+}
+
+// Wallets a party controls on each leg's chain
+export interface PartySigners {
+  source?: SignerClient;
+  destination?: SignerClient;
+}
+
+export interface SwapContext {
+  clients: Record<LegName, PublicClient>;
+  signers: Partial<Record<Party, PartySigners>>;
+  pollInterval?: number; // ms between idle polls in run()
+  timing?: SwapTiming; // per-leg chain timing for the timelock checks
+  policy?: TimelockPolicy;
+  transactions?: TransactionManager; // the manager the signers send through, for stuck-tx replacement
+  onUpdate?: (snapshot: SwapSnapshot) => void | Promise<void>;
+}
+
+export interface SwapRunOptions {
+  deadline?: number; // wall clock ms after which run() gives up waiting (the swap is not failed)
+}
+
+const DEFAULT_POLL_INTERVAL = 2000;
+
+// Party that funds, and may refund, each leg
+const LEG_OWNERS: Record<LegName, Party> = { source: "initiator", destination: "responder" };
+
+// structuredClone drops the TokenAmount class, so the (immutable) leg amounts are shared instead
+function cloneSnapshot(snapshot: SwapSnapshot): SwapSnapshot {
+  const copy = structuredClone(snapshot);
+  copy.source.amount = snapshot.source.amount;
+  copy.destination.amount = snapshot.destination.amount;
+  return copy;
+}
+
+function isOpen(details: EscrowDetails | null): boolean {
+  return !!details && details.funded && !details.withdrawn && !details.refunded;
+}
+
+// Derive the lifecycle state from both escrows
+export function deriveState(
+  source: EscrowDetails | null,
+  destination: EscrowDetails | null,
+): SwapState {
+  if (source?.withdrawn) return "Claimed";
+  const refunded = !!(source?.refunded || destination?.refunded);
+  if (refunded && !isOpen(source) && !isOpen(destination)) return "Refunded";
+  if (destination?.withdrawn) return "SecretRevealed";
+  if (destination?.funded) return "CounterpartyLocked";
+  if (source?.funded) return "Created";
+  return "Planned";
+}
+
+export class SwapOrchestrator {
+  private details: Record<LegName, EscrowDetails | null> = { source: null, destination: null };
+  private readonly transactions: TransactionManager;
+
+  private constructor(
+    private snapshot: SwapSnapshot,
+    private readonly context: SwapContext,
+  ) {
+    this.transactions = context.transactions ?? new TransactionManager();
+  }
+
+  // Start a new swap from its two legs
+  static create(
+    id: string,
+    legs: { source: SwapLeg; destination: SwapLeg; preimage?: Hex },
+    context: SwapContext,
+  ): SwapOrchestrator {
+    return new SwapOrchestrator({
+      id,
+      state: "Planned",
+      source: legs.source,
+      destination: legs.destination,
+      preimage: legs.preimage,
+      txs: {},
+      updatedAt: Date.now(),
+    }, context);
+  }
+
+  // Continue a swap from a saved snapshot; the state is re-derived from chain on the next step,
+  // so a swap that previously failed is retried from wherever the escrows actually are
+  static resume(snapshot: SwapSnapshot, context: SwapContext): SwapOrchestrator {
+    const restored = cloneSnapshot(snapshot);
+    if (restored.state === "Failed") {
+      restored.state = "Planned";
+      delete restored.error;
+    }
+    return new SwapOrchestrator(restored, context);
+  }
+
+  get state(): SwapState {
+    return this.snapshot.state;
+  }
+
+  get isTerminal(): boolean {
+    return TERMINAL_STATES.includes(this.snapshot.state);
+  }
+
+  toSnapshot(): SwapSnapshot {
+    return cloneSnapshot(this.snapshot);
+  }
+
+  // Refresh both escrows from chain and update the state accordingly
+  async sync(): Promise<SwapState> {
+    const { source, destination } = await this.refresh();
+    delete this.snapshot.error; // both nodes answered again
+    if (!this.snapshot.preimage && destination?.withdrawn) {
+      this.snapshot.preimage = destination.preimage;
+    }
+    await this.transition(deriveState(source, destination));
+    return this.snapshot.state;
+  }
+
+  // Sync, then send the next transaction if one of our signers is responsible for it.
+  // Returns true when a transaction was sent. A failed swap only refunds the legs we funded.
+  async step(): Promise<boolean> {
+    if (this.snapshot.state === "Failed") {
+      if (this.openLegs().length === 0) return false;
+      await this.refresh();
+      return this.refundExpired();
+    }
+    await this.sync();
+    if (this.isTerminal) return false;
+
+    if (await this.refundExpired()) return true;
+
+    switch (this.snapshot.state) {
+      case "Planned": {
+        if (await this.isExpired("source")) {
+          await this.fail("Source timelock passed before the initiator locked funds");
+          return false;
+        }
+        const signer = this.signer("initiator", "source");
+        if (!signer) return false;
+        assertRouteSchemes(this.snapshot);
+        assertHashlocks(this.snapshot, this.snapshot.preimage);
+        assertSafeTimelocks(this.snapshot, this.context.timing, this.context.policy);
+        await this.lock("source", signer);
+        return true;
+      }
+      case "Created": {
+        const signer = this.signer("responder", "destination");
+        if (!signer || await this.isExpired("destination")) return false;
+        // Never lock against an initiator escrow that does not match the plan
+        assertRouteSchemes(this.snapshot);
+        assertSafeTimelocks(this.snapshot, this.context.timing, this.context.policy);
+        verifyLeg("source", this.snapshot.source, this.details.source!);
+        await this.lock("destination", signer);
+        return true;
+      }
+      case "CounterpartyLocked": {
+        const signer = this.signer("initiator", "destination");
+        if (!signer || !this.snapshot.preimage) return false;
+        verifyLeg("destination", this.snapshot.destination, this.details.destination!);
+        await this.withdraw("destination", signer, "reveal");
+        return true;
+      }
+      case "SecretRevealed": {
+        const signer = this.signer("responder", "source");
+        if (!signer || !this.snapshot.preimage) return false;
+        await this.withdraw("source", signer, "claim");
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  // Drive the swap until it reaches a terminal state, polling chain state while waiting on the counterparty.
+  // An unreachable node is waited out rather than failing the swap: a responder that stopped while
+  // its destination RPC was down would miss the reveal and lose both legs. A swap that failed, e.g.
+  // on a counterparty escrow that does not match the plan, keeps running until our funded legs are
+  // refunded; an error while refunding ends the run and leaves them to the refund watchdog.
+  async run(options: SwapRunOptions = {}): Promise<SwapSnapshot> {
+    const interval = this.context.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    while (!this.isTerminal || this.openLegs().length > 0) {
+      if (options.deadline !== undefined && Date.now() > options.deadline) {
+        break;
+      }
+      let progressed = false;
+      try {
+        progressed = await this.step();
+      } catch (error) {
+        if (!isConnectionError(error)) {
+          if (this.snapshot.state === "Failed") break;
+          await this.fail(error instanceof Error ? error.message : String(error));
+          continue;
+        }
+        this.snapshot.error = describeError(error);
+        await this.emit();
+      }
+      if (!progressed && !this.isTerminal) {
+        await new Promise((resolve) => setTimeout(resolve, interval));
+      }
+    }
+    return this.toSnapshot();
+  }
+
+  private signer(party: Party, leg: LegName): SignerClient | undefined {
+    return this.context.signers[party]?.[leg];
+  }
+
+  private factory(leg: LegName, signer?: SignerClient): EscrowFactoryClient {
+    return new EscrowFactoryClient(this.snapshot[leg].factory, this.context.clients[leg], signer);
+  }
+
+  private async refresh(): Promise<Record<LegName, EscrowDetails | null>> {
+    const [source, destination] = await Promise.all([this.readLeg("source"), this.readLeg("destination")]);
+    this.details = { source, destination };
+    return this.details;
+  }
+
+  // Legs we funded that are still open
+  private openLegs(): LegName[] {
+    return (["source", "destination"] as const).filter((leg) =>
+      this.signer(LEG_OWNERS[leg], leg) && isOpen(this.details[leg])
+    );
+  }
+
+  private async readLeg(leg: LegName): Promise<EscrowDetails | null> {
+    const factory = this.factory(leg);
+    const swapLeg = this.snapshot[leg];
+    if (!swapLeg.address) {
+      swapLeg.address = await factory.computeAddress(swapLeg.escrow);
+    }
+    if (!(await factory.isDeployed(swapLeg.address))) {
+      return null;
+    }
+    return factory.escrow(swapLeg.address).getDetails();
+  }
+
+  private async isExpired(leg: LegName): Promise<boolean> {
+    const block = await this.context.clients[leg].getBlock();
+    return block.timestamp >= this.snapshot[leg].escrow.timelock;
+  }
+
+  // Refund any of our open legs whose timelock has passed
+  private async refundExpired(): Promise<boolean> {
+    for (const leg of this.openLegs()) {
+      const signer = this.signer(LEG_OWNERS[leg], leg)!;
+      if (!(await this.isExpired(leg))) continue;
+      const escrow = new EscrowClient(this.snapshot[leg].address!, this.context.clients[leg], signer);
+      const step: SwapStep = leg === "source" ? "refundSource" : "refundDestination";
+      await this.confirm(leg, step, await escrow.refund());
+      return true;
+    }
+    return false;
+  }
+
+  private async lock(leg: LegName, signer: SignerClient): Promise<void> {
+    const { escrow: params } = this.snapshot[leg];
+    const amount = legAmount(this.snapshot[leg]);
+    const token = new TokenClient(params.token, this.context.clients[leg], signer);
+    const approval = await token.ensureAllowance(this.snapshot[leg].factory, amount);
+    if (approval) {
+      await this.confirm(leg, leg === "source" ? "approveSource" : "approveDestination", approval);
+    }
+    const { hash } = await this.factory(leg, signer).createWithFunding(params, amount);
+    await this.confirm(leg, leg === "source" ? "lockSource" : "lockDestination", hash);
+  }
+
+  private async withdraw(leg: LegName, signer: SignerClient, step: SwapStep): Promise<void> {
+    const escrow = new EscrowClient(this.snapshot[leg].address!, this.context.clients[leg], signer);
+    await this.confirm(leg, step, await escrow.withdraw(this.snapshot.preimage!));
+  }
+
+  // Record a transaction, wait for it to be mined successfully and record the outcome
+  private async confirm(leg: LegName, step: SwapStep, hash: Hash): Promise<void> {
+    this.snapshot.txs[step] = hash;
+    await this.emit();
+    const result = await this.transactions.wait(this.context.clients[leg], hash, step);
+    this.snapshot.txs[step] = result.hash;
+    this.snapshot.results = { ...this.snapshot.results, [step]: result };
+    await this.emit();
+    if (result.status !== "success") {
+      const reason = result.error ? `: ${result.error}` : "";
+      throw new Error(`Transaction ${step} (${result.hash}) ${result.status}${reason}`);
+    }
+  }
+
+  private async transition(state: SwapState): Promise<void> {
+    if (state === this.snapshot.state) return;
+    this.snapshot.state = state;
+    if (state !== "Failed") delete this.snapshot.error;
+    await this.emit();
+  }
+
+  private async fail(reason: string): Promise<void> {
+    this.snapshot.error = reason;
+    await this.transition("Failed");
+  }
+
+  private async emit(): Promise<void> {
+    this.snapshot.updatedAt = Date.now();
+    await this.context.onUpdate?.(this.toSnapshot());
+  }
+}
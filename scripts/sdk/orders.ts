@@ -0,0 +1,236 @@
+// 1inch limit orders for escrow swaps
+// Builds IOrderMixin.Order structs and the extension data read on-chain, validated against the same
+// rules as the contracts so a bad order fails here instead of reverting at fill time.
+//
+// Two extension layouts exist:
+//   - OneInchAdapter.decodeExtension:
+//       abi.encode(hashlock, recipient, timeoutDuration, destinationChainId, salt)
+//   - SimpleEscrowFactory.createEscrowFrom1inchOrder:
+//       abi.encode(hashlock, recipient, timeoutDuration, salt)
+// The limit order protocol receives the adapter address followed by the adapter extension.
+
+import {
+  type Account,
+  type Address,
+  concat,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  type Hash,
+  type Hex,
+  hexToBigInt,
+  isAddress,
+  isAddressEqual,
+  keccak256,
+  recoverTypedDataAddress,
+  size,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import type { SignerClient } from "./escrow.ts";
+import { generateSalt } from "./secrets.ts";
+
+// Mirrors IOrderMixin.Order
+export interface LimitOrder {
+  salt: bigint;
+  makerAsset: Address;
+  takerAsset: Address;
+  maker: Address;
+  receiver: Address;
+  allowedSender: Address;
+  makingAmount: bigint;
+  takingAmount: bigint;
+  offsets: bigint;
+  interactions: Hex;
+}
+
+// Decoded OneInchAdapter extension
+export interface SwapExtension {
+  hashlock: Hex;
+  recipient: Address; // receives the escrow on the maker's chain
+  timeoutDuration: bigint; // seconds, added to the fill block's timestamp
+  destinationChainId: bigint;
+  salt: Hex; // CREATE2 salt of the escrow
+}
+
+export interface OrderInput {
+  maker: Address;
+  makerAsset: Address;
+  takerAsset: Address;
+  makingAmount: bigint;
+  takingAmount: bigint;
+  receiver?: Address;
+  allowedSender?: Address;
+  salt?: bigint;
+  postInteraction?: boolean; // default true: the fill must call the adapter
+  interactions?: Hex;
+}
+
+// Custom errors of OneInchAdapter that an order or extension would trigger
+export type OrderErrorCode =
+  | "InvalidExtensionData"
+  | "InvalidTimeoutDuration"
+  | "OrderValidationFailed"
+  | "ZeroAmount";
+
+export class OrderError extends Error {
+  constructor(readonly code: OrderErrorCode, message: string) {
+    super(`${code}: ${message}`);
+    this.name = "OrderError";
+  }
+}
+
+export interface OrderDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: Address;
+}
+
+export const MIN_EXTENSION_LENGTH = 160;
+export const MAX_TIMEOUT_DURATION = 30n * 24n * 60n * 60n; // 30 days
+// Offsets bit the limit order protocol checks before calling the post-interaction
+export const POST_INTERACTION_FLAG = 1n;
+
+// EIP-712 domain of the limit order protocol (v3, deployed inside the v5 aggregation router)
+export const LIMIT_ORDER_DOMAIN = { name: "1inch Aggregation Router", version: "5" } as const;
+
+const ORDER_COMPONENTS = [
+  { name: "salt", type: "uint256" },
+  { name: "makerAsset", type: "address" },
+  { name: "takerAsset", type: "address" },
+  { name: "maker", type: "address" },
+  { name: "receiver", type: "address" },
+  { name: "allowedSender", type: "address" },
+  { name: "makingAmount", type: "uint256" },
+  { name: "takingAmount", type: "uint256" },
+  { name: "offsets", type: "uint256" },
+  { name: "interactions", type: "bytes" },
+] as const;
+
+const ORDER_TYPES = { Order: ORDER_COMPONENTS } as const;
+
+const ADAPTER_EXTENSION = [
+  { name: "hashlock", type: "bytes32" },
+  { name: "recipient", type: "address" },
+  { name: "timeoutDuration", type: "uint256" },
+  { name: "destinationChainId", type: "uint256" },
+  { name: "salt", type: "bytes32" },
+] as const;
+
+const FACTORY_EXTENSION = [
+  { name: "hashlock", type: "bytes32" },
+  { name: "recipient", type: "address" },
+  { name: "timeoutDuration", type: "uint256" },
+  { name: "salt", type: "bytes32" },
+] as const;
+
+export function buildOrder(input: OrderInput): LimitOrder {
+  const order: LimitOrder = {
+    salt: input.salt ?? hexToBigInt(generateSalt()),
+    makerAsset: input.makerAsset,
+    takerAsset: input.takerAsset,
+    maker: input.maker,
+    receiver: input.receiver ?? zeroAddress,
+    allowedSender: input.allowedSender ?? zeroAddress,
+    makingAmount: input.makingAmount,
+    takingAmount: input.takingAmount,
+    offsets: input.postInteraction === false ? 0n : POST_INTERACTION_FLAG,
+    interactions: input.interactions ?? "0x",
+  };
+  validateOrder(order, order.makingAmount);
+  return order;
+}
+
+// Same checks as OneInchAdapter._validateOrder
+export function validateOrder(order: LimitOrder, makingAmount: bigint): void {
+  if (order.maker === zeroAddress) throw new OrderError("OrderValidationFailed", "maker is the zero address");
+  if (makingAmount === 0n) throw new OrderError("ZeroAmount", "making amount is zero");
+  if (order.makerAsset === zeroAddress) {
+    throw new OrderError("OrderValidationFailed", "maker asset is the zero address");
+  }
+}
+
+// Same checks as OneInchAdapter.decodeExtension plus the timeout bound enforced at fill time
+export function validateExtension(extension: Omit<SwapExtension, "destinationChainId">): void {
+  if (extension.hashlock === zeroHash) throw new OrderError("InvalidExtensionData", "hashlock is zero");
+  if (!isAddress(extension.recipient) || extension.recipient === zeroAddress) {
+    throw new OrderError("InvalidExtensionData", `recipient is not a non-zero address: ${extension.recipient}`);
+  }
+  if (extension.salt === zeroHash) throw new OrderError("InvalidExtensionData", "salt is zero");
+  if (extension.timeoutDuration === 0n || extension.timeoutDuration > MAX_TIMEOUT_DURATION) {
+    throw new OrderError(
+      "InvalidTimeoutDuration",
+      `timeout ${extension.timeoutDuration}s must be between 1 and ${MAX_TIMEOUT_DURATION} seconds`,
+    );
+  }
+}
+
+// Extension bytes for OneInchAdapter
+export function encodeExtension(extension: SwapExtension): Hex {
+  validateExtension(extension);
+  return encodeAbiParameters(ADAPTER_EXTENSION, [
+    extension.hashlock,
+    extension.recipient,
+    extension.timeoutDuration,
+    extension.destinationChainId,
+    extension.salt,
+  ]);
+}
+
+// Offline OneInchAdapter.decodeExtension; also rejects timeouts the adapter would refuse at fill time
+export function decodeExtension(data: Hex): SwapExtension {
+  if (size(data) < MIN_EXTENSION_LENGTH) {
+    throw new OrderError(
+      "InvalidExtensionData",
+      `extension is ${size(data)} bytes, expected at least ${MIN_EXTENSION_LENGTH}`,
+    );
+  }
+  const [hashlock, recipient, timeoutDuration, destinationChainId, salt] = decodeAbiParameters(
+    ADAPTER_EXTENSION,
+    data,
+  );
+  const extension = { hashlock, recipient, timeoutDuration, destinationChainId, salt };
+  validateExtension(extension);
+  return extension;
+}
+
+// Extension for the limit order protocol: the adapter address followed by the adapter extension
+export function postInteractionExtension(adapter: Address, extension: SwapExtension): Hex {
+  return concat([adapter, encodeExtension(extension)]);
+}
+
+// Extension bytes for SimpleEscrowFactory.createEscrowFrom1inchOrder (no destination chain ID)
+export function encodeFactoryExtension(extension: Omit<SwapExtension, "destinationChainId">): Hex {
+  validateExtension(extension);
+  return encodeAbiParameters(FACTORY_EXTENSION, [
+    extension.hashlock,
+    extension.recipient,
+    extension.timeoutDuration,
+    extension.salt,
+  ]);
+}
+
+// keccak256(abi.encode(order)), the orderHash in SimpleEscrowFactory's EscrowCreatedFrom1inch
+export function orderHash(order: LimitOrder): Hash {
+  return keccak256(encodeAbiParameters([{ type: "tuple", components: ORDER_COMPONENTS }], [order]));
+}
+
+export function orderDomain(chainId: number, limitOrderProtocol: Address): OrderDomain {
+  return { ...LIMIT_ORDER_DOMAIN, chainId, verifyingContract: limitOrderProtocol };
+}
+
+export function orderTypedData(order: LimitOrder, domain: OrderDomain) {
+  return { domain, types: ORDER_TYPES, primaryType: "Order", message: order } as const;
+}
+
+// EIP-712 signature by the maker (the signer's account must be the order's maker)
+export async function signOrder(signer: SignerClient, order: LimitOrder, domain: OrderDomain): Promise<Hex> {
+  if (!isAddressEqual(signer.account.address, order.maker)) {
+    throw new OrderError("OrderValidationFailed", `signer ${signer.account.address} is not the maker ${order.maker}`);
+  }
+  return await signer.signTypedData({ account: signer.account as Account, ...orderTypedData(order, domain) });
+}
+
+export function recoverOrderSigner(order: LimitOrder, domain: OrderDomain, signature: Hex): Promise<Address> {
+  return recoverTypedDataAddress({ ...orderTypedData(order, domain), signature });
+}
@@ -0,0 +1,167 @@
+// Swap planning and timelock safety
+// The responder's destination escrow must expire strictly before the initiator's source escrow:
+// once the initiator reveals the preimage at the last moment on destination, the responder still
+// needs time to see it and claim on source. The gap is derived from block times, confirmation
+// depth and expected latency, and both parties check the counterparty escrow before acting.
+
+import { type Hex, isAddressEqual } from "viem";
+import type { EscrowDetails } from "./escrow.ts";
+import type { LegName, SwapLeg } from "./orchestrator.ts";
+import {
+  assertCompatibleSchemes,
+  CONTRACT_HASHLOCK_SCHEMES,
+  type HashlockContract,
+  type HashlockScheme,
+  verifyPreimage,
+} from "./secrets.ts";
+import { TokenAmount } from "./tokens.ts";
+
+export interface ChainTiming {
+  blockTime: number; // average seconds per block
+  confirmations: number; // blocks to wait before treating a transaction as final
+}
+
+// All values in seconds
+export interface TimelockPolicy {
+  revealWindow: number; // time the initiator has to reveal once the responder's lock is final
+  claimWindow: number; // time the responder has to claim once the reveal is final
+  safetyMargin: number; // added to each window for clock drift and congestion
+  latency: number; // expected time to get a transaction submitted and mined
+}
+
+export type PlanViolation =
+  | "timelock"
+  | "token"
+  | "amount"
+  | "sender"
+  | "recipient"
+  | "hashlock"
+  | "unfunded";
+
+export class SwapPlanError extends Error {
+  constructor(
+    readonly leg: LegName,
+    readonly violation: PlanViolation,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SwapPlanError";
+  }
+}
+
+export const DEFAULT_CHAIN_TIMING: ChainTiming = { blockTime: 12, confirmations: 2 };
+
+export const DEFAULT_TIMELOCK_POLICY: TimelockPolicy = {
+  revealWindow: 1800,
+  claimWindow: 1800,
+  safetyMargin: 600,
+  latency: 60,
+};
+
+// Chains without explicit timing use DEFAULT_CHAIN_TIMING
+export type SwapTiming = Partial<Record<LegName, ChainTiming>>;
+
+function legTiming(timing: SwapTiming, leg: LegName): ChainTiming {
+  return timing[leg] ?? DEFAULT_CHAIN_TIMING;
+}
+
+// Seconds until a transaction on `chain` is final
+export function finality(chain: ChainTiming): number {
+  return Math.ceil(chain.blockTime * chain.confirmations);
+}
+
+// Smallest safe `source.timelock - destination.timelock`: the responder sees a last-moment reveal
+// on destination, then gets a transaction final on source within the claim window
+export function minimumTimelockGap(
+  timing: SwapTiming = {},
+  policy: TimelockPolicy = DEFAULT_TIMELOCK_POLICY,
+): bigint {
+  const source = finality(legTiming(timing, "source"));
+  const destination = finality(legTiming(timing, "destination"));
+  return BigInt(destination + policy.latency + source + policy.claimWindow + policy.safetyMargin);
+}
+
+// Timelocks for a swap starting at `now` (unix seconds). Destination covers the source lock becoming
+// final, the responder locking, and the reveal window; source adds the minimum gap on top.
+export function planTimelocks(
+  now: bigint,
+  timing: SwapTiming = {},
+  policy: TimelockPolicy = DEFAULT_TIMELOCK_POLICY,
+): Record<LegName, bigint> {
+  const source = finality(legTiming(timing, "source"));
+  const destination = now +
+    BigInt(source + policy.latency + finality(legTiming(timing, "destination")) + policy.revealWindow + policy.safetyMargin);
+  return { source: destination + minimumTimelockGap(timing, policy), destination };
+}
+
+// Refuse a plan whose legs would let the initiator reveal too late for the responder to claim
+export function assertSafeTimelocks(
+  legs: Record<LegName, SwapLeg>,
+  timing: SwapTiming = {},
+  policy: TimelockPolicy = DEFAULT_TIMELOCK_POLICY,
+): void {
+  const gap = legs.source.escrow.timelock - legs.destination.escrow.timelock;
+  const required = minimumTimelockGap(timing, policy);
+  if (gap < required) {
+    throw new SwapPlanError(
+      "source",
+      "timelock",
+      `Source timelock must exceed destination timelock by at least ${required}s (got ${gap}s)`,
+    );
+  }
+}
+
+// Both escrow legs must share a hashlock that SimpleEscrow can unlock with the swap's preimage.
+// A sha256 payment hash (Lightning scheme) would lock funds that no preimage can release.
+export function assertHashlocks(legs: Record<LegName, SwapLeg>, preimage?: Hex): void {
+  const { hashlock } = legs.source.escrow;
+  if (legs.destination.escrow.hashlock.toLowerCase() !== hashlock.toLowerCase()) {
+    throw new SwapPlanError("destination", "hashlock", "Source and destination escrows use different hashlocks");
+  }
+  if (!preimage || verifyPreimage(CONTRACT_HASHLOCK_SCHEMES.SimpleEscrow, preimage, hashlock)) return;
+  const hint = verifyPreimage(CONTRACT_HASHLOCK_SCHEMES.LightningBridge, preimage, hashlock)
+    ? " (it is the sha256 Lightning payment hash; SimpleEscrow checks keccak256(abi.encode(preimage)))"
+    : "";
+  throw new SwapPlanError("source", "hashlock", `Preimage does not match the escrow hashlock${hint}`);
+}
+
+// Scheme the contract holding a leg checks preimages with
+export function legScheme(leg: { contract?: HashlockContract }): HashlockScheme {
+  return CONTRACT_HASHLOCK_SCHEMES[leg.contract ?? "SimpleEscrow"];
+}
+
+// Refuse legs held by contracts that hash the preimage differently, e.g. a SimpleEscrow (keccak256)
+// against a LightningBridge (sha256): no hashlock fits both, so one reveal cannot release both legs.
+// Throws HashlockSchemeError.
+export function assertRouteSchemes(legs: Record<LegName, { chainId: number; contract?: HashlockContract }>): void {
+  assertCompatibleSchemes((["source", "destination"] as const).map((leg) => ({
+    name: `${leg} ${legs[leg].contract ?? "SimpleEscrow"} on chain ${legs[leg].chainId}`,
+    scheme: legScheme(legs[leg]),
+  })));
+}
+
+// Base units to fund a leg with; throws TokenError if the amount is of another token than the escrow's
+export function legAmount(leg: SwapLeg): bigint {
+  return leg.amount.toRaw({ ...leg.amount.token, chainId: leg.chainId, address: leg.escrow.token });
+}
+
+// Check an escrow read from chain against the leg we planned before acting on it
+export function verifyLeg(leg: LegName, planned: SwapLeg, details: EscrowDetails): void {
+  const expected = planned.escrow;
+  const fail = (violation: PlanViolation, what: string, want: unknown, got: unknown) => {
+    throw new SwapPlanError(leg, violation, `${leg} escrow ${what} is ${got}, expected ${want}`);
+  };
+  if (!details.funded) fail("unfunded", "funding", "funded", "unfunded");
+  if (!isAddressEqual(details.token, expected.token)) fail("token", "token", expected.token, details.token);
+  if (details.amount < legAmount(planned)) {
+    fail("amount", "amount", planned.amount, TokenAmount.fromRaw(planned.amount.token, details.amount));
+  }
+  if (!isAddressEqual(details.sender, expected.sender)) fail("sender", "sender", expected.sender, details.sender);
+  if (!isAddressEqual(details.recipient, expected.recipient)) {
+    fail("recipient", "recipient", expected.recipient, details.recipient);
+  }
+  if (details.hashlock.toLowerCase() !== expected.hashlock.toLowerCase()) {
+    fail("hashlock", "hashlock", expected.hashlock, details.hashlock);
+  }
+  if (details.timelock !== expected.timelock) fail("timelock", "timelock", expected.timelock, details.timelock);
+}
@@ -0,0 +1,177 @@
+// Chain registry
+// Every chain the tooling can swap on, keyed by chain ID: its viem `Chain`, RPC URL, deployed
+// factory/adapter/bridge and known tokens. Swaps pick any two registered chains instead of a
+// fixed Base/Etherlink pair.
+
+import {
+  type Account,
+  type Address,
+  type Chain,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  isAddressEqual,
+  type PublicClient,
+} from "viem";
+import type { SignerClient } from "./escrow.ts";
+import { isAnvilAccount } from "./signers.ts";
+import { type Token, TokenRegistry } from "./tokens.ts";
+import { TransactionManager } from "./transactions.ts";
+
+export interface TokenInfo {
+  symbol: string;
+  address: Address;
+  decimals: number;
+}
+
+export interface ChainContracts {
+  factory?: Address; // SimpleEscrowFactory
+  adapter?: Address; // OneInchAdapter
+  bridge?: Address; // LightningBridge
+}
+
+export interface ChainEntry {
+  key: string; // short name used in deployment files and env vars, e.g. "base"
+  chain: Chain; // rpcUrls.default points at `rpcUrl`
+  rpcUrl: string;
+  contracts: ChainContracts;
+  tokens: TokenInfo[]; // getRegistry() reads symbols and decimals from the contracts
+  anvil?: boolean; // an Anvil node serving a public chain ID, e.g. start-chains.sh's Base on 8453; see confirmAnvil
+}
+
+// `chain` with its ID and default RPC replaced, e.g. a public chain definition run on a local Anvil
+export function withRpc(chain: Chain, rpcUrl: string, chainId = chain.id): Chain {
+  return defineChain({ ...chain, id: chainId, rpcUrls: { default: { http: [rpcUrl] } } });
+}
+
+// Chain IDs only development nodes use (Anvil/Hardhat, Ganache/geth --dev)
+const DEV_CHAIN_IDS = [31337, 1337];
+
+// Whether `entry` is a development chain: a dev chain ID, or an entry explicitly marked `anvil`
+// (getRegistry() confirms the mark with confirmAnvil).
+// The RPC host says nothing: a loopback URL may tunnel to a real chain.
+export function isLocalChain(entry: Pick<ChainEntry, "chain" | "anvil">): boolean {
+  return DEV_CHAIN_IDS.includes(entry.chain.id) || entry.anvil === true;
+}
+
+// Check that the node of an entry marked `anvil` is Anvil (web3_clientVersion "anvil/v1.0.0"), so a
+// flag copied into a config pointing at the real chain cannot let the public Anvil keys sign there
+export async function confirmAnvil(entry: ChainEntry, client: PublicClient): Promise<void> {
+  if (!entry.anvil) return;
+  const version = await client.request({ method: "web3_clientVersion" }).catch(() => undefined);
+  if (!version?.startsWith("anvil/")) {
+    throw new Error(
+      `${entry.key} (chain ${entry.chain.id}) is marked as Anvil but ${entry.rpcUrl} reports ` +
+        `${version === undefined ? "no client version" : `"${version}"`}`,
+    );
+  }
+}
+
+// Minimal definition for a chain viem does not know about
+export function customChain(chainId: number, name: string, rpcUrl: string): Chain {
+  return defineChain({
+    id: chainId,
+    name,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+}
+
+export class ChainRegistry {
+  private readonly entries = new Map<number, ChainEntry>();
+  private readonly tokenRegistries = new Map<number, TokenRegistry>();
+
+  // Wallet clients from walletClient() send through `transactions`, so sends from one account on
+  // one chain share a nonce sequence however many clients are created for it
+  constructor(entries: ChainEntry[] = [], readonly transactions = new TransactionManager()) {
+    for (const entry of entries) this.register(entry);
+  }
+
+  // Add a chain, replacing any entry with the same chain ID
+  register(entry: ChainEntry): void {
+    this.entries.set(entry.chain.id, entry);
+    this.tokenRegistries.delete(entry.chain.id);
+  }
+
+  has(chainId: number): boolean {
+    return this.entries.has(chainId);
+  }
+
+  find(chainId: number): ChainEntry | undefined {
+    return this.entries.get(chainId);
+  }
+
+  get(chainId: number): ChainEntry {
+    const entry = this.entries.get(chainId);
+    if (!entry) {
+      throw new Error(`Chain ${chainId} is not registered (known: ${this.chainIds().join(", ") || "none"})`);
+    }
+    return entry;
+  }
+
+  byKey(key: string): ChainEntry | undefined {
+    return this.list().find((entry) => entry.key === key);
+  }
+
+  list(): ChainEntry[] {
+    return [...this.entries.values()];
+  }
+
+  chainIds(): number[] {
+    return [...this.entries.keys()];
+  }
+
+  rpcUrl(chainId: number): string {
+    return this.get(chainId).rpcUrl;
+  }
+
+  factory(chainId: number): Address {
+    const { factory } = this.get(chainId).contracts;
+    if (!factory) {
+      throw new Error(`No SimpleEscrowFactory registered on chain ${chainId}. Please run deployment script first.`);
+    }
+    return factory;
+  }
+
+  // Registered token by symbol (case-insensitive) or address
+  token(chainId: number, symbolOrAddress: string): Token {
+    const { tokens } = this.get(chainId);
+    const token = symbolOrAddress.startsWith("0x")
+      ? tokens.find((t) => isAddressEqual(t.address, symbolOrAddress as Address))
+      : tokens.find((t) => t.symbol.toLowerCase() === symbolOrAddress.toLowerCase());
+    if (!token) {
+      throw new Error(`Token ${symbolOrAddress} is not registered on chain ${chainId}`);
+    }
+    return { ...token, chainId };
+  }
+
+  // Token registry of `chainId`, seeded with its registered tokens; resolves any other ERC20 from chain
+  tokens(chainId: number): TokenRegistry {
+    let tokens = this.tokenRegistries.get(chainId);
+    if (!tokens) {
+      tokens = new TokenRegistry(chainId, this.publicClient(chainId), this.get(chainId).tokens);
+      this.tokenRegistries.set(chainId, tokens);
+    }
+    return tokens;
+  }
+
+  publicClient(chainId: number): PublicClient {
+    const { chain, rpcUrl } = this.get(chainId);
+    return createPublicClient({ chain, transport: http(rpcUrl) });
+  }
+
+  // Refuses the well-known Anvil accounts anywhere but a local chain: their keys are public
+  walletClient(chainId: number, account: Account): SignerClient {
+    const entry = this.get(chainId);
+    if (isAnvilAccount(account.address) && !isLocalChain(entry)) {
+      throw new Error(
+        `Refusing to sign on chain ${chainId} (${entry.rpcUrl}) with the default Anvil account ${account.address}. ` +
+          "Configure a keystore or remote signer for this role.",
+      );
+    }
+    const { chain, rpcUrl } = entry;
+    const wallet = createWalletClient({ account, chain, transport: http(rpcUrl) });
+    return this.transactions.attach(wallet, this.publicClient(chainId));
+  }
+}
@@ -0,0 +1,254 @@
+// Secret-reveal relayer
+// Tracks escrows our account is party to (via EscrowWatcher, or seeded with track()), watches
+// EscrowWithdrawn on the ones we funded and, as soon as a counterparty reveals the preimage there,
+// claims our escrow with the same hashlock on the other chain before its timelock.
+
+import { type Address, type Hash, type Hex, isAddressEqual, type PublicClient } from "viem";
+import { SimpleEscrowAbi } from "../abis/index.ts";
+import { EscrowClient, type SignerClient } from "./escrow.ts";
+import { verifyPreimage } from "./secrets.ts";
+import { TransactionManager } from "./transactions.ts";
+import type { EscrowCreatedEvent, EscrowWatcher } from "./watcher.ts";
+
+export interface RelayerChain {
+  chainId: number;
+  client: PublicClient;
+  signer: SignerClient; // must be `party`, sending through `transactions` so stuck claims are sped up
+}
+
+export interface RelayerOptions {
+  party: Address;
+  pollInterval?: number;
+  transactions?: TransactionManager; // the manager the chains' signers send through
+}
+
+// Anything identifying an escrow we may be party to; EscrowCreatedEvent and journaled legs both fit.
+// Without `blockNumber` the escrow is read once for a preimage revealed before it was tracked.
+export interface RelayedEscrow {
+  chainId: number;
+  escrow: Address;
+  sender: Address;
+  recipient: Address;
+  hashlock: Hex;
+  timelock: bigint;
+  blockNumber?: bigint; // block the escrow was created in
+}
+
+export interface ClaimResult {
+  hashlock: Hex;
+  chainId: number;
+  escrow: Address;
+  hash: Hash; // the mined claim, after any speed-up
+}
+
+export interface MissedClaim {
+  hashlock: Hex;
+  chainId: number;
+  escrow: Address;
+  reason: string;
+}
+
+export interface RelayerEvents {
+  revealed: { hashlock: Hex; preimage: Hex; chainId: number; escrow: Address };
+  claimed: ClaimResult;
+  missed: MissedClaim;
+  error: { chainId: number; error: unknown };
+}
+
+type Listener<T> = (event: T) => void | Promise<void>;
+
+interface TrackedEscrow {
+  event: RelayedEscrow;
+  scannedTo?: bigint; // last block searched for EscrowWithdrawn; unset until the escrow was read
+}
+
+const DEFAULT_POLL_INTERVAL = 2000;
+
+export class SecretRelayer {
+  private readonly chains: Map<number, RelayerChain>;
+  private readonly pollInterval: number;
+  private readonly transactions: TransactionManager;
+  private readonly funded = new Map<string, TrackedEscrow>(); // we are sender: watch for reveals
+  private readonly claimable = new Map<string, RelayedEscrow>(); // we are recipient: claim these
+  private readonly preimages = new Map<string, Hex>(); // revealed, keyed by lowercase hashlock
+  private readonly claimed = new Set<string>(); // claims with a successful receipt
+  private readonly missed = new Map<string, MissedClaim>(); // given up on; never retried
+  private readonly listeners: { [K in keyof RelayerEvents]: Set<Listener<RelayerEvents[K]>> } = {
+    revealed: new Set(),
+    claimed: new Set(),
+    missed: new Set(),
+    error: new Set(),
+  };
+  private readonly unsubscribe: () => void;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(
+    private readonly watcher: EscrowWatcher,
+    chains: RelayerChain[],
+    private readonly options: RelayerOptions,
+  ) {
+    this.chains = new Map(chains.map((chain) => [chain.chainId, chain]));
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.transactions = options.transactions ?? new TransactionManager();
+    this.unsubscribe = watcher.on("escrowCreated", (event: EscrowCreatedEvent) => this.track(event));
+  }
+
+  on<K extends keyof RelayerEvents>(type: K, listener: Listener<RelayerEvents[K]>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.listeners[type].delete(listener);
+  }
+
+  // Register an escrow directly, e.g. a journaled leg created before the watcher's start block
+  track(event: RelayedEscrow): void {
+    const key = this.key(event);
+    if (isAddressEqual(event.sender, this.options.party) && !this.funded.has(key)) {
+      this.funded.set(key, {
+        event,
+        scannedTo: event.blockNumber !== undefined ? event.blockNumber - 1n : undefined,
+      });
+    }
+    if (isAddressEqual(event.recipient, this.options.party)) {
+      this.claimable.set(key, event);
+    }
+  }
+
+  // Poll the watcher for new escrows, scan our funded escrows for reveals and claim what we can.
+  // Claims that failed, reverted or were dropped are retried on the next poll.
+  async poll(): Promise<void> {
+    await this.watcher.poll();
+    for (const chain of this.chains.values()) {
+      try {
+        await this.scanChain(chain);
+      } catch (error) {
+        await this.emit("error", { chainId: chain.chainId, error });
+      }
+    }
+    await this.claimRevealed();
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.poll();
+      if (this.running) {
+        this.timer = setTimeout(loop, this.pollInterval);
+      }
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.unsubscribe();
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async scanChain(chain: RelayerChain): Promise<void> {
+    const tracked = [...this.funded.values()].filter((t) => t.event.chainId === chain.chainId);
+    if (tracked.length === 0) return;
+
+    // Reveals are acted on at once: a valid preimage stays valid even if its block is reorged out
+    const head = await chain.client.getBlockNumber();
+
+    // Escrows of unknown age may have been withdrawn while nobody watched; the preimage is in storage.
+    // One that cannot be read yet (e.g. a journaled leg that was never deployed) is retried on the
+    // next poll without holding up the others.
+    for (const t of tracked.filter((t) => t.scannedTo === undefined)) {
+      try {
+        const details = await new EscrowClient(t.event.escrow, chain.client).getDetails();
+        t.scannedTo = head;
+        if (details.withdrawn) await this.reveal(chain.chainId, t.event, details.preimage);
+      } catch (error) {
+        await this.emit("error", { chainId: chain.chainId, error });
+      }
+    }
+
+    const scanning = tracked.filter((t) => t.scannedTo !== undefined && this.funded.has(this.key(t.event)));
+    if (scanning.length === 0) return;
+    const fromBlock = scanning.reduce((min, t) => t.scannedTo! < min ? t.scannedTo! : min, head) + 1n;
+    if (fromBlock > head) return;
+
+    const logs = await chain.client.getContractEvents({
+      address: scanning.map((t) => t.event.escrow),
+      abi: SimpleEscrowAbi,
+      eventName: "EscrowWithdrawn",
+      fromBlock,
+      toBlock: head,
+    });
+    for (const t of scanning) t.scannedTo = head;
+
+    for (const log of logs) {
+      const source = scanning.find((t) => isAddressEqual(t.event.escrow, log.address));
+      const preimage = log.args.preimage;
+      if (!source || !preimage) continue;
+      await this.reveal(chain.chainId, source.event, preimage);
+    }
+  }
+
+  private async reveal(chainId: number, escrow: RelayedEscrow, preimage: Hex): Promise<void> {
+    await this.emit("revealed", { hashlock: escrow.hashlock, preimage, chainId, escrow: escrow.escrow });
+    this.funded.delete(this.key(escrow));
+    if (verifyPreimage("keccak256", preimage, escrow.hashlock)) {
+      this.preimages.set(escrow.hashlock.toLowerCase(), preimage);
+    }
+  }
+
+  // Withdraw every escrow we can claim with a revealed preimage
+  private async claimRevealed(): Promise<void> {
+    for (const [key, escrow] of this.claimable) {
+      const preimage = this.preimages.get(escrow.hashlock.toLowerCase());
+      if (!preimage || this.claimed.has(key) || this.missed.has(key)) continue;
+      const chain = this.chains.get(escrow.chainId);
+      if (!chain) {
+        await this.miss(escrow, `No signer configured for chain ${escrow.chainId}`);
+        continue;
+      }
+      try {
+        const block = await chain.client.getBlock();
+        if (block.timestamp >= escrow.timelock) {
+          await this.miss(
+            escrow,
+            `Preimage was revealed but the timelock ${escrow.timelock} had passed (chain time ${block.timestamp})`,
+          );
+          continue;
+        }
+        const client = new EscrowClient(escrow.escrow, chain.client, chain.signer);
+        if (!(await client.canWithdraw())) {
+          await this.miss(escrow, "Escrow is not withdrawable (unfunded or already closed)");
+          continue;
+        }
+        const { hash } = await this.transactions.confirm(chain.client, await client.withdraw(preimage), "withdraw");
+        this.claimed.add(key);
+        await this.emit("claimed", {
+          hashlock: escrow.hashlock,
+          chainId: escrow.chainId,
+          escrow: escrow.escrow,
+          hash,
+        });
+      } catch (error) {
+        await this.emit("error", { chainId: escrow.chainId, error });
+      }
+    }
+  }
+
+  private async miss(escrow: RelayedEscrow, reason: string): Promise<void> {
+    const missed = { hashlock: escrow.hashlock, chainId: escrow.chainId, escrow: escrow.escrow, reason };
+    this.missed.set(this.key(escrow), missed);
+    await this.emit("missed", missed);
+  }
+
+  private key(escrow: { chainId: number; escrow: Address }): string {
+    return `${escrow.chainId}:${escrow.escrow.toLowerCase()}`;
+  }
+
+  private async emit<K extends keyof RelayerEvents>(type: K, event: RelayerEvents[K]): Promise<void> {
+    for (const listener of this.listeners[type]) {
+      await listener(event);
+    }
+  }
+}
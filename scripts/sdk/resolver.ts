@@ -0,0 +1,450 @@
+// Lightning bridge resolver
+// Watches LightningBridge for EVMToLightningInitiated and LightningToEVMInitiated and settles both
+// directions through a LightningBackend:
+// - EVM→Lightning: once the initiator's escrow is funded and their invoice submitted, records the
+//   invoice on the bridge, releases the escrow into the bridge, pays the invoice, confirms the
+//   payment with the revealed preimage and withdraws the released tokens to the resolver.
+// - Lightning→EVM: the resolver issues the invoice and registers the swap (openIncoming); once the
+//   invoice is paid, confirms the payment (the bridge then creates the recipient's escrow) and funds
+//   that escrow.
+// Every step is re-derived from the bridge's swap state on each poll, so a restarted resolver
+// picks up where it stopped; a paid invoice is found again through LightningBackend.lookupPayment.
+
+import { type Address, type Hash, type Hex, isAddressEqual, type PublicClient } from "viem";
+import { LightningBridgeAbi } from "../abis/index.ts";
+import {
+  BRIDGE_SWAP_DIRECTION,
+  BRIDGE_SWAP_STATE,
+  BridgeClient,
+  type BridgeSwap,
+  InvoiceValidationError,
+} from "./bridge.ts";
+import { TokenClient } from "./erc20.ts";
+import { EscrowClient, type SignerClient } from "./escrow.ts";
+import {
+  type LightningBackend,
+  LightningError,
+  type LightningInvoice,
+  type LightningPayment,
+  PERMANENT_PAYMENT_ERRORS,
+} from "./lightning.ts";
+import { escrowHashlock, verifyPreimage } from "./secrets.ts";
+import { TransactionManager } from "./transactions.ts";
+
+export interface ResolverChain {
+  chainId: number;
+  client: PublicClient;
+  signer: SignerClient; // must be the bridge's resolver
+  bridge: Address;
+}
+
+export interface ResolverOptions {
+  pollInterval?: number;
+  fromBlock?: bigint; // first block scanned for bridge events, default the head at the first poll
+  minTimeLeft?: bigint; // seconds before a swap's timelock after which no payment is started
+  maxFeeSats?: bigint;
+  invoiceExpiry?: number; // seconds issued invoices stay payable, default 1800
+  // Pricing policy, asked once per swap before any funds move; accepts every swap by default
+  accept?: (swap: ResolverSwap) => boolean | Promise<boolean>;
+  transactions?: TransactionManager; // the manager the chains' wallets send through
+}
+
+// A Lightning→EVM swap the resolver offers: the user pays `satoshiAmount` over Lightning and
+// `recipient` receives `amount` of `token` on `chainId`
+export interface IncomingOffer {
+  chainId: number;
+  satoshiAmount: bigint;
+  token: Address;
+  amount: bigint;
+  recipient: Address;
+  description?: string;
+}
+
+export type ResolverDirection = keyof typeof BRIDGE_SWAP_DIRECTION;
+
+export interface ResolverSwap {
+  chainId: number;
+  direction: ResolverDirection;
+  paymentHash: Hex;
+  initiator: Address;
+  recipient: Address; // zero for EVM→Lightning swaps
+  token: Address;
+  evmAmount: bigint;
+  satoshiAmount: bigint;
+  timelock: bigint;
+  escrow?: Address; // Lightning→EVM escrows exist once the payment is confirmed
+  invoice?: string;
+}
+
+export interface ResolverEvents {
+  detected: ResolverSwap;
+  invoiceSet: { swap: ResolverSwap; hash: Hash };
+  released: { swap: ResolverSwap; hash: Hash }; // EVM→Lightning escrow moved into bridge custody
+  paid: { swap: ResolverSwap; payment: LightningPayment };
+  confirmed: { swap: ResolverSwap; hash: Hash };
+  // EVM→Lightning: tokens withdrawn to the resolver; Lightning→EVM: recipient's escrow funded
+  completed: { swap: ResolverSwap; hash?: Hash };
+  rejected: { swap: ResolverSwap; reason: string };
+  error: { chainId: number; paymentHash?: Hex; error: unknown };
+}
+
+type Listener<T> = (event: T) => void | Promise<void>;
+
+interface TrackedSwap {
+  swap: ResolverSwap;
+  accepted: boolean;
+}
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_MIN_TIME_LEFT = 600n;
+// Well inside the bridge's default swap timeout, so the invoice expires before the swap it funds
+const DEFAULT_INVOICE_EXPIRY = 1800;
+const UNFUNDED = "unfunded";
+
+export class LightningResolver {
+  private readonly chains: Map<number, ResolverChain>;
+  private readonly pollInterval: number;
+  private readonly minTimeLeft: bigint;
+  private readonly transactions: TransactionManager;
+  private readonly scannedTo = new Map<number, bigint>();
+  private readonly swaps = new Map<string, TrackedSwap>(); // keyed by chain and lowercase payment hash
+  private readonly finished = new Set<string>();
+  private readonly invoices = new Map<string, LightningInvoice>(); // submitted by initiators
+  private readonly listeners: { [K in keyof ResolverEvents]: Set<Listener<ResolverEvents[K]>> } = {
+    detected: new Set(),
+    invoiceSet: new Set(),
+    released: new Set(),
+    paid: new Set(),
+    confirmed: new Set(),
+    completed: new Set(),
+    rejected: new Set(),
+    error: new Set(),
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(
+    private readonly backend: LightningBackend,
+    chains: ResolverChain[],
+    private readonly options: ResolverOptions = {},
+  ) {
+    this.chains = new Map(chains.map((chain) => [chain.chainId, chain]));
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.minTimeLeft = options.minTimeLeft ?? DEFAULT_MIN_TIME_LEFT;
+    this.transactions = options.transactions ?? new TransactionManager();
+  }
+
+  on<K extends keyof ResolverEvents>(type: K, listener: Listener<ResolverEvents[K]>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.listeners[type].delete(listener);
+  }
+
+  // Invoice for a Lightning→EVM swap; only the resolver can register it on the bridge
+  issueInvoice(amountSats: bigint, description?: string): Promise<LightningInvoice> {
+    const expirySeconds = this.options.invoiceExpiry ?? DEFAULT_INVOICE_EXPIRY;
+    return this.backend.createInvoice({ amountSats, description, expirySeconds });
+  }
+
+  // Issue the invoice for a Lightning→EVM swap and register the swap on the bridge; the user pays
+  // the returned invoice. The invoice is canceled if the swap cannot be registered.
+  async openIncoming(offer: IncomingOffer): Promise<LightningInvoice> {
+    const chain = this.chains.get(offer.chainId);
+    if (!chain) throw new Error(`No LightningBridge configured for chain ${offer.chainId}`);
+    const invoice = await this.issueInvoice(offer.satoshiAmount, offer.description);
+    try {
+      const bridge = new BridgeClient(chain.bridge, chain.client, chain.signer);
+      const hash = await bridge.initiateLightningToEVM({
+        invoice: invoice.paymentRequest,
+        paymentHash: invoice.paymentHash,
+        satoshiAmount: offer.satoshiAmount,
+        token: offer.token,
+        amount: offer.amount,
+        recipient: offer.recipient,
+      });
+      await this.confirm(chain.client, hash, "initiateLightningToEVM");
+    } catch (error) {
+      await this.backend.cancelInvoice(invoice.paymentHash);
+      throw error;
+    }
+    return invoice;
+  }
+
+  // Invoice an EVM→Lightning initiator wants paid; it is matched to the swap by payment hash
+  async submitInvoice(paymentRequest: string): Promise<LightningInvoice> {
+    const invoice = await this.backend.decodeInvoice(paymentRequest);
+    this.invoices.set(invoice.paymentHash.toLowerCase(), invoice);
+    return invoice;
+  }
+
+  // Swaps still being worked on
+  pending(): ResolverSwap[] {
+    return [...this.swaps.values()].map((tracked) => ({ ...tracked.swap }));
+  }
+
+  // Scan every bridge for new swaps and advance each open swap as far as it can go.
+  // Failed steps are retried on the next poll.
+  async poll(): Promise<void> {
+    for (const chain of this.chains.values()) {
+      try {
+        await this.scanChain(chain);
+      } catch (error) {
+        await this.emit("error", { chainId: chain.chainId, error });
+      }
+    }
+    for (const [key, tracked] of this.swaps) {
+      try {
+        await this.advance(key, tracked);
+      } catch (error) {
+        await this.emit("error", { chainId: tracked.swap.chainId, paymentHash: tracked.swap.paymentHash, error });
+      }
+    }
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.poll();
+      if (this.running) {
+        this.timer = setTimeout(loop, this.pollInterval);
+      }
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async scanChain(chain: ResolverChain): Promise<void> {
+    const head = await chain.client.getBlockNumber();
+    const fromBlock = (this.scannedTo.get(chain.chainId) ?? (this.options.fromBlock ?? head) - 1n) + 1n;
+    if (fromBlock > head) return;
+
+    const range = { address: chain.bridge, abi: LightningBridgeAbi, fromBlock, toBlock: head } as const;
+    const [outgoing, incoming] = await Promise.all([
+      chain.client.getContractEvents({ ...range, eventName: "EVMToLightningInitiated" }),
+      chain.client.getContractEvents({ ...range, eventName: "LightningToEVMInitiated" }),
+    ]);
+    const paymentHashes = [...outgoing, ...incoming]
+      .sort((a, b) => Number((a.blockNumber ?? 0n) - (b.blockNumber ?? 0n)) || (a.logIndex ?? 0) - (b.logIndex ?? 0))
+      .map((log) => log.args.paymentHash)
+      .filter((hash): hash is Hex => hash !== undefined);
+
+    const bridge = new BridgeClient(chain.bridge, chain.client);
+    for (const paymentHash of paymentHashes) {
+      const key = `${chain.chainId}:${paymentHash.toLowerCase()}`;
+      if (this.swaps.has(key) || this.finished.has(key)) continue;
+      const swap = toResolverSwap(chain.chainId, paymentHash, await bridge.getSwap(paymentHash));
+      this.swaps.set(key, { swap, accepted: false });
+      await this.emit("detected", { ...swap });
+    }
+    this.scannedTo.set(chain.chainId, head);
+  }
+
+  private async advance(key: string, tracked: TrackedSwap): Promise<void> {
+    const { swap } = tracked;
+    const chain = this.chains.get(swap.chainId)!;
+    const bridge = new BridgeClient(chain.bridge, chain.client, chain.signer);
+    const onChain = await bridge.getSwap(swap.paymentHash);
+
+    if (onChain.state === BRIDGE_SWAP_STATE.Expired) {
+      return this.reject(key, "Swap expired on the bridge");
+    }
+    if (onChain.state === BRIDGE_SWAP_STATE.Completed) {
+      return this.finish(key, "completed", { swap: { ...swap } });
+    }
+    if (swap.direction === "EVMToLightning") {
+      await this.advanceOutgoing(key, tracked, bridge, onChain);
+    } else {
+      await this.advanceIncoming(key, tracked, bridge, onChain);
+    }
+  }
+
+  // EVM→Lightning: release the escrow into the bridge, pay the initiator's invoice, confirm, withdraw
+  // the released tokens
+  private async advanceOutgoing(key: string, tracked: TrackedSwap, bridge: BridgeClient, onChain: BridgeSwap) {
+    const { swap } = tracked;
+    if (onChain.state === BRIDGE_SWAP_STATE.Initiated) {
+      let payment = await this.backend.lookupPayment(swap.paymentHash);
+      if (!payment) {
+        const block = await bridge.publicClient.getBlock();
+        if (swap.timelock - block.timestamp < this.minTimeLeft) {
+          return this.reject(key, "Too little time left before the swap's timelock");
+        }
+        const invoice = this.invoices.get(swap.paymentHash.toLowerCase());
+        if (!invoice) return; // waiting for the initiator's invoice
+
+        const problem = await this.checkOutgoing(swap, bridge, invoice);
+        if (problem === UNFUNDED) return;
+        if (problem) return this.reject(key, problem);
+        if (!(await this.isAccepted(tracked))) return this.reject(key, "Declined by the pricing policy");
+
+        swap.invoice = invoice.paymentRequest;
+        if (onChain.lightningInvoice !== invoice.paymentRequest) {
+          let hash: Hash;
+          try {
+            hash = await bridge.setLightningInvoice(swap.paymentHash, invoice.paymentRequest);
+          } catch (error) {
+            if (error instanceof InvoiceValidationError) return this.reject(key, error.message);
+            throw error;
+          }
+          await this.confirm(bridge.publicClient, hash, "setLightningInvoice");
+          await this.emit("invoiceSet", { swap: { ...swap }, hash });
+        }
+
+        // Until the escrow is released its sender can refund it at the timelock, even after being paid
+        // over Lightning; in the bridge the tokens reach only us or, on expiry, the initiator
+        const escrow = new EscrowClient(swap.escrow!, bridge.publicClient, bridge.walletClient);
+        if (!(await escrow.getDetails()).withdrawn) {
+          const hash = await escrow.withdraw(swap.paymentHash);
+          await this.confirm(bridge.publicClient, hash, "releaseEscrow");
+          await this.emit("released", { swap: { ...swap }, hash });
+        }
+
+        try {
+          payment = await this.backend.payInvoice(invoice.paymentRequest, { maxFeeSats: this.options.maxFeeSats });
+        } catch (error) {
+          if (error instanceof LightningError && PERMANENT_PAYMENT_ERRORS.includes(error.code)) {
+            return this.reject(key, `Lightning payment failed: ${error.message}`);
+          }
+          throw error;
+        }
+        await this.emit("paid", { swap: { ...swap }, payment });
+      }
+      if (!verifyPreimage("sha256", payment.preimage, swap.paymentHash)) {
+        throw new Error(`Payment for ${swap.paymentHash} returned a preimage that does not match`);
+      }
+      const hash = await bridge.confirmLightningPayment(swap.paymentHash, payment.preimage);
+      await this.confirm(bridge.publicClient, hash, "confirmLightningPayment");
+      await this.emit("confirmed", { swap: { ...swap }, hash });
+    }
+
+    const hash = await bridge.withdrawEVMFunds(swap.paymentHash);
+    await this.confirm(bridge.publicClient, hash, "withdrawEVMFunds");
+    await this.finish(key, "completed", { swap: { ...swap }, hash });
+  }
+
+  // Why an EVM→Lightning swap must not be paid, or UNFUNDED while its escrow waits for funds
+  private async checkOutgoing(
+    swap: ResolverSwap,
+    bridge: BridgeClient,
+    invoice: LightningInvoice,
+  ): Promise<string | undefined> {
+    if (invoice.amountSats !== swap.satoshiAmount) {
+      return `Invoice is for ${invoice.amountSats} sats, the swap for ${swap.satoshiAmount}`;
+    }
+    const escrow = await new EscrowClient(swap.escrow!, bridge.publicClient).getDetails();
+    if (
+      !isAddressEqual(escrow.recipient, bridge.address) ||
+      !isAddressEqual(escrow.token, swap.token) ||
+      escrow.hashlock !== escrowHashlock(swap.paymentHash) ||
+      escrow.timelock !== swap.timelock
+    ) {
+      return "Escrow does not match the swap";
+    }
+    if (escrow.refunded) return "Escrow was refunded";
+    if (!escrow.funded) return UNFUNDED;
+    if (escrow.amount < swap.evmAmount) {
+      return `Escrow holds ${escrow.amount}, the swap promises ${swap.evmAmount}`;
+    }
+    return undefined;
+  }
+
+  // Lightning→EVM: wait for our invoice to be paid, confirm, fund the recipient's escrow
+  private async advanceIncoming(key: string, tracked: TrackedSwap, bridge: BridgeClient, onChain: BridgeSwap) {
+    const { swap } = tracked;
+    const token = new TokenClient(swap.token, bridge.publicClient, bridge.walletClient);
+    if (onChain.state === BRIDGE_SWAP_STATE.Initiated) {
+      const status = await this.backend.lookupInvoice(swap.paymentHash);
+      if (!status || status.invoice.paymentRequest !== swap.invoice) {
+        return this.reject(key, "Invoice was not issued by this resolver");
+      }
+      if (status.state === "canceled") return this.reject(key, "Invoice was canceled");
+      if (status.invoice.amountSats !== swap.satoshiAmount) {
+        if (status.state === "open") await this.backend.cancelInvoice(swap.paymentHash);
+        return this.reject(key, `Invoice is for ${status.invoice.amountSats} sats, the swap for ${swap.satoshiAmount}`);
+      }
+      if (!(await this.isAccepted(tracked))) {
+        if (status.state === "open") await this.backend.cancelInvoice(swap.paymentHash);
+        return this.reject(key, "Declined by the pricing policy");
+      }
+
+      const block = await bridge.publicClient.getBlock();
+      if (block.timestamp >= swap.timelock) {
+        if (status.state === "open") await this.backend.cancelInvoice(swap.paymentHash);
+        return this.reject(key, "Invoice was not paid before the swap's timelock");
+      }
+      if (status.state === "open") return; // waiting for the user's payment
+
+      const balance = await token.balanceOf(bridge.walletClient!.account.address);
+      if (balance < swap.evmAmount) {
+        throw new Error(`Resolver holds ${balance} of the ${swap.evmAmount} tokens owed for ${swap.paymentHash}`);
+      }
+      const hash = await bridge.confirmLightningPayment(swap.paymentHash, status.preimage);
+      await this.confirm(bridge.publicClient, hash, "confirmLightningPayment");
+      await this.emit("confirmed", { swap: { ...swap }, hash });
+      onChain = await bridge.getSwap(swap.paymentHash);
+    }
+
+    swap.escrow = onChain.evmEscrow;
+    const escrow = new EscrowClient(onChain.evmEscrow, bridge.publicClient, bridge.walletClient);
+    if ((await escrow.getDetails()).funded) {
+      return this.finish(key, "completed", { swap: { ...swap } });
+    }
+    const approval = await token.ensureAllowance(escrow.address, swap.evmAmount);
+    if (approval) await this.confirm(bridge.publicClient, approval, "approve");
+    const hash = await escrow.fund(swap.evmAmount);
+    await this.confirm(bridge.publicClient, hash, "fund");
+    await this.finish(key, "completed", { swap: { ...swap }, hash });
+  }
+
+  private async isAccepted(tracked: TrackedSwap): Promise<boolean> {
+    if (!tracked.accepted) {
+      tracked.accepted = (await this.options.accept?.({ ...tracked.swap })) ?? true;
+    }
+    return tracked.accepted;
+  }
+
+  private async confirm(client: PublicClient, hash: Hash, step: string): Promise<void> {
+    await this.transactions.confirm(client, hash, step);
+  }
+
+  private async reject(key: string, reason: string): Promise<void> {
+    const tracked = this.swaps.get(key)!;
+    await this.finish(key, "rejected", { swap: { ...tracked.swap }, reason });
+  }
+
+  private async finish<K extends "completed" | "rejected">(key: string, type: K, event: ResolverEvents[K]) {
+    this.swaps.delete(key);
+    this.finished.add(key);
+    await this.emit(type, event);
+  }
+
+  private async emit<K extends keyof ResolverEvents>(type: K, event: ResolverEvents[K]): Promise<void> {
+    for (const listener of this.listeners[type]) {
+      await listener(event);
+    }
+  }
+}
+
+function toResolverSwap(chainId: number, paymentHash: Hex, details: BridgeSwap): ResolverSwap {
+  const outgoing = details.direction === BRIDGE_SWAP_DIRECTION.EVMToLightning;
+  return {
+    chainId,
+    direction: outgoing ? "EVMToLightning" : "LightningToEVM",
+    paymentHash,
+    initiator: details.initiator,
+    recipient: details.recipient,
+    token: details.evmToken,
+    evmAmount: details.evmAmount,
+    satoshiAmount: details.satoshiAmount,
+    timelock: details.timelock,
+    escrow: outgoing ? details.evmEscrow : undefined,
+    invoice: outgoing ? undefined : details.lightningInvoice,
+  };
+}
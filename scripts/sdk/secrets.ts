@@ -0,0 +1,126 @@
+// Swap secrets and hashlocks
+// Preimages and CREATE2 salts come from the platform CSPRNG. The contracts disagree on how a
+// preimage is hashed: SimpleEscrow checks keccak256(abi.encode(preimage)) while LightningBridge
+// (like BOLT11 payment hashes) checks sha256(abi.encodePacked(preimage)), so a route mixing them
+// cannot be unlocked by one secret.
+
+import { bytesToHex, encodeAbiParameters, encodePacked, type Hex, keccak256, sha256 } from "viem";
+
+export type HashlockScheme =
+  | "keccak256" // SimpleEscrow: keccak256(abi.encode(preimage))
+  | "sha256"; // LightningBridge and Lightning invoices: sha256(abi.encodePacked(preimage))
+
+// Scheme each contract verifies preimages with
+export const CONTRACT_HASHLOCK_SCHEMES = {
+  SimpleEscrow: "keccak256",
+  LightningBridge: "sha256",
+} as const satisfies Record<string, HashlockScheme>;
+
+export type HashlockContract = keyof typeof CONTRACT_HASHLOCK_SCHEMES;
+
+export interface SwapSecret {
+  preimage: Hex;
+  hashlocks: Record<HashlockScheme, Hex>;
+}
+
+// A hop of a swap route and the scheme its contract or network checks
+export interface RouteHop {
+  name: string;
+  scheme: HashlockScheme;
+}
+
+// Two hops that one preimage cannot unlock with the same hashlock
+export interface SchemeConflict {
+  first: RouteHop;
+  second: RouteHop;
+}
+
+const ZERO_BYTES32 = ("0x" + "00".repeat(32)) as Hex;
+
+function randomBytes32(): Hex {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// 32 random bytes; the zero value is rejected by LightningBridge and never returned
+export function generatePreimage(): Hex {
+  let preimage = randomBytes32();
+  while (preimage === ZERO_BYTES32) preimage = randomBytes32();
+  return preimage;
+}
+
+// SimpleEscrow hashlock scheme: keccak256(abi.encode(preimage))
+export function escrowHashlock(preimage: Hex): Hex {
+  return keccak256(encodeAbiParameters([{ type: "bytes32" }], [preimage]));
+}
+
+// LightningBridge payment hash: sha256(abi.encodePacked(preimage))
+export function lightningPaymentHash(preimage: Hex): Hex {
+  return sha256(encodePacked(["bytes32"], [preimage]));
+}
+
+export function hashlockFor(scheme: HashlockScheme, preimage: Hex): Hex {
+  return scheme === "keccak256" ? escrowHashlock(preimage) : lightningPaymentHash(preimage);
+}
+
+export function verifyPreimage(scheme: HashlockScheme, preimage: Hex, hashlock: Hex): boolean {
+  return hashlockFor(scheme, preimage).toLowerCase() === hashlock.toLowerCase();
+}
+
+// Fresh preimage with its hashlock under every scheme
+export function createSecret(): SwapSecret {
+  const preimage = generatePreimage();
+  return {
+    preimage,
+    hashlocks: { keccak256: escrowHashlock(preimage), sha256: lightningPaymentHash(preimage) },
+  };
+}
+
+// Random CREATE2 salts, distinct from each other and from any salt this generator handed out before
+export class SaltGenerator {
+  private readonly issued = new Set<string>();
+
+  next(): Hex {
+    let salt = randomBytes32();
+    while (this.issued.has(salt)) salt = randomBytes32();
+    this.issued.add(salt);
+    return salt;
+  }
+
+  many(count: number): Hex[] {
+    return Array.from({ length: count }, () => this.next());
+  }
+}
+
+const defaultSalts = new SaltGenerator();
+
+export function generateSalt(): Hex {
+  return defaultSalts.next();
+}
+
+// Every pair of hops whose schemes differ; empty when one hashlock works for the whole route
+export function findSchemeConflicts(route: RouteHop[]): SchemeConflict[] {
+  const conflicts: SchemeConflict[] = [];
+  for (let i = 0; i < route.length; i++) {
+    for (let j = i + 1; j < route.length; j++) {
+      if (route[i].scheme !== route[j].scheme) conflicts.push({ first: route[i], second: route[j] });
+    }
+  }
+  return conflicts;
+}
+
+export class HashlockSchemeError extends Error {
+  constructor(readonly conflicts: SchemeConflict[]) {
+    super(
+      "Route mixes hashlock schemes: " +
+        conflicts.map(({ first, second }) => `${first.name} (${first.scheme}) vs ${second.name} (${second.scheme})`)
+          .join(", "),
+    );
+    this.name = "HashlockSchemeError";
+  }
+}
+
+// Refuse a route that no single hashlock can secure end to end
+export function assertCompatibleSchemes(route: RouteHop[]): void {
+  const conflicts = findSchemeConflicts(route);
+  if (conflicts.length > 0) throw new HashlockSchemeError(conflicts);
+}
@@ -0,0 +1,278 @@
+// Signers
+// Where each role's key lives: a raw key from the environment (local development only), an
+// encrypted JSON keystore (Web3 Secret Storage v3, scrypt or pbkdf2) or a remote JSON-RPC signer.
+// Every signer yields a viem account, so wallet clients and the transaction manager do not care
+// which one signs. SignerServer answers the remote signer's methods from local accounts, as a
+// stand-in for a signing service in tests and local runs.
+
+import {
+  type Address,
+  formatTransactionRequest,
+  type Hex,
+  hexToBigInt,
+  hexToNumber,
+  http,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  type LocalAccount,
+  numberToHex,
+  type RpcTransactionRequest,
+  stringify,
+  toHex,
+  type TransactionSerializable,
+  type TypedDataDefinition,
+} from "viem";
+import { mnemonicToAccount, privateKeyToAccount, toAccount } from "viem/accounts";
+import { Keystore } from "ox";
+
+export type SignerRole = "initiator" | "responder" | "resolver";
+
+// How a role's signer is configured
+export type SignerSource =
+  | { kind: "env"; privateKey: Hex }
+  | { kind: "keystore"; path: string; password?: string }
+  | { kind: "remote"; url: string; address?: Address }; // address defaults to the signer's first account
+
+export interface Signer {
+  readonly kind: SignerSource["kind"];
+  // viem account whose every signature comes from this signer
+  account(): Promise<LocalAccount>;
+}
+
+export type KeystoreKdf = "scrypt" | "pbkdf2";
+
+export interface EncryptKeystoreOptions {
+  kdf?: KeystoreKdf; // default scrypt
+  iterations?: number; // scrypt N or pbkdf2 rounds; defaults are the geth "standard" cost
+}
+
+// First ten accounts of the mnemonic Anvil and Hardhat fund by default; their keys are public
+export const ANVIL_MNEMONIC = "test test test test test test test test test test test junk";
+const ANVIL_ACCOUNT_COUNT = 10;
+let anvilAddresses: Address[] | undefined;
+
+export function isAnvilAccount(address: Address): boolean {
+  anvilAddresses ??= Array.from(
+    { length: ANVIL_ACCOUNT_COUNT },
+    (_, addressIndex) => mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex }).address,
+  );
+  return anvilAddresses.some((anvil) => isAddressEqual(anvil, address));
+}
+
+export function isPrivateKey(value: string): value is Hex {
+  return isHex(value) && value.length === 66;
+}
+
+export class EnvSigner implements Signer {
+  readonly kind = "env";
+
+  constructor(private readonly privateKey: Hex) {}
+
+  account(): Promise<LocalAccount> {
+    return Promise.resolve(privateKeyToAccount(this.privateKey));
+  }
+}
+
+export class KeystoreSigner implements Signer {
+  readonly kind = "keystore";
+
+  constructor(readonly path: string, private readonly password: string) {}
+
+  async account(): Promise<LocalAccount> {
+    let keystore: unknown;
+    try {
+      keystore = JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      throw new Error(`Cannot read keystore ${this.path}: ${error instanceof Error ? error.message : error}`);
+    }
+    try {
+      return privateKeyToAccount(decryptKeystore(keystore, this.password));
+    } catch (error) {
+      throw new Error(`Keystore ${this.path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Private key in a Web3 Secret Storage v3 keystore. Older files spell the section `Crypto`.
+export function decryptKeystore(json: unknown, password: string): Hex {
+  const file = (json ?? {}) as { version?: unknown; crypto?: Keystore.Keystore["crypto"]; Crypto?: unknown };
+  const crypto = (file.crypto ?? file.Crypto) as Keystore.Keystore["crypto"] | undefined;
+  if (file.version !== 3 || !crypto) throw new Error("not a version 3 JSON keystore");
+  if (crypto.cipher !== "aes-128-ctr") throw new Error(`unsupported cipher ${crypto.cipher}`);
+  if (crypto.kdf !== "scrypt" && crypto.kdf !== "pbkdf2") throw new Error(`unsupported kdf ${crypto.kdf}`);
+  const { prf } = crypto.kdfparams as { prf?: string };
+  if (crypto.kdf === "pbkdf2" && prf !== "hmac-sha256") throw new Error(`unsupported pbkdf2 prf ${prf}`);
+
+  const keystore = { ...file, crypto } as Keystore.Keystore;
+  // toKeyAsync ignores the file's scrypt r and p, so geth keystores only decrypt with toKey
+  const key = Keystore.toKey(keystore, { password });
+  try {
+    return Keystore.decrypt(keystore, key);
+  } catch {
+    // The MAC check is the only thing that fails here
+    throw new Error("wrong password or corrupted keystore");
+  }
+}
+
+// Keystore as geth writes it: scrypt with r = 8 and p = 1, or pbkdf2 over HMAC-SHA256
+export function encryptKeystore(
+  privateKey: Hex,
+  password: string,
+  options: EncryptKeystoreOptions = {},
+): Keystore.Keystore {
+  const [key, derivation] = options.kdf === "pbkdf2"
+    ? Keystore.pbkdf2({ password, iterations: options.iterations })
+    : Keystore.scrypt({ password, n: options.iterations, r: 8, p: 1 });
+  return Keystore.encrypt(privateKey, key, derivation);
+}
+
+// Signer reached over JSON-RPC: eth_accounts, personal_sign, eth_signTransaction and
+// eth_signTypedData_v4, as served by clef, web3signer or SignerServer
+export class RemoteSigner implements Signer {
+  readonly kind = "remote";
+  private readonly transport: ReturnType<ReturnType<typeof http>>;
+
+  constructor(readonly url: string, readonly address?: Address) {
+    this.transport = http(url)({ retryCount: 0 });
+  }
+
+  async account(): Promise<LocalAccount> {
+    const accounts = await this.request<Address[]>("eth_accounts", []);
+    const address = this.address ?? accounts[0];
+    if (!address || !accounts.some((account) => isAddressEqual(account, address))) {
+      throw new Error(`Remote signer ${this.url} does not hold ${address ?? "any account"}`);
+    }
+
+    return toAccount({
+      address,
+      signMessage: ({ message }) => {
+        const raw = typeof message === "string" ? toHex(message) : message.raw;
+        return this.request<Hex>("personal_sign", [typeof raw === "string" ? raw : toHex(raw), address]);
+      },
+      signTransaction: async (transaction) => {
+        // clef and geth answer { raw, tx }, web3signer the raw transaction alone
+        const request = toRpcTransaction(transaction, address);
+        const signed = await this.request<Hex | { raw: Hex }>("eth_signTransaction", [request]);
+        return typeof signed === "string" ? signed : signed.raw;
+      },
+      signTypedData: (typedData) => this.request<Hex>("eth_signTypedData_v4", [address, stringify(typedData)]),
+    });
+  }
+
+  private request<T>(method: string, params: unknown[]): Promise<T> {
+    return this.transport.request({ method, params }) as Promise<T>;
+  }
+}
+
+export function createSigner(source: SignerSource): Signer {
+  switch (source.kind) {
+    case "env":
+      return new EnvSigner(source.privateKey);
+    case "keystore":
+      return new KeystoreSigner(source.path, source.password ?? "");
+    case "remote":
+      return new RemoteSigner(source.url, source.address);
+  }
+}
+
+const RPC_TRANSACTION_TYPES: Record<string, TransactionSerializable["type"]> = {
+  "0x0": "legacy",
+  "0x1": "eip2930",
+  "0x2": "eip1559",
+};
+
+// eth_signTransaction parameters; unlike eth_sendTransaction they carry the chain ID
+function toRpcTransaction(transaction: TransactionSerializable, from: Address) {
+  const { chainId, ...request } = transaction;
+  return {
+    ...formatTransactionRequest({ ...request, from } as Parameters<typeof formatTransactionRequest>[0]),
+    ...(chainId === undefined ? {} : { chainId: numberToHex(chainId) }),
+  };
+}
+
+function fromRpcTransaction(rpc: RpcTransactionRequest & { chainId?: Hex }): TransactionSerializable {
+  const quantity = (value?: Hex) => (value === undefined ? undefined : hexToBigInt(value));
+  return {
+    type: rpc.type === undefined ? undefined : RPC_TRANSACTION_TYPES[rpc.type],
+    chainId: rpc.chainId === undefined ? undefined : hexToNumber(rpc.chainId),
+    nonce: rpc.nonce === undefined ? undefined : hexToNumber(rpc.nonce),
+    to: rpc.to ?? undefined,
+    data: rpc.data,
+    value: quantity(rpc.value),
+    gas: quantity(rpc.gas),
+    gasPrice: quantity(rpc.gasPrice),
+    maxFeePerGas: quantity(rpc.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(rpc.maxPriorityFeePerGas),
+    accessList: rpc.accessList,
+  } as TransactionSerializable;
+}
+
+interface RpcMessage {
+  id?: unknown;
+  method?: unknown;
+  params?: unknown;
+}
+
+class SignerRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = "SignerRpcError";
+  }
+}
+
+// JSON-RPC signing service over local accounts, answering what RemoteSigner asks for
+export class SignerServer {
+  constructor(readonly accounts: LocalAccount[]) {}
+
+  // Fetch handler for Deno.serve
+  handle = async (request: Request): Promise<Response> => {
+    if (request.method !== "POST") return new Response(null, { status: 405 });
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+    }
+    const answer = async (message: unknown) => {
+      const { id = null, method, params = [] } = (message ?? {}) as RpcMessage;
+      try {
+        if (typeof method !== "string" || !Array.isArray(params)) {
+          throw new SignerRpcError(-32600, "Invalid request");
+        }
+        return { jsonrpc: "2.0", id, result: await this.call(method, params) };
+      } catch (error) {
+        const code = error instanceof SignerRpcError ? error.code : -32603;
+        return { jsonrpc: "2.0", id, error: { code, message: error instanceof Error ? error.message : String(error) } };
+      }
+    };
+    return Response.json(Array.isArray(body) ? await Promise.all(body.map(answer)) : await answer(body));
+  };
+
+  call(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "eth_accounts":
+        return Promise.resolve(this.accounts.map((account) => account.address));
+      case "personal_sign": {
+        const [data, address] = params as [Hex, string];
+        return this.account(address).signMessage({ message: { raw: data } });
+      }
+      case "eth_signTransaction": {
+        const [transaction] = params as [RpcTransactionRequest & { chainId?: Hex }];
+        return this.account(transaction.from ?? "").signTransaction(fromRpcTransaction(transaction));
+      }
+      case "eth_signTypedData_v4": {
+        const [address, typedData] = params as [string, string];
+        return this.account(address).signTypedData(JSON.parse(typedData) as TypedDataDefinition);
+      }
+      default:
+        return Promise.reject(new SignerRpcError(-32601, `Method ${method} is not supported`));
+    }
+  }
+
+  private account(address: string): LocalAccount {
+    const account = isAddress(address) && this.accounts.find((candidate) => isAddressEqual(candidate.address, address));
+    if (!account) throw new SignerRpcError(-32602, `Unknown account ${address}`);
+    return account;
+  }
+}
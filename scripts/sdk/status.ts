@@ -0,0 +1,284 @@
+// Swap status
+// Everything an address is party to on each chain: escrows it sends or receives, found through the
+// factory's indexed EscrowCreated sender/recipient topics, and LightningBridge swaps it initiated
+// or receives, from getUserSwaps(). Each comes with its decoded on-chain details, the time left
+// before its timelock at the latest block and the actions the contracts would allow right now.
+
+import { type Address, type Hex, isAddressEqual, type PublicClient } from "viem";
+import { SimpleEscrowFactoryAbi } from "../abis/index.ts";
+import { BRIDGE_SWAP_DIRECTION, BRIDGE_SWAP_STATE, BridgeClient, type BridgeSwap } from "./bridge.ts";
+import { EscrowClient, type EscrowDetails } from "./escrow.ts";
+import type { TokenInfo } from "./registry.ts";
+import { TokenAmount } from "./tokens.ts";
+
+export interface StatusChain {
+  chainId: number;
+  name: string;
+  client: PublicClient;
+  factory?: Address;
+  bridge?: Address;
+  tokens?: TokenInfo[]; // used to print amounts in token units
+  fromBlock?: bigint; // first block searched for escrows, default 0
+  maxBlockRange?: bigint; // largest getLogs range per request, default 2000
+}
+
+export type EscrowRole = "sender" | "recipient";
+export type EscrowState = "unfunded" | "funded" | "withdrawn" | "refunded";
+
+export interface EscrowStatus {
+  address: Address;
+  roles: EscrowRole[];
+  state: EscrowState;
+  details: EscrowDetails;
+  timeLeft: bigint; // seconds until the timelock, negative once it has passed
+  canWithdraw: boolean;
+  canRefund: boolean;
+}
+
+export interface BridgeSwapStatus {
+  paymentHash: Hex;
+  direction: keyof typeof BRIDGE_SWAP_DIRECTION;
+  state: keyof typeof BRIDGE_SWAP_STATE;
+  details: BridgeSwap;
+  timeLeft: bigint;
+  canWithdraw: boolean;
+  canExpire: boolean;
+}
+
+export interface ChainStatus {
+  chainId: number;
+  name: string;
+  blockNumber?: bigint;
+  timestamp?: bigint; // of the block every value was read at
+  escrows: EscrowStatus[];
+  swaps: BridgeSwapStatus[];
+  error?: string; // the chain could not be read; the other chains are still reported
+}
+
+export interface StatusReport {
+  address: Address;
+  chains: ChainStatus[];
+}
+
+const DEFAULT_MAX_BLOCK_RANGE = 2000n;
+
+// Status of `address` on every chain; a chain that fails is reported with its error
+export async function collectStatus(chains: StatusChain[], address: Address): Promise<StatusReport> {
+  return {
+    address,
+    chains: await Promise.all(chains.map(async (chain) => {
+      try {
+        return await collectChainStatus(chain, address);
+      } catch (error) {
+        return {
+          chainId: chain.chainId,
+          name: chain.name,
+          escrows: [],
+          swaps: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    })),
+  };
+}
+
+export async function collectChainStatus(chain: StatusChain, address: Address): Promise<ChainStatus> {
+  const block = await chain.client.getBlock();
+  const [escrows, swaps] = await Promise.all([
+    chain.factory ? escrowStatuses(chain, chain.factory, address, block.number, block.timestamp) : [],
+    chain.bridge ? swapStatuses(chain, chain.bridge, address, block.timestamp) : [],
+  ]);
+  return {
+    chainId: chain.chainId,
+    name: chain.name,
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    escrows,
+    swaps,
+  };
+}
+
+async function escrowStatuses(
+  chain: StatusChain,
+  factory: Address,
+  address: Address,
+  toBlock: bigint,
+  now: bigint,
+): Promise<EscrowStatus[]> {
+  const roles = new Map<string, { escrow: Address; roles: EscrowRole[] }>();
+  const maxBlockRange = chain.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  // Hosted RPCs cap eth_getLogs ranges, so the factory's logs are read one bounded range at a time
+  for (let fromBlock = chain.fromBlock ?? 0n; fromBlock <= toBlock; fromBlock += maxBlockRange) {
+    const rangeEnd = fromBlock + maxBlockRange - 1n;
+    const range = {
+      address: factory,
+      abi: SimpleEscrowFactoryAbi,
+      eventName: "EscrowCreated",
+      fromBlock,
+      toBlock: rangeEnd < toBlock ? rangeEnd : toBlock,
+    } as const;
+    const [sent, received] = await Promise.all([
+      chain.client.getContractEvents({ ...range, args: { sender: address } }),
+      chain.client.getContractEvents({ ...range, args: { recipient: address } }),
+    ]);
+    for (const [role, logs] of [["sender", sent], ["recipient", received]] as const) {
+      for (const log of logs) {
+        const escrow = log.args.escrow;
+        if (!escrow) continue;
+        const entry = roles.get(escrow.toLowerCase()) ?? { escrow, roles: [] };
+        entry.roles.push(role);
+        roles.set(escrow.toLowerCase(), entry);
+      }
+    }
+  }
+
+  const statuses = await Promise.all([...roles.values()].map(async ({ escrow, roles }) => {
+    const client = new EscrowClient(escrow, chain.client);
+    const [details, canWithdraw, canRefund] = await Promise.all([
+      client.getDetails(),
+      client.canWithdraw(),
+      client.canRefund(),
+    ]);
+    return {
+      address: escrow,
+      roles,
+      state: escrowState(details),
+      details,
+      timeLeft: details.timelock - now,
+      canWithdraw,
+      canRefund,
+    };
+  }));
+  return statuses.sort((a, b) => Number(a.details.timelock - b.details.timelock));
+}
+
+async function swapStatuses(
+  chain: StatusChain,
+  bridgeAddress: Address,
+  address: Address,
+  now: bigint,
+): Promise<BridgeSwapStatus[]> {
+  const bridge = new BridgeClient(bridgeAddress, chain.client);
+  // A swap with the same initiator and recipient is listed twice
+  const paymentHashes = [...new Set((await bridge.userSwaps(address)).map((hash) => hash.toLowerCase() as Hex))];
+  const statuses = await Promise.all(paymentHashes.map(async (paymentHash) => {
+    const [details, canWithdraw, canExpire] = await Promise.all([
+      bridge.getSwap(paymentHash),
+      bridge.canWithdraw(paymentHash),
+      bridge.canExpire(paymentHash),
+    ]);
+    return {
+      paymentHash,
+      direction: enumKey(BRIDGE_SWAP_DIRECTION, details.direction),
+      state: enumKey(BRIDGE_SWAP_STATE, details.state),
+      details,
+      timeLeft: details.timelock - now,
+      canWithdraw,
+      canExpire,
+    };
+  }));
+  return statuses.sort((a, b) => Number(a.details.createdAt - b.details.createdAt));
+}
+
+export function escrowState(details: Pick<EscrowDetails, "funded" | "withdrawn" | "refunded">): EscrowState {
+  if (details.withdrawn) return "withdrawn";
+  if (details.refunded) return "refunded";
+  return details.funded ? "funded" : "unfunded";
+}
+
+function enumKey<T extends Record<string, number>>(values: T, value: number): keyof T & string {
+  const key = Object.keys(values).find((name) => values[name] === value);
+  if (!key) throw new Error(`Unknown enum value ${value}`);
+  return key as keyof T & string;
+}
+
+// "1h 05m", "42s"; negative durations read "expired 3m ago"
+export function formatDuration(seconds: bigint): string {
+  const abs = seconds < 0n ? -seconds : seconds;
+  const days = abs / 86_400n;
+  const hours = (abs % 86_400n) / 3600n;
+  const minutes = (abs % 3600n) / 60n;
+  const text = days > 0n
+    ? `${days}d ${hours}h`
+    : hours > 0n
+    ? `${hours}h ${minutes.toString().padStart(2, "0")}m`
+    : minutes > 0n
+    ? `${minutes}m ${(abs % 60n).toString().padStart(2, "0")}s`
+    : `${abs}s`;
+  return seconds < 0n ? `expired ${text} ago` : text;
+}
+
+// Plain-text tables, one section per chain
+export function formatStatus(report: StatusReport, chains: StatusChain[] = []): string {
+  const lines = [`Status of ${report.address}`];
+  for (const status of report.chains) {
+    const at = status.blockNumber !== undefined ? ` at block ${status.blockNumber}` : "";
+    lines.push("", `${status.name} (chain ${status.chainId})${at}`);
+    if (status.error) {
+      lines.push(`  unavailable: ${status.error}`);
+      continue;
+    }
+    const tokens = chains.find((chain) => chain.chainId === status.chainId)?.tokens ?? [];
+    const amount = (token: Address, value: bigint) => {
+      const info = tokens.find((entry) => isAddressEqual(entry.address, token));
+      return info ? TokenAmount.fromRaw({ ...info, chainId: status.chainId }, value).toString()
+        : `${value} (${shorten(token)})`;
+    };
+
+    if (status.escrows.length === 0 && status.swaps.length === 0) {
+      lines.push("  nothing found");
+      continue;
+    }
+    if (status.escrows.length > 0) {
+      lines.push(...table(
+        ["Escrow", "Role", "State", "Amount", "Counterparty", "Timelock", "Withdraw", "Refund"],
+        status.escrows.map((escrow) => [
+          escrow.address,
+          escrow.roles.join("+"),
+          escrow.state,
+          amount(escrow.details.token, escrow.details.amount),
+          shorten(escrow.roles.includes("sender") ? escrow.details.recipient : escrow.details.sender),
+          formatDuration(escrow.timeLeft),
+          flag(escrow.canWithdraw),
+          flag(escrow.canRefund),
+        ]),
+      ));
+    }
+    if (status.swaps.length > 0) {
+      lines.push(...table(
+        ["Bridge swap", "Direction", "State", "Amount", "Sats", "Timelock", "Withdraw", "Expire"],
+        status.swaps.map((swap) => [
+          shorten(swap.paymentHash),
+          swap.direction,
+          swap.state,
+          amount(swap.details.evmToken, swap.details.evmAmount),
+          swap.details.satoshiAmount.toString(),
+          formatDuration(swap.timeLeft),
+          flag(swap.canWithdraw),
+          flag(swap.canExpire),
+        ]),
+      ));
+    }
+  }
+  return lines.join("\n");
+}
+
+// JSON with bigints as decimal strings; `space` as in JSON.stringify
+export function statusToJson(report: StatusReport, space?: number): string {
+  return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), space);
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) =>
+    "  " + cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [line(header), ...rows.map(line)];
+}
+
+function flag(value: boolean): string {
+  return value ? "yes" : "-";
+}
+
+function shorten(value: string): string {
+  return value.length > 14 ? `${value.slice(0, 8)}…${value.slice(-4)}` : value;
+}
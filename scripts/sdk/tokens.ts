@@ -0,0 +1,190 @@
+// Tokens and amounts
+// A bare bigint does not say which token it counts: 100 USDC is 100e6 base units, 100 XTZ is 100e18.
+// TokenAmount keeps an amount together with its token, so it is parsed and formatted with that
+// token's decimals. Adding, comparing or handing an amount to a call for another token throws.
+// TokenRegistry reads symbol() and decimals() once per token and chain, and refuses declared
+// decimals that disagree with the contract.
+
+import { type Address, formatUnits, getAddress, isAddress, isAddressEqual, parseUnits, type PublicClient } from "viem";
+import { TokenClient } from "./erc20.ts";
+import type { TokenInfo } from "./registry.ts";
+
+// A token on one chain; the same address on another chain is another token
+export interface Token extends TokenInfo {
+  chainId: number;
+}
+
+// What a manifest or config says about a token; anything left out is read from the contract
+export interface DeclaredToken {
+  address: Address;
+  symbol?: string;
+  decimals?: number; // must match decimals() when given
+}
+
+export type TokenViolation = "mixed" | "decimals" | "amount" | "unknown";
+
+export class TokenError extends Error {
+  constructor(
+    readonly violation: TokenViolation,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "TokenError";
+  }
+}
+
+export function sameToken(a: Token, b: Token): boolean {
+  return a.chainId === b.chainId && isAddressEqual(a.address, b.address);
+}
+
+function describeToken(token: Token): string {
+  return `${token.symbol} (${token.address} on chain ${token.chainId})`;
+}
+
+export class TokenAmount {
+  private constructor(readonly token: Token, readonly raw: bigint) {}
+
+  // `raw` base units of `token`
+  static fromRaw(token: Token, raw: bigint): TokenAmount {
+    if (raw < 0n) throw new TokenError("amount", `${describeToken(token)} amount cannot be negative: ${raw}`);
+    return new TokenAmount(token, raw);
+  }
+
+  static zero(token: Token): TokenAmount {
+    return new TokenAmount(token, 0n);
+  }
+
+  // A decimal number in token units ("100", "0.25"). More fraction digits than the token has are
+  // refused rather than rounded.
+  static parse(token: Token, value: string): TokenAmount {
+    const fraction = value.split(".")[1] ?? "";
+    if (!/^\d+(\.\d+)?$/.test(value) || fraction.length > token.decimals) {
+      throw new TokenError(
+        "amount",
+        `${value} is not a ${token.symbol} amount (a number with at most ${token.decimals} decimals)`,
+      );
+    }
+    return new TokenAmount(token, parseUnits(value, token.decimals));
+  }
+
+  // Base units to pass to a contract call on `token`; any other token is refused
+  toRaw(token: Token): bigint {
+    if (!sameToken(this.token, token)) {
+      throw new TokenError("mixed", `Amount of ${describeToken(this.token)} used for ${describeToken(token)}`);
+    }
+    return this.raw;
+  }
+
+  add(other: TokenAmount): TokenAmount {
+    return new TokenAmount(this.token, this.raw + this.same(other));
+  }
+
+  sub(other: TokenAmount): TokenAmount {
+    const raw = this.raw - this.same(other);
+    if (raw < 0n) throw new TokenError("amount", `Cannot subtract ${other} from ${this}`);
+    return new TokenAmount(this.token, raw);
+  }
+
+  // Negative, zero or positive as this amount is less than, equal to or greater than `other`
+  compare(other: TokenAmount): number {
+    const raw = this.same(other);
+    return this.raw < raw ? -1 : this.raw > raw ? 1 : 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  // Amount in token units without the symbol, e.g. "100.5"
+  toDecimal(): string {
+    return formatUnits(this.raw, this.token.decimals);
+  }
+
+  toString(): string {
+    return `${this.toDecimal()} ${this.token.symbol}`;
+  }
+
+  private same(other: TokenAmount): bigint {
+    if (!sameToken(this.token, other.token)) {
+      throw new TokenError("mixed", `Cannot combine ${describeToken(this.token)} with ${describeToken(other.token)}`);
+    }
+    return other.raw;
+  }
+}
+
+// The tokens of one chain. Symbols and decimals are read from each contract on first use and cached.
+export class TokenRegistry {
+  private readonly declared = new Map<string, DeclaredToken>();
+  private readonly resolved = new Map<string, Promise<Token>>();
+
+  constructor(readonly chainId: number, private readonly client: PublicClient, tokens: DeclaredToken[] = []) {
+    for (const token of tokens) this.declare(token);
+  }
+
+  declare(token: DeclaredToken): void {
+    const key = token.address.toLowerCase();
+    this.declared.set(key, token);
+    this.resolved.delete(key);
+  }
+
+  // Token by declared symbol (case-insensitive) or by address, declared or not
+  resolve(symbolOrAddress: string): Promise<Token> {
+    let address: string | undefined = symbolOrAddress;
+    if (!isAddress(symbolOrAddress, { strict: false })) {
+      address = [...this.declared.values()]
+        .find((token) => token.symbol?.toLowerCase() === symbolOrAddress.toLowerCase())?.address;
+      if (!address) {
+        return Promise.reject(
+          new TokenError("unknown", `Token ${symbolOrAddress} is not registered on chain ${this.chainId}`),
+        );
+      }
+    }
+    const key = address.toLowerCase();
+    let token = this.resolved.get(key);
+    if (!token) {
+      token = this.load(getAddress(address));
+      this.resolved.set(key, token);
+      // A node that was down should not poison the cache
+      token.catch(() => this.resolved.delete(key));
+    }
+    return token;
+  }
+
+  // Every declared token, read from chain. Fails on the first token whose contract cannot be read or
+  // disagrees with what was declared.
+  list(): Promise<Token[]> {
+    return Promise.all([...this.declared.values()].map((token) => this.resolve(token.address)));
+  }
+
+  async parse(symbolOrAddress: string, value: string): Promise<TokenAmount> {
+    return TokenAmount.parse(await this.resolve(symbolOrAddress), value);
+  }
+
+  async fromRaw(symbolOrAddress: string, raw: bigint): Promise<TokenAmount> {
+    return TokenAmount.fromRaw(await this.resolve(symbolOrAddress), raw);
+  }
+
+  private async load(address: Address): Promise<Token> {
+    const declared = this.declared.get(address.toLowerCase());
+    const contract = new TokenClient(address, this.client);
+    let decimals: number;
+    let symbol: string;
+    try {
+      [decimals, symbol] = await Promise.all([contract.decimals(), declared?.symbol ?? contract.symbol()]);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message.split("\n")[0] : String(error);
+      throw new TokenError("unknown", `Could not read ERC20 ${address} on chain ${this.chainId}: ${reason}`, {
+        cause: error,
+      });
+    }
+    if (declared?.decimals !== undefined && declared.decimals !== decimals) {
+      throw new TokenError(
+        "decimals",
+        `${symbol} (${address} on chain ${this.chainId}) is declared with ${declared.decimals} decimals ` +
+          `but its decimals() returns ${decimals}`,
+      );
+    }
+    return { chainId: this.chainId, address, symbol, decimals };
+  }
+}
@@ -0,0 +1,356 @@
+// Transaction manager
+// Sends go through one place per process: nonces are assigned per chain and account (so parallel
+// sends from one key never race), receipts are awaited with a configurable number of confirmations,
+// reverts are detected and decoded, and a transaction that stays pending too long is re-broadcast
+// with bumped fees under the same nonce. Wallet clients returned by attach() route writeContract and
+// sendTransaction through the manager, so the SDK clients get all of this without changes.
+
+import {
+  type Abi,
+  type Address,
+  encodeFunctionData,
+  type EncodeFunctionDataParameters,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  WaitForTransactionReceiptTimeoutError,
+} from "viem";
+import { type ContractRevertError, decodeRevert } from "./errors.ts";
+import type { SignerClient } from "./escrow.ts";
+
+export interface TransactionManagerOptions {
+  confirmations?: number; // blocks a receipt must be buried under before it counts, default 1
+  stuckAfter?: number; // ms without a receipt before a transaction is sped up, default 60s
+  feeBump?: number; // percent added to the fees per replacement, default 15 (nodes require at least 10)
+  maxReplacements?: number; // speed-ups before waiting gives up, default 3
+  pollingInterval?: number; // ms between receipt polls, default the client's
+}
+
+export type TransactionStatus = "success" | "reverted" | "cancelled";
+
+// Outcome of one transaction, as recorded in the swap log
+export interface TransactionResult {
+  step: string;
+  chainId?: number;
+  hash: Hash; // the transaction that was mined; not the first hash after a speed-up or cancel
+  hashes: Hash[]; // every hash broadcast under this nonce, oldest first
+  from?: Address;
+  nonce?: number;
+  status: TransactionStatus;
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  replacements: number;
+  error?: string; // decoded revert reason
+}
+
+export interface TransactionRequest {
+  to?: Address; // omitted for contract deployments
+  data?: Hex;
+  value?: bigint;
+  gas?: bigint;
+}
+
+export class TransactionFailedError extends Error {
+  constructor(readonly result: TransactionResult, readonly revert?: ContractRevertError) {
+    super(`Transaction ${result.step} (${result.hash}) ${result.status}${revert ? `: ${revert.message}` : ""}`);
+    this.name = "TransactionFailedError";
+  }
+}
+
+export class StuckTransactionError extends Error {
+  constructor(readonly hashes: Hash[], readonly nonce: number) {
+    super(`Transaction with nonce ${nonce} is still pending after ${hashes.length - 1} replacement(s)`);
+    this.name = "StuckTransactionError";
+  }
+}
+
+// EIP-1559 caps, or a gas price on chains without them
+interface Fees {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+interface TrackedTransaction {
+  chainId: number;
+  from: Address;
+  nonce: number;
+  request: TransactionRequest; // what the latest broadcast sent; a self-transfer once cancelled
+  fees: Fees;
+  hashes: Hash[];
+  cancellations: Set<Hash>;
+  wallet: SignerClient;
+  client: PublicClient;
+}
+
+// writeContract arguments as the SDK clients pass them (the `request` of simulateContract)
+interface WriteContractArgs {
+  address: Address;
+  abi: Abi | readonly unknown[];
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+  gas?: bigint;
+}
+
+const DEFAULT_CONFIRMATIONS = 1;
+const DEFAULT_STUCK_AFTER = 60_000;
+const DEFAULT_FEE_BUMP = 15;
+const DEFAULT_MAX_REPLACEMENTS = 3;
+const TRANSFER_GAS = 21_000n;
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+export class TransactionManager {
+  private readonly confirmations: number;
+  private readonly stuckAfter: number;
+  private readonly feeBump: bigint;
+  private readonly maxReplacements: number;
+  private readonly pollingInterval?: number;
+  private readonly nonces = new Map<string, number>(); // next nonce per chain and account
+  private readonly queues = new Map<string, Promise<unknown>>();
+  private readonly tracked = new Map<Hash, TrackedTransaction>();
+
+  constructor(options: TransactionManagerOptions = {}) {
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.stuckAfter = options.stuckAfter ?? DEFAULT_STUCK_AFTER;
+    this.feeBump = BigInt(options.feeBump ?? DEFAULT_FEE_BUMP);
+    this.maxReplacements = options.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+    this.pollingInterval = options.pollingInterval;
+  }
+
+  // `wallet` with writeContract and sendTransaction sent through this manager
+  attach(wallet: SignerClient, client: PublicClient): SignerClient {
+    const actions = {
+      writeContract: (args: WriteContractArgs) =>
+        this.send(wallet, client, {
+          to: args.address,
+          data: encodeFunctionData(
+            { abi: args.abi, functionName: args.functionName, args: args.args } as EncodeFunctionDataParameters,
+          ),
+          value: args.value,
+          gas: args.gas,
+        }),
+      sendTransaction: (args: { to?: Address | null; data?: Hex; value?: bigint; gas?: bigint }) =>
+        this.send(wallet, client, { to: args.to ?? undefined, data: args.data, value: args.value, gas: args.gas }),
+    };
+    // The SDK only passes the fields above, so the narrower signatures stand in for viem's generic ones
+    return wallet.extend(() => actions as unknown as Pick<SignerClient, "writeContract" | "sendTransaction">);
+  }
+
+  // Broadcast `request` from `wallet` under the account's next nonce
+  async send(wallet: SignerClient, client: PublicClient, request: TransactionRequest): Promise<Hash> {
+    const chainId = wallet.chain?.id ?? await client.getChainId();
+    const from = wallet.account.address;
+    const key = `${chainId}:${from.toLowerCase()}`;
+    return await this.serialize(key, async () => {
+      const gas = request.gas ?? await client.estimateGas({ account: wallet.account, ...request });
+      const fees = await this.currentFees(client);
+      const nonce = Math.max(
+        await client.getTransactionCount({ address: from, blockTag: "pending" }),
+        this.nonces.get(key) ?? 0,
+      );
+      let hash: Hash;
+      try {
+        hash = await this.broadcast(wallet, { ...request, gas }, nonce, fees);
+      } catch (error) {
+        // Nothing was sent under this nonce; read it from the node again next time
+        this.nonces.delete(key);
+        throw error;
+      }
+      this.nonces.set(key, nonce + 1);
+      this.tracked.set(hash, {
+        chainId,
+        from,
+        nonce,
+        request: { ...request, gas },
+        fees,
+        hashes: [hash],
+        cancellations: new Set(),
+        wallet,
+        client,
+      });
+      return hash;
+    });
+  }
+
+  // Wait until the transaction (or a replacement of it) is mined and confirmed. Transactions sent
+  // through this manager are sped up when they stay pending; others are only waited for.
+  async wait(client: PublicClient, hash: Hash, step = "transaction"): Promise<TransactionResult> {
+    return (await this.settle(client, hash, step)).result;
+  }
+
+  // wait(), throwing TransactionFailedError unless the transaction succeeded
+  async confirm(client: PublicClient, hash: Hash, step = "transaction"): Promise<TransactionResult> {
+    const { result, revert } = await this.settle(client, hash, step);
+    if (result.status !== "success") {
+      throw new TransactionFailedError(result, revert);
+    }
+    return result;
+  }
+
+  private async settle(
+    client: PublicClient,
+    hash: Hash,
+    step: string,
+  ): Promise<{ result: TransactionResult; revert?: ContractRevertError }> {
+    const tracked = this.tracked.get(hash);
+    let current = tracked?.hashes.at(-1) ?? hash;
+    for (;;) {
+      try {
+        const receipt = await client.waitForTransactionReceipt({
+          hash: current,
+          confirmations: this.confirmations,
+          pollingInterval: this.pollingInterval,
+          timeout: tracked ? this.stuckAfter : undefined,
+        });
+        return await this.result(client, step, current, receipt, tracked);
+      } catch (error) {
+        if (!tracked || !(error instanceof WaitForTransactionReceiptTimeoutError)) throw error;
+        if (tracked.hashes.length > this.maxReplacements) {
+          throw new StuckTransactionError([...tracked.hashes], tracked.nonce);
+        }
+        current = await this.speedUp(current);
+      }
+    }
+  }
+
+  // Re-broadcast a pending transaction under the same nonce with bumped fees
+  speedUp(hash: Hash): Promise<Hash> {
+    const tracked = this.require(hash);
+    return this.serialize(this.keyOf(tracked), () => this.replace(tracked));
+  }
+
+  // Replace a pending transaction with an empty self-transfer under the same nonce
+  cancel(hash: Hash): Promise<Hash> {
+    const tracked = this.require(hash);
+    return this.serialize(this.keyOf(tracked), async () => {
+      tracked.request = { to: tracked.from, data: "0x", value: 0n, gas: TRANSFER_GAS };
+      const replacement = await this.replace(tracked);
+      tracked.cancellations.add(replacement);
+      return replacement;
+    });
+  }
+
+  // Forget cached nonces and tracked transactions, e.g. after a chain is reverted to a snapshot
+  reset(): void {
+    this.nonces.clear();
+    this.tracked.clear();
+  }
+
+  private async replace(tracked: TrackedTransaction): Promise<Hash> {
+    tracked.fees = this.bump(tracked.fees, await this.currentFees(tracked.client));
+    const hash = await this.broadcast(tracked.wallet, tracked.request, tracked.nonce, tracked.fees);
+    if (tracked.cancellations.size > 0) tracked.cancellations.add(hash);
+    tracked.hashes.push(hash);
+    this.tracked.set(hash, tracked);
+    return hash;
+  }
+
+  private broadcast(wallet: SignerClient, request: TransactionRequest, nonce: number, fees: Fees): Promise<Hash> {
+    return wallet.sendTransaction({
+      account: wallet.account,
+      chain: wallet.chain,
+      ...request,
+      nonce,
+      ...fees,
+    } as Parameters<SignerClient["sendTransaction"]>[0]);
+  }
+
+  private async currentFees(client: PublicClient): Promise<Fees> {
+    try {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas();
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    } catch {
+      return { gasPrice: await client.getGasPrice() };
+    }
+  }
+
+  // Previous fees raised by feeBump percent, and never below what the network asks for now
+  private bump(previous: Fees, current: Fees): Fees {
+    const raise = (value: bigint | undefined, now: bigint | undefined) =>
+      value === undefined ? undefined : max(value * (100n + this.feeBump) / 100n, now ?? 0n);
+    return {
+      maxFeePerGas: raise(previous.maxFeePerGas, current.maxFeePerGas),
+      maxPriorityFeePerGas: raise(previous.maxPriorityFeePerGas, current.maxPriorityFeePerGas),
+      gasPrice: raise(previous.gasPrice, current.gasPrice),
+    };
+  }
+
+  private async result(
+    client: PublicClient,
+    step: string,
+    waited: Hash,
+    receipt: TransactionReceipt,
+    tracked: TrackedTransaction | undefined,
+  ): Promise<{ result: TransactionResult; revert?: ContractRevertError }> {
+    const hash = receipt.transactionHash ?? waited;
+    const status: TransactionStatus = tracked?.cancellations.has(hash)
+      ? "cancelled"
+      : receipt.status === "success"
+      ? "success"
+      : "reverted";
+    const result: TransactionResult = {
+      step,
+      chainId: tracked?.chainId ?? client.chain?.id,
+      hash,
+      hashes: tracked ? [...tracked.hashes] : [hash],
+      from: tracked?.from ?? receipt.from,
+      nonce: tracked?.nonce,
+      status,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      replacements: tracked ? tracked.hashes.length - 1 : 0,
+    };
+    if (status !== "reverted") return { result };
+    const revert = await this.revertReason(client, result);
+    result.error = revert?.message;
+    return { result, revert };
+  }
+
+  // Replay a reverted transaction on the state before its block to recover the revert reason
+  private async revertReason(
+    client: PublicClient,
+    result: TransactionResult,
+  ): Promise<ContractRevertError | undefined> {
+    try {
+      const tx = await client.getTransaction({ hash: result.hash });
+      await client.call({
+        account: tx.from,
+        to: tx.to,
+        data: tx.input,
+        value: tx.value,
+        gas: tx.gas,
+        blockNumber: result.blockNumber - 1n,
+      });
+      return undefined;
+    } catch (error) {
+      return decodeRevert(error);
+    }
+  }
+
+  private require(hash: Hash): TrackedTransaction {
+    const tracked = this.tracked.get(hash);
+    if (!tracked) {
+      throw new Error(`Transaction ${hash} was not sent through this transaction manager`);
+    }
+    return tracked;
+  }
+
+  private keyOf(tracked: TrackedTransaction): string {
+    return `${tracked.chainId}:${tracked.from.toLowerCase()}`;
+  }
+
+  // Run `task` after every earlier task for the same account has settled
+  private serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const next = previous.then(task);
+    this.queues.set(key, next.catch(() => undefined));
+    return next;
+  }
+}
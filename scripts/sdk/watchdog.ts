@@ -0,0 +1,193 @@
+// Refund watchdog
+// Tracks every escrow our account funded and calls refund() as soon as its timelock has passed
+// on-chain, keeping a report of what was reclaimed. This is the safety net for unattended swaps.
+
+import { type Address, type Hash, isAddressEqual, type PublicClient } from "viem";
+import { EscrowClient, type SignerClient } from "./escrow.ts";
+import { TransactionManager } from "./transactions.ts";
+import type { EscrowWatcher } from "./watcher.ts";
+
+export interface WatchdogChain {
+  chainId: number;
+  client: PublicClient;
+  signer: SignerClient; // must be `party`
+}
+
+export interface WatchdogOptions {
+  party: Address;
+  pollInterval?: number;
+  transactions?: TransactionManager; // the manager the chains' signers send through
+}
+
+// Anything identifying one of our escrows; EscrowCreatedEvent and journaled legs both fit
+export interface RefundCandidate {
+  chainId: number;
+  escrow: Address;
+  token: Address;
+  timelock: bigint;
+}
+
+export interface RefundRecord {
+  chainId: number;
+  escrow: Address;
+  token: Address;
+  amount: bigint;
+  hash: Hash;
+  refundedAt: string; // ISO timestamp
+}
+
+export type ClosedReason = "withdrawn" | "refunded" | "unfunded";
+
+export interface RefundReport {
+  refunded: RefundRecord[];
+  closed: { chainId: number; escrow: Address; reason: ClosedReason }[]; // dropped without our refund
+  watching: RefundCandidate[];
+  totals: { chainId: number; token: Address; amount: bigint }[];
+}
+
+export interface WatchdogEvents {
+  refunded: RefundRecord;
+  error: { chainId: number; escrow?: Address; error: unknown };
+}
+
+type Listener<T> = (event: T) => void | Promise<void>;
+
+const DEFAULT_POLL_INTERVAL = 5000;
+
+function candidateKey(candidate: { chainId: number; escrow: Address }): string {
+  return `${candidate.chainId}:${candidate.escrow.toLowerCase()}`;
+}
+
+export class RefundWatchdog {
+  private readonly chains: Map<number, WatchdogChain>;
+  private readonly pollInterval: number;
+  private readonly transactions: TransactionManager;
+  private readonly watching = new Map<string, RefundCandidate>();
+  private readonly refunded: RefundRecord[] = [];
+  private readonly closed: RefundReport["closed"] = [];
+  private readonly listeners: { [K in keyof WatchdogEvents]: Set<Listener<WatchdogEvents[K]>> } = {
+    refunded: new Set(),
+    error: new Set(),
+  };
+  private readonly unsubscribe?: () => void;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(
+    chains: WatchdogChain[],
+    options: WatchdogOptions,
+    private readonly watcher?: EscrowWatcher,
+  ) {
+    this.chains = new Map(chains.map((chain) => [chain.chainId, chain]));
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.transactions = options.transactions ?? new TransactionManager();
+    this.unsubscribe = watcher?.on("escrowCreated", (event) => {
+      if (isAddressEqual(event.sender, options.party)) this.track(event);
+    });
+  }
+
+  on<K extends keyof WatchdogEvents>(type: K, listener: Listener<WatchdogEvents[K]>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.listeners[type].delete(listener);
+  }
+
+  track(candidate: RefundCandidate): void {
+    const key = candidateKey(candidate);
+    if (!this.watching.has(key)) {
+      this.watching.set(key, {
+        chainId: candidate.chainId,
+        escrow: candidate.escrow,
+        token: candidate.token,
+        timelock: candidate.timelock,
+      });
+    }
+  }
+
+  // One pass: refresh the watcher, then refund every tracked escrow whose timelock has passed
+  async poll(): Promise<RefundRecord[]> {
+    await this.watcher?.poll();
+    const done: RefundRecord[] = [];
+    const now = new Map<number, bigint>();
+
+    for (const [key, candidate] of [...this.watching]) {
+      const chain = this.chains.get(candidate.chainId);
+      if (!chain) continue;
+      try {
+        if (!now.has(chain.chainId)) {
+          now.set(chain.chainId, (await chain.client.getBlock()).timestamp);
+        }
+        if (now.get(chain.chainId)! < candidate.timelock) continue;
+
+        const escrow = new EscrowClient(candidate.escrow, chain.client, chain.signer);
+        const details = await escrow.getDetails();
+        if (details.withdrawn || details.refunded || !details.funded) {
+          const reason: ClosedReason = details.withdrawn ? "withdrawn" : details.refunded ? "refunded" : "unfunded";
+          this.watching.delete(key);
+          this.closed.push({ chainId: candidate.chainId, escrow: candidate.escrow, reason });
+          continue;
+        }
+        if (!(await escrow.canRefund())) continue;
+
+        const { hash } = await this.transactions.confirm(chain.client, await escrow.refund(), "refund");
+        const record: RefundRecord = {
+          chainId: candidate.chainId,
+          escrow: candidate.escrow,
+          token: details.token,
+          amount: details.amount,
+          hash,
+          refundedAt: new Date().toISOString(),
+        };
+        this.watching.delete(key);
+        this.refunded.push(record);
+        done.push(record);
+        await this.emit("refunded", record);
+      } catch (error) {
+        await this.emit("error", { chainId: candidate.chainId, escrow: candidate.escrow, error });
+      }
+    }
+    return done;
+  }
+
+  report(): RefundReport {
+    const totals = new Map<string, { chainId: number; token: Address; amount: bigint }>();
+    for (const record of this.refunded) {
+      const key = `${record.chainId}:${record.token.toLowerCase()}`;
+      const total = totals.get(key) ?? { chainId: record.chainId, token: record.token, amount: 0n };
+      total.amount += record.amount;
+      totals.set(key, total);
+    }
+    return {
+      refunded: [...this.refunded],
+      closed: [...this.closed],
+      watching: [...this.watching.values()],
+      totals: [...totals.values()],
+    };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.poll();
+      if (this.running) {
+        this.timer = setTimeout(loop, this.pollInterval);
+      }
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.unsubscribe?.();
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async emit<K extends keyof WatchdogEvents>(type: K, event: WatchdogEvents[K]): Promise<void> {
+    for (const listener of this.listeners[type]) {
+      await listener(event);
+    }
+  }
+}
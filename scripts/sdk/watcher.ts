@@ -0,0 +1,328 @@
+// Cross-chain escrow watcher
+// Polls EscrowCreated logs from several factories, matches escrows by hashlock across chains and
+// notifies once both legs of a swap are funded. Only blocks `confirmations` deep are read, and
+// recent block hashes are checkpointed so deeper reorgs roll the index back and rescan.
+
+import type { Address, Hash, Hex, PublicClient } from "viem";
+import { isAddressEqual } from "viem";
+import { SimpleEscrowFactoryAbi } from "../abis/index.ts";
+import { EscrowClient } from "./escrow.ts";
+
+export interface WatchedChain {
+  name: string;
+  chainId: number;
+  client: PublicClient;
+  factory: Address;
+  fromBlock?: bigint; // first block to scan; defaults to the confirmed head at start
+}
+
+export interface WatcherOptions {
+  confirmations?: number; // blocks a log must be buried under before it is reported
+  pollInterval?: number; // ms between polls in start()
+  maxBlockRange?: bigint; // largest getLogs range per request
+  checkpointDepth?: number; // scanned block hashes kept per chain for reorg detection
+}
+
+// Decoded EscrowCreated log
+export interface EscrowCreatedEvent {
+  chainId: number;
+  escrow: Address;
+  sender: Address;
+  recipient: Address;
+  token: Address;
+  hashlock: Hex;
+  timelock: bigint;
+  salt: Hex;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+// Two funded escrows on different chains sharing a hashlock with mirrored parties
+export interface CounterpartyLocked {
+  hashlock: Hex;
+  legs: readonly [EscrowCreatedEvent, EscrowCreatedEvent]; // first-seen leg first
+}
+
+export interface ReorgNotice {
+  chainId: number;
+  rewoundTo: bigint; // last block still considered canonical
+  removed: EscrowCreatedEvent[];
+}
+
+export interface WatcherEvents {
+  escrowCreated: EscrowCreatedEvent;
+  counterpartyLocked: CounterpartyLocked;
+  reorg: ReorgNotice;
+  error: { chainId: number; error: unknown };
+}
+
+type Listener<T> = (event: T) => void | Promise<void>;
+
+interface ChainCursor {
+  chain: WatchedChain;
+  scanned?: bigint; // last block whose logs were indexed
+  checkpoints: Map<bigint, { hash: Hash; rangeStart: bigint }>; // keyed by the last block of each scanned range
+}
+
+const DEFAULT_CONFIRMATIONS = 2;
+const DEFAULT_POLL_INTERVAL = 4000;
+const DEFAULT_MAX_BLOCK_RANGE = 2000n;
+const DEFAULT_CHECKPOINT_DEPTH = 64;
+
+function escrowKey(event: EscrowCreatedEvent): string {
+  return `${event.chainId}:${event.escrow.toLowerCase()}`;
+}
+
+function pairKey(a: EscrowCreatedEvent, b: EscrowCreatedEvent): string {
+  return [escrowKey(a), escrowKey(b)].sort().join("|");
+}
+
+// Legs of one swap: same hashlock, different chains, each sender is the other's recipient
+export function isCounterpartyPair(a: EscrowCreatedEvent, b: EscrowCreatedEvent): boolean {
+  return a.chainId !== b.chainId &&
+    a.hashlock.toLowerCase() === b.hashlock.toLowerCase() &&
+    isAddressEqual(a.sender, b.recipient) &&
+    isAddressEqual(a.recipient, b.sender);
+}
+
+// The leg of a matched swap that `party` did not fund
+export function counterpartyOf(
+  locked: CounterpartyLocked,
+  party: Address,
+): EscrowCreatedEvent | undefined {
+  return locked.legs.find((leg) => !isAddressEqual(leg.sender, party));
+}
+
+export class EscrowWatcher {
+  private readonly cursors: ChainCursor[];
+  private readonly confirmations: bigint;
+  private readonly pollInterval: number;
+  private readonly maxBlockRange: bigint;
+  private readonly checkpointDepth: number;
+
+  private readonly byHashlock = new Map<string, EscrowCreatedEvent[]>();
+  private readonly pending = new Map<string, CounterpartyLocked>(); // matched, waiting on funding
+  private readonly notified = new Set<string>();
+  private readonly listeners: { [K in keyof WatcherEvents]: Set<Listener<WatcherEvents[K]>> } = {
+    escrowCreated: new Set(),
+    counterpartyLocked: new Set(),
+    reorg: new Set(),
+    error: new Set(),
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(chains: WatchedChain[], options: WatcherOptions = {}) {
+    this.cursors = chains.map((chain) => ({ chain, checkpoints: new Map() }));
+    this.confirmations = BigInt(options.confirmations ?? DEFAULT_CONFIRMATIONS);
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.checkpointDepth = options.checkpointDepth ?? DEFAULT_CHECKPOINT_DEPTH;
+  }
+
+  // Subscribe to a notification; returns an unsubscribe function
+  on<K extends keyof WatcherEvents>(type: K, listener: Listener<WatcherEvents[K]>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.listeners[type].delete(listener);
+  }
+
+  // Indexed escrows for a hashlock on every watched chain
+  escrowsByHashlock(hashlock: Hex): EscrowCreatedEvent[] {
+    return [...(this.byHashlock.get(hashlock.toLowerCase()) ?? [])];
+  }
+
+  // Resolve once a funded counterparty escrow for `hashlock` is seen
+  waitForCounterparty(hashlock: Hex, party?: Address): Promise<CounterpartyLocked> {
+    return new Promise((resolve) => {
+      const unsubscribe = this.on("counterpartyLocked", (locked) => {
+        if (locked.hashlock.toLowerCase() !== hashlock.toLowerCase()) return;
+        if (party && !locked.legs.some((leg) => isAddressEqual(leg.sender, party))) return;
+        unsubscribe();
+        resolve(locked);
+      });
+    });
+  }
+
+  // Scan every chain once, then re-check matched pairs for funding
+  async poll(): Promise<void> {
+    for (const cursor of this.cursors) {
+      try {
+        await this.pollChain(cursor);
+      } catch (error) {
+        await this.emit("error", { chainId: cursor.chain.chainId, error });
+      }
+    }
+    await this.checkPending();
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.poll();
+      if (this.running) {
+        this.timer = setTimeout(loop, this.pollInterval);
+      }
+    };
+    loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async pollChain(cursor: ChainCursor): Promise<void> {
+    const { client } = cursor.chain;
+    const head = await client.getBlockNumber();
+    const confirmed = head - this.confirmations;
+    if (confirmed < 0n) return;
+
+    if (cursor.scanned === undefined) {
+      cursor.scanned = (cursor.chain.fromBlock ?? confirmed) - 1n;
+    } else {
+      await this.detectReorg(cursor);
+    }
+
+    let scanned: bigint = cursor.scanned;
+    while (scanned < confirmed) {
+      const fromBlock: bigint = scanned + 1n;
+      const rangeEnd = fromBlock + this.maxBlockRange - 1n;
+      const toBlock: bigint = rangeEnd < confirmed ? rangeEnd : confirmed;
+      const logs = await client.getContractEvents({
+        address: cursor.chain.factory,
+        abi: SimpleEscrowFactoryAbi,
+        eventName: "EscrowCreated",
+        fromBlock,
+        toBlock,
+      });
+      for (const log of logs) {
+        await this.index({
+          chainId: cursor.chain.chainId,
+          escrow: log.args.escrow!,
+          sender: log.args.sender!,
+          recipient: log.args.recipient!,
+          token: log.args.token!,
+          hashlock: log.args.hashlock!,
+          timelock: log.args.timelock!,
+          salt: log.args.salt!,
+          // Confirmed logs are never pending, so their position is always set
+          blockNumber: log.blockNumber!,
+          blockHash: log.blockHash!,
+          transactionHash: log.transactionHash!,
+          logIndex: log.logIndex!,
+        });
+      }
+      const block = await client.getBlock({ blockNumber: toBlock });
+      scanned = toBlock;
+      cursor.scanned = toBlock;
+      this.checkpoint(cursor, fromBlock, toBlock, block.hash);
+    }
+  }
+
+  private checkpoint(cursor: ChainCursor, rangeStart: bigint, blockNumber: bigint, hash: Hash): void {
+    cursor.checkpoints.set(blockNumber, { hash, rangeStart });
+    while (cursor.checkpoints.size > this.checkpointDepth) {
+      const oldest = cursor.checkpoints.keys().next().value as bigint;
+      cursor.checkpoints.delete(oldest);
+    }
+  }
+
+  // Walk checkpoints back to the newest block still on the canonical chain and drop everything after it
+  private async detectReorg(cursor: ChainCursor): Promise<void> {
+    const checkpoints = [...cursor.checkpoints.entries()].reverse();
+    if (checkpoints.length === 0) return;
+    let canonical: bigint | undefined;
+    for (const [blockNumber, { hash }] of checkpoints) {
+      const block = await cursor.chain.client.getBlock({ blockNumber });
+      if (block.hash === hash) {
+        canonical = blockNumber;
+        break;
+      }
+      cursor.checkpoints.delete(blockNumber);
+    }
+    if (canonical === cursor.scanned) return;
+
+    // Deeper than every checkpoint: rescan every range still covered by checkpoints
+    const rewoundTo = canonical ?? checkpoints[checkpoints.length - 1][1].rangeStart - 1n;
+    const removed = this.unindex(cursor.chain.chainId, rewoundTo);
+    cursor.scanned = rewoundTo;
+    await this.emit("reorg", { chainId: cursor.chain.chainId, rewoundTo, removed });
+  }
+
+  private async index(event: EscrowCreatedEvent): Promise<void> {
+    const key = event.hashlock.toLowerCase();
+    const existing = this.byHashlock.get(key) ?? [];
+    if (existing.some((e) => escrowKey(e) === escrowKey(event))) return;
+    for (const other of existing) {
+      if (isCounterpartyPair(other, event)) {
+        this.pending.set(pairKey(other, event), { hashlock: event.hashlock, legs: [other, event] });
+      }
+    }
+    existing.push(event);
+    this.byHashlock.set(key, existing);
+    await this.emit("escrowCreated", event);
+  }
+
+  // Remove events above `block` on a chain, forgetting any pairs they were part of
+  private unindex(chainId: number, block: bigint): EscrowCreatedEvent[] {
+    const removed: EscrowCreatedEvent[] = [];
+    for (const [key, events] of this.byHashlock) {
+      const kept = events.filter((e) => {
+        const drop = e.chainId === chainId && e.blockNumber > block;
+        if (drop) removed.push(e);
+        return !drop;
+      });
+      if (kept.length) this.byHashlock.set(key, kept);
+      else this.byHashlock.delete(key);
+    }
+    const removedKeys = new Set(removed.map(escrowKey));
+    const involvesRemoved = (k: string) => k.split("|").some((part) => removedKeys.has(part));
+    for (const key of [...this.pending.keys()]) {
+      if (involvesRemoved(key)) this.pending.delete(key);
+    }
+    for (const key of [...this.notified]) {
+      if (involvesRemoved(key)) this.notified.delete(key);
+    }
+    return removed;
+  }
+
+  // Matched pairs are only reported once both escrows hold funds
+  private async checkPending(): Promise<void> {
+    for (const [key, locked] of [...this.pending]) {
+      if (this.notified.has(key)) {
+        this.pending.delete(key);
+        continue;
+      }
+      const funded = await Promise.all(locked.legs.map((leg) => this.isFunded(leg)));
+      if (funded.every(Boolean)) {
+        this.pending.delete(key);
+        this.notified.add(key);
+        await this.emit("counterpartyLocked", locked);
+      }
+    }
+  }
+
+  private async isFunded(leg: EscrowCreatedEvent): Promise<boolean> {
+    const cursor = this.cursors.find((c) => c.chain.chainId === leg.chainId);
+    if (!cursor) return false;
+    try {
+      const details = await new EscrowClient(leg.escrow, cursor.chain.client).getDetails();
+      return details.funded;
+    } catch (error) {
+      await this.emit("error", { chainId: leg.chainId, error });
+      return false;
+    }
+  }
+
+  private async emit<K extends keyof WatcherEvents>(type: K, event: WatcherEvents[K]): Promise<void> {
+    for (const listener of this.listeners[type]) {
+      await listener(event);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { assertEquals, assertNotEquals, assertThrows } from "@std/assert";
+import type { Address, Hex } from "viem";
+import {
+  assertCompatibleSchemes,
+  assertHashlocks,
+  assertRouteSchemes,
+  createSecret,
+  escrowHashlock,
+  findSchemeConflicts,
+  generatePreimage,
+  HashlockSchemeError,
+  lightningPaymentHash,
+  SaltGenerator,
+  type SwapLeg,
+  SwapPlanError,
+  TokenAmount,
+  verifyPreimage,
+} from "./sdk/index.ts";
+
+// Preimage 0x00..01 hashed as the contracts do
+const PREIMAGE = ("0x" + "00".repeat(31) + "01") as Hex;
+
+function leg(hashlock: Hex): SwapLeg {
+  const address = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Address;
+  return {
+    chainId: 1,
+    factory: address,
+    amount: TokenAmount.fromRaw({ chainId: 1, address, symbol: "USDC", decimals: 6 }, 1n),
+    escrow: { token: address, sender: address, recipient: address, hashlock, timelock: 1n, salt: hashlock },
+  };
+}
+
+Deno.test("Secrets - hashes match each contract's scheme", () => {
+  assertEquals(escrowHashlock(PREIMAGE), "0xb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6");
+  assertEquals(lightningPaymentHash(PREIMAGE), "0xec4916dd28fc4c10d78e287ca5d9cc51ee1ae73cbfde08c6b37324cbfaac8bc5");
+  assertEquals(verifyPreimage("keccak256", PREIMAGE, escrowHashlock(PREIMAGE)), true);
+  assertEquals(verifyPreimage("sha256", PREIMAGE, escrowHashlock(PREIMAGE)), false);
+});
+
+Deno.test("Secrets - preimages and salts are random and distinct", () => {
+  const secret = createSecret();
+  assertEquals(secret.preimage.length, 66);
+  assertEquals(secret.hashlocks.keccak256, escrowHashlock(secret.preimage));
+  assertEquals(secret.hashlocks.sha256, lightningPaymentHash(secret.preimage));
+  assertNotEquals(generatePreimage(), generatePreimage());
+
+  const salts = new SaltGenerator().many(100);
+  assertEquals(new Set(salts).size, 100);
+});
+
+Deno.test("Secrets - flags routes mixing hashlock schemes", () => {
+  const route = [
+    { name: "base escrow", scheme: "keccak256" as const },
+    { name: "etherlink escrow", scheme: "keccak256" as const },
+  ];
+  assertEquals(findSchemeConflicts(route), []);
+  assertCompatibleSchemes(route);
+
+  const mixed = [...route, { name: "lightning bridge", scheme: "sha256" as const }];
+  assertEquals(findSchemeConflicts(mixed).length, 2);
+  assertThrows(() => assertCompatibleSchemes(mixed), HashlockSchemeError);
+});
+
+Deno.test("Secrets - swap plan rejects legs held by contracts with different schemes", () => {
+  const hashlock = escrowHashlock(PREIMAGE);
+  const bridge = (chainId: number) => ({ chainId, contract: "LightningBridge" as const });
+  assertRouteSchemes({ source: leg(hashlock), destination: { ...leg(hashlock), contract: "SimpleEscrow" } });
+  assertRouteSchemes({ source: bridge(1), destination: bridge(2) });
+
+  const error = assertThrows(
+    () => assertRouteSchemes({ source: leg(hashlock), destination: bridge(2) }),
+    HashlockSchemeError,
+  );
+  assertEquals(
+    error.message,
+    "Route mixes hashlock schemes: source SimpleEscrow on chain 1 (keccak256) vs " +
+      "destination LightningBridge on chain 2 (sha256)",
+  );
+});
+
+Deno.test("Secrets - swap plan rejects a Lightning payment hash on escrow legs", () => {
+  const paymentHash = lightningPaymentHash(PREIMAGE);
+  assertHashlocks({ source: leg(escrowHashlock(PREIMAGE)), destination: leg(escrowHashlock(PREIMAGE)) }, PREIMAGE);
+  const error = assertThrows(
+    () => assertHashlocks({ source: leg(paymentHash), destination: leg(paymentHash) }, PREIMAGE),
+    SwapPlanError,
+  );
+  assertEquals(error.violation, "hashlock");
+});
@@ -0,0 +1,87 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { type Address, type Hex, parseGwei } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { decryptKeystore, encryptKeystore, KeystoreSigner, RemoteSigner, SignerServer } from "./sdk/index.ts";
+
+// Web3 Secret Storage pbkdf2 test vector (password "testpassword")
+const SPEC_KEYSTORE = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  version: 3,
+};
+const SPEC_KEY = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+
+Deno.test("Signers - keystores decrypt with scrypt and pbkdf2", async () => {
+  assertEquals(decryptKeystore(SPEC_KEYSTORE, "testpassword"), SPEC_KEY);
+  assertThrows(() => decryptKeystore(SPEC_KEYSTORE, "wrong"), Error, "wrong password");
+  assertThrows(() => decryptKeystore({ version: 1 }, "testpassword"), Error, "not a version 3");
+
+  // Cheap parameters keep the test fast; the file's own parameters are used to decrypt
+  const privateKey = generatePrivateKey();
+  const scrypt = encryptKeystore(privateKey, "hunter2", { iterations: 1024 });
+  const { n, r, p } = scrypt.crypto.kdfparams as { n: number; r: number; p: number };
+  assertEquals([scrypt.crypto.kdf, n, r, p], ["scrypt", 1024, 8, 1]);
+  assertEquals(decryptKeystore(scrypt, "hunter2"), privateKey);
+  const pbkdf2 = encryptKeystore(privateKey, "hunter2", { kdf: "pbkdf2", iterations: 1000 });
+  assertEquals(decryptKeystore(pbkdf2, "hunter2"), privateKey);
+
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await Deno.writeTextFile(path, JSON.stringify(scrypt));
+    const account = await new KeystoreSigner(path, "hunter2").account();
+    assertEquals(account.address, privateKeyToAccount(privateKey).address);
+    await assertRejects(() => new KeystoreSigner(path, "hunter3").account(), Error, "wrong password");
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("Signers - remote signer signs exactly what the local key would", async () => {
+  const local = privateKeyToAccount(generatePrivateKey());
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, new SignerServer([local]).handle);
+  const url = `http://127.0.0.1:${server.addr.port}`;
+  try {
+    const remote = await new RemoteSigner(url).account();
+    assertEquals(remote.address, local.address);
+
+    assertEquals(await remote.signMessage({ message: "hello" }), await local.signMessage({ message: "hello" }));
+
+    const transaction = {
+      type: "eip1559",
+      chainId: 8453,
+      nonce: 7,
+      to: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address,
+      value: 10n ** 15n,
+      data: "0x12345678" as Hex,
+      gas: 60_000n,
+      maxFeePerGas: parseGwei("2"),
+      maxPriorityFeePerGas: parseGwei("1"),
+    } as const;
+    assertEquals(await remote.signTransaction(transaction), await local.signTransaction(transaction));
+
+    const typedData = {
+      domain: { name: "Bridge Me Not", version: "1", chainId: 8453 },
+      types: { Order: [{ name: "maker", type: "address" }, { name: "amount", type: "uint256" }] },
+      primaryType: "Order",
+      message: { maker: local.address, amount: 5n * 10n ** 18n },
+    } as const;
+    assertEquals(await remote.signTypedData(typedData), await local.signTypedData(typedData));
+
+    const stranger = privateKeyToAccount(generatePrivateKey()).address;
+    await assertRejects(() => new RemoteSigner(url, stranger).account(), Error, "does not hold");
+  } finally {
+    await server.shutdown();
+  }
+});
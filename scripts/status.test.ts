@@ -0,0 +1,200 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { type Address, type Hex, pad, type PublicClient, toHex } from "viem";
+import {
+  BRIDGE_SWAP_DIRECTION,
+  BRIDGE_SWAP_STATE,
+  collectStatus,
+  escrowState,
+  formatDuration,
+  formatStatus,
+  type StatusChain,
+  statusToJson,
+} from "./sdk/index.ts";
+
+const address = (n: number) => pad(toHex(n), { size: 20 }) as Address;
+const hash = (n: number) => pad(toHex(n), { size: 32 }) as Hex;
+
+const ALICE = address(0xa11ce);
+const BOB = address(0xb0b);
+const CAROL = address(0xca201);
+const FACTORY = address(0xfac);
+const BRIDGE = address(0xb1d9e);
+const TOKEN = address(0x70c);
+const NOW = 10_000n;
+
+interface FakeEscrow {
+  sender: Address;
+  recipient: Address;
+  timelock: bigint;
+  funded: boolean;
+  withdrawn?: boolean;
+  canWithdraw?: boolean;
+  canRefund?: boolean;
+  block?: bigint; // of its EscrowCreated log, default 1
+}
+
+function escrowDetails(escrow: FakeEscrow) {
+  return {
+    token: TOKEN,
+    sender: escrow.sender,
+    recipient: escrow.recipient,
+    hashlock: hash(1),
+    timelock: escrow.timelock,
+    amount: 1_500_000_000_000_000_000n,
+    funded: escrow.funded,
+    withdrawn: escrow.withdrawn ?? false,
+    refunded: false,
+    preimage: hash(0),
+  };
+}
+
+function swapDetails(paymentHash: Hex, initiator: Address, recipient: Address) {
+  return {
+    evmEscrow: address(0),
+    initiator,
+    evmToken: TOKEN,
+    evmAmount: 2_000_000_000_000_000_000n,
+    paymentHash,
+    satoshiAmount: 25_000n,
+    lightningInvoice: "",
+    state: BRIDGE_SWAP_STATE.Initiated,
+    direction: BRIDGE_SWAP_DIRECTION.LightningToEVM,
+    createdAt: 9_000n,
+    timelock: NOW - 90n,
+    preimage: hash(0),
+    recipient,
+  };
+}
+
+interface EventsRequest {
+  args: { sender?: Address; recipient?: Address };
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+// Answers the reads status.ts makes from an in-memory factory, escrows and bridge
+function fakeClient(escrows: Map<Address, FakeEscrow>, userSwaps: Hex[], ranges: [bigint, bigint][] = []) {
+  const swap = swapDetails(hash(0x5a), ALICE, ALICE);
+  return {
+    getBlock: () => Promise.resolve({ number: 42n, timestamp: NOW }),
+    getContractEvents: ({ args, fromBlock, toBlock }: EventsRequest) => {
+      ranges.push([fromBlock, toBlock]);
+      return Promise.resolve(
+        [...escrows.entries()]
+          .filter(([, escrow]) => (escrow.block ?? 1n) >= fromBlock && (escrow.block ?? 1n) <= toBlock)
+          .filter(([, escrow]) => escrow.sender === args.sender || escrow.recipient === args.recipient)
+          .map(([escrow, { sender, recipient }]) => ({ args: { escrow, sender, recipient } })),
+      );
+    },
+    readContract: ({ address, functionName }: { address: Address; functionName: string }) => {
+      if (address === BRIDGE) {
+        if (functionName === "getUserSwaps") return Promise.resolve(userSwaps);
+        if (functionName === "getSwapDetails") return Promise.resolve(swap);
+        return Promise.resolve(functionName === "canExpire");
+      }
+      const escrow = escrows.get(address)!;
+      if (functionName === "getDetails") return Promise.resolve(escrowDetails(escrow));
+      return Promise.resolve(functionName === "canWithdraw" ? escrow.canWithdraw ?? false : escrow.canRefund ?? false);
+    },
+  } as unknown as PublicClient;
+}
+
+function chains(): StatusChain[] {
+  const escrows = new Map<Address, FakeEscrow>([
+    [address(0xe1), { sender: ALICE, recipient: BOB, timelock: NOW + 3_900n, funded: true, canWithdraw: true }],
+    [address(0xe2), { sender: CAROL, recipient: ALICE, timelock: NOW - 30n, funded: true, canRefund: true }],
+    [address(0xe3), { sender: ALICE, recipient: ALICE, timelock: NOW + 60n, funded: true, withdrawn: true }],
+    [address(0xe4), { sender: BOB, recipient: CAROL, timelock: NOW, funded: false }],
+  ]);
+  return [
+    {
+      chainId: 1,
+      name: "base",
+      client: fakeClient(escrows, [hash(0x5a), hash(0x5a).toUpperCase().replace("0X", "0x") as Hex]),
+      factory: FACTORY,
+      bridge: BRIDGE,
+      tokens: [{ address: TOKEN, symbol: "TKA", decimals: 18 }],
+    },
+    {
+      chainId: 2,
+      name: "etherlink",
+      client: { getBlock: () => Promise.reject(new Error("connection refused")) } as unknown as PublicClient,
+      factory: FACTORY,
+    },
+  ];
+}
+
+Deno.test("Status - collects escrows by role and bridge swaps per chain", async () => {
+  const report = await collectStatus(chains(), ALICE);
+  const [base, etherlink] = report.chains;
+
+  assertEquals([base.blockNumber, base.timestamp], [42n, NOW]);
+  // Sorted by timelock; the unrelated Bob→Carol escrow is left out
+  assertEquals(
+    base.escrows.map((escrow) => [escrow.address, escrow.roles, escrow.state, escrow.timeLeft]),
+    [
+      [address(0xe2), ["recipient"], "funded", -30n],
+      [address(0xe3), ["sender", "recipient"], "withdrawn", 60n],
+      [address(0xe1), ["sender"], "funded", 3_900n],
+    ],
+  );
+  assertEquals(base.escrows.map((escrow) => [escrow.canWithdraw, escrow.canRefund]), [
+    [false, true],
+    [false, false],
+    [true, false],
+  ]);
+
+  // A swap Alice both initiated and receives is listed once
+  assertEquals(base.swaps.length, 1);
+  const [swap] = base.swaps;
+  assertEquals([swap.paymentHash, swap.direction, swap.state], [hash(0x5a), "LightningToEVM", "Initiated"]);
+  assertEquals([swap.timeLeft, swap.canWithdraw, swap.canExpire], [-90n, false, true]);
+
+  // A chain that cannot be read is reported without failing the others
+  assertEquals(etherlink, { chainId: 2, name: "etherlink", escrows: [], swaps: [], error: "connection refused" });
+});
+
+Deno.test("Status - reads escrow logs in bounded block ranges", async () => {
+  const ranges: [bigint, bigint][] = [];
+  const escrows = new Map<Address, FakeEscrow>([
+    [address(0xe1), { sender: ALICE, recipient: BOB, timelock: NOW, funded: true, block: 3n }],
+    [address(0xe2), { sender: BOB, recipient: ALICE, timelock: NOW, funded: true, block: 41n }],
+  ]);
+  const chain = { chainId: 1, name: "base", client: fakeClient(escrows, [], ranges), factory: FACTORY };
+
+  const [status] = (await collectStatus([{ ...chain, fromBlock: 2n, maxBlockRange: 10n }], ALICE)).chains;
+  assertEquals(status.escrows.map((escrow) => [escrow.address, escrow.roles]), [
+    [address(0xe1), ["sender"]],
+    [address(0xe2), ["recipient"]],
+  ]);
+  // Sender and recipient logs per range, up to the head at block 42
+  assertEquals([...new Set(ranges.map(([from, to]) => `${from}-${to}`))], ["2-11", "12-21", "22-31", "32-41", "42-42"]);
+  assertEquals(ranges.length, 10);
+});
+
+Deno.test("Status - formats tables, JSON and durations", async () => {
+  const setup = chains();
+  const report = await collectStatus(setup, ALICE);
+  const text = formatStatus(report, setup);
+
+  assertStringIncludes(text, `Status of ${ALICE}`);
+  assertStringIncludes(text, "base (chain 1) at block 42");
+  assertStringIncludes(text, "1.5 TKA");
+  assertStringIncludes(text, "2 TKA");
+  assertStringIncludes(text, "expired 1m 30s ago");
+  assertStringIncludes(text, "etherlink (chain 2)\n  unavailable: connection refused");
+  const escrowRow = text.split("\n").find((line) => line.includes(address(0xe1)))!;
+  assert(/1h 05m\s+yes\s+-$/.test(escrowRow), escrowRow);
+
+  const json = JSON.parse(statusToJson(report));
+  assertEquals(json.chains[0].blockNumber, "42");
+  assertEquals(json.chains[0].escrows[0].timeLeft, "-30");
+  assertEquals(json.chains[0].swaps[0].details.satoshiAmount, "25000");
+
+  assertEquals(
+    [0n, 42n, 90n, 3_900n, 90_061n, -5n].map(formatDuration),
+    ["0s", "42s", "1m 30s", "1h 05m", "1d 1h", "expired 5s ago"],
+  );
+  assertEquals(escrowState({ funded: false, withdrawn: false, refunded: false }), "unfunded");
+  assertEquals(escrowState({ funded: true, withdrawn: false, refunded: true }), "refunded");
+});
@@ -32,8 +32,8 @@ if [ ! -d "$TEST_DIR" ]; then
 fi
 
 # Check if deployment exists
-if [ ! -f "deployment.json" ]; then
-    echo -e "${RED}Error: deployment.json not found!${NC}" | tee -a "$LOG_FILE"
+if [ ! -f "deployments/local.json" ]; then
+    echo -e "${RED}Error: deployments/local.json not found!${NC}" | tee -a "$LOG_FILE"
     echo "Please run deploy.sh first" | tee -a "$LOG_FILE"
     exit 1
 fi
@@ -53,7 +53,9 @@ echo -e "${GREEN}✓${NC} Both chains are accessible" | tee -a "$LOG_FILE"
 # Set environment variables for the test
 export BASE_RPC_URL="http://localhost:8545"
 export ETHERLINK_RPC_URL="http://localhost:8546"
-export DEPLOYMENT_FILE="deployment.json"
+export BASE_ANVIL=true
+export ETHERLINK_ANVIL=true
+export DEPLOYMENT_ENV="local"
 
 # Load test accounts from .env if available
 if [ -f ".env" ]; then
@@ -57,14 +57,14 @@ check_chains() {
 check_deployment() {
     log "Checking deployment status..."
     
-    if [ ! -f "$PROJECT_ROOT/deployment.json" ]; then
-        log_error "deployment.json not found. Please run deployment script first."
+    if [ ! -f "$PROJECT_ROOT/deployments/local.json" ]; then
+        log_error "deployments/local.json not found. Please run deployment script first."
         return 1
     fi
     
     # Validate JSON
-    if ! jq . "$PROJECT_ROOT/deployment.json" > /dev/null 2>&1; then
-        log_error "deployment.json is invalid JSON"
+    if ! jq . "$PROJECT_ROOT/deployments/local.json" > /dev/null 2>&1; then
+        log_error "deployments/local.json is invalid JSON"
         return 1
     fi
     
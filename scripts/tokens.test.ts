@@ -0,0 +1,98 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { type Address, getAddress, pad, type PublicClient, toHex } from "viem";
+import { type Token, TokenAmount, TokenError, TokenRegistry } from "./sdk/index.ts";
+
+const USDC = getAddress(pad(toHex(6), { size: 20 }));
+const XTZ = getAddress(pad(toHex(18), { size: 20 }));
+const MISSING = getAddress(pad(toHex(0xdead), { size: 20 }));
+
+const usdc: Token = { chainId: 1, address: USDC, symbol: "USDC", decimals: 6 };
+const xtz: Token = { chainId: 1, address: XTZ, symbol: "XTZ", decimals: 18 };
+
+// ERC20 reads for USDC (6 decimals) and XTZ (18 decimals); anything else has no contract. Counts
+// decimals() calls so caching shows.
+function fakeClient(reads: { count: number } = { count: 0 }): PublicClient {
+  const tokens: Record<string, { symbol: string; decimals: number }> = {
+    [USDC.toLowerCase()]: { symbol: "USDC", decimals: 6 },
+    [XTZ.toLowerCase()]: { symbol: "XTZ", decimals: 18 },
+  };
+  return {
+    readContract: ({ address, functionName }: { address: Address; functionName: "symbol" | "decimals" }) => {
+      const token = tokens[address.toLowerCase()];
+      if (!token) return Promise.reject(new Error("execution reverted\nno contract code"));
+      if (functionName === "decimals") reads.count++;
+      return Promise.resolve(token[functionName]);
+    },
+  } as unknown as PublicClient;
+}
+
+Deno.test("Tokens - parses and formats amounts with each token's decimals", () => {
+  assertEquals(TokenAmount.parse(usdc, "100").raw, 100_000_000n);
+  assertEquals(TokenAmount.parse(xtz, "100").raw, 100n * 10n ** 18n);
+  assertEquals(TokenAmount.parse(usdc, "0.000001").raw, 1n);
+  assertEquals(TokenAmount.fromRaw(usdc, 100_500_000n).toString(), "100.5 USDC");
+  assertEquals(TokenAmount.fromRaw(xtz, 25n * 10n ** 17n).toDecimal(), "2.5");
+  assertEquals(TokenAmount.zero(usdc).isZero(), true);
+});
+
+Deno.test("Tokens - refuses amounts the token cannot represent", () => {
+  for (const value of ["0.0000001", "-1", "1e6", "1.", ".5", "ten", ""]) {
+    const error = assertThrows(() => TokenAmount.parse(usdc, value), TokenError);
+    assertEquals(error.violation, "amount");
+  }
+  assertEquals(TokenAmount.parse(xtz, "0.0000001").raw, 10n ** 11n);
+  assertThrows(() => TokenAmount.fromRaw(usdc, -1n), TokenError, "cannot be negative");
+});
+
+Deno.test("Tokens - arithmetic stays within one token", () => {
+  const a = TokenAmount.parse(usdc, "1.5");
+  const b = TokenAmount.parse(usdc, "0.25");
+  assertEquals(a.add(b).toString(), "1.75 USDC");
+  assertEquals(a.sub(b).raw, 1_250_000n);
+  assertEquals([a.compare(b), b.compare(a), a.compare(a)], [1, -1, 0]);
+  assertThrows(() => b.sub(a), TokenError, "Cannot subtract 1.5 USDC from 0.25 USDC");
+
+  const other = TokenAmount.parse(xtz, "1.5");
+  for (const mix of [() => a.add(other), () => a.compare(other), () => a.toRaw(xtz)]) {
+    assertEquals(assertThrows(mix, TokenError).violation, "mixed");
+  }
+  assertEquals(a.toRaw({ ...usdc, address: getAddress(USDC.toLowerCase()) }), 1_500_000n);
+  // Same address on another chain is another token
+  assertEquals(assertThrows(() => a.toRaw({ ...usdc, chainId: 2 }), TokenError).violation, "mixed");
+});
+
+Deno.test("Tokens - registry reads symbol and decimals from chain once", async () => {
+  const reads = { count: 0 };
+  const registry = new TokenRegistry(1, fakeClient(reads), [{ address: USDC }, { address: XTZ, symbol: "XTZ" }]);
+
+  assertEquals(await registry.resolve("usdc").catch((error) => error.violation), "unknown");
+  assertEquals(await registry.resolve(USDC), usdc);
+  assertEquals(await registry.resolve("xtz"), xtz);
+  assertEquals(await registry.resolve(XTZ.toLowerCase()), xtz);
+  assertEquals((await registry.parse("XTZ", "1")).raw, 10n ** 18n);
+  assertEquals((await registry.fromRaw(USDC, 2_500_000n)).toString(), "2.5 USDC");
+  assertEquals(await registry.list(), [usdc, xtz]);
+  assertEquals(reads.count, 2);
+
+  const unknown = await assertRejects(() => registry.resolve("DAI"), TokenError);
+  assertEquals(unknown.message, "Token DAI is not registered on chain 1");
+  const missing = await assertRejects(() => registry.resolve(MISSING), TokenError);
+  assertEquals([missing.violation, missing.message], [
+    "unknown",
+    `Could not read ERC20 ${MISSING} on chain 1: execution reverted`,
+  ]);
+});
+
+Deno.test("Tokens - registry refuses declared decimals that disagree with the contract", async () => {
+  const registry = new TokenRegistry(1, fakeClient(), [
+    { address: USDC, symbol: "USDC", decimals: 18 },
+    { address: XTZ, symbol: "XTZ", decimals: 18 },
+  ]);
+  const error = await assertRejects(() => registry.resolve("USDC"), TokenError);
+  assertEquals(error.violation, "decimals");
+  assertEquals(error.message, `USDC (${USDC} on chain 1) is declared with 18 decimals but its decimals() returns 6`);
+  await assertRejects(() => registry.list(), TokenError, "declared with 18 decimals");
+
+  registry.declare({ address: USDC, symbol: "USDC", decimals: 6 });
+  assertEquals(await registry.resolve("USDC"), usdc);
+});
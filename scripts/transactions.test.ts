@@ -0,0 +1,153 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  type Address,
+  createWalletClient,
+  custom,
+  encodeErrorResult,
+  getAddress,
+  type Hash,
+  type Hex,
+  keccak256,
+  pad,
+  parseTransaction,
+  type PublicClient,
+  RawContractError,
+  toHex,
+  type TransactionSerializableEIP1559,
+  WaitForTransactionReceiptTimeoutError,
+} from "viem";
+import { foundry } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  type SignerClient,
+  StuckTransactionError,
+  TransactionFailedError,
+  TransactionManager,
+  type TransactionManagerOptions,
+} from "./sdk/index.ts";
+
+const address = (n: number) => pad(toHex(n), { size: 20 }) as Address;
+
+const ACCOUNT = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+const TARGET = address(0x7a9);
+const GWEI = 10n ** 9n;
+
+interface FakeChain {
+  sent: (TransactionSerializableEIP1559 & { hash: Hash })[];
+  pendingNonce: number;
+  // Hashes whose receipt wait times out (the transaction looks stuck); `stallAll` stalls every hash
+  stuck: Set<Hash>;
+  stallAll?: boolean;
+  revertData?: Hex;
+}
+
+// A wallet signing locally and a public client answering from `chain`; every broadcast is decoded
+function fakeChain(options: TransactionManagerOptions = {}) {
+  const chain: FakeChain = { sent: [], pendingNonce: 5, stuck: new Set() };
+  const wallet = createWalletClient({
+    account: ACCOUNT,
+    chain: foundry,
+    transport: custom({
+      request: ({ method, params }) => {
+        if (method === "eth_chainId") return Promise.resolve(toHex(foundry.id));
+        if (method === "eth_sendRawTransaction") {
+          const raw = (params as [Hex])[0];
+          const hash = keccak256(raw);
+          chain.sent.push({ ...(parseTransaction(raw) as TransactionSerializableEIP1559), hash });
+          return Promise.resolve(hash);
+        }
+        return Promise.reject(new Error(`unexpected ${method}`));
+      },
+    }),
+  }) as SignerClient;
+  const receipt = (hash: Hash) => {
+    const tx = chain.sent.find((sent) => sent.hash === hash)!;
+    return {
+      transactionHash: hash,
+      from: ACCOUNT.address,
+      status: chain.revertData ? "reverted" : "success",
+      blockNumber: 100n,
+      gasUsed: tx.gas,
+      effectiveGasPrice: tx.maxFeePerGas,
+    };
+  };
+  const client = {
+    chain: foundry,
+    estimateGas: () => Promise.resolve(50_000n),
+    estimateFeesPerGas: () => Promise.resolve({ maxFeePerGas: 2n * GWEI, maxPriorityFeePerGas: GWEI }),
+    getTransactionCount: () => Promise.resolve(chain.pendingNonce),
+    waitForTransactionReceipt: ({ hash }: { hash: Hash }) =>
+      chain.stallAll || chain.stuck.has(hash)
+        ? Promise.reject(new WaitForTransactionReceiptTimeoutError({ hash }))
+        : Promise.resolve(receipt(hash)),
+    getTransaction: ({ hash }: { hash: Hash }) => {
+      const tx = chain.sent.find((sent) => sent.hash === hash)!;
+      return Promise.resolve({ ...tx, from: ACCOUNT.address, input: tx.data });
+    },
+    call: () => Promise.reject(new RawContractError({ data: chain.revertData })),
+  } as unknown as PublicClient;
+  const manager = new TransactionManager(options);
+  return { chain, client, manager, wallet: manager.attach(wallet, client) };
+}
+
+Deno.test("Transactions - parallel sends from one account get consecutive nonces", async () => {
+  const { chain, wallet } = fakeChain();
+  // The node still reports nonce 5 for every call, as it would before seeing the earlier sends
+  await Promise.all([1n, 2n, 3n].map((value) => wallet.sendTransaction({ chain: foundry, to: TARGET, value })));
+  assertEquals(chain.sent.map((tx) => [tx.nonce, tx.value]), [[5, 1n], [6, 2n], [7, 3n]]);
+
+  // Transactions sent elsewhere move the node's count past ours
+  chain.pendingNonce = 12;
+  await wallet.sendTransaction({ chain: foundry, to: TARGET, value: 4n });
+  assertEquals(chain.sent.at(-1)!.nonce, 12);
+});
+
+Deno.test("Transactions - stuck transactions are re-sent with bumped fees", async () => {
+  const { chain, client, manager, wallet } = fakeChain({ maxReplacements: 2 });
+  const hash = await wallet.sendTransaction({ chain: foundry, to: TARGET, value: 1n });
+  chain.stuck.add(hash);
+
+  const result = await manager.confirm(client, hash, "approve");
+  assertEquals(result.replacements, 1);
+  assertEquals(result.hashes, [hash, chain.sent[1].hash]);
+  assertEquals(result.hash, chain.sent[1].hash);
+  assertEquals(result.nonce, 5);
+  assertEquals(chain.sent[1].nonce, 5);
+  assertEquals(chain.sent[1].value, 1n);
+  assertEquals(chain.sent[1].maxFeePerGas, 2n * GWEI * 115n / 100n);
+  assertEquals(chain.sent[1].maxPriorityFeePerGas, GWEI * 115n / 100n);
+
+  // Every replacement stays pending too
+  const next = await wallet.sendTransaction({ chain: foundry, to: TARGET, value: 2n });
+  chain.stallAll = true;
+  const stuck = await assertRejects(() => manager.wait(client, next), StuckTransactionError);
+  assertEquals(stuck.nonce, 6);
+  assertEquals(stuck.hashes.length, 3);
+});
+
+Deno.test("Transactions - cancelled and reverted transactions are reported", async () => {
+  const { chain, client, manager, wallet } = fakeChain();
+  const hash = await wallet.sendTransaction({ chain: foundry, to: TARGET, value: 1n });
+  const cancel = await manager.cancel(hash);
+  assertEquals(getAddress(chain.sent[1].to!), ACCOUNT.address);
+  assertEquals(chain.sent[1].value ?? 0n, 0n);
+  assertEquals(chain.sent[1].nonce, chain.sent[0].nonce);
+  const cancelled = await manager.wait(client, hash, "lockSource");
+  assertEquals(cancelled.status, "cancelled");
+  assertEquals(cancelled.hash, cancel);
+
+  chain.revertData = encodeErrorResult({
+    abi: [{ type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }],
+    errorName: "Error",
+    args: ["SimpleEscrow: already funded"],
+  });
+  const reverted = await wallet.sendTransaction({ chain: foundry, to: TARGET, data: "0x12345678" });
+  const error = await assertRejects(() => manager.confirm(client, reverted, "fund"), TransactionFailedError);
+  assertEquals(error.result.status, "reverted");
+  assertEquals(error.result.step, "fund");
+  assertEquals(error.revert?.reason, "SimpleEscrow: already funded");
+  assert(error.message.startsWith(`Transaction fund (${reverted}) reverted: `));
+
+  // Hashes sent elsewhere can be waited for but not replaced
+  await assertRejects(() => manager.speedUp(keccak256("0x01")), Error, "not sent through");
+});
@@ -0,0 +1,68 @@
+// Watch every registered factory for matching escrows
+// Run with: deno run --allow-read --allow-env --allow-net watch-escrows.ts [confirmations] [fromBlock]
+//
+// Prints every EscrowCreated log and a notification once both legs of a swap are funded.
+
+import { getConfig, getRegistry } from "./config.ts";
+import { EscrowWatcher, type WatchedChain } from "./sdk/index.ts";
+
+// Watcher over the factory of every registered chain
+export async function createConfiguredWatcher(
+  options: { confirmations?: number; fromBlock?: bigint } = {},
+): Promise<EscrowWatcher> {
+  const config = getConfig();
+  const registry = await getRegistry(config);
+
+  const chains: WatchedChain[] = registry.list()
+    .filter((entry) => entry.contracts.factory)
+    .map((entry) => ({
+      name: entry.key,
+      chainId: entry.chain.id,
+      client: registry.publicClient(entry.chain.id),
+      factory: entry.contracts.factory!,
+      fromBlock: options.fromBlock,
+    }));
+  if (chains.length < 2) {
+    throw new Error("Missing factory addresses. Please run deployment script first.");
+  }
+
+  return new EscrowWatcher(chains, {
+    confirmations: options.confirmations,
+    pollInterval: config.retryDelay,
+  });
+}
+
+if (import.meta.main) {
+  const [confirmations, fromBlock] = Deno.args;
+  const watcher = await createConfiguredWatcher({
+    confirmations: confirmations !== undefined ? parseInt(confirmations) : undefined,
+    fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+  });
+
+  watcher.on("escrowCreated", (event) => {
+    console.log(
+      `[chain ${event.chainId}] EscrowCreated ${event.escrow} hashlock=${event.hashlock} ` +
+        `sender=${event.sender} recipient=${event.recipient} block=${event.blockNumber}`,
+    );
+  });
+  watcher.on("counterpartyLocked", ({ hashlock, legs }) => {
+    console.log(`Counterparty locked for ${hashlock}:`);
+    for (const leg of legs) {
+      console.log(`  chain ${leg.chainId}: ${leg.escrow} (${leg.sender} -> ${leg.recipient})`);
+    }
+  });
+  watcher.on("reorg", ({ chainId, rewoundTo, removed }) => {
+    console.warn(`[chain ${chainId}] Reorg detected, rewound to block ${rewoundTo}, dropped ${removed.length} escrow(s)`);
+  });
+  watcher.on("error", ({ chainId, error }) => {
+    console.error(`[chain ${chainId}] Watcher error:`, error);
+  });
+
+  Deno.addSignalListener("SIGINT", () => {
+    watcher.stop();
+    Deno.exit(0);
+  });
+
+  console.log("Watching for escrows... (Ctrl+C to stop)");
+  watcher.start();
+}
@@ -0,0 +1,119 @@
+import { assertEquals } from "@std/assert";
+import { type Address, type Hex, pad, type PublicClient, toHex } from "viem";
+import { type EscrowCreatedEvent, EscrowWatcher, RefundWatchdog, type SignerClient } from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const TOKEN = pad(toHex(99), { size: 20 });
+const HASHLOCK = ("0x" + "42".repeat(32)) as Hex;
+
+interface FakeEscrow {
+  funded: boolean;
+  withdrawn: boolean;
+  refunded: boolean;
+}
+
+// Stand-in for the client calls the watchdog makes on one chain
+class FakeChain {
+  timestamp = 100n;
+  escrows = new Map<string, FakeEscrow>();
+  refunds: Address[] = [];
+
+  client(): PublicClient {
+    return {
+      getBlock: () => Promise.resolve({ timestamp: this.timestamp }),
+      readContract: ({ address, functionName }: { address: Address; functionName: string }) => {
+        const state = this.escrows.get(address.toLowerCase())!;
+        if (functionName === "canRefund") {
+          return Promise.resolve(state.funded && !state.withdrawn && !state.refunded);
+        }
+        return Promise.resolve({ token: TOKEN, amount: 500n, ...state });
+      },
+      simulateContract: (request: { address: Address }) => Promise.resolve({ request }),
+      waitForTransactionReceipt: () => Promise.resolve({ status: "success" }),
+    } as unknown as PublicClient;
+  }
+
+  signer(): SignerClient {
+    return {
+      account: { address: ALICE },
+      writeContract: ({ address }: { address: Address }) => {
+        this.escrows.get(address.toLowerCase())!.refunded = true;
+        this.refunds.push(address);
+        return Promise.resolve(pad(toHex(this.refunds.length), { size: 32 }));
+      },
+    } as unknown as SignerClient;
+  }
+
+  add(n: number, state: Partial<FakeEscrow> = {}): Address {
+    const address = pad(toHex(n), { size: 20 });
+    this.escrows.set(address, { funded: true, withdrawn: false, refunded: false, ...state });
+    return address;
+  }
+}
+
+function created(escrow: Address, sender: Address): EscrowCreatedEvent {
+  return {
+    chainId: 1,
+    escrow,
+    sender,
+    recipient: sender === ALICE ? BOB : ALICE,
+    token: TOKEN,
+    hashlock: HASHLOCK,
+    timelock: 1000n,
+    salt: HASHLOCK,
+    blockNumber: 1n,
+    blockHash: HASHLOCK,
+    transactionHash: HASHLOCK,
+    logIndex: 0,
+  };
+}
+
+Deno.test("Watchdog - refunds once the timelock passes and reports totals", async () => {
+  const chain = new FakeChain();
+  const watchdog = new RefundWatchdog([{ chainId: 1, client: chain.client(), signer: chain.signer() }], { party: ALICE });
+  const first = chain.add(1);
+  const second = chain.add(2);
+  watchdog.track(created(first, ALICE));
+  watchdog.track(created(second, ALICE));
+
+  assertEquals(await watchdog.poll(), []);
+  assertEquals(chain.refunds, []);
+
+  chain.timestamp = 1000n;
+  const refunded = await watchdog.poll();
+  assertEquals(refunded.map((r) => r.escrow), [first, second]);
+  assertEquals(chain.refunds, [first, second]);
+
+  const report = watchdog.report();
+  assertEquals(report.watching, []);
+  assertEquals(report.totals, [{ chainId: 1, token: TOKEN, amount: 1000n }]);
+
+  // Nothing left to do on later polls
+  assertEquals(await watchdog.poll(), []);
+  assertEquals(chain.refunds.length, 2);
+});
+
+Deno.test("Watchdog - ignores escrows it did not fund and drops withdrawn ones", async () => {
+  const chain = new FakeChain();
+  const watcher = new EscrowWatcher([]);
+  const watchdog = new RefundWatchdog(
+    [{ chainId: 1, client: chain.client(), signer: chain.signer() }],
+    { party: ALICE },
+    watcher,
+  );
+  const theirs = chain.add(1);
+  const claimed = chain.add(2, { withdrawn: true });
+  // Only escrows with us as sender are picked up from the watcher
+  const events = watcher as unknown as { emit(type: string, event: EscrowCreatedEvent): Promise<void> };
+  await events.emit("escrowCreated", created(theirs, BOB));
+  await events.emit("escrowCreated", created(claimed, ALICE));
+
+  chain.timestamp = 2000n;
+  assertEquals(await watchdog.poll(), []);
+  assertEquals(chain.refunds, []);
+
+  const report = watchdog.report();
+  assertEquals(report.closed, [{ chainId: 1, escrow: claimed, reason: "withdrawn" }]);
+  assertEquals(report.watching, []);
+});
@@ -0,0 +1,138 @@
+import { assertEquals } from "@std/assert";
+import { type Address, type Hash, type Hex, pad, type PublicClient, toHex } from "viem";
+import { type CounterpartyLocked, EscrowWatcher, type ReorgNotice } from "./sdk/index.ts";
+
+const ALICE = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" as Address;
+const BOB = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const HASHLOCK = ("0x" + "ab".repeat(32)) as Hex;
+
+interface FakeLog {
+  blockNumber: bigint;
+  escrow: Address;
+  sender: Address;
+  recipient: Address;
+}
+
+// Minimal stand-in for the PublicClient calls the watcher makes
+class FakeChain {
+  head = 0n;
+  fork = 0; // bump to change every block hash, simulating a reorg
+  logs: FakeLog[] = [];
+  funded = true;
+
+  client(): PublicClient {
+    return {
+      getBlockNumber: () => Promise.resolve(this.head),
+      getBlock: ({ blockNumber }: { blockNumber: bigint }) =>
+        Promise.resolve({ hash: this.hash(blockNumber) }),
+      getContractEvents: ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+        Promise.resolve(
+          this.logs
+            .filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)
+            .map((l, i) => ({
+              args: {
+                escrow: l.escrow,
+                sender: l.sender,
+                recipient: l.recipient,
+                token: l.escrow,
+                hashlock: HASHLOCK,
+                timelock: 1000n,
+                salt: HASHLOCK,
+              },
+              blockNumber: l.blockNumber,
+              blockHash: this.hash(l.blockNumber),
+              transactionHash: this.hash(l.blockNumber),
+              logIndex: i,
+            })),
+        ),
+      readContract: () => Promise.resolve({ funded: this.funded }),
+    } as unknown as PublicClient;
+  }
+
+  private hash(blockNumber: bigint): Hash {
+    return pad(toHex(blockNumber * 1000n + BigInt(this.fork)), { size: 32 });
+  }
+}
+
+function escrowAt(n: number): Address {
+  return pad(toHex(n), { size: 20 });
+}
+
+function setup() {
+  const base = new FakeChain();
+  const etherlink = new FakeChain();
+  const watcher = new EscrowWatcher([
+    { name: "base", chainId: 1, client: base.client(), factory: escrowAt(100), fromBlock: 1n },
+    { name: "etherlink", chainId: 2, client: etherlink.client(), factory: escrowAt(200), fromBlock: 1n },
+  ], { confirmations: 2 });
+  const locked: CounterpartyLocked[] = [];
+  const reorgs: ReorgNotice[] = [];
+  watcher.on("counterpartyLocked", (event) => {
+    locked.push(event);
+  });
+  watcher.on("reorg", (event) => {
+    reorgs.push(event);
+  });
+  return { base, etherlink, watcher, locked, reorgs };
+}
+
+Deno.test("Watcher - matches funded escrows across chains after confirmations", async () => {
+  const { base, etherlink, watcher, locked } = setup();
+  base.logs.push({ blockNumber: 3n, escrow: escrowAt(1), sender: ALICE, recipient: BOB });
+  etherlink.logs.push({ blockNumber: 5n, escrow: escrowAt(2), sender: BOB, recipient: ALICE });
+
+  base.head = 5n;
+  etherlink.head = 6n;
+  await watcher.poll();
+  assertEquals(locked.length, 0, "etherlink log at block 5 is not yet confirmed");
+
+  etherlink.head = 7n;
+  await watcher.poll();
+  assertEquals(locked.length, 1);
+  assertEquals(locked[0].legs.map((l) => l.chainId), [1, 2]);
+
+  await watcher.poll();
+  assertEquals(locked.length, 1, "a pair is only reported once");
+});
+
+Deno.test("Watcher - waits for funding and ignores escrows with unrelated parties", async () => {
+  const { base, etherlink, watcher, locked } = setup();
+  base.logs.push({ blockNumber: 1n, escrow: escrowAt(1), sender: ALICE, recipient: BOB });
+  etherlink.logs.push({ blockNumber: 1n, escrow: escrowAt(2), sender: BOB, recipient: BOB });
+  etherlink.logs.push({ blockNumber: 2n, escrow: escrowAt(3), sender: BOB, recipient: ALICE });
+  base.head = 10n;
+  etherlink.head = 10n;
+  etherlink.funded = false;
+
+  await watcher.poll();
+  assertEquals(locked.length, 0);
+  assertEquals(watcher.escrowsByHashlock(HASHLOCK).length, 3);
+
+  etherlink.funded = true;
+  await watcher.poll();
+  assertEquals(locked.length, 1);
+  assertEquals(locked[0].legs[1].escrow, escrowAt(3));
+});
+
+Deno.test("Watcher - rewinds and rescans after a reorg", async () => {
+  const { base, etherlink, watcher, locked, reorgs } = setup();
+  base.logs.push({ blockNumber: 2n, escrow: escrowAt(1), sender: ALICE, recipient: BOB });
+  base.head = 5n;
+  etherlink.head = 5n;
+  await watcher.poll();
+  assertEquals(watcher.escrowsByHashlock(HASHLOCK).length, 1);
+
+  // Every block changes hash and the escrow moves to block 4
+  base.fork = 1;
+  base.logs = [{ blockNumber: 4n, escrow: escrowAt(1), sender: ALICE, recipient: BOB }];
+  etherlink.logs.push({ blockNumber: 4n, escrow: escrowAt(2), sender: BOB, recipient: ALICE });
+  base.head = 6n;
+  etherlink.head = 6n;
+  await watcher.poll();
+
+  assertEquals(reorgs.length, 1);
+  assertEquals(reorgs[0].removed.map((e) => e.escrow), [escrowAt(1)]);
+  const indexed = watcher.escrowsByHashlock(HASHLOCK);
+  assertEquals(indexed.find((e) => e.chainId === 1)?.blockNumber, 4n);
+  assertEquals(locked.length, 1);
+});
@@ -188,12 +188,15 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
         if (timelock <= block.timestamp) revert InvalidTimelock();
         if (swaps[paymentHash].state != SwapState.None) revert SwapAlreadyExists();
 
-        // Create escrow with factory
+        // SimpleEscrow checks keccak256(abi.encode(preimage)) and cannot verify a sha256 Lightning
+        // preimage, so the escrow is locked to the public payment hash instead. Releasing it only moves
+        // the funds into the bridge, which pays the resolver after confirmLightningPayment has checked
+        // the real preimage and otherwise returns them to the initiator in expireSwap.
         escrow = escrowFactory.createEscrow(
             evmToken,
             msg.sender,      // sender
             address(this),   // recipient (bridge will release with preimage)
-            paymentHash,     // hashlock
+            _escrowHashlock(paymentHash),
             timelock,
             keccak256(abi.encodePacked(msg.sender, block.timestamp, swapCounter))
         );
@@ -229,26 +232,32 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
 
     /**
      * @notice Initiate a swap from Lightning payment to EVM tokens
+     * @dev Resolver only: the resolver issues the invoice and registers it with the payment hash and
+     *      amount it decoded off-chain. Registration is keyed by the payment hash alone, so if anyone
+     *      could register, a mempool watcher could claim a resolver's payment hash first with its own
+     *      recipient and amount.
      * @param lightningInvoice BOLT11 Lightning invoice
+     * @param paymentHash Payment hash of the invoice
+     * @param satoshiAmount Amount of the invoice in satoshis
      * @param evmToken Token to receive on EVM
      * @param evmAmount Amount to receive
      * @param recipient Who receives the EVM tokens
-     * @return paymentHash The payment hash from the invoice
+     * @return The payment hash the swap is registered under
      */
     function initiateLightningToEVM(
         string calldata lightningInvoice,
+        bytes32 paymentHash,
+        uint256 satoshiAmount,
         address evmToken,
         uint256 evmAmount,
         address recipient
-    ) external whenNotPaused nonReentrant returns (bytes32 paymentHash) {
+    ) external onlyResolver whenNotPaused nonReentrant validPaymentHash(paymentHash) returns (bytes32) {
         // Validations
         if (bytes(lightningInvoice).length == 0) revert InvalidInvoice();
         if (evmAmount == 0) revert InvalidAmount();
+        if (satoshiAmount < minSatoshiAmount || satoshiAmount > maxSatoshiAmount) revert InvalidAmount();
         if (recipient == address(0)) revert InvalidRecipient();
 
-        // Extract payment hash from invoice (simplified - in production use proper BOLT11 decoder)
-        paymentHash = keccak256(abi.encodePacked(lightningInvoice, block.timestamp));
-        
         if (swaps[paymentHash].state != SwapState.None) revert SwapAlreadyExists();
 
         // For Lightning→EVM, we need the resolver to create and fund the escrow after Lightning payment
@@ -264,7 +273,7 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
         swap.createdAt = block.timestamp;
         swap.timelock = block.timestamp + defaultSwapTimeout;
         swap.recipient = recipient;
-        swap.satoshiAmount = 10000; // Default amount - in production extract from invoice
+        swap.satoshiAmount = satoshiAmount;
 
         // Track user swaps
         userSwaps[msg.sender].push(paymentHash);
@@ -276,8 +285,10 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
             recipient,
             lightningInvoice,
             evmAmount,
-            swap.satoshiAmount
+            satoshiAmount
         );
+
+        return paymentHash;
     }
 
     /**
@@ -322,12 +333,12 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
 
         // For Lightning→EVM swaps, resolver needs to create and fund escrow
         if (swap.direction == SwapDirection.LightningToEVM) {
-            // Create escrow for the recipient
+            // Create escrow for the recipient, locked with the SimpleEscrow hash of the revealed preimage
             address escrow = escrowFactory.createEscrow(
                 swap.evmToken,
                 resolver,           // Resolver funds it
                 swap.recipient,     // Recipient withdraws with preimage
-                paymentHash,
+                keccak256(abi.encode(preimage)),
                 swap.timelock,
                 keccak256(abi.encodePacked(paymentHash, block.timestamp))
             );
@@ -348,37 +359,44 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
         if (swap.direction != SwapDirection.EVMToLightning) revert InvalidDirection();
         if (swap.preimage == bytes32(0)) revert InvalidPreimage();
         
-        // Withdraw from escrow using preimage
+        // Release the escrow into the bridge unless someone already did
         ISimpleEscrow escrow = ISimpleEscrow(swap.evmEscrow);
-        escrow.withdraw(swap.preimage);
-        
-        // Transfer funds to resolver
-        IERC20(swap.evmToken).safeTransfer(resolver, swap.evmAmount);
-        
+        if (!escrow.withdrawn()) {
+            escrow.withdraw(paymentHash);
+        }
+        uint256 amount = escrow.amount();
+
         swap.state = SwapState.Completed;
-        
+
+        // Transfer funds to resolver
+        IERC20(swap.evmToken).safeTransfer(resolver, amount);
+
         emit SwapCompleted(
             paymentHash,
             swap.initiator,
-            swap.evmAmount,
+            amount,
             swap.satoshiAmount
         );
     }
 
     /**
      * @notice Expire a swap that has timed out
+     * @dev Paid swaps stay withdrawable for the resolver. An EVM→Lightning escrow released before
+     *      expiry left its funds in the bridge, which returns them to the initiator here.
      * @param paymentHash The payment hash for the swap
      */
     function expireSwap(bytes32 paymentHash) external swapExists(paymentHash) nonReentrant {
         LightningSwap storage swap = swaps[paymentHash];
         
-        if (swap.state == SwapState.Completed || swap.state == SwapState.Expired) {
-            revert InvalidSwapState();
-        }
+        if (swap.state != SwapState.Initiated) revert InvalidSwapState();
         
         if (block.timestamp <= swap.timelock) revert SwapNotExpired();
         
         swap.state = SwapState.Expired;
+
+        if (swap.direction == SwapDirection.EVMToLightning && ISimpleEscrow(swap.evmEscrow).withdrawn()) {
+            IERC20(swap.evmToken).safeTransfer(swap.initiator, ISimpleEscrow(swap.evmEscrow).amount());
+        }
         
         emit SwapExpired(paymentHash, swap.initiator);
     }
@@ -497,4 +515,15 @@ contract LightningBridge is Ownable, Pausable, ReentrancyGuard {
         if (to == address(0)) revert InvalidRecipient();
         IERC20(token).safeTransfer(to, amount);
     }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice SimpleEscrow hashlock of an EVM→Lightning escrow
+     * @param paymentHash The payment hash for the swap
+     * @return keccak256(abi.encode(paymentHash)), which the public payment hash itself unlocks
+     */
+    function _escrowHashlock(bytes32 paymentHash) internal pure returns (bytes32) {
+        return keccak256(abi.encode(paymentHash));
+    }
 }
\ No newline at end of file
@@ -123,15 +123,35 @@ contract OneInchAdapter is BaseExtension, Ownable, Pausable {
             revert InvalidTimeoutDuration();
         }
 
-        // Create escrow through factory
-        address escrow;
-        try factory.createEscrow(
+        // Transfer tokens from adapter to the escrow's CREATE2 address
+        // Note: Tokens should already be in this contract from 1inch protocol
+        IERC20 token = IERC20(order.makerAsset);
+        
+        // Check balance
+        uint256 balance = token.balanceOf(address(this));
+        if (balance < makingAmount) {
+            revert TokenTransferFailed();
+        }
+
+        address escrow = factory.computeEscrowAddress(
             order.makerAsset,
             order.maker,
             crossChainRecipient,
             hashlock,
             timelock,
             escrowSalt
+        );
+        token.safeTransfer(escrow, makingAmount);
+
+        // Deploy the escrow and mark it funded (SimpleEscrow.fund only accepts the maker)
+        try factory.createEscrowFromAdapter(
+            order.makerAsset,
+            order.maker,
+            crossChainRecipient,
+            hashlock,
+            timelock,
+            escrowSalt,
+            makingAmount
         ) returns (address _escrow) {
             escrow = _escrow;
         } catch {
@@ -148,22 +168,6 @@ contract OneInchAdapter is BaseExtension, Ownable, Pausable {
             makingAmount
         );
 
-        // Transfer tokens from adapter to escrow
-        // Note: Tokens should already be in this contract from 1inch protocol
-        IERC20 token = IERC20(order.makerAsset);
-        
-        // Check balance
-        uint256 balance = token.balanceOf(address(this));
-        if (balance < makingAmount) {
-            revert TokenTransferFailed();
-        }
-
-        // Transfer to escrow
-        token.safeTransfer(escrow, makingAmount);
-
-        // Fund the escrow
-        SimpleEscrow(escrow).fund(makingAmount);
-
         // Emit funded event
         emit AtomicSwapFunded(escrow, makingAmount, order.makerAsset);
     }
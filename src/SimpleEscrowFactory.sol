@@ -113,6 +113,39 @@ contract SimpleEscrowFactory is Ownable {
         return escrow;
     }
 
+    /**
+     * @notice Creates an escrow funded with tokens the adapter already sent to its address
+     * @dev The adapter transfers `amount` to computeEscrowAddress(...) before calling, since
+     *      SimpleEscrow.fund only accepts the sender (the order maker) as caller
+     * @param token ERC20 token for the swap
+     * @param sender Address that funded the escrow (order maker)
+     * @param recipient Address that can withdraw with preimage
+     * @param hashlock Hash of the secret
+     * @param timelock Refund timestamp
+     * @param salt Salt for CREATE2 deployment
+     * @param amount Amount already transferred to the escrow address
+     * @return escrow Address of deployed escrow
+     */
+    function createEscrowFromAdapter(
+        address token,
+        address sender,
+        address recipient,
+        bytes32 hashlock,
+        uint256 timelock,
+        bytes32 salt,
+        uint256 amount
+    ) external returns (address escrow) {
+        require(msg.sender == oneInchAdapter, "SimpleEscrowFactory: only 1inch adapter");
+        require(amount > 0, "SimpleEscrowFactory: amount must be greater than 0");
+
+        escrow = _createEscrow(token, sender, recipient, hashlock, timelock, salt);
+
+        // Tokens are already at the escrow address
+        SimpleEscrow(escrow).initializeWithFunds(amount);
+
+        return escrow;
+    }
+
     /**
      * @notice Creates escrow from 1inch order data (compatibility layer)
      * @param order 1inch order struct
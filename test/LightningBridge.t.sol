@@ -0,0 +1,289 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import "forge-std/Test.sol";
+import "../src/LightningBridge.sol";
+import "../src/SimpleEscrowFactory.sol";
+import "../src/SimpleEscrow.sol";
+import "../src/mocks/MockERC20.sol";
+
+contract LightningBridgeTest is Test {
+    LightningBridge public bridge;
+    SimpleEscrowFactory public factory;
+    MockERC20 public token;
+
+    address public alice = address(0x1);
+    address public bob = address(0x2);
+    address public charlie = address(0x3);
+    address public resolver = address(0x4);
+
+    bytes32 public preimage = keccak256("lightning-preimage");
+    bytes32 public paymentHash = sha256(abi.encodePacked(preimage));
+    uint256 public amount = 100e18;
+    uint256 public satoshis = 250_000;
+    uint256 public timelock;
+    string public invoice = "lnbcrt2500u1pjexample";
+
+    event LightningToEVMInitiated(
+        bytes32 indexed paymentHash,
+        address indexed recipient,
+        string lightningInvoice,
+        uint256 evmAmount,
+        uint256 satoshiAmount
+    );
+
+    function setUp() public {
+        // Deploy mock token, escrow factory and bridge
+        token = new MockERC20("Test Token", "TEST", 18, 0);
+        factory = new SimpleEscrowFactory(address(0x5));
+        bridge = new LightningBridge(address(factory));
+        bridge.setResolver(resolver);
+
+        timelock = block.timestamp + 1 hours;
+
+        // Alice locks tokens for Lightning, the resolver locks tokens for Lightning payers
+        token.mint(alice, amount);
+        token.mint(resolver, amount);
+    }
+
+    // Alice starts an EVM→Lightning swap and funds its escrow
+    function _initiateEVMToLightning() internal returns (SimpleEscrow escrow) {
+        vm.prank(alice);
+        escrow = SimpleEscrow(bridge.initiateEVMToLightning(address(token), amount, satoshis, paymentHash, timelock));
+        vm.startPrank(alice);
+        token.approve(address(escrow), amount);
+        escrow.fund(amount);
+        vm.stopPrank();
+    }
+
+    // The resolver registers the invoice it issued for Bob
+    function _initiateLightningToEVM(bytes32 hash, uint256 satoshiAmount) internal {
+        vm.prank(resolver);
+        bridge.initiateLightningToEVM(invoice, hash, satoshiAmount, address(token), amount, bob);
+    }
+
+    // ========== EVM → Lightning ==========
+
+    function testEVMToLightningPaysResolver() public {
+        SimpleEscrow escrow = _initiateEVMToLightning();
+        assertEq(escrow.recipient(), address(bridge));
+        assertEq(escrow.hashlock(), keccak256(abi.encode(paymentHash)));
+
+        vm.prank(resolver);
+        bridge.setLightningInvoice(paymentHash, invoice);
+
+        // Nothing is paid out before the resolver proves the Lightning payment
+        vm.expectRevert(LightningBridge.InvalidSwapState.selector);
+        bridge.withdrawEVMFunds(paymentHash);
+
+        vm.prank(resolver);
+        bridge.confirmLightningPayment(paymentHash, preimage);
+        assertTrue(bridge.canWithdraw(paymentHash));
+
+        bridge.withdrawEVMFunds(paymentHash);
+
+        assertEq(token.balanceOf(resolver), amount * 2);
+        assertEq(token.balanceOf(address(bridge)), 0);
+        assertTrue(escrow.withdrawn());
+        assertEq(uint256(bridge.getSwapDetails(paymentHash).state), uint256(LightningBridge.SwapState.Completed));
+    }
+
+    function testCannotConfirmWithWrongPreimage() public {
+        _initiateEVMToLightning();
+
+        vm.prank(resolver);
+        vm.expectRevert(LightningBridge.InvalidPreimage.selector);
+        bridge.confirmLightningPayment(paymentHash, keccak256("wrong"));
+    }
+
+    function testOnlyResolverCanConfirm() public {
+        _initiateEVMToLightning();
+
+        vm.prank(charlie);
+        vm.expectRevert(LightningBridge.UnauthorizedResolver.selector);
+        bridge.confirmLightningPayment(paymentHash, preimage);
+    }
+
+    // ========== Early Release ==========
+
+    function testThirdPartyReleaseOnlyMovesFundsIntoBridge() public {
+        SimpleEscrow escrow = _initiateEVMToLightning();
+
+        // The escrow hashlock is derived from the public payment hash, so anyone can release it
+        vm.prank(charlie);
+        escrow.withdraw(paymentHash);
+
+        // but the funds land in the bridge, not with the caller
+        assertEq(token.balanceOf(charlie), 0);
+        assertEq(token.balanceOf(address(bridge)), amount);
+        assertEq(uint256(bridge.getSwapDetails(paymentHash).state), uint256(LightningBridge.SwapState.Initiated));
+
+        // and the bridge still holds them until the Lightning payment is proven
+        vm.expectRevert(LightningBridge.InvalidSwapState.selector);
+        bridge.withdrawEVMFunds(paymentHash);
+
+        vm.prank(resolver);
+        bridge.confirmLightningPayment(paymentHash, preimage);
+        vm.prank(charlie);
+        bridge.withdrawEVMFunds(paymentHash);
+
+        assertEq(token.balanceOf(resolver), amount * 2);
+        assertEq(token.balanceOf(charlie), 0);
+        assertEq(token.balanceOf(address(bridge)), 0);
+    }
+
+    // ========== Expiry ==========
+
+    function testExpiryRefundsEscrowReleasedEarly() public {
+        SimpleEscrow escrow = _initiateEVMToLightning();
+        vm.prank(charlie);
+        escrow.withdraw(paymentHash);
+
+        // Alice can no longer refund from the escrow, and the bridge keeps the funds until expiry
+        vm.warp(timelock);
+        vm.prank(alice);
+        vm.expectRevert("SimpleEscrow: already withdrawn");
+        escrow.refund();
+        vm.expectRevert(LightningBridge.SwapNotExpired.selector);
+        bridge.expireSwap(paymentHash);
+
+        vm.warp(timelock + 1);
+        assertTrue(bridge.canExpire(paymentHash));
+        vm.prank(charlie);
+        bridge.expireSwap(paymentHash);
+
+        assertEq(token.balanceOf(alice), amount);
+        assertEq(token.balanceOf(address(bridge)), 0);
+        assertEq(uint256(bridge.getSwapDetails(paymentHash).state), uint256(LightningBridge.SwapState.Expired));
+
+        // The refund is paid once, and the resolver cannot claim it afterwards
+        vm.expectRevert(LightningBridge.InvalidSwapState.selector);
+        bridge.expireSwap(paymentHash);
+        vm.prank(resolver);
+        vm.expectRevert(LightningBridge.InvalidSwapState.selector);
+        bridge.confirmLightningPayment(paymentHash, preimage);
+    }
+
+    function testExpiryLeavesUnreleasedEscrowToItsSender() public {
+        SimpleEscrow escrow = _initiateEVMToLightning();
+
+        vm.warp(timelock + 1);
+        bridge.expireSwap(paymentHash);
+        assertEq(token.balanceOf(alice), 0);
+
+        vm.prank(alice);
+        escrow.refund();
+        assertEq(token.balanceOf(alice), amount);
+    }
+
+    function testPaidSwapCannotBeExpired() public {
+        SimpleEscrow escrow = _initiateEVMToLightning();
+        vm.prank(charlie);
+        escrow.withdraw(paymentHash);
+        vm.prank(resolver);
+        bridge.confirmLightningPayment(paymentHash, preimage);
+
+        vm.warp(timelock + 1);
+        vm.expectRevert(LightningBridge.InvalidSwapState.selector);
+        bridge.expireSwap(paymentHash);
+
+        bridge.withdrawEVMFunds(paymentHash);
+        assertEq(token.balanceOf(resolver), amount * 2);
+        assertEq(token.balanceOf(alice), 0);
+    }
+
+    // ========== Lightning → EVM ==========
+
+    function testLightningToEVMPaysRecipient() public {
+        _initiateLightningToEVM(paymentHash, satoshis);
+
+        vm.prank(resolver);
+        bridge.confirmLightningPayment(paymentHash, preimage);
+
+        // The bridge creates the recipient's escrow under the SimpleEscrow hash of the revealed preimage
+        SimpleEscrow escrow = SimpleEscrow(bridge.getSwapDetails(paymentHash).evmEscrow);
+        assertEq(escrow.sender(), resolver);
+        assertEq(escrow.recipient(), bob);
+        assertEq(escrow.hashlock(), keccak256(abi.encode(preimage)));
+
+        vm.startPrank(resolver);
+        token.approve(address(escrow), amount);
+        escrow.fund(amount);
+        vm.stopPrank();
+
+        vm.prank(bob);
+        escrow.withdraw(preimage);
+        assertEq(token.balanceOf(bob), amount);
+
+        // The EVM→Lightning payout path does not apply to this direction
+        vm.expectRevert(LightningBridge.InvalidDirection.selector);
+        bridge.withdrawEVMFunds(paymentHash);
+    }
+
+    function testLightningToEVMRecordsInvoiceAmount() public {
+        vm.expectEmit(true, true, false, true);
+        emit LightningToEVMInitiated(paymentHash, bob, invoice, amount, satoshis);
+        _initiateLightningToEVM(paymentHash, satoshis);
+
+        // A 2500u invoice is 250,000,000 msat: the bridge stores the satoshis it was given
+        LightningBridge.LightningSwap memory swap = bridge.getSwapDetails(paymentHash);
+        assertEq(swap.satoshiAmount, satoshis);
+        assertEq(swap.evmAmount, amount);
+        assertEq(swap.recipient, bob);
+        assertEq(swap.lightningInvoice, invoice);
+        assertEq(swap.timelock, block.timestamp + bridge.defaultSwapTimeout());
+    }
+
+    function testLightningToEVMSatoshiBounds() public {
+        bytes32 atMin = sha256("min");
+        bytes32 atMax = sha256("max");
+        _initiateLightningToEVM(atMin, bridge.minSatoshiAmount());
+        _initiateLightningToEVM(atMax, bridge.maxSatoshiAmount());
+        assertEq(bridge.getSwapDetails(atMin).satoshiAmount, 1000);
+        assertEq(bridge.getSwapDetails(atMax).satoshiAmount, 10_000_000);
+
+        uint256 belowMin = bridge.minSatoshiAmount() - 1;
+        uint256 aboveMax = bridge.maxSatoshiAmount() + 1;
+        vm.startPrank(resolver);
+        vm.expectRevert(LightningBridge.InvalidAmount.selector);
+        bridge.initiateLightningToEVM(invoice, paymentHash, belowMin, address(token), amount, bob);
+        vm.expectRevert(LightningBridge.InvalidAmount.selector);
+        bridge.initiateLightningToEVM(invoice, paymentHash, aboveMax, address(token), amount, bob);
+        vm.expectRevert(LightningBridge.InvalidAmount.selector);
+        bridge.initiateLightningToEVM(invoice, paymentHash, 0, address(token), amount, bob);
+        vm.stopPrank();
+    }
+
+    function testLightningToEVMRefusesZeroPaymentHash() public {
+        vm.prank(resolver);
+        vm.expectRevert(LightningBridge.InvalidPaymentHash.selector);
+        bridge.initiateLightningToEVM(invoice, bytes32(0), satoshis, address(token), amount, bob);
+    }
+
+    function testLightningToEVMRefusesReusedPaymentHash() public {
+        _initiateLightningToEVM(paymentHash, satoshis);
+
+        vm.prank(resolver);
+        vm.expectRevert(LightningBridge.SwapAlreadyExists.selector);
+        bridge.initiateLightningToEVM(invoice, paymentHash, satoshis, address(token), amount, charlie);
+
+        // A payment hash is one swap whichever direction it was registered in
+        vm.prank(alice);
+        vm.expectRevert(LightningBridge.SwapAlreadyExists.selector);
+        bridge.initiateEVMToLightning(address(token), amount, satoshis, paymentHash, timelock);
+
+        assertEq(bridge.getSwapDetails(paymentHash).recipient, bob);
+    }
+
+    function testOnlyResolverCanRegisterLightningToEVM() public {
+        // A mempool watcher cannot claim the resolver's payment hash with its own recipient first
+        vm.prank(charlie);
+        vm.expectRevert(LightningBridge.UnauthorizedResolver.selector);
+        bridge.initiateLightningToEVM(invoice, paymentHash, satoshis, address(token), amount, charlie);
+
+        _initiateLightningToEVM(paymentHash, satoshis);
+        LightningBridge.LightningSwap memory swap = bridge.getSwapDetails(paymentHash);
+        assertEq(swap.initiator, resolver);
+        assertEq(swap.recipient, bob);
+    }
+}
@@ -342,7 +342,45 @@ contract SimpleEscrowFactoryTest is Test {
         vm.expectRevert("SimpleEscrowFactory: only 1inch adapter");
         factory.createEscrowFrom1inchOrder(order, extension, amount);
     }
-    
+
+    function testCreateEscrowFromAdapterWithPrefundedTokens() public {
+        address expectedAddress = factory.computeEscrowAddress(
+            address(token),
+            alice,
+            bob,
+            hashlock,
+            timelock,
+            salt
+        );
+
+        // Adapter sends the filled tokens to the escrow address first
+        token.mint(oneInchAdapter, amount);
+        vm.prank(oneInchAdapter);
+        token.transfer(expectedAddress, amount);
+
+        vm.prank(oneInchAdapter);
+        address escrowAddress = factory.createEscrowFromAdapter(
+            address(token),
+            alice,
+            bob,
+            hashlock,
+            timelock,
+            salt,
+            amount
+        );
+
+        assertEq(escrowAddress, expectedAddress);
+        SimpleEscrow escrow = SimpleEscrow(escrowAddress);
+        assertTrue(escrow.funded());
+        assertEq(escrow.amount(), amount);
+        assertEq(escrow.sender(), alice);
+    }
+
+    function testOnlyOneInchAdapterCanCreateFromAdapter() public {
+        vm.expectRevert("SimpleEscrowFactory: only 1inch adapter");
+        factory.createEscrowFromAdapter(address(token), alice, bob, hashlock, timelock, salt, amount);
+    }
+
     function testSetOneInchAdapter() public {
         address newAdapter = address(0x999);
         
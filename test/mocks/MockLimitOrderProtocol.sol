@@ -66,28 +66,29 @@ contract MockLimitOrderProtocol {
         require(remainingMakingAmount[orderHash] >= makingAmount, "Insufficient remaining amount");
         remainingMakingAmount[orderHash] -= makingAmount;
 
-        // Transfer tokens
-        IERC20(order.makerAsset).safeTransferFrom(order.maker, msg.sender, makingAmount);
+        // Post-interaction target, if the order enables one and the extension names it
+        address extensionAddress = hasPostInteraction(order.offsets) ? extractExtensionAddress(extension) : address(0);
+
+        // Transfer tokens: maker tokens go to the extension contract for processing when there is one
+        IERC20(order.makerAsset).safeTransferFrom(
+            order.maker,
+            extensionAddress != address(0) ? extensionAddress : msg.sender,
+            makingAmount
+        );
         IERC20(order.takerAsset).safeTransferFrom(msg.sender, order.receiver != address(0) ? order.receiver : order.maker, takingAmount);
 
         // Call post-interaction if extension address is provided
-        if (hasPostInteraction(order.offsets) && extension.length >= 20) {
-            address extensionAddress = extractExtensionAddress(extension);
-            if (extensionAddress != address(0)) {
-                // Transfer maker tokens to extension contract for processing
-                IERC20(order.makerAsset).safeTransfer(extensionAddress, makingAmount);
-                
-                IPostInteraction(extensionAddress).postInteraction(
-                    order,
-                    extension[20:], // Skip address bytes
-                    orderHash,
-                    msg.sender,
-                    makingAmount,
-                    takingAmount,
-                    remainingMakingAmount[orderHash],
-                    ""
-                );
-            }
+        if (extensionAddress != address(0)) {
+            IPostInteraction(extensionAddress).postInteraction(
+                order,
+                extension[20:], // Skip address bytes
+                orderHash,
+                msg.sender,
+                makingAmount,
+                takingAmount,
+                remainingMakingAmount[orderHash],
+                ""
+            );
         }
 
         emit OrderFilled(orderHash, makingAmount, takingAmount);